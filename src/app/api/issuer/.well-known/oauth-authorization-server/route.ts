@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { getAuthorizationServerMetadata } from '@/app/api/issuer/offers';
+
+// The issuer is its own authorization server
+export async function GET(request: Request) {
+  return NextResponse.json(getAuthorizationServerMetadata(new URL(request.url).origin));
+}
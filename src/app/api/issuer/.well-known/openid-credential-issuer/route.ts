@@ -0,0 +1,7 @@
+import { NextResponse } from 'next/server';
+import { getIssuerMetadata } from '@/app/api/issuer/offers';
+
+// Served appended to the issuer identifier, which the wallet falls back to
+export async function GET(request: Request) {
+  return NextResponse.json(getIssuerMetadata(new URL(request.url).origin));
+}
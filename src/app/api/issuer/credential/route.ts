@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { IssuerError, issueCredential } from '@/app/api/issuer/offers';
+
+interface CredentialRequest {
+  credential_configuration_id?: unknown;
+  proofs?: { jwt?: unknown[] };
+  // Before OID4VCI 1.0 a single proof was sent
+  proof?: { proof_type?: string; jwt?: unknown };
+}
+
+export async function POST(request: Request) {
+  const authorization = request.headers.get('authorization') ?? '';
+  const accessToken = authorization.toLowerCase().startsWith('bearer ') ? authorization.slice('bearer '.length).trim() : undefined;
+  const body = await request.json().catch(() => ({})) as CredentialRequest;
+  try {
+    const credential = await issueCredential(
+      new URL(request.url).origin,
+      accessToken,
+      body.credential_configuration_id,
+      body.proofs?.jwt?.[0] ?? body.proof?.jwt
+    );
+    return NextResponse.json({ credentials: [{ credential }] });
+  } catch (error) {
+    if (error instanceof IssuerError) {
+      return NextResponse.json({ error: error.error, error_description: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
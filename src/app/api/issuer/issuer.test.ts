@@ -0,0 +1,104 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { VerifiableCredential } from '@/types/credential';
+import { POST as createOffer } from '@/app/api/issuer/route';
+import { GET as fetchOffer } from '@/app/api/issuer/offers/[id]/route';
+import { POST as requestNonce } from '@/app/api/issuer/nonce/route';
+import { POST as requestToken } from '@/app/api/issuer/token/route';
+import { POST as requestCredential } from '@/app/api/issuer/credential/route';
+import { ed25519PublicKeyToDidKey } from '@/utils/holderKeyUtils';
+import { PRE_AUTHORIZED_CODE_GRANT } from '@/utils/oid4vciUtils';
+import { signCompactJws } from '@/utils/presentationUtils';
+import { SigningKey, verifyCredentialProof } from '@/utils/proofUtils';
+
+const ORIGIN = 'http://localhost:3000';
+const ISSUER = `${ORIGIN}/api/issuer`;
+const CONFIGURATION_ID = 'EmployeeCredential_ldp_vc';
+
+const post = (path: string, body: BodyInit, headers: Record<string, string> = {}) =>
+  new Request(`${ISSUER}${path}`, { method: 'POST', body, headers });
+
+const startIssuance = async (): Promise<{ preAuthorizedCode: string; txCode: string }> => {
+  const { credentialOffer, id, txCode } = await (await createOffer(post('', JSON.stringify({ configurations: [CONFIGURATION_ID] })))).json();
+  expect(new URL(credentialOffer).searchParams.get('credential_offer_uri')).toBe(`${ISSUER}/offers/${id}`);
+  const offer = await (await fetchOffer(new Request(`${ISSUER}/offers/${id}`), { params: Promise.resolve({ id }) })).json();
+  return { preAuthorizedCode: offer.grants[PRE_AUTHORIZED_CODE_GRANT]['pre-authorized_code'], txCode };
+};
+
+const tokenRequest = (preAuthorizedCode: string, txCode?: string) =>
+  post('/token', new URLSearchParams({
+    grant_type: PRE_AUTHORIZED_CODE_GRANT,
+    'pre-authorized_code': preAuthorizedCode,
+    ...(txCode !== undefined && { tx_code: txCode })
+  }));
+
+describe('OID4VCI pre-authorized code flow', () => {
+  let holder: SigningKey & { did: string };
+
+  const createProof = async (nonce: string) => signCompactJws(
+    { typ: 'openid4vci-proof+jwt', alg: 'EdDSA', kid: holder.verificationMethod },
+    { aud: ISSUER, iat: Math.floor(Date.now() / 1000), nonce },
+    holder
+  );
+
+  beforeAll(async () => {
+    const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+    const did = await ed25519PublicKeyToDidKey(keyPair.publicKey);
+    holder = { did, verificationMethod: `${did}#${did.slice('did:key:'.length)}`, algorithm: 'Ed25519', privateKey: keyPair.privateKey };
+  });
+
+  it('issues a credential bound to the key that proved possession', async () => {
+    const { preAuthorizedCode, txCode } = await startIssuance();
+    const token = await (await requestToken(tokenRequest(preAuthorizedCode, txCode))).json();
+    expect(token).toMatchObject({ token_type: 'Bearer', access_token: expect.any(String) });
+
+    const response = await requestCredential(post('/credential', JSON.stringify({
+      credential_configuration_id: CONFIGURATION_ID,
+      proofs: { jwt: [await createProof(token.c_nonce)] }
+    }), { Authorization: `Bearer ${token.access_token}` }));
+    expect(response.status).toBe(200);
+    const { credentials: [{ credential }] } = await response.json() as { credentials: Array<{ credential: VerifiableCredential }> };
+    expect(credential.credentialSubject.id).toBe(holder.did);
+    expect((await verifyCredentialProof(credential)).status).toBe('verified');
+
+    // The pre-authorized code only buys one access token
+    const replay = await requestToken(tokenRequest(preAuthorizedCode, txCode));
+    expect(replay.status).toBe(400);
+    expect(await replay.json()).toMatchObject({ error: 'invalid_grant' });
+  });
+
+  it('voids the offer after too many wrong transaction codes', async () => {
+    const { preAuthorizedCode, txCode } = await startIssuance();
+    const wrongCode = txCode === '000000' ? '111111' : '000000';
+
+    for (let attempt = 0; attempt < 3; attempt++) {
+      expect(await (await requestToken(tokenRequest(preAuthorizedCode, wrongCode))).json()).toMatchObject({ error: 'invalid_grant' });
+    }
+    expect(await (await requestToken(tokenRequest(preAuthorizedCode, txCode))).json()).toMatchObject({
+      error: 'invalid_grant',
+      error_description: 'Unknown, expired or already used pre-authorized code'
+    });
+  });
+
+  it('rejects a token request that is not form-encoded', async () => {
+    const response = await requestToken(post('/token', '{"grant_type": "x"}', { 'Content-Type': 'application/json' }));
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'invalid_request' });
+  });
+
+  it('rejects a credential request without a valid access token or fresh proof', async () => {
+    const { c_nonce: nonce } = await (await requestNonce()).json();
+    const withoutToken = await requestCredential(post('/credential', JSON.stringify({
+      credential_configuration_id: CONFIGURATION_ID,
+      proofs: { jwt: [await createProof(nonce)] }
+    })));
+    expect(withoutToken.status).toBe(401);
+
+    const { preAuthorizedCode, txCode } = await startIssuance();
+    const token = await (await requestToken(tokenRequest(preAuthorizedCode, txCode))).json();
+    const withUnknownNonce = await requestCredential(post('/credential', JSON.stringify({
+      credential_configuration_id: CONFIGURATION_ID,
+      proofs: { jwt: [await createProof('unknown-nonce')] }
+    }), { Authorization: `Bearer ${token.access_token}` }));
+    expect(await withUnknownNonce.json()).toMatchObject({ error: 'invalid_nonce' });
+  });
+});
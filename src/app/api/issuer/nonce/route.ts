@@ -0,0 +1,6 @@
+import { NextResponse } from 'next/server';
+import { createNonce } from '@/app/api/issuer/offers';
+
+export async function POST() {
+  return NextResponse.json({ c_nonce: createNonce() }, { headers: { 'Cache-Control': 'no-store' } });
+}
@@ -0,0 +1,283 @@
+import { CredentialConfiguration, CredentialIssuerMetadata, CredentialOffer } from '@/types/credential';
+import { CREDENTIALS_V1_CONTEXT, CREDENTIALS_V2_CONTEXT } from '@/utils/contextUtils';
+import { ResolvedVerificationKey, resolveVerificationMethod, importVerificationKey, getAssertionMethodId } from '@/utils/didUtils';
+import { ed25519PublicKeyToDidKey } from '@/utils/holderKeyUtils';
+import { JWS_KEY_ALGORITHMS, decodeJws } from '@/utils/jwtUtils';
+import { getJwsAlgorithm, signCompactJws } from '@/utils/presentationUtils';
+import { SigningKey, getSignatureAlgorithm, signWithDataIntegrity } from '@/utils/proofUtils';
+import { PRE_AUTHORIZED_CODE_GRANT } from '@/utils/oid4vciUtils';
+
+// A stand-in OID4VCI issuer for trying the wallet's issuance flow without external services: it
+// offers an employee credential, as JSON-LD and as a JWT, by pre-authorized code
+
+export interface IssuerOffer {
+  id: string;
+  preAuthorizedCode: string;
+  // Shown to whoever creates the offer, standing in for a code sent to the holder by email or SMS
+  txCode?: string;
+  failedTxCodeAttempts: number;
+  configurationIds: string[];
+  createdAt: number;
+  accessToken?: string;
+}
+
+// An OAuth error response from the token or credential endpoint
+export class IssuerError extends Error {
+  constructor(public error: string, description: string, public status = 400) {
+    super(description);
+  }
+}
+
+// Offers must be redeemed, and their access tokens used, within this time
+const OFFER_LIFETIME_MS = 10 * 60 * 1000;
+const NONCE_LIFETIME_MS = 5 * 60 * 1000;
+const TX_CODE_LENGTH = 6;
+// Wrong transaction codes an offer tolerates before it is voided, so the code cannot be guessed
+const MAX_TX_CODE_ATTEMPTS = 3;
+
+const EMPLOYEE_CREDENTIAL_TYPE = ['VerifiableCredential', 'EmployeeCredential'];
+const SCHEMA_ORG_VOCAB = { '@vocab': 'http://schema.org/' };
+const PROOF_TYPES = { jwt: { proof_signing_alg_values_supported: ['EdDSA', 'ES256', 'ES384'] } };
+
+// Proof keys must be self-describing, so a credential request never makes the issuer fetch a DID document
+const PROOF_KEY_DID_PATTERN = /^did:(key|jwk):/;
+
+export const ISSUER_CONFIGURATIONS: Record<string, CredentialConfiguration> = {
+  EmployeeCredential_ldp_vc: {
+    format: 'ldp_vc',
+    credential_definition: { '@context': [CREDENTIALS_V2_CONTEXT, SCHEMA_ORG_VOCAB], type: EMPLOYEE_CREDENTIAL_TYPE },
+    proof_types_supported: PROOF_TYPES,
+    display: [{ name: 'Employee credential', locale: 'en', description: 'Signed with a Data Integrity proof' }]
+  },
+  EmployeeCredential_jwt_vc_json: {
+    format: 'jwt_vc_json',
+    credential_definition: { type: EMPLOYEE_CREDENTIAL_TYPE },
+    proof_types_supported: PROOF_TYPES,
+    display: [{ name: 'Employee credential (JWT)', locale: 'en', description: 'Signed as a VC-JWT' }]
+  }
+};
+
+const EMPLOYEE_CLAIMS = {
+  type: 'Person',
+  givenName: 'Alex',
+  familyName: 'Rivera',
+  jobTitle: 'Software Engineer',
+  worksFor: { type: 'Organization', name: 'Example Corp' }
+};
+
+// Held in memory (on globalThis, since Next.js may bundle this module separately for each route)
+// and lost when the server restarts, along with the issuer key
+const store = globalThis as typeof globalThis & {
+  issuerOffers?: Map<string, IssuerOffer>;
+  issuerNonces?: Map<string, number>;
+  issuerKey?: Promise<SigningKey & { did: string }>;
+};
+const offers = (store.issuerOffers ??= new Map<string, IssuerOffer>());
+const nonces = (store.issuerNonces ??= new Map<string, number>());
+
+const getIssuerKey = () => (store.issuerKey ??= (async () => {
+  const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  const did = await ed25519PublicKeyToDidKey(keyPair.publicKey);
+  return { did, verificationMethod: await getAssertionMethodId(did), algorithm: 'Ed25519' as const, privateKey: keyPair.privateKey };
+})());
+
+export const getIssuerIdentifier = (origin: string) => `${origin}/api/issuer`;
+
+export const getIssuerMetadata = (origin: string): CredentialIssuerMetadata => ({
+  credential_issuer: getIssuerIdentifier(origin),
+  credential_endpoint: `${origin}/api/issuer/credential`,
+  nonce_endpoint: `${origin}/api/issuer/nonce`,
+  display: [{ name: 'Local test issuer', locale: 'en' }],
+  credential_configurations_supported: ISSUER_CONFIGURATIONS
+});
+
+export const getAuthorizationServerMetadata = (origin: string): Record<string, unknown> => ({
+  issuer: getIssuerIdentifier(origin),
+  token_endpoint: `${origin}/api/issuer/token`,
+  grant_types_supported: [PRE_AUTHORIZED_CODE_GRANT],
+  'pre-authorized_grant_anonymous_access_supported': true
+});
+
+// Bytes from 250 up are discarded, so every digit is equally likely
+const createTxCode = () => {
+  let code = '';
+  while (code.length < TX_CODE_LENGTH) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(TX_CODE_LENGTH))) {
+      if (byte < 250 && code.length < TX_CODE_LENGTH) code += String(byte % 10);
+    }
+  }
+  return code;
+};
+
+export const createOffer = (configurationIds: string[], withTxCode: boolean): IssuerOffer => {
+  const offer: IssuerOffer = {
+    id: crypto.randomUUID(),
+    preAuthorizedCode: crypto.randomUUID(),
+    ...(withTxCode && { txCode: createTxCode() }),
+    failedTxCodeAttempts: 0,
+    configurationIds,
+    createdAt: Date.now()
+  };
+  offers.set(offer.id, offer);
+  return offer;
+};
+
+const isExpired = (offer: IssuerOffer) => Date.now() - offer.createdAt > OFFER_LIFETIME_MS;
+
+export const getOffer = (id: string): IssuerOffer | undefined => {
+  const offer = offers.get(id);
+  if (offer && isExpired(offer)) {
+    offers.delete(id);
+    return undefined;
+  }
+  return offer;
+};
+
+// The credential offer the wallet fetches from the credential_offer_uri
+export const getCredentialOffer = (offer: IssuerOffer, origin: string): CredentialOffer => ({
+  credential_issuer: getIssuerIdentifier(origin),
+  credential_configuration_ids: offer.configurationIds,
+  grants: {
+    [PRE_AUTHORIZED_CODE_GRANT]: {
+      'pre-authorized_code': offer.preAuthorizedCode,
+      ...(offer.txCode && {
+        tx_code: { input_mode: 'numeric', length: TX_CODE_LENGTH, description: 'The code shown by the local test issuer' }
+      })
+    }
+  }
+});
+
+// Each pre-authorized code buys one access token, and too many wrong transaction codes void the offer
+export const redeemPreAuthorizedCode = (code: string, txCode: string | undefined): IssuerOffer => {
+  const offer = [...offers.values()].find(candidate => candidate.preAuthorizedCode === code && !isExpired(candidate));
+  if (!offer || offer.accessToken) {
+    throw new IssuerError('invalid_grant', 'Unknown, expired or already used pre-authorized code');
+  }
+  if (offer.txCode && offer.txCode !== txCode) {
+    const failedTxCodeAttempts = offer.failedTxCodeAttempts + 1;
+    if (failedTxCodeAttempts >= MAX_TX_CODE_ATTEMPTS) {
+      offers.delete(offer.id);
+      throw new IssuerError('invalid_grant', 'Transaction code does not match, and the offer is void after too many attempts');
+    }
+    offers.set(offer.id, { ...offer, failedTxCodeAttempts });
+    throw new IssuerError('invalid_grant', 'Transaction code does not match');
+  }
+  const redeemed = { ...offer, accessToken: crypto.randomUUID() };
+  offers.set(offer.id, redeemed);
+  return redeemed;
+};
+
+export const createNonce = (): string => {
+  const nonce = crypto.randomUUID();
+  nonces.set(nonce, Date.now());
+  return nonce;
+};
+
+const isNonceValid = (nonce: unknown): nonce is string => {
+  const createdAt = typeof nonce === 'string' ? nonces.get(nonce) : undefined;
+  return createdAt !== undefined && Date.now() - createdAt <= NONCE_LIFETIME_MS;
+};
+
+// Nonces are single use
+const consumeNonce = (nonce: unknown): boolean => {
+  if (!isNonceValid(nonce)) return false;
+  nonces.delete(nonce);
+  return true;
+};
+
+// Check the wallet's proof of possession and return the DID of the key it was made with
+const verifyProofJwt = async (jwt: string, origin: string): Promise<string> => {
+  let jws: ReturnType<typeof decodeJws>;
+  try {
+    jws = decodeJws(jwt);
+  } catch (error) {
+    throw new IssuerError('invalid_proof', `Proof is not a JWT: ${error instanceof Error ? error.message : error}`);
+  }
+  if (jws.header.typ !== 'openid4vci-proof+jwt') {
+    throw new IssuerError('invalid_proof', 'Proof JWT must be typed openid4vci-proof+jwt');
+  }
+  // Cheap checks first, so only a proof made for this request gets as far as resolving its key
+  if (jws.payload.aud !== getIssuerIdentifier(origin)) {
+    throw new IssuerError('invalid_proof', 'Proof is addressed to another issuer');
+  }
+  if (!isNonceValid(jws.payload.nonce)) {
+    throw new IssuerError('invalid_nonce', 'Proof nonce is missing, expired or already used');
+  }
+  const kid = String(jws.header.kid);
+  if (!PROOF_KEY_DID_PATTERN.test(kid)) {
+    throw new IssuerError('invalid_proof', 'Proof key must be a did:key or did:jwk');
+  }
+
+  let key: ResolvedVerificationKey;
+  try {
+    key = await resolveVerificationMethod(kid, 'authentication');
+  } catch (error) {
+    throw new IssuerError('invalid_proof', error instanceof Error ? error.message : String(error));
+  }
+  if (JWS_KEY_ALGORITHMS[String(jws.header.alg)] !== key.algorithm) {
+    throw new IssuerError('invalid_proof', `Proof alg ${jws.header.alg} does not match the ${key.algorithm} key`);
+  }
+  const isValid = await crypto.subtle.verify(getSignatureAlgorithm(key.algorithm), await importVerificationKey(key), jws.signature, jws.signingInput);
+  if (!isValid) {
+    throw new IssuerError('invalid_proof', 'Proof signature does not match its contents');
+  }
+  if (!consumeNonce(jws.payload.nonce)) {
+    throw new IssuerError('invalid_nonce', 'Proof nonce is missing, expired or already used');
+  }
+  return key.controller;
+};
+
+const mintCredential = async (configurationId: string, holderDid: string): Promise<unknown> => {
+  const issuerKey = await getIssuerKey();
+  const now = Date.now();
+  const validUntil = new Date(now + 365 * 24 * 60 * 60 * 1000);
+  const id = `urn:uuid:${crypto.randomUUID()}`;
+  const credentialSubject = { id: holderDid, ...EMPLOYEE_CLAIMS };
+
+  if (ISSUER_CONFIGURATIONS[configurationId].format === 'jwt_vc_json') {
+    const issuedAt = Math.floor(now / 1000);
+    return signCompactJws(
+      { alg: getJwsAlgorithm(issuerKey), typ: 'JWT', kid: issuerKey.verificationMethod },
+      {
+        iss: issuerKey.did,
+        sub: holderDid,
+        jti: id,
+        iat: issuedAt,
+        nbf: issuedAt,
+        exp: Math.floor(validUntil.getTime() / 1000),
+        vc: { '@context': [CREDENTIALS_V1_CONTEXT, SCHEMA_ORG_VOCAB], type: EMPLOYEE_CREDENTIAL_TYPE, credentialSubject }
+      },
+      issuerKey
+    );
+  }
+
+  return signWithDataIntegrity({
+    '@context': [CREDENTIALS_V2_CONTEXT, SCHEMA_ORG_VOCAB],
+    id,
+    type: EMPLOYEE_CREDENTIAL_TYPE,
+    issuer: issuerKey.did,
+    validFrom: new Date(now).toISOString(),
+    validUntil: validUntil.toISOString(),
+    credentialSubject
+  }, issuerKey);
+};
+
+// Issue one of the offered credentials to the access token's holder, bound to the key in their proof
+export const issueCredential = async (
+  origin: string,
+  accessToken: string | undefined,
+  configurationId: unknown,
+  proofJwt: unknown
+): Promise<unknown> => {
+  const offer = [...offers.values()].find(candidate => accessToken && candidate.accessToken === accessToken && !isExpired(candidate));
+  if (!offer) {
+    throw new IssuerError('invalid_token', 'Unknown or expired access token', 401);
+  }
+  if (typeof configurationId !== 'string' || !offer.configurationIds.includes(configurationId)) {
+    throw new IssuerError('invalid_credential_request', `${configurationId} was not offered`);
+  }
+  if (typeof proofJwt !== 'string') {
+    throw new IssuerError('invalid_proof', 'Credential request must carry a jwt proof');
+  }
+  return mintCredential(configurationId, await verifyProofJwt(proofJwt, origin));
+};
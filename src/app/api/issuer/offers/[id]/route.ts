@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { getOffer, getCredentialOffer } from '@/app/api/issuer/offers';
+
+export async function GET(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const offer = getOffer((await params).id);
+  if (!offer) {
+    return NextResponse.json({ error: 'not_found', error_description: 'Unknown or expired offer' }, { status: 404 });
+  }
+  return NextResponse.json(getCredentialOffer(offer, new URL(request.url).origin));
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { ISSUER_CONFIGURATIONS, createOffer } from '@/app/api/issuer/offers';
+
+// Start an issuance: returns the openid-credential-offer:// link to hand to the wallet, which fetches
+// the offer by reference, and the transaction code the holder must enter (if one was asked for)
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({})) as { configurations?: string[]; txCode?: boolean };
+  const origin = new URL(request.url).origin;
+  const configurationIds = (body.configurations ?? Object.keys(ISSUER_CONFIGURATIONS)).filter(id => id in ISSUER_CONFIGURATIONS);
+  if (configurationIds.length === 0) {
+    return NextResponse.json({ error: 'invalid_request', error_description: 'No known credential configuration was asked for' }, { status: 400 });
+  }
+  const offer = createOffer(configurationIds, body.txCode !== false);
+
+  const credentialOffer = new URL('openid-credential-offer://');
+  credentialOffer.searchParams.set('credential_offer_uri', `${origin}/api/issuer/offers/${offer.id}`);
+  return NextResponse.json({ id: offer.id, credentialOffer: credentialOffer.toString(), txCode: offer.txCode });
+}
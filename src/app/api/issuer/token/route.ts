@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { IssuerError, createNonce, redeemPreAuthorizedCode } from '@/app/api/issuer/offers';
+import { PRE_AUTHORIZED_CODE_GRANT } from '@/utils/oid4vciUtils';
+
+export async function POST(request: Request) {
+  const form = await request.formData().catch(() => null);
+  if (!form) {
+    return NextResponse.json({ error: 'invalid_request', error_description: 'Body must be application/x-www-form-urlencoded' }, { status: 400 });
+  }
+  if (form.get('grant_type') !== PRE_AUTHORIZED_CODE_GRANT) {
+    return NextResponse.json({ error: 'unsupported_grant_type', error_description: 'Only the pre-authorized code grant is supported' }, { status: 400 });
+  }
+  try {
+    const txCode = form.get('tx_code');
+    const offer = redeemPreAuthorizedCode(String(form.get('pre-authorized_code') ?? ''), txCode === null ? undefined : String(txCode));
+    return NextResponse.json(
+      { access_token: offer.accessToken, token_type: 'Bearer', expires_in: 600, c_nonce: createNonce() },
+      { headers: { 'Cache-Control': 'no-store' } }
+    );
+  } catch (error) {
+    if (error instanceof IssuerError) {
+      return NextResponse.json({ error: error.error, error_description: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
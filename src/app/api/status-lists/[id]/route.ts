@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { VerifiableCredential } from '@/types/credential';
+import { StatusListError, getPublishedStatusList, publishStatusList } from '@/app/api/status-lists/lists';
+
+const getListUrl = (request: Request) => {
+  const { origin, pathname } = new URL(request.url);
+  return `${origin}${pathname}`;
+};
+
+export async function GET(request: Request) {
+  const credential = getPublishedStatusList(getListUrl(request));
+  if (!credential) {
+    return NextResponse.json({ error: 'not_found', error_description: 'Unknown status list' }, { status: 404 });
+  }
+  return NextResponse.json(credential, { headers: { 'Cache-Control': 'no-store' } });
+}
+
+export async function PUT(request: Request) {
+  const credential = await request.json().catch(() => null) as VerifiableCredential | null;
+  if (!credential) {
+    return NextResponse.json({ error: 'invalid_request', error_description: 'Body must be a status list credential' }, { status: 400 });
+  }
+  try {
+    await publishStatusList(getListUrl(request), credential);
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    if (error instanceof StatusListError) {
+      return NextResponse.json({ error: 'invalid_request', error_description: error.message }, { status: error.status });
+    }
+    throw error;
+  }
+}
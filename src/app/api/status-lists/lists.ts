@@ -0,0 +1,51 @@
+import { VerifiableCredential } from '@/types/credential';
+import { getIssuerId } from '@/utils/issuerUtils';
+import { verifyCredentialProof } from '@/utils/proofUtils';
+
+// Where the wallet publishes the status lists of the credentials it derives, so verifiers can fetch them
+// from the URL in each status entry. Lists live in the browser; this only serves the latest signed copy.
+
+const STATUS_LIST_CREDENTIAL_TYPES = ['BitstringStatusListCredential', 'StatusList2021Credential'];
+
+export class StatusListError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+  }
+}
+
+// Held in memory (on globalThis, since Next.js may bundle this module separately for each route)
+// and lost when the server restarts; the wallet publishes its lists again whenever they change
+const store = globalThis as typeof globalThis & { publishedStatusLists?: Map<string, VerifiableCredential> };
+const lists = (store.publishedStatusLists ??= new Map<string, VerifiableCredential>());
+
+export const getPublishedStatusList = (url: string): VerifiableCredential | undefined => lists.get(url);
+
+const getIssuedAt = (credential: VerifiableCredential): number =>
+  Date.parse(String(credential.validFrom ?? credential.issuanceDate));
+
+// Accept a signed list for its own URL. Once a list is published, only its issuer can replace it, and
+// only with a copy issued later, so an older copy cannot be put back to lift a revocation.
+export const publishStatusList = async (url: string, credential: VerifiableCredential): Promise<void> => {
+  const types = Array.isArray(credential?.type) ? credential.type : [credential?.type];
+  if (!types.some(type => STATUS_LIST_CREDENTIAL_TYPES.includes(type as string))) {
+    throw new StatusListError('Not a status list credential');
+  }
+  if (credential.id !== url) {
+    throw new StatusListError(`Status list credential id must be ${url}`);
+  }
+  const proof = await verifyCredentialProof(credential);
+  if (proof.status !== 'verified') {
+    throw new StatusListError(`Status list credential could not be verified: ${proof.message}`);
+  }
+  if (Number.isNaN(getIssuedAt(credential))) {
+    throw new StatusListError('Status list credential has no validFrom or issuanceDate');
+  }
+  const published = lists.get(url);
+  if (published && getIssuerId(published.issuer) !== getIssuerId(credential.issuer)) {
+    throw new StatusListError('Status list was published by another issuer', 403);
+  }
+  if (published && getIssuedAt(credential) <= getIssuedAt(published)) {
+    throw new StatusListError('Status list is not newer than the published copy', 409);
+  }
+  lists.set(url, credential);
+};
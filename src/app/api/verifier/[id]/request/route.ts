@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { encodeBase64url, utf8Encode } from '@/utils/encodingUtils';
+import { getRequestObject, getTransaction } from '@/app/api/verifier/transactions';
+
+const encodeSegment = (value: Record<string, unknown>) => encodeBase64url(utf8Encode(JSON.stringify(value)));
+
+// The request object, as an unsecured JWT: redirect_uri clients do not sign their requests
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const transaction = getTransaction((await params).id);
+  if (!transaction) {
+    return NextResponse.json({ error: 'invalid_request_uri', error_description: 'Unknown or expired transaction' }, { status: 404 });
+  }
+
+  const jwt = `${encodeSegment({ alg: 'none', typ: 'oauth-authz-req+jwt' })}.${encodeSegment(getRequestObject(transaction))}.`;
+  return new NextResponse(jwt, { headers: { 'Content-Type': 'application/oauth-authz-req+jwt' } });
+}
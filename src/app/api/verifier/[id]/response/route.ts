@@ -0,0 +1,89 @@
+import { NextResponse } from 'next/server';
+import { VerifiablePresentation } from '@/types/credential';
+import { verifyPresentation } from '@/utils/presentationUtils';
+import { VerifierTransaction, getTransaction, updateTransaction } from '@/app/api/verifier/transactions';
+
+type Presentation = VerifiablePresentation | string;
+
+const invalidRequest = (description: string) =>
+  NextResponse.json({ error: 'invalid_request', error_description: description }, { status: 400 });
+
+// JSON-LD presentations arrive as JSON text, JWT presentations as they are
+const readPresentation = (value: unknown): Presentation =>
+  typeof value === 'string' && value.trim().startsWith('{') ? JSON.parse(value) as VerifiablePresentation : value as Presentation;
+
+// The presentations in a vp_token, checking they answer every part of the query; the stub does not
+// check the presented credentials' contents against the query
+const readVpToken = (
+  transaction: VerifierTransaction,
+  vpToken: string,
+  submission: string | null
+): Presentation[] => {
+  if (transaction.presentationDefinition) {
+    const parsedSubmission = submission
+      ? (JSON.parse(submission) as { definition_id?: string; descriptor_map?: Array<{ id: string }> })
+      : undefined;
+    if (parsedSubmission?.definition_id !== transaction.presentationDefinition.id) {
+      throw new Error('presentation_submission does not refer to the presentation definition');
+    }
+    const missing = transaction.presentationDefinition.input_descriptors
+      .filter(descriptor => !parsedSubmission.descriptor_map?.some(entry => entry.id === descriptor.id));
+    if (missing.length > 0) {
+      throw new Error(`No presentation for ${missing.map(descriptor => descriptor.id).join(', ')}`);
+    }
+    return [readPresentation(vpToken)];
+  }
+
+  const byQuery = JSON.parse(vpToken) as Record<string, unknown[]>;
+  const missing = (transaction.dcqlQuery?.credentials || []).filter(query => !Array.isArray(byQuery[query.id]) || byQuery[query.id].length === 0);
+  if (missing.length > 0) {
+    throw new Error(`No presentation for ${missing.map(query => query.id).join(', ')}`);
+  }
+  return Object.values(byQuery).flat().map(readPresentation);
+};
+
+// The wallet's direct_post response: verify each presentation against this transaction's nonce and client_id
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const transaction = getTransaction((await params).id);
+  if (!transaction) {
+    return invalidRequest('Unknown or expired transaction');
+  }
+  const form = await request.formData().catch(() => null);
+  if (!form) {
+    return invalidRequest('Body must be application/x-www-form-urlencoded');
+  }
+  if (form.get('state') !== transaction.state) {
+    return invalidRequest('state does not match the request');
+  }
+  if (transaction.status !== 'pending') {
+    return invalidRequest('This request has already been answered');
+  }
+
+  if (form.get('error')) {
+    updateTransaction(transaction.id, { status: 'declined', message: String(form.get('error_description') ?? form.get('error')) });
+    return NextResponse.json({});
+  }
+
+  const vpToken = form.get('vp_token');
+  if (typeof vpToken !== 'string') {
+    return invalidRequest('vp_token is missing');
+  }
+  let presentations: Presentation[];
+  try {
+    const submission = form.get('presentation_submission');
+    presentations = readVpToken(transaction, vpToken, typeof submission === 'string' ? submission : null);
+  } catch (error) {
+    updateTransaction(transaction.id, { status: 'rejected', message: error instanceof Error ? error.message : 'Malformed vp_token' });
+    return invalidRequest(error instanceof Error ? error.message : 'Malformed vp_token');
+  }
+
+  const results = await Promise.all(presentations.map(presentation =>
+    verifyPresentation(presentation, { challenge: transaction.nonce, domain: transaction.clientId })));
+  const failed = results.find(result => result.status !== 'verified');
+  updateTransaction(transaction.id, {
+    status: failed ? 'rejected' : 'verified',
+    message: failed ? failed.message : `${results.length} presentation${results.length !== 1 ? 's' : ''} verified`,
+    results
+  });
+  return NextResponse.json({});
+}
@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { getTransaction } from '@/app/api/verifier/transactions';
+
+// The outcome of a verification, for the page that started it
+export async function GET(_request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const transaction = getTransaction((await params).id);
+  if (!transaction) {
+    return NextResponse.json({ error: 'not_found', error_description: 'Unknown or expired transaction' }, { status: 404 });
+  }
+  const { status, message, results } = transaction;
+  return NextResponse.json({ status, message, results });
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { VerifierQueryLanguage, createTransaction } from '@/app/api/verifier/transactions';
+
+// Start a verification: returns the openid4vp:// link to hand to the wallet, which fetches the
+// request object by reference
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({})) as { query?: VerifierQueryLanguage };
+  const origin = new URL(request.url).origin;
+  const transaction = createTransaction(origin, body.query === 'dcql' ? 'dcql' : 'presentation-exchange');
+
+  const authorizationRequest = new URL('openid4vp://');
+  authorizationRequest.searchParams.set('client_id', transaction.clientId);
+  authorizationRequest.searchParams.set('request_uri', `${origin}/api/verifier/${transaction.id}/request`);
+  return NextResponse.json({ id: transaction.id, authorizationRequest: authorizationRequest.toString() });
+}
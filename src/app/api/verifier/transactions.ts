@@ -0,0 +1,104 @@
+import { PresentationDefinition, DcqlQuery, PresentationVerificationResult } from '@/types/credential';
+
+// A stand-in OID4VP verifier for trying the wallet's presentation flow without external services:
+// it asks for proof of employment, by presentation definition or DCQL query
+
+export type VerifierQueryLanguage = 'presentation-exchange' | 'dcql';
+
+export type VerifierTransactionStatus = 'pending' | 'verified' | 'rejected' | 'declined';
+
+export interface VerifierTransaction {
+  id: string;
+  nonce: string;
+  state: string;
+  clientId: string;
+  responseUri: string;
+  presentationDefinition?: PresentationDefinition;
+  dcqlQuery?: DcqlQuery;
+  createdAt: number;
+  status: VerifierTransactionStatus;
+  message?: string;
+  results?: PresentationVerificationResult[];
+}
+
+// Same as the lifetime of the presentations the wallet makes
+const TRANSACTION_LIFETIME_MS = 10 * 60 * 1000;
+
+const EMPLOYMENT_DEFINITION: PresentationDefinition = {
+  id: 'employment',
+  name: 'Proof of employment',
+  purpose: 'The local test verifier checks who you work for and your job title',
+  input_descriptors: [{
+    id: 'employee',
+    name: 'Employee credential',
+    format: { ldp_vc: { proof_type: ['DataIntegrityProof', 'Ed25519Signature2020'] }, jwt_vc_json: { alg: ['EdDSA', 'ES256'] } },
+    constraints: {
+      fields: [
+        { path: ['$.type', '$.vc.type'], filter: { type: 'array', contains: { const: 'EmployeeCredential' } } },
+        { path: ['$.credentialSubject.worksFor', '$.vc.credentialSubject.worksFor'] },
+        { path: ['$.credentialSubject.jobTitle', '$.vc.credentialSubject.jobTitle'], filter: { type: 'string' } }
+      ]
+    }
+  }]
+};
+
+const EMPLOYMENT_DCQL_QUERY: DcqlQuery = {
+  credentials: [{
+    id: 'employee',
+    format: 'ldp_vc',
+    meta: { type_values: [['http://schema.org/EmployeeCredential']] },
+    claims: [{ path: ['credentialSubject', 'worksFor'] }, { path: ['credentialSubject', 'jobTitle'] }]
+  }]
+};
+
+// Held in memory (on globalThis, since Next.js may bundle this module separately for each route)
+// and lost when the server restarts
+const store = globalThis as typeof globalThis & { verifierTransactions?: Map<string, VerifierTransaction> };
+const transactions = (store.verifierTransactions ??= new Map<string, VerifierTransaction>());
+
+export const createTransaction = (origin: string, language: VerifierQueryLanguage): VerifierTransaction => {
+  const id = crypto.randomUUID();
+  const responseUri = `${origin}/api/verifier/${id}/response`;
+  const transaction: VerifierTransaction = {
+    id,
+    nonce: crypto.randomUUID(),
+    state: crypto.randomUUID(),
+    // The response URI identifies the stub, which has no key to sign its requests with
+    clientId: `redirect_uri:${responseUri}`,
+    responseUri,
+    ...(language === 'dcql' ? { dcqlQuery: EMPLOYMENT_DCQL_QUERY } : { presentationDefinition: EMPLOYMENT_DEFINITION }),
+    createdAt: Date.now(),
+    status: 'pending'
+  };
+  transactions.set(id, transaction);
+  return transaction;
+};
+
+export const getTransaction = (id: string): VerifierTransaction | undefined => {
+  const transaction = transactions.get(id);
+  if (transaction && Date.now() - transaction.createdAt > TRANSACTION_LIFETIME_MS) {
+    transactions.delete(id);
+    return undefined;
+  }
+  return transaction;
+};
+
+export const updateTransaction = (id: string, update: Pick<VerifierTransaction, 'status' | 'message' | 'results'>) => {
+  const transaction = getTransaction(id);
+  if (transaction) {
+    transactions.set(id, { ...transaction, ...update });
+  }
+};
+
+// The request object the wallet fetches from the request_uri
+export const getRequestObject = (transaction: VerifierTransaction): Record<string, unknown> => ({
+  client_id: transaction.clientId,
+  response_type: 'vp_token',
+  response_mode: 'direct_post',
+  response_uri: transaction.responseUri,
+  nonce: transaction.nonce,
+  state: transaction.state,
+  ...(transaction.presentationDefinition && { presentation_definition: transaction.presentationDefinition }),
+  ...(transaction.dcqlQuery && { dcql_query: transaction.dcqlQuery }),
+  client_metadata: { vp_formats: { ldp_vp: { proof_type: ['DataIntegrityProof'] }, jwt_vp_json: { alg: ['EdDSA'] } } }
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { POST as startVerification } from '@/app/api/verifier/route';
+import { POST as postResponse } from '@/app/api/verifier/[id]/response/route';
+import { getTransaction } from '@/app/api/verifier/transactions';
+
+const ORIGIN = 'http://localhost:3000';
+
+describe('verifier direct_post response', () => {
+  const respond = async (body: BodyInit, headers: Record<string, string> = {}) => {
+    const { id } = await (await startVerification(new Request(`${ORIGIN}/api/verifier`, { method: 'POST', body: '{}' }))).json();
+    const response = await postResponse(
+      new Request(`${ORIGIN}/api/verifier/${id}/response`, { method: 'POST', body, headers }),
+      { params: Promise.resolve({ id }) }
+    );
+    return { response, transaction: getTransaction(id) };
+  };
+
+  it('rejects a body that is not form-encoded, leaving the request open', async () => {
+    const { response, transaction } = await respond('{"vp_token": "x"}', { 'Content-Type': 'application/json' });
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ error: 'invalid_request' });
+    expect(transaction?.status).toBe('pending');
+  });
+
+  it('rejects a response for another request', async () => {
+    const { response } = await respond(new URLSearchParams({ state: 'other-state', vp_token: 'x' }));
+    expect(await response.json()).toMatchObject({ error: 'invalid_request', error_description: 'state does not match the request' });
+  });
+});
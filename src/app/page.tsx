@@ -1,49 +1,297 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { WalletHeader } from '@/components/WalletHeader';
 import { CredentialList } from '@/components/CredentialList';
 import { CredentialUpload } from '@/components/CredentialUpload';
 import { CredentialViewer } from '@/components/CredentialViewer';
 import { SPARQLQueryInterface } from '@/components/SPARQLQueryInterface';
-import { VerifiableCredential } from '@/types/credential';
+import { ContextManager } from '@/components/ContextManager';
+import { ShapeManager } from '@/components/ShapeManager';
+import { TrustManager } from '@/components/TrustManager';
+import { PresentationBuilder } from '@/components/PresentationBuilder';
+import { PresentationRequestHandler } from '@/components/PresentationRequestHandler';
+import { VerifiableCredential, ProofVerificationResult, StatusCheckResult, DependencyGraph, RequestQuerySource, IssuerName, TrustList } from '@/types/credential';
+import { verifyCredentialProof } from '@/utils/proofUtils';
+import { checkCredentialStatus, getWalletStatusEntry, setWalletCredentialRevoked } from '@/utils/statusListUtils';
+import { buildDependencyGraph } from '@/utils/lineageUtils';
+import { getHolderKey, forgetHolderKey } from '@/utils/holderKeyUtils';
+import { getIssuerId, getIssuerName, resolveIssuerName } from '@/utils/issuerUtils';
+import { loadTrustLists } from '@/utils/trustUtils';
+import {
+  VaultState,
+  getCredentialRepository,
+  cachedNQuadsSource,
+  getVaultState,
+  initializeVault,
+  unlockVault,
+  lockVault,
+  changeVaultPassphrase
+} from '@/utils/credentialRepository';
+import { loadCredentialDataset, rederiveCredential } from '@/utils/credentialUtils';
+import { removeCredentialGraph, clearCredentialGraphs } from '@/utils/quadStore';
+
+// Lock the wallet after this long without user activity
+const AUTO_LOCK_MS = 5 * 60 * 1000;
+const ACTIVITY_EVENTS = ['mousemove', 'keydown', 'click', 'scroll', 'touchstart'] as const;
 
 export default function Home() {
   const [credentials, setCredentials] = useState<VerifiableCredential[]>([]);
   const [selectedCredential, setSelectedCredential] = useState<VerifiableCredential | null>(null);
   const [activeTab, setActiveTab] = useState<'wallet' | 'sparql'>('wallet');
   const [showWarningBanner, setShowWarningBanner] = useState(true);
+  const [verificationResults, setVerificationResults] = useState<Record<string, ProofVerificationResult>>({});
+  const [statusResults, setStatusResults] = useState<Record<string, StatusCheckResult>>({});
+  const [issuerNames, setIssuerNames] = useState<Record<string, IssuerName>>({});
+  const [trustLists, setTrustLists] = useState<TrustList[]>([]);
+  const [dependencyGraph, setDependencyGraph] = useState<DependencyGraph | undefined>();
+  const [presentationSelection, setPresentationSelection] = useState<Set<string>>(new Set());
+  // A verifier request to compile into the SPARQL editor
+  const [requestQuerySource, setRequestQuerySource] = useState<RequestQuerySource | null>(null);
+  const [holderDid, setHolderDid] = useState<string | undefined>();
+  const [vaultState, setVaultState] = useState<VaultState | undefined>();
+
+  useEffect(() => {
+    getVaultState()
+      .then(setVaultState)
+      .catch(error => console.error('Error opening the wallet:', error));
+  }, []);
 
   useEffect(() => {
-    // Load credentials from localStorage on component mount
-    const savedCredentials = localStorage.getItem('wallet-credentials');
-    if (savedCredentials) {
-      try {
-        setCredentials(JSON.parse(savedCredentials));
-      } catch (error) {
-        console.error('Error loading credentials:', error);
-      }
+    // Credentials can only be decrypted once the wallet is unlocked
+    if (vaultState !== 'unlocked') return;
+    getCredentialRepository()
+      .then(repository => repository.list())
+      .then(setCredentials)
+      .catch(error => console.error('Error loading credentials:', error));
+  }, [vaultState]);
+
+  const handleUnlock = async (passphrase: string) => {
+    if (vaultState === 'uninitialized') {
+      await initializeVault(passphrase);
+    } else {
+      await unlockVault(passphrase);
     }
+    setVaultState('unlocked');
+  };
+
+  // Drop the wallet key and every decrypted credential held in memory
+  const handleLock = useCallback(() => {
+    lockVault();
+    forgetHolderKey();
+    clearCredentialGraphs();
+    setVaultState('locked');
+    setCredentials([]);
+    setSelectedCredential(null);
+    setVerificationResults({});
+    setStatusResults({});
+    setDependencyGraph(undefined);
+    setPresentationSelection(new Set());
   }, []);
 
-  const saveCredentials = (newCredentials: VerifiableCredential[]) => {
-    setCredentials(newCredentials);
-    localStorage.setItem('wallet-credentials', JSON.stringify(newCredentials));
+  useEffect(() => {
+    if (vaultState !== 'unlocked') return;
+
+    let timer = setTimeout(handleLock, AUTO_LOCK_MS);
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(handleLock, AUTO_LOCK_MS);
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [vaultState, handleLock]);
+
+  useEffect(() => {
+    setTrustLists(loadTrustLists());
+  }, []);
+
+  useEffect(() => {
+    // Create (or load) the holder key used to sign derived credentials; it is sealed in the vault
+    if (vaultState !== 'unlocked') return;
+    getHolderKey()
+      .then(key => setHolderDid(key.did))
+      .catch(error => console.error('Failed to initialize holder key:', error));
+  }, [vaultState]);
+
+  // Keep the shared quad store in step with the wallet so queries and previews find credentials already converted
+  useEffect(() => {
+    loadCredentialDataset(credentials, cachedNQuadsSource)
+      .catch(error => console.error('Error loading credentials into the quad store:', error));
+  }, [credentials]);
+
+  // Verify proofs for any credential that has not been checked yet (including newly imported ones)
+  useEffect(() => {
+    const unverified = credentials.filter(credential => !verificationResults[credential.id]);
+    if (unverified.length === 0) return;
+
+    let cancelled = false;
+    // A credential whose verification throws gets an error result, so the rest of the batch still shows
+    Promise.all(unverified.map(async credential => {
+      const result = await verifyCredentialProof(credential).catch((error): ProofVerificationResult => ({
+        status: 'error',
+        message: `Verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }));
+      return [credential.id, result] as const;
+    }))
+      .then(results => {
+        if (!cancelled) {
+          setVerificationResults(prev => ({ ...prev, ...Object.fromEntries(results) }));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [credentials, verificationResults]);
+
+  // Check revocation and suspension status the same way, once per credential per session
+  useEffect(() => {
+    const unchecked = credentials.filter(credential => !statusResults[credential.id]);
+    if (unchecked.length === 0) return;
+
+    let cancelled = false;
+    Promise.all(unchecked.map(async credential => {
+      const result = await checkCredentialStatus(credential).catch((error): StatusCheckResult => ({
+        state: 'unknown',
+        message: `Status check failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      }));
+      return [credential.id, result] as const;
+    }))
+      .then(results => {
+        if (!cancelled) {
+          setStatusResults(prev => ({ ...prev, ...Object.fromEntries(results) }));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [credentials, statusResults]);
+
+  // Name issuers from their DID documents, once per issuer per session
+  useEffect(() => {
+    const unresolved = [...new Map(credentials
+      .filter(credential => !issuerNames[getIssuerId(credential.issuer)])
+      .map(credential => [getIssuerId(credential.issuer), credential.issuer])).entries()];
+    if (unresolved.length === 0) return;
+
+    let cancelled = false;
+    // An issuer whose DID document cannot be read keeps the name the wallet gives it offline
+    Promise.all(unresolved.map(async ([id, issuer]) => [id, await resolveIssuerName(issuer).catch(() => getIssuerName(issuer))] as const))
+      .then(results => {
+        if (!cancelled) {
+          setIssuerNames(prev => ({ ...prev, ...Object.fromEntries(results) }));
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [credentials, issuerNames]);
+
+  // Relink derived credentials to their sources whenever a credential or a status changes, so deleting,
+  // replacing or revoking a source marks what was derived from it as stale
+  useEffect(() => {
+    let cancelled = false;
+    buildDependencyGraph(credentials, statusResults)
+      .then(graph => {
+        if (!cancelled) setDependencyGraph(graph);
+      })
+      .catch(error => console.error('Error building the dependency graph:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [credentials, statusResults]);
+
+  // Drop a credential's status so it is checked again, e.g. after the wallet revokes it
+  const handleStatusChanged = (id: string) => {
+    setStatusResults(prev => {
+      const remaining = { ...prev };
+      delete remaining[id];
+      return remaining;
+    });
   };
 
-  const handleAddCredential = (credential: VerifiableCredential) => {
-    const newCredentials = [...credentials, credential];
-    saveCredentials(newCredentials);
+  // Save failures are rethrown so the component that added the credential can report them
+  const handleAddCredential = async (credential: VerifiableCredential) => {
+    try {
+      await (await getCredentialRepository()).put(credential);
+    } catch (error) {
+      console.error('Error saving credential:', error);
+      throw error;
+    }
+    // Storing a credential with an existing id replaces it
+    setCredentials(prev => [...prev.filter(cred => cred.id !== credential.id), credential]);
+    setVerificationResults(prev => {
+      const remaining = { ...prev };
+      delete remaining[credential.id];
+      return remaining;
+    });
+    handleStatusChanged(credential.id);
   };
 
-  const handleDeleteCredential = (id: string) => {
-    const newCredentials = credentials.filter(cred => cred.id !== id);
-    saveCredentials(newCredentials);
+  // Delete failures are rethrown, so a caller replacing the credential does not carry on as if it were gone
+  const handleDeleteCredential = async (id: string) => {
+    try {
+      await (await getCredentialRepository()).delete(id);
+    } catch (error) {
+      console.error('Error deleting credential:', error);
+      throw error;
+    }
+    removeCredentialGraph(id);
+    setCredentials(prev => prev.filter(cred => cred.id !== id));
+    setVerificationResults(prev => {
+      const remaining = { ...prev };
+      delete remaining[id];
+      return remaining;
+    });
+    handleStatusChanged(id);
     if (selectedCredential?.id === id) {
       setSelectedCredential(null);
     }
   };
 
+  const handleTogglePresentationSelection = (id: string) => {
+    setPresentationSelection(prev => {
+      const next = new Set(prev);
+      if (!next.delete(id)) next.add(id);
+      return next;
+    });
+  };
+
+  const handleOpenInQueryEditor = (source: RequestQuerySource) => {
+    setRequestQuerySource(source);
+    setActiveTab('sparql');
+  };
+
+  const presentationCredentials = useMemo(
+    () => credentials.filter(credential => presentationSelection.has(credential.id)),
+    [credentials, presentationSelection]
+  );
+
+  // Replace a stale derived credential with one derived again from its stored query; the old one is
+  // revoked if it was put on the wallet's status list, since copies of it may have been presented.
+  // Replacements are saved first, so a failed save leaves the old credential in place and unrevoked.
+  const handleRederive = async (credential: VerifiableCredential) => {
+    const rederived = await rederiveCredential(credential, credentials);
+    for (const replacement of rederived) {
+      await handleAddCredential(replacement);
+    }
+    const statusEntry = getWalletStatusEntry(credential);
+    if (statusEntry) {
+      await setWalletCredentialRevoked(statusEntry, true);
+    }
+    if (!rederived.some(replacement => replacement.id === credential.id)) {
+      await handleDeleteCredential(credential.id);
+    }
+    setSelectedCredential(rederived[0]);
+  };
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       {/* GenAI Warning Banner */}
@@ -74,64 +322,105 @@ export default function Home() {
         </div>
       )}
       
-      <WalletHeader />
+      <WalletHeader
+        holderDid={holderDid}
+        vaultState={vaultState}
+        onUnlock={handleUnlock}
+        onLock={handleLock}
+        onChangePassphrase={changeVaultPassphrase}
+      />
       
-      <main className="container mx-auto px-4 py-8">
-        {/* Tab Navigation */}
-        <div className="mb-8">
-          <div className="flex space-x-1 bg-white dark:bg-gray-800 p-1 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
-            <button
-              onClick={() => setActiveTab('wallet')}
-              className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                activeTab === 'wallet'
-                  ? 'bg-blue-600 text-white'
-                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'
-              }`}
-            >
-              Wallet
-            </button>
-            <button
-              onClick={() => setActiveTab('sparql')}
-              className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-colors ${
-                activeTab === 'sparql'
-                  ? 'bg-blue-600 text-white'
-                  : 'text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'
-              }`}
-            >
-              SPARQL Query & Derived Credentials
-            </button>
+      {vaultState === 'unlocked' && (
+        <main className="container mx-auto px-4 py-8">
+          {/* Tab Navigation */}
+          <div className="mb-8">
+            <div className="flex space-x-1 bg-white dark:bg-gray-800 p-1 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+              <button
+                onClick={() => setActiveTab('wallet')}
+                className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                  activeTab === 'wallet'
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'
+                }`}
+              >
+                Wallet
+              </button>
+              <button
+                onClick={() => setActiveTab('sparql')}
+                className={`flex-1 px-4 py-2 text-sm font-medium rounded-md transition-colors ${
+                  activeTab === 'sparql'
+                    ? 'bg-blue-600 text-white'
+                    : 'text-gray-600 dark:text-gray-400 hover:text-gray-800 dark:hover:text-gray-200'
+                }`}
+              >
+                SPARQL Query & Derived Credentials
+              </button>
+            </div>
           </div>
-        </div>
 
-        {/* Tab Content */}
-        {activeTab === 'wallet' ? (
-          <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-            {/* Left Column - Credential Management */}
-            <div className="space-y-6">
-              <CredentialUpload 
-                onCredentialAdded={handleAddCredential} 
-                existingCredentials={credentials}
-              />
-              <CredentialList 
-                credentials={credentials}
-                selectedCredential={selectedCredential}
-                onSelectCredential={setSelectedCredential}
-                onDeleteCredential={handleDeleteCredential}
-              />
-            </div>
+          {/* Tab Content */}
+          {activeTab === 'wallet' ? (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+              {/* Left Column - Credential Management */}
+              <div className="space-y-6">
+                <CredentialUpload 
+                  onCredentialAdded={handleAddCredential} 
+                  existingCredentials={credentials}
+                />
+                <CredentialList 
+                  credentials={credentials}
+                  selectedCredential={selectedCredential}
+                  onSelectCredential={setSelectedCredential}
+                  onDeleteCredential={id => handleDeleteCredential(id).catch(() => undefined)}
+                  verificationResults={verificationResults}
+                  statusResults={statusResults}
+                  issuerNames={issuerNames}
+                  trustLists={trustLists}
+                  dependencyGraph={dependencyGraph}
+                  presentationSelection={presentationSelection}
+                  onTogglePresentationSelection={handleTogglePresentationSelection}
+                />
+                <PresentationBuilder
+                  credentials={presentationCredentials}
+                  onClearSelection={() => setPresentationSelection(new Set())}
+                />
+                <PresentationRequestHandler
+                  credentials={credentials}
+                  verificationResults={verificationResults}
+                  statusResults={statusResults}
+                  onDerivedCredentialCreated={handleAddCredential}
+                  onOpenInQueryEditor={handleOpenInQueryEditor}
+                />
+                <ContextManager />
+                <ShapeManager />
+                <TrustManager trustLists={trustLists} onTrustListsChange={setTrustLists} />
+              </div>
 
-            {/* Right Column - Credential Viewer */}
-            <div>
-              <CredentialViewer credential={selectedCredential} />
+              {/* Right Column - Credential Viewer */}
+              <div>
+                <CredentialViewer 
+                  credential={selectedCredential}
+                  verificationResult={selectedCredential ? verificationResults[selectedCredential.id] : undefined}
+                  statusResult={selectedCredential ? statusResults[selectedCredential.id] : undefined}
+                  issuerNames={issuerNames}
+                  onStatusChanged={handleStatusChanged}
+                  dependencyGraph={dependencyGraph}
+                  onRederive={handleRederive}
+                  credentials={credentials}
+                  trustLists={trustLists}
+                />
+              </div>
             </div>
-          </div>
-        ) : (
-          <SPARQLQueryInterface 
-            credentials={credentials}
-            onDerivedCredentialCreated={handleAddCredential}
-          />
-        )}
-      </main>
+          ) : (
+            <SPARQLQueryInterface 
+              credentials={credentials}
+              onDerivedCredentialCreated={handleAddCredential}
+              requestQuerySource={requestQuerySource}
+              trustLists={trustLists}
+            />
+          )}
+        </main>
+      )}
     </div>
   );
 }
@@ -28,7 +28,7 @@ export default function Home() {
     localStorage.setItem('wallet-credentials', JSON.stringify(newCredentials));
   };
 
-  const handleAddCredential = (credential: VerifiableCredential) => {
+  const handleAddCredential = async (credential: VerifiableCredential) => {
     const newCredentials = [...credentials, credential];
     saveCredentials(newCredentials);
   };
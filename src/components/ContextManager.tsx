@@ -0,0 +1,201 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { BookOpen, Plus, Trash2, AlertCircle, Lock, Pin } from 'lucide-react';
+import {
+  UserContext,
+  getBundledContexts,
+  loadUserContexts,
+  getFetchedContexts,
+  addUserContext,
+  removeUserContext,
+  isNetworkFallbackEnabled,
+  setNetworkFallbackEnabled
+} from '@/utils/contextUtils';
+
+export function ContextManager() {
+  const [userContexts, setUserContexts] = useState<UserContext[]>([]);
+  const [fetchedContexts, setFetchedContexts] = useState<Array<{ url: string; document: object }>>([]);
+  const [allowNetwork, setAllowNetwork] = useState(false);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [urlInput, setUrlInput] = useState('');
+  const [documentInput, setDocumentInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const bundledContexts = getBundledContexts();
+
+  // Contexts fetched this session are only known to the loader, so re-read them whenever the panel opens
+  useEffect(() => {
+    setUserContexts(loadUserContexts());
+    setFetchedContexts(getFetchedContexts());
+    setAllowNetwork(isNetworkFallbackEnabled());
+  }, []);
+
+  const handleToggleNetwork = () => {
+    setNetworkFallbackEnabled(!allowNetwork);
+    setAllowNetwork(!allowNetwork);
+  };
+
+  const handleAdd = async () => {
+    setError(null);
+
+    let document: unknown;
+    try {
+      document = JSON.parse(documentInput);
+    } catch {
+      setError('Context document is not valid JSON');
+      return;
+    }
+
+    try {
+      await addUserContext(urlInput.trim(), document);
+      setUserContexts(loadUserContexts());
+      setUrlInput('');
+      setDocumentInput('');
+      setShowAddForm(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add context');
+    }
+  };
+
+  const handlePinFetched = async (url: string, document: object) => {
+    setError(null);
+    try {
+      await addUserContext(url, document);
+      setUserContexts(loadUserContexts());
+      setFetchedContexts(getFetchedContexts());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to pin context');
+    }
+  };
+
+  const handleRemove = (url: string) => {
+    removeUserContext(url);
+    setUserContexts(loadUserContexts());
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+          <BookOpen className="h-5 w-5 mr-2" />
+          JSON-LD Contexts
+        </h2>
+        <button
+          onClick={() => {
+            setShowAddForm(!showAddForm);
+            setError(null);
+          }}
+          className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 flex items-center"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add context
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <label className="flex items-start space-x-2 text-sm text-gray-700 dark:text-gray-300 cursor-pointer">
+          <input type="checkbox" checked={allowNetwork} onChange={handleToggleNetwork} className="mt-1" />
+          <span>
+            Fetch unknown contexts from the network
+            <span className="block text-xs text-gray-500 dark:text-gray-400">
+              Fetched contexts are only used for this session until you pin them; when disabled, credentials using them fail to load until the context is added here.
+            </span>
+          </span>
+        </label>
+
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400 flex-shrink-0" />
+            <span className="text-sm text-red-700 dark:text-red-300">{error}</span>
+          </div>
+        )}
+
+        {showAddForm && (
+          <div className="space-y-2">
+            <input
+              type="url"
+              value={urlInput}
+              onChange={(e) => setUrlInput(e.target.value)}
+              placeholder="https://example.org/contexts/v1"
+              className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 text-sm"
+            />
+            <textarea
+              value={documentInput}
+              onChange={(e) => setDocumentInput(e.target.value)}
+              placeholder='{ "@context": { ... } }'
+              className="w-full h-32 p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 font-mono text-xs"
+            />
+            <button
+              onClick={handleAdd}
+              disabled={!urlInput.trim() || !documentInput.trim()}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Pin context
+            </button>
+          </div>
+        )}
+
+        {userContexts.length > 0 && (
+          <div className="space-y-2">
+            {userContexts.map(context => (
+              <div
+                key={context.url}
+                className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-700 rounded border"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900 dark:text-white font-mono truncate">{context.url}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Added {new Date(context.addedAt).toLocaleDateString()} · {context.sha256 ? `sha256 ${context.sha256.slice(0, 12)}…` : 'not pinned'}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRemove(context.url)}
+                  className="ml-2 p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                  title="Remove context"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {fetchedContexts.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-xs text-gray-500 dark:text-gray-400">Fetched this session, not pinned:</p>
+            {fetchedContexts.map(context => (
+              <div
+                key={context.url}
+                className="flex items-center justify-between p-2 bg-yellow-50 dark:bg-yellow-900/20 rounded border border-yellow-200 dark:border-yellow-800"
+              >
+                <p className="flex-1 min-w-0 text-sm text-gray-900 dark:text-white font-mono truncate">{context.url}</p>
+                <button
+                  onClick={() => handlePinFetched(context.url, context.document)}
+                  className="ml-2 p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                  title="Pin context"
+                >
+                  <Pin className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <details className="text-sm">
+          <summary className="cursor-pointer text-gray-700 dark:text-gray-300">
+            {bundledContexts.length} bundled contexts
+          </summary>
+          <ul className="mt-2 space-y-1">
+            {bundledContexts.map(context => (
+              <li key={context.url} className="flex items-center text-xs text-gray-600 dark:text-gray-400 font-mono" title={`sha256 ${context.sha256}`}>
+                <Lock className="h-3 w-3 mr-1 flex-shrink-0" />
+                <span className="truncate">{context.url}</span>
+              </li>
+            ))}
+          </ul>
+        </details>
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,45 @@
 'use client';
 
 import { FileText, Trash2, Download, Calendar, User, AlertTriangle } from 'lucide-react';
-import { VerifiableCredential } from '@/types/credential';
+import { VerifiableCredential, ProofVerificationResult, StatusCheckResult, DependencyGraph, IssuerName, TrustList } from '@/types/credential';
 import { formatCredentialForDisplay, downloadCredential } from '@/utils/credentialUtils';
+import { ProofStatusBadge } from '@/components/ProofStatusBadge';
+import { CredentialStatusBadge } from '@/components/CredentialStatusBadge';
+import { TrustBadge } from '@/components/TrustBadge';
+import { STALE_REASON_LABELS } from '@/components/LineageTree';
+import { getStaleSources } from '@/utils/lineageUtils';
+import { getIssuerId } from '@/utils/issuerUtils';
+import { checkIssuerTrust } from '@/utils/trustUtils';
 
 interface CredentialListProps {
   credentials: VerifiableCredential[];
   selectedCredential: VerifiableCredential | null;
   onSelectCredential: (credential: VerifiableCredential) => void;
   onDeleteCredential: (id: string) => void;
+  verificationResults?: Record<string, ProofVerificationResult>;
+  statusResults?: Record<string, StatusCheckResult>;
+  // Issuer names resolved from DID documents, by issuer id
+  issuerNames?: Record<string, IssuerName>;
+  // Credentials get a trust badge once there is at least one trust list
+  trustLists?: TrustList[];
+  dependencyGraph?: DependencyGraph;
+  // Ids of the credentials selected for a presentation
+  presentationSelection?: Set<string>;
+  onTogglePresentationSelection?: (id: string) => void;
 }
 
 export function CredentialList({ 
   credentials, 
   selectedCredential, 
   onSelectCredential, 
-  onDeleteCredential 
+  onDeleteCredential,
+  verificationResults = {},
+  statusResults = {},
+  issuerNames = {},
+  trustLists = [],
+  dependencyGraph,
+  presentationSelection,
+  onTogglePresentationSelection
 }: CredentialListProps) {
 
   const handleDelete = (id: string, event: React.MouseEvent) => {
@@ -54,8 +78,9 @@ export function CredentialList({
       
       <div className="divide-y divide-gray-200 dark:divide-gray-700 max-h-96 overflow-y-auto">
         {credentials.map((credential) => {
-          const display = formatCredentialForDisplay(credential);
+          const display = formatCredentialForDisplay(credential, issuerNames);
           const isSelected = selectedCredential?.id === credential.id;
+          const staleSources = dependencyGraph ? getStaleSources(credential.id, dependencyGraph) : [];
           
           return (
             <div
@@ -66,6 +91,16 @@ export function CredentialList({
               }`}
             >
               <div className="flex items-start justify-between">
+                {onTogglePresentationSelection && (
+                  <input
+                    type="checkbox"
+                    checked={presentationSelection?.has(credential.id) ?? false}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={() => onTogglePresentationSelection(credential.id)}
+                    className="mt-1 mr-3 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    title="Select for presentation"
+                  />
+                )}
                 <div className="flex-1 min-w-0">
                   <div className="flex items-center space-x-2 mb-2">
                     <FileText className="h-4 w-4 text-blue-600 dark:text-blue-400 flex-shrink-0" />
@@ -75,20 +110,37 @@ export function CredentialList({
                     {display.isExpired && (
                       <AlertTriangle className="h-4 w-4 text-red-500 flex-shrink-0" />
                     )}
+                    <ProofStatusBadge result={verificationResults[credential.id]} />
+                    <CredentialStatusBadge result={statusResults[credential.id]} />
+                    {trustLists.length > 0 && (
+                      <TrustBadge result={checkIssuerTrust(credential, trustLists, verificationResults[credential.id], statusResults[credential.id])} />
+                    )}
+                    {staleSources.length > 0 && (
+                      <span
+                        className="inline-flex items-center px-2 py-0.5 text-xs rounded-full bg-yellow-100 dark:bg-yellow-900 text-yellow-700 dark:text-yellow-300"
+                        title={staleSources.map(source => `${source.id}: ${STALE_REASON_LABELS[source.stale]}`).join('\n')}
+                      >
+                        Stale
+                      </span>
+                    )}
                   </div>
                   
                   <div className="space-y-1">
                     <div className="flex items-center space-x-1 text-xs text-gray-600 dark:text-gray-400">
                       <User className="h-3 w-3" />
-                      <span>Issuer: {display.issuer}</span>
+                      <span title={getIssuerId(credential.issuer)}>Issuer: {display.issuer}</span>
                     </div>
                     
                     <div className="flex items-center space-x-1 text-xs text-gray-600 dark:text-gray-400">
                       <Calendar className="h-3 w-3" />
-                      <span>Issued: {display.issuanceDate}</span>
+                      {display.issuanceDate && (
+                        <span className={display.isNotYetValid ? 'text-yellow-600 dark:text-yellow-400' : ''}>
+                          {display.version === '2.0' ? 'Valid from' : 'Issued'}: {display.issuanceDate}
+                        </span>
+                      )}
                       {display.expirationDate && (
                         <span className={display.isExpired ? 'text-red-600 dark:text-red-400' : ''}>
-                          • Expires: {display.expirationDate}
+                          • {display.version === '2.0' ? 'Valid until' : 'Expires'}: {display.expirationDate}
                         </span>
                       )}
                     </div>
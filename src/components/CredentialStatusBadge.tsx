@@ -0,0 +1,54 @@
+import { CircleCheck, CircleSlash, CirclePause, CircleHelp, Loader2 } from 'lucide-react';
+import { StatusCheckResult, CredentialStatusState } from '@/types/credential';
+
+interface CredentialStatusBadgeProps {
+  result?: StatusCheckResult;
+  showLabel?: boolean;
+}
+
+const STATUS_STYLES: Record<Exclude<CredentialStatusState, 'none'>, { label: string; icon: typeof CircleCheck; className: string }> = {
+  'active': {
+    label: 'Active',
+    icon: CircleCheck,
+    className: 'bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300'
+  },
+  'revoked': {
+    label: 'Revoked',
+    icon: CircleSlash,
+    className: 'bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300'
+  },
+  'suspended': {
+    label: 'Suspended',
+    icon: CirclePause,
+    className: 'bg-orange-100 dark:bg-orange-900 text-orange-700 dark:text-orange-300'
+  },
+  'unknown': {
+    label: 'Status unknown',
+    icon: CircleHelp,
+    className: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-700 dark:text-yellow-300'
+  }
+};
+
+// Revocation/suspension status; nothing is shown for credentials without a status entry
+export function CredentialStatusBadge({ result, showLabel = true }: CredentialStatusBadgeProps) {
+  if (!result) {
+    return (
+      <span className="inline-flex items-center space-x-1 px-2 py-0.5 text-xs bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400 rounded-full">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        {showLabel && <span>Checking status</span>}
+      </span>
+    );
+  }
+  if (result.state === 'none') return null;
+
+  const { label, icon: Icon, className } = STATUS_STYLES[result.state];
+  return (
+    <span
+      className={`inline-flex items-center space-x-1 px-2 py-0.5 text-xs rounded-full ${className}`}
+      title={result.message}
+    >
+      <Icon className="h-3 w-3" />
+      {showLabel && <span>{label}</span>}
+    </span>
+  );
+}
@@ -1,14 +1,29 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Upload, Plus, AlertCircle, Link, Globe } from 'lucide-react';
+import { Upload, Plus, AlertCircle, Link, Globe, EyeOff, Gift } from 'lucide-react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus, vs } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { VerifiableCredential } from '@/types/credential';
-import { parseCredentialFile, CredentialError } from '@/utils/credentialUtils';
+import { VerifiableCredential, ParsedSdJwt, ShapeValidationReport, ResolvedCredentialOffer } from '@/types/credential';
+import {
+  parseCredentialFile,
+  parseCredentialText,
+  importSdJwtCredential,
+  validateCredentialShapes,
+  CredentialError,
+  ParsedCredentialInput
+} from '@/utils/credentialUtils';
+import { hasShapeViolations } from '@/utils/shaclUtils';
+import {
+  isCredentialOfferLink,
+  resolveCredentialOffer,
+  redeemCredentialOffer,
+  getOfferedCredentialName
+} from '@/utils/oid4vciUtils';
+import { ShapeValidationResults } from '@/components/ShapeValidationResults';
 
 interface CredentialUploadProps {
-  onCredentialAdded: (credential: VerifiableCredential) => void;
+  onCredentialAdded: (credential: VerifiableCredential) => Promise<void>;
   existingCredentials?: VerifiableCredential[];
 }
 
@@ -16,11 +31,18 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
   const [isDragOver, setIsDragOver] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [shapeReport, setShapeReport] = useState<ShapeValidationReport | null>(null);
   const [showJsonInput, setShowJsonInput] = useState(false);
   const [showUrlInput, setShowUrlInput] = useState(false);
   const [jsonInput, setJsonInput] = useState('');
   const [urlInput, setUrlInput] = useState('');
   const [isDarkMode, setIsDarkMode] = useState(false);
+  const [pendingSdJwt, setPendingSdJwt] = useState<ParsedSdJwt | null>(null);
+  const [selectedDisclosures, setSelectedDisclosures] = useState<Set<string>>(new Set());
+  const [pendingOffer, setPendingOffer] = useState<ResolvedCredentialOffer | null>(null);
+  const [txCodeInput, setTxCodeInput] = useState('');
+  // The code the local test issuer would otherwise send the holder out of band
+  const [testTxCode, setTestTxCode] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Detect dark mode
@@ -57,6 +79,18 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
       url: '/sample-permanent-resident.jsonld',
       description: 'Permanent resident card credential',
       expectedId: 'https://issuer.oidp.uscis.gov/credentials/83627465'
+    },
+    {
+      name: 'Local Employee Credential (BBS)',
+      url: '/sample-bbs-employee.json',
+      description: 'Employee credential with a bbs-2023 selective disclosure proof',
+      expectedId: 'urn:uuid:6a1c2e4f-8b3d-4f7a-9c2e-1d5b7a9e3f60'
+    },
+    {
+      name: 'Local Library Card (revoked)',
+      url: '/sample-revoked-credential.json',
+      description: 'Credential revoked on a bundled Bitstring Status List',
+      expectedId: 'https://example.org/credentials/library-card-1042'
     }
   ];
 
@@ -84,11 +118,13 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
       file.type === 'application/json' || 
       file.type === 'application/ld+json' ||
       file.name.endsWith('.json') || 
-      file.name.endsWith('.jsonld')
+      file.name.endsWith('.jsonld') ||
+      file.name.endsWith('.jwt') ||
+      file.name.endsWith('.sd-jwt')
     );
     
     if (credentialFiles.length === 0) {
-      setError('Please drop a valid JSON or JSON-LD file');
+      setError('Please drop a valid JSON, JSON-LD, JWT or SD-JWT file');
       return;
     }
     
@@ -111,16 +147,81 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
     }
   };
 
+  // Credentials that violate the SHACL shapes for their types are not added
+  const addCredential = async (credential: VerifiableCredential) => {
+    const report = await validateCredentialShapes(credential);
+    setShapeReport(report.results.length > 0 ? report : null);
+    if (hasShapeViolations(report)) {
+      throw new CredentialError('Credential does not conform to the SHACL shapes for its types', 'SHAPE_VIOLATION');
+    }
+    try {
+      await onCredentialAdded(credential);
+    } catch (error) {
+      throw new CredentialError(
+        `Failed to save credential: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'SAVE_FAILED'
+      );
+    }
+  };
+
+  // A credential that could not be saved is not invalid, so its error keeps its own wording
+  const describeCredentialError = (err: CredentialError) =>
+    err.code === 'SAVE_FAILED' ? err.message : `Invalid credential: ${err.message}`;
+
+  // SD-JWTs wait for the holder to choose their disclosures before any claim reaches the wallet
+  const handleParsedInput = async (input: ParsedCredentialInput) => {
+    if (input.kind === 'sd-jwt') {
+      setPendingSdJwt(input.sdJwt);
+      setSelectedDisclosures(new Set(input.sdJwt.disclosures.map(disclosure => disclosure.digest)));
+    } else {
+      await addCredential(input.credential);
+    }
+  };
+
+  const toggleDisclosure = (digest: string) => {
+    setSelectedDisclosures(prev => {
+      const next = new Set(prev);
+      if (next.has(digest)) {
+        next.delete(digest);
+      } else {
+        next.add(digest);
+      }
+      return next;
+    });
+  };
+
+  const handleSdJwtImport = async () => {
+    if (!pendingSdJwt) return;
+
+    setIsUploading(true);
+    setError(null);
+    setShapeReport(null);
+
+    try {
+      const disclosures = pendingSdJwt.disclosures.filter(disclosure => selectedDisclosures.has(disclosure.digest));
+      await addCredential(await importSdJwtCredential(pendingSdJwt, disclosures));
+      setPendingSdJwt(null);
+    } catch (err) {
+      if (err instanceof CredentialError) {
+        setError(describeCredentialError(err));
+      } else {
+        setError('Failed to import SD-JWT credential');
+      }
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
   const processFile = async (file: File) => {
     setIsUploading(true);
     setError(null);
+    setShapeReport(null);
     
     try {
-      const credential = await parseCredentialFile(file);
-      onCredentialAdded(credential);
+      await handleParsedInput(await parseCredentialFile(file));
     } catch (err) {
       if (err instanceof CredentialError) {
-        setError(`Invalid credential: ${err.message}`);
+        setError(describeCredentialError(err));
       } else {
         setError('Failed to process file');
       }
@@ -134,19 +235,15 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
     
     setIsUploading(true);
     setError(null);
+    setShapeReport(null);
     
     try {
-      const parsed = JSON.parse(jsonInput);
-      const { validateCredential } = await import('@/utils/credentialUtils');
-      const credential = await validateCredential(parsed);
-      onCredentialAdded(credential);
+      await handleParsedInput(await parseCredentialText(jsonInput));
       setJsonInput('');
       setShowJsonInput(false);
     } catch (err) {
       if (err instanceof CredentialError) {
-        setError(`Invalid credential: ${err.message}`);
-      } else if (err instanceof SyntaxError) {
-        setError('Invalid JSON format');
+        setError(describeCredentialError(err));
       } else {
         setError('Failed to process credential');
       }
@@ -158,11 +255,12 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
   const fetchCredentialFromUrl = async (url: string, keepUrlWindowOpen: boolean = false) => {
     setIsUploading(true);
     setError(null);
+    setShapeReport(null);
 
     try {
       const response = await fetch(url, {
         headers: {
-          'Accept': 'application/json, application/ld+json, */*'
+          'Accept': 'application/json, application/ld+json, application/vc+jwt, application/vc+sd-jwt, application/dc+sd-jwt, */*'
         }
       });
 
@@ -170,17 +268,14 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
         throw new Error(`HTTP ${response.status}: ${response.statusText}`);
       }
 
-      const data = await response.json();
-      const { validateCredential } = await import('@/utils/credentialUtils');
-      const credential = await validateCredential(data);
-      onCredentialAdded(credential);
+      await handleParsedInput(await parseCredentialText(await response.text()));
       setUrlInput('');
       if (!keepUrlWindowOpen) {
         setShowUrlInput(false);
       }
     } catch (err) {
       if (err instanceof CredentialError) {
-        setError(`Invalid credential: ${err.message}`);
+        setError(describeCredentialError(err));
       } else if (err instanceof TypeError && err.message.includes('fetch')) {
         setError('Network error: Unable to fetch from URL. Check CORS settings.');
       } else {
@@ -191,8 +286,67 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
     }
   };
 
+  // Receive every credential in an offer, storing each as if it had been uploaded
+  const redeemOffer = async (resolved: ResolvedCredentialOffer, txCode?: string) => {
+    for (const input of await redeemCredentialOffer(resolved, txCode)) {
+      await handleParsedInput(input);
+    }
+    setPendingOffer(null);
+    setTxCodeInput('');
+    setTestTxCode(null);
+  };
+
+  const runOfferStep = async (step: () => Promise<void>) => {
+    setIsUploading(true);
+    setError(null);
+    setShapeReport(null);
+
+    try {
+      await step();
+    } catch (err) {
+      setError(`Credential offer failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  // Offers that need a transaction code wait for the holder to enter it
+  const openOffer = async (link: string) => {
+    const resolved = await resolveCredentialOffer(link);
+    setUrlInput('');
+    if (resolved.grant.tx_code) {
+      setPendingOffer(resolved);
+    } else {
+      await redeemOffer(resolved);
+    }
+  };
+
+  const handleTxCodeSubmit = () => runOfferStep(async () => {
+    if (pendingOffer) {
+      await redeemOffer(pendingOffer, txCodeInput);
+    }
+  });
+
+  const handleTestOffer = () => runOfferStep(async () => {
+    const response = await fetch('/api/issuer', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ txCode: true })
+    });
+    if (!response.ok) {
+      throw new Error(`Local issuer is not available: HTTP ${response.status}`);
+    }
+    const { credentialOffer, txCode } = await response.json() as { credentialOffer: string; txCode?: string };
+    setTestTxCode(txCode ?? null);
+    await openOffer(credentialOffer);
+  });
+
   const handleUrlSubmit = async () => {
     if (!urlInput.trim()) return;
+    if (isCredentialOfferLink(urlInput)) {
+      await runOfferStep(() => openOffer(urlInput.trim()));
+      return;
+    }
     await fetchCredentialFromUrl(urlInput.trim(), false); // Close URL window after manual URL
   };
 
@@ -234,7 +388,7 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
                 : 'text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300'
             }`}
           >
-            Paste JSON
+            Paste JSON or JWT
           </button>
         </div>
       </div>
@@ -246,17 +400,139 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
         </div>
       )}
 
-      {showUrlInput ? (
+      {shapeReport && (
+        <div className="mb-4">
+          <ShapeValidationResults report={shapeReport} />
+        </div>
+      )}
+
+      {pendingSdJwt ? (
         <div className="space-y-4">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center">
+              <EyeOff className="h-4 w-4 mr-1" />
+              Choose SD-JWT disclosures
+            </h3>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Only the selected claims are decoded into the wallet; the others stay hidden and are dropped from the stored SD-JWT.
+            </p>
+          </div>
+
+          {pendingSdJwt.disclosures.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              This SD-JWT has no selectively disclosable claims.
+            </p>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-auto">
+              {pendingSdJwt.disclosures.map(disclosure => (
+                <label
+                  key={disclosure.digest}
+                  className="flex items-start space-x-2 p-2 bg-gray-50 dark:bg-gray-700 rounded border cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedDisclosures.has(disclosure.digest)}
+                    onChange={() => toggleDisclosure(disclosure.digest)}
+                    className="mt-1"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                      {disclosure.name ?? 'Array element'}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 font-mono truncate">
+                      {JSON.stringify(disclosure.value)}
+                    </p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <button
+              onClick={handleSdJwtImport}
+              disabled={isUploading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <Plus className="h-4 w-4" />
+              <span>{isUploading ? 'Importing...' : `Import with ${selectedDisclosures.size} disclosure${selectedDisclosures.size === 1 ? '' : 's'}`}</span>
+            </button>
+            <button
+              onClick={() => {
+                setPendingSdJwt(null);
+                setError(null);
+              }}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : pendingOffer ? (
+        <div className="space-y-4">
+          <div>
+            <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center">
+              <Gift className="h-4 w-4 mr-1" />
+              Credential offer from {pendingOffer.metadata.display?.[0]?.name ?? pendingOffer.offer.credential_issuer}
+            </h3>
+            <ul className="text-xs text-gray-500 dark:text-gray-400 mt-1 list-disc list-inside">
+              {pendingOffer.offer.credential_configuration_ids.map(id => (
+                <li key={id}>{getOfferedCredentialName(pendingOffer, id)}</li>
+              ))}
+            </ul>
+          </div>
+
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Credential URL
+              Transaction code
+            </label>
+            <input
+              type={pendingOffer.grant.tx_code?.input_mode === 'text' ? 'text' : 'password'}
+              inputMode={pendingOffer.grant.tx_code?.input_mode === 'text' ? 'text' : 'numeric'}
+              maxLength={pendingOffer.grant.tx_code?.length}
+              value={txCodeInput}
+              onChange={(e) => setTxCodeInput(e.target.value)}
+              className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              {pendingOffer.grant.tx_code?.description ?? 'The issuer sent this code separately from the offer'}
+              {testTxCode && <> (the local test issuer&apos;s code is <span className="font-mono">{testTxCode}</span>)</>}
+            </p>
+          </div>
+
+          <div className="flex space-x-2">
+            <button
+              onClick={handleTxCodeSubmit}
+              disabled={!txCodeInput.trim() || isUploading}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+            >
+              <Plus className="h-4 w-4" />
+              <span>{isUploading ? 'Receiving...' : 'Receive Credentials'}</span>
+            </button>
+            <button
+              onClick={() => {
+                setPendingOffer(null);
+                setTxCodeInput('');
+                setTestTxCode(null);
+                setError(null);
+              }}
+              className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      ) : showUrlInput ? (
+        <div className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Credential URL or credential offer
             </label>
             <input
               type="url"
               value={urlInput}
               onChange={(e) => setUrlInput(e.target.value)}
-              placeholder="https://example.com/credential.json"
+              placeholder="https://example.com/credential.json or openid-credential-offer://..."
               className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
           </div>
@@ -268,7 +544,7 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
               className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
             >
               <Plus className="h-4 w-4" />
-              <span>{isUploading ? 'Fetching...' : 'Fetch Credential'}</span>
+              <span>{isUploading ? 'Fetching...' : isCredentialOfferLink(urlInput) ? 'Receive Offer' : 'Fetch Credential'}</span>
             </button>
             <button
               onClick={() => {
@@ -282,6 +558,26 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
             </button>
           </div>
 
+          {/* Local test issuer */}
+          <div className="pt-4 border-t border-gray-200 dark:border-gray-600 flex items-center justify-between">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center">
+                <Gift className="h-4 w-4 mr-1" />
+                Local Test Issuer
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Receive an employee credential over OpenID for Verifiable Credential Issuance
+              </p>
+            </div>
+            <button
+              onClick={handleTestOffer}
+              disabled={isUploading}
+              className="ml-2 px-3 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isUploading ? 'Loading...' : 'New offer'}
+            </button>
+          </div>
+
           {/* Test Credentials */}
           {availableTestCredentials.length > 0 && (
             <div className="pt-4 border-t border-gray-200 dark:border-gray-600">
@@ -322,12 +618,12 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
             {/* Input Area */}
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-                JSON Input
+                JSON or JWT Input
               </label>
               <textarea
                 value={jsonInput}
                 onChange={(e) => setJsonInput(e.target.value)}
-                placeholder="Paste your W3C JSON-LD verifiable credential here..."
+                placeholder="Paste a W3C JSON-LD verifiable credential, a VC-JWT or an SD-JWT VC here..."
                 className="w-full h-48 p-3 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent font-mono text-sm"
               />
             </div>
@@ -340,7 +636,7 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
               <div className="h-48 border border-gray-300 dark:border-gray-600 rounded-md overflow-hidden bg-gray-50 dark:bg-gray-700">
                 {jsonInput.trim() ? (
                   <SyntaxHighlighter
-                    language="json"
+                    language={jsonInput.trim().startsWith('{') ? 'json' : 'text'}
                     style={isDarkMode ? vscDarkPlus : vs}
                     customStyle={{
                       margin: 0,
@@ -356,7 +652,7 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
                   </SyntaxHighlighter>
                 ) : (
                   <div className="flex items-center justify-center h-full text-gray-500 dark:text-gray-400 text-sm">
-                    JSON preview will appear here as you type
+                    Preview will appear here as you type
                   </div>
                 )}
               </div>
@@ -406,10 +702,10 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
                 {isDragOver ? 'Drop your credential file here' : 'Upload credential file'}
               </p>
               <p className="text-sm text-gray-600 dark:text-gray-400">
-                Drag and drop a JSON or JSON-LD file or click to browse
+                Drag and drop a JSON-LD or JWT credential file or click to browse
               </p>
               <p className="text-xs text-gray-500 dark:text-gray-500">
-                Supports .json and .jsonld files with W3C Verifiable Credentials
+                Supports .json, .jsonld, .jwt and .sd-jwt files with W3C Verifiable Credentials
               </p>
             </div>
           </div>
@@ -417,7 +713,7 @@ export function CredentialUpload({ onCredentialAdded, existingCredentials = [] }
           <input
             ref={fileInputRef}
             type="file"
-            accept=".json,.jsonld,application/json,application/ld+json"
+            accept=".json,.jsonld,.jwt,.sd-jwt,application/json,application/ld+json"
             onChange={handleFileSelect}
             multiple
             className="hidden"
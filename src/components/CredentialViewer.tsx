@@ -1,23 +1,75 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Eye, Code, Download, Copy, Check, Shield, Calendar, User, Hash, Database } from 'lucide-react';
+import { Eye, Code, Download, Copy, Check, Shield, Calendar, User, Hash, Database, GitCompare, Loader2, ListChecks, FileKey, Ban, GitBranch, AlertTriangle, RefreshCw } from 'lucide-react';
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus, vs } from 'react-syntax-highlighter/dist/esm/styles/prism';
-import { VerifiableCredential } from '@/types/credential';
-import { formatCredentialForDisplay, downloadCredential, convertToTurtle } from '@/utils/credentialUtils';
+import { VerifiableCredential, ProofVerificationResult, DerivationCheckResult, StatusCheckResult, DependencyGraph, IssuerName, TrustList, TrustPolicy } from '@/types/credential';
+import { formatCredentialForDisplay, downloadCredential, downloadCredentialEnvelope, convertToTurtle, verifyDerivation } from '@/utils/credentialUtils';
+import { getWalletStatusEntry, setWalletCredentialRevoked, getWalletStatusListCredential } from '@/utils/statusListUtils';
+import { getStaleSources, getLineageTree } from '@/utils/lineageUtils';
+import { getIssuerId } from '@/utils/issuerUtils';
+import { describeTrustPolicyChanges } from '@/utils/trustUtils';
+import { ProofStatusBadge } from '@/components/ProofStatusBadge';
+import { CredentialStatusBadge } from '@/components/CredentialStatusBadge';
+import { LineageTree, STALE_REASON_LABELS } from '@/components/LineageTree';
 
 interface CredentialViewerProps {
   credential: VerifiableCredential | null;
+  verificationResult?: ProofVerificationResult;
+  statusResult?: StatusCheckResult;
+  // Issuer names resolved from DID documents, by issuer id
+  issuerNames?: Record<string, IssuerName>;
+  // Called after the wallet revokes or reinstates a credential it derived
+  onStatusChanged?: (id: string) => void;
+  // Wallet credentials, used as sources when checking a derived credential
+  credentials?: VerifiableCredential[];
+  dependencyGraph?: DependencyGraph;
+  // Re-run a stale derived credential's stored query
+  onRederive?: (credential: VerifiableCredential) => Promise<void>;
+  // The current trust lists, which a credential derived under a trust policy is derived again under
+  trustLists?: TrustList[];
 }
 
-export function CredentialViewer({ credential }: CredentialViewerProps) {
+const ISSUER_SOURCE_LABELS: Record<IssuerName['source'], string> = {
+  'credential': 'named in the credential',
+  'did-web': 'did:web domain',
+  'linked-domain': 'verified linked domain',
+  'did': 'DID',
+  'url': 'URL'
+};
+
+const DERIVATION_STATUS_STYLES: Record<DerivationCheckResult['status'], string> = {
+  'match': 'text-green-700 dark:text-green-300',
+  'mismatch': 'text-red-700 dark:text-red-300',
+  'missing-sources': 'text-yellow-700 dark:text-yellow-300',
+  'no-receipt': 'text-gray-700 dark:text-gray-300',
+  'error': 'text-red-700 dark:text-red-300'
+};
+
+export function CredentialViewer({
+  credential,
+  verificationResult,
+  statusResult,
+  issuerNames = {},
+  onStatusChanged,
+  credentials = [],
+  dependencyGraph,
+  onRederive,
+  trustLists = []
+}: CredentialViewerProps) {
   const [viewMode, setViewMode] = useState<'formatted' | 'raw' | 'turtle'>('formatted');
   const [copied, setCopied] = useState(false);
   const [turtleData, setTurtleData] = useState<string>('');
   const [turtleLoading, setTurtleLoading] = useState(false);
   const [turtleError, setTurtleError] = useState<string | null>(null);
   const [isDarkMode, setIsDarkMode] = useState(false);
+  const [derivationCheck, setDerivationCheck] = useState<DerivationCheckResult | null>(null);
+  const [isCheckingDerivation, setIsCheckingDerivation] = useState(false);
+  const [statusError, setStatusError] = useState<string | null>(null);
+  const [isRederiving, setIsRederiving] = useState(false);
+  const [rederiveError, setRederiveError] = useState<string | null>(null);
+  const [trustPolicyChanges, setTrustPolicyChanges] = useState<string[]>([]);
 
   // Detect dark mode
   useEffect(() => {
@@ -54,8 +106,82 @@ export function CredentialViewer({ credential }: CredentialViewerProps) {
   useEffect(() => {
     setTurtleData('');
     setTurtleError(null);
+    setDerivationCheck(null);
+    setStatusError(null);
+    setRederiveError(null);
   }, [credential]);
 
+  // Re-deriving applies the current trust lists, so tell the user how they differ from the recorded policy
+  useEffect(() => {
+    const trustPolicy = credential?.credentialSubject.trustPolicy as TrustPolicy | undefined;
+    if (!trustPolicy) {
+      setTrustPolicyChanges([]);
+      return;
+    }
+
+    let cancelled = false;
+    describeTrustPolicyChanges(trustPolicy, trustLists)
+      .then(changes => {
+        if (!cancelled) setTrustPolicyChanges(changes);
+      })
+      .catch(error => console.error('Error comparing the trust policy:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [credential, trustLists]);
+
+  const handleCheckDerivation = async () => {
+    if (!credential) return;
+
+    setIsCheckingDerivation(true);
+    try {
+      setDerivationCheck(await verifyDerivation(credential, credentials));
+    } finally {
+      setIsCheckingDerivation(false);
+    }
+  };
+
+  const handleSetRevoked = async (revoked: boolean) => {
+    const entry = credential && getWalletStatusEntry(credential);
+    if (!entry) return;
+
+    setStatusError(null);
+    try {
+      await setWalletCredentialRevoked(entry, revoked);
+    } catch (error) {
+      setStatusError(error instanceof Error ? error.message : 'Failed to update status');
+    }
+    // The list changes in the wallet even when publishing it fails
+    onStatusChanged?.(credential.id);
+  };
+
+  const handleDownloadStatusList = async () => {
+    const entry = credential && getWalletStatusEntry(credential);
+    if (!entry || typeof entry.statusListCredential !== 'string') return;
+
+    setStatusError(null);
+    try {
+      downloadCredential(await getWalletStatusListCredential(entry.statusListCredential), 'status-list.json');
+    } catch (error) {
+      setStatusError(error instanceof Error ? error.message : 'Failed to create status list credential');
+    }
+  };
+
+  const handleRederive = async () => {
+    if (!credential || !onRederive) return;
+
+    setIsRederiving(true);
+    setRederiveError(null);
+    try {
+      await onRederive(credential);
+    } catch (error) {
+      setRederiveError(error instanceof Error ? error.message : 'Failed to re-derive credential');
+    } finally {
+      setIsRederiving(false);
+    }
+  };
+
   const handleCopy = async () => {
     if (!credential) return;
     
@@ -93,7 +219,11 @@ export function CredentialViewer({ credential }: CredentialViewerProps) {
     );
   }
 
-  const display = formatCredentialForDisplay(credential);
+  const display = formatCredentialForDisplay(credential, issuerNames);
+  const walletStatusEntry = getWalletStatusEntry(credential);
+  const staleSources = dependencyGraph ? getStaleSources(credential.id, dependencyGraph) : [];
+  const dependents = dependencyGraph?.dependents[credential.id] || [];
+  const hasSources = (dependencyGraph?.sources[credential.id] || []).length > 0;
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
@@ -159,6 +289,16 @@ export function CredentialViewer({ credential }: CredentialViewerProps) {
             >
               <Download className="h-4 w-4" />
             </button>
+
+            {credential.envelope && (
+              <button
+                onClick={() => downloadCredentialEnvelope(credential)}
+                className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400 transition-colors"
+                title={`Download ${credential.envelope.format === 'vc+sd-jwt' ? 'SD-JWT' : 'JWT'}`}
+              >
+                <FileKey className="h-4 w-4" />
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -190,6 +330,24 @@ export function CredentialViewer({ credential }: CredentialViewerProps) {
                   </p>
                 </div>
                 
+                <div>
+                  <label className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                    Data Model
+                  </label>
+                  <p className="text-sm text-gray-900 dark:text-white mt-1">VCDM {display.version}</p>
+                </div>
+
+                {credential.envelope && (
+                  <div>
+                    <label className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                      Encoding
+                    </label>
+                    <p className="text-sm text-gray-900 dark:text-white mt-1">
+                      {credential.envelope.format === 'vc+sd-jwt' ? 'SD-JWT VC' : 'VC-JWT'} ({credential.envelope.format})
+                    </p>
+                  </div>
+                )}
+
                 <div>
                   <label className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">
                     Types
@@ -219,8 +377,12 @@ export function CredentialViewer({ credential }: CredentialViewerProps) {
                   <label className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">
                     Issuer
                   </label>
-                  <p className="text-sm text-gray-900 dark:text-white mt-1 font-mono break-all">
-                    {typeof credential.issuer === 'string' ? credential.issuer : credential.issuer.id}
+                  <p className="text-sm text-gray-900 dark:text-white mt-1">
+                    {display.issuer}
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{ISSUER_SOURCE_LABELS[display.issuerSource]}</span>
+                  </p>
+                  <p className="text-xs text-gray-600 dark:text-gray-300 mt-1 font-mono break-all">
+                    {getIssuerId(credential.issuer)}
                   </p>
                 </div>
               </div>
@@ -235,15 +397,22 @@ export function CredentialViewer({ credential }: CredentialViewerProps) {
               <div className="bg-gray-50 dark:bg-gray-700 rounded-md p-4 space-y-3">
                 <div>
                   <label className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">
-                    Issued
+                    {display.version === '2.0' ? 'Valid From' : 'Issued'}
                   </label>
-                  <p className="text-sm text-gray-900 dark:text-white mt-1">{display.issuanceDate}</p>
+                  <p className={`text-sm mt-1 ${
+                    display.isNotYetValid
+                      ? 'text-yellow-600 dark:text-yellow-400'
+                      : 'text-gray-900 dark:text-white'
+                  }`}>
+                    {display.issuanceDate || 'Not specified'}
+                    {display.isNotYetValid && ' (Not yet valid)'}
+                  </p>
                 </div>
                 
                 {display.expirationDate && (
                   <div>
                     <label className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">
-                      Expires
+                      {display.version === '2.0' ? 'Valid Until' : 'Expires'}
                     </label>
                     <p className={`text-sm mt-1 ${
                       display.isExpired 
@@ -258,6 +427,33 @@ export function CredentialViewer({ credential }: CredentialViewerProps) {
               </div>
             </div>
 
+            {/* Status and Schema */}
+            {(credential.credentialStatus || credential.credentialSchema) && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3 flex items-center">
+                  <ListChecks className="h-4 w-4 mr-2" />
+                  Status &amp; Schema
+                </h3>
+                <div className="bg-gray-50 dark:bg-gray-700 rounded-md p-4 space-y-3">
+                  {([
+                    ['Status', credential.credentialStatus],
+                    ['Schema', credential.credentialSchema]
+                  ] as const).map(([label, entries]) => entries && (
+                    <div key={label}>
+                      <label className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                        {label}
+                      </label>
+                      {(Array.isArray(entries) ? entries : [entries]).map((entry, index) => (
+                        <p key={index} className="text-sm text-gray-900 dark:text-white mt-1 font-mono break-all">
+                          {entry.type}{entry.id && `: ${entry.id}`}
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Credential Subject */}
             <div>
               <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3 flex items-center">
@@ -282,12 +478,20 @@ export function CredentialViewer({ credential }: CredentialViewerProps) {
             </div>
 
             {/* Proof */}
-            {credential.proof && (
-              <div>
-                <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3 flex items-center">
-                  <Shield className="h-4 w-4 mr-2" />
-                  Cryptographic Proof
-                </h3>
+            <div>
+              <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-3 flex items-center">
+                <Shield className="h-4 w-4 mr-2" />
+                Cryptographic Proof
+              </h3>
+              <div className="bg-gray-50 dark:bg-gray-700 rounded-md p-4 mb-3 flex items-start space-x-3">
+                <ProofStatusBadge result={verificationResult} />
+                {verificationResult && (
+                  <p className="text-xs text-gray-600 dark:text-gray-400 break-all">
+                    {verificationResult.message}
+                  </p>
+                )}
+              </div>
+              {credential.proof && (
                 <div className="bg-gray-50 dark:bg-gray-700 rounded-md overflow-hidden">
                   <SyntaxHighlighter
                     language="json"
@@ -303,6 +507,177 @@ export function CredentialViewer({ credential }: CredentialViewerProps) {
                     {JSON.stringify(credential.proof, null, 2)}
                   </SyntaxHighlighter>
                 </div>
+              )}
+            </div>
+
+            {/* Status */}
+            {credential.credentialStatus && (
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-medium text-gray-900 dark:text-white flex items-center">
+                    <Ban className="h-4 w-4 mr-2" />
+                    Status
+                  </h3>
+                  {walletStatusEntry && (
+                    <div className="flex items-center space-x-2">
+                      <button
+                        onClick={handleDownloadStatusList}
+                        className="px-3 py-1 text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+                        title="Download the signed status list the wallet publishes at its id"
+                      >
+                        Status list
+                      </button>
+                      <button
+                        onClick={() => handleSetRevoked(statusResult?.state !== 'revoked')}
+                        disabled={!statusResult}
+                        className="px-3 py-1 text-sm bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {statusResult?.state === 'revoked' ? 'Reinstate' : 'Revoke'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+                <div className="bg-gray-50 dark:bg-gray-700 rounded-md p-4 flex items-start space-x-3">
+                  <CredentialStatusBadge result={statusResult} />
+                  {statusResult && (
+                    <p className="text-xs text-gray-600 dark:text-gray-400 break-all">
+                      {statusResult.message}
+                    </p>
+                  )}
+                </div>
+                {statusError && (
+                  <p className="mt-2 text-xs text-red-600 dark:text-red-400">{statusError}</p>
+                )}
+              </div>
+            )}
+
+            {/* Lineage */}
+            {dependencyGraph && (hasSources || dependents.length > 0) && (
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-medium text-gray-900 dark:text-white flex items-center">
+                    <GitBranch className="h-4 w-4 mr-2" />
+                    Lineage
+                  </h3>
+                  {staleSources.length > 0 && credential.credentialSubject.derivationReceipt !== undefined && onRederive && (
+                    <button
+                      onClick={handleRederive}
+                      disabled={isRederiving}
+                      className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-1"
+                    >
+                      {isRederiving ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+                      <span>Re-derive</span>
+                    </button>
+                  )}
+                </div>
+                <div className="bg-gray-50 dark:bg-gray-700 rounded-md p-4 space-y-3">
+                  {staleSources.length > 0 && (
+                    <div className="flex items-start space-x-2 text-sm text-yellow-700 dark:text-yellow-300">
+                      <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                      <span>
+                        Stale: {staleSources.length} source{staleSources.length !== 1 ? 's' : ''}{' '}
+                        {[...new Set(staleSources.map(source => STALE_REASON_LABELS[source.stale]))].join(', ')}.
+                        {credential.credentialSubject.derivationReceipt === undefined &&
+                          ' There is no stored query to re-derive it with.'}
+                      </span>
+                    </div>
+                  )}
+                  {staleSources.length > 0 && credential.credentialSubject.derivationReceipt !== undefined && trustPolicyChanges.length > 0 && (
+                    <div className="flex items-start space-x-2 text-sm text-yellow-700 dark:text-yellow-300">
+                      <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                      <span>
+                        The trust lists have changed since this credential was derived: {trustPolicyChanges.join(', ')}.
+                        Re-deriving applies the current lists.
+                      </span>
+                    </div>
+                  )}
+                  {hasSources && (
+                    <LineageTree node={getLineageTree(credential.id, dependencyGraph)} credentials={credentials} />
+                  )}
+                  {dependents.length > 0 && (
+                    <div>
+                      <label className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                        Derived credentials depending on this one
+                      </label>
+                      <ul className="text-xs text-gray-900 dark:text-white mt-1 space-y-1">
+                        {dependents.map(id => {
+                          const dependent = credentials.find(cred => cred.id === id);
+                          return <li key={id} className="break-all">{dependent ? formatCredentialForDisplay(dependent).title : id}</li>;
+                        })}
+                      </ul>
+                    </div>
+                  )}
+                  {rederiveError && (
+                    <p className="text-xs text-red-600 dark:text-red-400">{rederiveError}</p>
+                  )}
+                </div>
+              </div>
+            )}
+
+            {/* Derivation */}
+            {credential.type.includes('Derived') && (
+              <div>
+                <div className="flex items-center justify-between mb-3">
+                  <h3 className="text-sm font-medium text-gray-900 dark:text-white flex items-center">
+                    <GitCompare className="h-4 w-4 mr-2" />
+                    Derivation
+                  </h3>
+                  <button
+                    onClick={handleCheckDerivation}
+                    disabled={isCheckingDerivation}
+                    className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-1"
+                  >
+                    {isCheckingDerivation && <Loader2 className="h-3 w-3 animate-spin" />}
+                    <span>Check derivation</span>
+                  </button>
+                </div>
+                {derivationCheck && (
+                  <div className="bg-gray-50 dark:bg-gray-700 rounded-md p-4 space-y-3">
+                    <p className={`text-sm font-medium ${DERIVATION_STATUS_STYLES[derivationCheck.status]}`}>
+                      {derivationCheck.message}
+                    </p>
+                    {derivationCheck.expectedHash && (
+                      <div className="text-xs font-mono text-gray-600 dark:text-gray-400 break-all space-y-1">
+                        <p>Receipt: {derivationCheck.expectedHash}</p>
+                        <p>Re-run: {derivationCheck.actualHash}</p>
+                      </div>
+                    )}
+                    {([
+                      ['Missing source credentials', derivationCheck.missingSources],
+                      ['Changed since derivation', derivationCheck.changedSources],
+                      ['Without a valid proof', derivationCheck.unverifiedSources]
+                    ] as const).map(([label, ids]) => ids && (
+                      <div key={label}>
+                        <label className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                          {label}
+                        </label>
+                        <ul className="text-xs font-mono text-gray-900 dark:text-white mt-1 break-all">
+                          {ids.map(id => <li key={id}>{id}</li>)}
+                        </ul>
+                      </div>
+                    ))}
+                    {derivationCheck.missingQuads.length > 0 && (
+                      <div>
+                        <label className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                          Claimed but not reproduced
+                        </label>
+                        <pre className="text-xs text-red-700 dark:text-red-300 mt-1 whitespace-pre-wrap break-all">
+                          {derivationCheck.missingQuads.join('\n')}
+                        </pre>
+                      </div>
+                    )}
+                    {derivationCheck.unexpectedQuads.length > 0 && (
+                      <div>
+                        <label className="text-xs font-medium text-gray-500 dark:text-gray-400 uppercase tracking-wide">
+                          Reproduced but not claimed
+                        </label>
+                        <pre className="text-xs text-red-700 dark:text-red-300 mt-1 whitespace-pre-wrap break-all">
+                          {derivationCheck.unexpectedQuads.join('\n')}
+                        </pre>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -0,0 +1,80 @@
+import { useMemo } from 'react';
+import { AlertTriangle, Eye } from 'lucide-react';
+import { DisclosureAnalysis, DisclosureKind } from '@/types/credential';
+import { getQueryForm } from '@/utils/credentialUtils';
+import { analyzeQueryDisclosure } from '@/utils/privacyUtils';
+
+interface DisclosureSummaryProps {
+  query: string;
+}
+
+const KIND_STYLES: Record<DisclosureKind, { label: string; className: string }> = {
+  'identifier': {
+    label: 'Identifier',
+    className: 'bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300'
+  },
+  'personal-attribute': {
+    label: 'Raw attribute',
+    className: 'bg-orange-100 dark:bg-orange-900 text-orange-700 dark:text-orange-300'
+  },
+  'derived-value': {
+    label: 'Derived value',
+    className: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-700 dark:text-yellow-300'
+  },
+  'derived-boolean': {
+    label: 'Derived boolean',
+    className: 'bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300'
+  },
+  'constant': {
+    label: 'Constant',
+    className: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+  }
+};
+
+// What a derived credential from the query would disclose, shown before it is created
+export function DisclosureSummary({ query }: DisclosureSummaryProps) {
+  const analysis = useMemo<DisclosureAnalysis | null>(() => {
+    try {
+      return analyzeQueryDisclosure(getQueryForm(query));
+    } catch {
+      return null;
+    }
+  }, [query]);
+
+  if (!analysis) return null;
+
+  return (
+    <div className="p-4 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-md space-y-3">
+      <h4 className="text-sm font-medium text-gray-900 dark:text-white flex items-center">
+        <Eye className="h-4 w-4 mr-2" />
+        Disclosure summary
+      </h4>
+      <ul className="space-y-1">
+        {analysis.terms.map(term => (
+          <li key={term.term} className="flex items-center flex-wrap gap-2 text-sm">
+            <span className="font-mono text-gray-800 dark:text-gray-200">{term.term}</span>
+            <span className={`px-2 py-0.5 text-xs rounded-full ${KIND_STYLES[term.kind].className}`}>
+              {KIND_STYLES[term.kind].label}
+            </span>
+            {term.attributes.length > 0 && (
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                {term.kind === 'derived-boolean' || term.kind === 'derived-value' ? 'from ' : ''}
+                {term.attributes.join(', ')}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+      {analysis.warnings.length > 0 && (
+        <ul className="space-y-1">
+          {analysis.warnings.map(warning => (
+            <li key={warning} className="flex items-start space-x-2 text-sm text-yellow-800 dark:text-yellow-200">
+              <AlertTriangle className="h-4 w-4 flex-shrink-0 mt-0.5" />
+              <span>{warning}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
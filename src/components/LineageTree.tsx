@@ -0,0 +1,47 @@
+import { FileText, AlertTriangle } from 'lucide-react';
+import { VerifiableCredential, LineageNode, StaleReason } from '@/types/credential';
+import { formatCredentialForDisplay } from '@/utils/credentialUtils';
+
+interface LineageTreeProps {
+  node: LineageNode;
+  // Wallet credentials, to show sources by title
+  credentials: VerifiableCredential[];
+}
+
+export const STALE_REASON_LABELS: Record<StaleReason, string> = {
+  'deleted': 'no longer in the wallet',
+  'replaced': 'replaced since derivation',
+  'revoked': 'revoked',
+  'suspended': 'suspended',
+  'expired': 'expired',
+  'stale-source': 'derived from a stale source'
+};
+
+// A derived credential's sources, nested down to the credentials that were not themselves derived
+export function LineageTree({ node, credentials }: LineageTreeProps) {
+  const credential = credentials.find(cred => cred.id === node.id);
+
+  return (
+    <div>
+      <div className="flex items-center space-x-2 text-sm">
+        <FileText className="h-3 w-3 text-gray-400 flex-shrink-0" />
+        <span className="text-gray-900 dark:text-white truncate" title={node.id}>
+          {credential ? formatCredentialForDisplay(credential).title : <span className="font-mono text-xs break-all">{node.id}</span>}
+        </span>
+        {node.stale && (
+          <span className="inline-flex items-center space-x-1 text-xs text-yellow-700 dark:text-yellow-300 flex-shrink-0">
+            <AlertTriangle className="h-3 w-3" />
+            <span>{STALE_REASON_LABELS[node.stale]}</span>
+          </span>
+        )}
+      </div>
+      {node.sources.length > 0 && (
+        <div className="ml-2 pl-3 mt-1 border-l border-gray-300 dark:border-gray-600 space-y-1">
+          {node.sources.map(source => (
+            <LineageTree key={source.id} node={source} credentials={credentials} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Send, Download, Copy, Check, AlertCircle, RefreshCw, Loader2 } from 'lucide-react';
+import { VerifiableCredential, VerifiablePresentation, CredentialVersion, PresentationFormat, PresentationVerificationResult } from '@/types/credential';
+import { getCredentialVersion } from '@/utils/credentialUtils';
+import { createPresentation, createPresentationJwt, verifyPresentation, downloadPresentation } from '@/utils/presentationUtils';
+
+interface PresentationBuilderProps {
+  // Credentials selected in the credential list
+  credentials: VerifiableCredential[];
+  onClearSelection: () => void;
+}
+
+export function PresentationBuilder({ credentials, onClearSelection }: PresentationBuilderProps) {
+  const [challenge, setChallenge] = useState('');
+  const [domain, setDomain] = useState('');
+  const [format, setFormat] = useState<PresentationFormat>('json-ld');
+  const [version, setVersion] = useState<CredentialVersion>('2.0');
+  const [presentation, setPresentation] = useState<VerifiablePresentation | string | null>(null);
+  const [check, setCheck] = useState<PresentationVerificationResult | null>(null);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  // Follow the selection's data model version when it has only one
+  useEffect(() => {
+    const versions = new Set(credentials.map(getCredentialVersion));
+    if (versions.size === 1) {
+      setVersion([...versions][0]);
+    }
+    setPresentation(null);
+    setCheck(null);
+  }, [credentials]);
+
+  const handleCreate = async () => {
+    setIsCreating(true);
+    setError(null);
+    setPresentation(null);
+    setCheck(null);
+    try {
+      const options = { challenge, domain, version };
+      const created = format === 'jwt'
+        ? await createPresentationJwt(credentials, options)
+        : await createPresentation(credentials, options);
+      setPresentation(created);
+      // Check it the way the verifier will
+      setCheck(await verifyPresentation(created, options));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create presentation');
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const serialized = presentation === null
+    ? ''
+    : typeof presentation === 'string' ? presentation : JSON.stringify(presentation, null, 2);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(serialized);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (err) {
+      console.error('Failed to copy to clipboard:', err);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+          <Send className="h-5 w-5 mr-2" />
+          Present ({credentials.length})
+        </h2>
+        {credentials.length > 0 && (
+          <button
+            onClick={onClearSelection}
+            className="text-sm text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            Clear selection
+          </button>
+        )}
+      </div>
+
+      <div className="p-4 space-y-4">
+        {credentials.length === 0 ? (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Select credentials in the list to bundle them into a presentation signed with your holder key.
+          </p>
+        ) : (
+          <>
+            <ul className="text-xs text-gray-700 dark:text-gray-300 space-y-1">
+              {credentials.map(credential => (
+                <li key={credential.id} className="truncate font-mono">{credential.id}</li>
+              ))}
+            </ul>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              <div className="flex space-x-1">
+                <input
+                  type="text"
+                  value={challenge}
+                  onChange={(e) => setChallenge(e.target.value)}
+                  placeholder="Challenge (from the verifier)"
+                  className="flex-1 min-w-0 p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 text-sm"
+                />
+                <button
+                  onClick={() => setChallenge(crypto.randomUUID())}
+                  className="p-2 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                  title="Generate a challenge for testing"
+                >
+                  <RefreshCw className="h-4 w-4" />
+                </button>
+              </div>
+              <input
+                type="text"
+                value={domain}
+                onChange={(e) => setDomain(e.target.value)}
+                placeholder="Domain (e.g. https://verifier.example)"
+                className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 text-sm"
+              />
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as PresentationFormat)}
+                className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+              >
+                <option value="json-ld">JSON-LD (Data Integrity proof)</option>
+                <option value="jwt">VP-JWT</option>
+              </select>
+              <select
+                value={version}
+                onChange={(e) => setVersion(e.target.value as CredentialVersion)}
+                className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+              >
+                <option value="1.1">VCDM 1.1</option>
+                <option value="2.0">VCDM 2.0</option>
+              </select>
+            </div>
+
+            <button
+              onClick={handleCreate}
+              disabled={isCreating || !challenge.trim() || !domain.trim()}
+              className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2 text-sm"
+            >
+              {isCreating ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              <span>Create presentation</span>
+            </button>
+          </>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400 flex-shrink-0" />
+            <span className="text-sm text-red-700 dark:text-red-300">{error}</span>
+          </div>
+        )}
+
+        {presentation !== null && (
+          <div className="space-y-2">
+            {check && (
+              <p className={`text-sm ${check.status === 'verified' ? 'text-green-700 dark:text-green-300' : 'text-yellow-700 dark:text-yellow-300'}`}>
+                {check.message}
+              </p>
+            )}
+            <div className="flex items-center justify-end space-x-2">
+              <button
+                onClick={handleCopy}
+                className="p-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300"
+                title="Copy to clipboard"
+              >
+                {copied ? <Check className="h-4 w-4 text-green-600" /> : <Copy className="h-4 w-4" />}
+              </button>
+              <button
+                onClick={() => downloadPresentation(presentation)}
+                className="p-1 text-gray-400 hover:text-blue-600 dark:hover:text-blue-400"
+                title="Download presentation"
+              >
+                <Download className="h-4 w-4" />
+              </button>
+            </div>
+            <pre className="max-h-64 overflow-auto p-3 bg-gray-50 dark:bg-gray-700 rounded-md text-xs text-gray-900 dark:text-gray-100 whitespace-pre-wrap break-all">
+              {serialized}
+            </pre>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
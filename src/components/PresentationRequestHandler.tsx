@@ -0,0 +1,359 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Inbox, ShieldCheck, ShieldAlert, Loader2, AlertCircle, CheckCircle, FlaskConical, Wand2, Code } from 'lucide-react';
+import {
+  VerifiableCredential,
+  AuthorizationRequest,
+  AuthorizationRequestMatch,
+  DerivationSuggestion,
+  RequestQuerySource,
+  ProofVerificationResult,
+  StatusCheckResult
+} from '@/types/credential';
+import { formatCredentialForDisplay } from '@/utils/credentialUtils';
+import {
+  parseAuthorizationRequest,
+  matchAuthorizationRequest,
+  isRequestSatisfied,
+  respondToAuthorizationRequest,
+  declineAuthorizationRequest
+} from '@/utils/oid4vpUtils';
+import { deriveForDescriptor } from '@/utils/presentationExchangeUtils';
+
+interface PresentationRequestHandlerProps {
+  credentials: VerifiableCredential[];
+  verificationResults: Record<string, ProofVerificationResult>;
+  statusResults: Record<string, StatusCheckResult>;
+  onDerivedCredentialCreated: (credential: VerifiableCredential) => Promise<void>;
+  onOpenInQueryEditor: (source: RequestQuerySource) => void;
+}
+
+type TestQueryLanguage = 'presentation-exchange' | 'dcql';
+
+interface VerifierOutcome {
+  status: string;
+  message?: string;
+}
+
+// Answer an OpenID for Verifiable Presentations request: show what the verifier asks for, let the
+// user pick which credentials to share (best-ranked first, or derived on the spot when none fits)
+// and send them as a presentation bound to the request
+export function PresentationRequestHandler({
+  credentials,
+  verificationResults,
+  statusResults,
+  onDerivedCredentialCreated,
+  onOpenInQueryEditor
+}: PresentationRequestHandlerProps) {
+  const [link, setLink] = useState('');
+  const [request, setRequest] = useState<AuthorizationRequest | null>(null);
+  const [matches, setMatches] = useState<AuthorizationRequestMatch | null>(null);
+  const [selection, setSelection] = useState<Record<string, VerifiableCredential | undefined>>({});
+  // Selective disclosures made for this request keep their source's id, so they stay out of the wallet
+  const [disclosures, setDisclosures] = useState<VerifiableCredential[]>([]);
+  const [testLanguage, setTestLanguage] = useState<TestQueryLanguage>('presentation-exchange');
+  const [testTransactionId, setTestTransactionId] = useState<string | null>(null);
+  const [verifierOutcome, setVerifierOutcome] = useState<VerifierOutcome | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<string | null>(null);
+
+  // Rank the wallet against the request again whenever credentials, proofs or statuses change, keeping
+  // the user's choices that still apply and otherwise taking the best-ranked selection
+  useEffect(() => {
+    if (!request) {
+      setMatches(null);
+      return;
+    }
+
+    let cancelled = false;
+    matchAuthorizationRequest(request, [...credentials, ...disclosures], { verificationResults, statusResults })
+      .then(matched => {
+        if (cancelled) return;
+        setMatches(matched);
+        setSelection(prev => ({
+          ...matched.suggestedSelection,
+          ...Object.fromEntries(Object.entries(prev).filter(([id, credential]) => !credential ||
+            matched.requested.find(match => match.id === id)?.candidates.some(candidate => candidate.credential === credential)))
+        }));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Could not match the request');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [request, credentials, disclosures, verificationResults, statusResults]);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsBusy(true);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const openRequest = (input: string) => run(async () => {
+    setRequest(null);
+    setResult(null);
+    setVerifierOutcome(null);
+    setSelection({});
+    setDisclosures([]);
+    setRequest(await parseAuthorizationRequest(input));
+  });
+
+  const handleStartTest = () => run(async () => {
+    const response = await fetch('/api/verifier', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ query: testLanguage })
+    });
+    if (!response.ok) {
+      throw new Error(`Local verifier is not available: HTTP ${response.status}`);
+    }
+    const { id, authorizationRequest } = await response.json() as { id: string; authorizationRequest: string };
+    setTestTransactionId(id);
+    setLink(authorizationRequest);
+    await openRequest(authorizationRequest);
+  });
+
+  // The local verifier reports how it judged the response; other verifiers only redirect
+  const finish = async (message: string, redirectUri?: string) => {
+    setRequest(null);
+    setResult(redirectUri ? `${message}. The verifier asks you to continue at ${redirectUri}` : message);
+    if (testTransactionId && request?.responseUri.includes(`/api/verifier/${testTransactionId}/`)) {
+      const response = await fetch(`/api/verifier/${testTransactionId}`);
+      if (response.ok) {
+        setVerifierOutcome(await response.json() as VerifierOutcome);
+      }
+    }
+  };
+
+  const handleDerive = (suggestion: DerivationSuggestion) => run(async () => {
+    const derived = await deriveForDescriptor(suggestion, credentials);
+    if (suggestion.mode === 'bbs-selective-disclosure') {
+      setDisclosures(prev => [...prev, ...derived]);
+    } else {
+      for (const credential of derived) {
+        await onDerivedCredentialCreated(credential);
+      }
+    }
+  });
+
+  // The part of the request a credential query or input descriptor answers, for compiling it to SPARQL
+  const getRequestSource = (id: string): RequestQuerySource | undefined => {
+    const descriptor = request?.presentationDefinition?.input_descriptors.find(candidate => candidate.id === id);
+    if (descriptor) {
+      return { language: 'presentation-exchange', definitionId: request?.presentationDefinition?.id, clientId: request?.clientId, request: descriptor };
+    }
+    const query = request?.dcqlQuery?.credentials.find(candidate => candidate.id === id);
+    return query && { language: 'dcql', clientId: request?.clientId, request: query };
+  };
+
+  const handleShare = () => run(async () => {
+    if (!request) return;
+    const { redirectUri } = await respondToAuthorizationRequest(request, selection);
+    await finish('Presentation sent', redirectUri);
+  });
+
+  const handleDecline = () => run(async () => {
+    if (!request) return;
+    const { redirectUri } = await declineAuthorizationRequest(request);
+    await finish('Request declined', redirectUri);
+  });
+
+  const purpose = request?.presentationDefinition?.purpose ?? request?.presentationDefinition?.name;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+          <Inbox className="h-5 w-5 mr-2" />
+          Verifier Requests
+        </h2>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <div className="flex space-x-2">
+          <input
+            type="text"
+            value={link}
+            onChange={(e) => setLink(e.target.value)}
+            placeholder="openid4vp://?client_id=...&request_uri=..."
+            className="flex-1 min-w-0 p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 text-sm font-mono"
+          />
+          <button
+            onClick={() => openRequest(link)}
+            disabled={isBusy || !link.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+          >
+            Open
+          </button>
+        </div>
+
+        <div className="flex items-center space-x-2 text-sm">
+          <FlaskConical className="h-4 w-4 text-gray-400 flex-shrink-0" />
+          <span className="text-gray-600 dark:text-gray-400">Local test verifier:</span>
+          <select
+            value={testLanguage}
+            onChange={(e) => setTestLanguage(e.target.value as TestQueryLanguage)}
+            className="p-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+          >
+            <option value="presentation-exchange">Presentation Exchange</option>
+            <option value="dcql">DCQL</option>
+          </select>
+          <button
+            onClick={handleStartTest}
+            disabled={isBusy}
+            className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50"
+          >
+            New request
+          </button>
+        </div>
+
+        {request && (
+          <div className="p-3 border border-gray-200 dark:border-gray-700 rounded-md space-y-3">
+            <div className="text-sm">
+              <div className="flex items-center space-x-2">
+                {request.clientAuthenticated
+                  ? <ShieldCheck className="h-4 w-4 text-green-600 dark:text-green-400 flex-shrink-0" />
+                  : <ShieldAlert className="h-4 w-4 text-yellow-600 dark:text-yellow-400 flex-shrink-0" />}
+                <span className="font-mono text-xs break-all text-gray-900 dark:text-white">{request.clientId}</span>
+              </div>
+              {!request.clientAuthenticated && (
+                <p className="text-xs text-yellow-700 dark:text-yellow-300 mt-1">
+                  The verifier&apos;s identity is not verified; only share with verifiers you recognise
+                </p>
+              )}
+              {purpose && <p className="text-gray-600 dark:text-gray-400 mt-1">{purpose}</p>}
+            </div>
+
+            {matches?.requested.map(match => {
+              const selectedIndex = match.candidates.findIndex(candidate => candidate.credential === selection[match.id]);
+              const unsupportedFormat = request.unsupportedQueries?.find(query => query.id === match.id)?.format;
+              return (
+                <div key={match.id} className="text-sm">
+                  <div className="flex items-center justify-between">
+                    <label className="font-medium text-gray-900 dark:text-white">{match.name ?? match.id}</label>
+                    <button
+                      onClick={() => {
+                        const source = getRequestSource(match.id);
+                        if (source) onOpenInQueryEditor(source);
+                      }}
+                      title="Compile this part of the request to SPARQL and open it in the query editor"
+                      className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 flex items-center space-x-1 text-xs"
+                    >
+                      <Code className="h-3 w-3" />
+                      <span>SPARQL</span>
+                    </button>
+                  </div>
+                  {match.purpose && <p className="text-xs text-gray-600 dark:text-gray-400">{match.purpose}</p>}
+                  {match.candidates.length === 0 ? (
+                    <div className="mt-1 space-y-1">
+                      <p className="text-xs text-red-600 dark:text-red-400">
+                        {unsupportedFormat
+                          ? `Asks for a ${unsupportedFormat} credential, which the wallet cannot present`
+                          : 'No matching credential in the wallet'}
+                      </p>
+                      {match.derivation && (
+                        <div className="p-2 bg-gray-50 dark:bg-gray-700/50 rounded-md space-y-1">
+                          <p className="text-xs text-gray-700 dark:text-gray-300">
+                            {match.derivation.mode === 'bbs-selective-disclosure'
+                              ? 'Can be answered by selectively disclosing part of one credential'
+                              : `Can be answered by a new credential you sign, derived from ${match.derivation.sourceCredentials.length} credential${match.derivation.sourceCredentials.length !== 1 ? 's' : ''}`}
+                          </p>
+                          {match.derivation.uncoveredFields.length > 0 && (
+                            <p className="text-xs text-yellow-700 dark:text-yellow-300">
+                              It would not answer: {match.derivation.uncoveredFields.join(', ')}
+                            </p>
+                          )}
+                          <details className="text-xs">
+                            <summary className="cursor-pointer text-gray-600 dark:text-gray-400">SPARQL CONSTRUCT query</summary>
+                            <pre className="mt-1 p-2 bg-white dark:bg-gray-800 rounded overflow-x-auto font-mono">{match.derivation.query}</pre>
+                          </details>
+                          <button
+                            onClick={() => match.derivation && handleDerive(match.derivation)}
+                            disabled={isBusy}
+                            className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 disabled:opacity-50 flex items-center space-x-1 text-xs"
+                          >
+                            <Wand2 className="h-3 w-3" />
+                            <span>Derive</span>
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ) : (
+                    <>
+                      <select
+                        value={selectedIndex}
+                        onChange={(e) => setSelection(prev => ({ ...prev, [match.id]: match.candidates[Number(e.target.value)]?.credential }))}
+                        className="mt-1 w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                      >
+                        {match.candidates.map((candidate, index) => (
+                          <option key={index} value={index}>
+                            {`${formatCredentialForDisplay(candidate.credential).title}${disclosures.includes(candidate.credential) ? ' (selective disclosure)' : ''}`}
+                          </option>
+                        ))}
+                        <option value={-1}>Don&apos;t share</option>
+                      </select>
+                      {selectedIndex >= 0 && match.candidates[selectedIndex].notes.length > 0 && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          {match.candidates[selectedIndex].notes.join(' · ')}
+                        </p>
+                      )}
+                    </>
+                  )}
+                </div>
+              );
+            })}
+
+            <div className="flex space-x-2">
+              <button
+                onClick={handleShare}
+                disabled={isBusy || !isRequestSatisfied(request, selection)}
+                className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2 text-sm"
+              >
+                {isBusy && <Loader2 className="h-4 w-4 animate-spin" />}
+                <span>Share</span>
+              </button>
+              <button
+                onClick={handleDecline}
+                disabled={isBusy}
+                className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 text-sm"
+              >
+                Decline
+              </button>
+            </div>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400 flex-shrink-0" />
+            <span className="text-sm text-red-700 dark:text-red-300">{error}</span>
+          </div>
+        )}
+
+        {result && (
+          <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-md space-y-1">
+            <div className="flex items-center space-x-2">
+              <CheckCircle className="h-4 w-4 text-green-600 dark:text-green-400 flex-shrink-0" />
+              <span className="text-sm text-green-700 dark:text-green-300">{result}</span>
+            </div>
+            {verifierOutcome && (
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                Local verifier: {verifierOutcome.status}{verifierOutcome.message ? ` (${verifierOutcome.message})` : ''}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,64 @@
+import { ShieldCheck, ShieldAlert, ShieldQuestion, ShieldOff, Loader2 } from 'lucide-react';
+import { ProofVerificationResult } from '@/types/credential';
+
+interface ProofStatusBadgeProps {
+  result?: ProofVerificationResult;
+  showLabel?: boolean;
+}
+
+const STATUS_STYLES: Record<ProofVerificationResult['status'], { label: string; className: string }> = {
+  'verified': {
+    label: 'Verified',
+    className: 'bg-green-100 dark:bg-green-900 text-green-700 dark:text-green-300'
+  },
+  'invalid-signature': {
+    label: 'Invalid signature',
+    className: 'bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300'
+  },
+  'unsupported-suite': {
+    label: 'Unsupported suite',
+    className: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-700 dark:text-yellow-300'
+  },
+  'unresolvable-key': {
+    label: 'Unresolvable key',
+    className: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-700 dark:text-yellow-300'
+  },
+  'unsigned': {
+    label: 'Unsigned',
+    className: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+  },
+  'error': {
+    label: 'Verification error',
+    className: 'bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300'
+  }
+};
+
+export function ProofStatusBadge({ result, showLabel = true }: ProofStatusBadgeProps) {
+  if (!result) {
+    return (
+      <span className="inline-flex items-center space-x-1 px-2 py-0.5 text-xs bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-400 rounded-full">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        {showLabel && <span>Verifying</span>}
+      </span>
+    );
+  }
+
+  const style = STATUS_STYLES[result.status];
+  const Icon = result.status === 'verified'
+    ? ShieldCheck
+    : result.status === 'unsigned'
+      ? ShieldOff
+      : result.status === 'invalid-signature' || result.status === 'error'
+        ? ShieldAlert
+        : ShieldQuestion;
+
+  return (
+    <span
+      className={`inline-flex items-center space-x-1 px-2 py-0.5 text-xs rounded-full ${style.className}`}
+      title={result.message}
+    >
+      <Icon className="h-3 w-3" />
+      {showLabel && <span>{style.label}</span>}
+    </span>
+  );
+}
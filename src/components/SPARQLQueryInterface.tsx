@@ -1,26 +1,46 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Database, Play, Plus, Code, AlertCircle, CheckCircle, Copy, Hash, MessageCircle, Send, Bot, User, Minimize2, Trash2, Loader2 } from 'lucide-react';
+import { Database, Play, Plus, Code, AlertCircle, CheckCircle, Copy, Hash, MessageCircle, Send, Bot, User, Minimize2, Trash2, Loader2, Inbox, X } from 'lucide-react';
 import Editor from '@monaco-editor/react';
-import { VerifiableCredential } from '@/types/credential';
+import {
+  VerifiableCredential,
+  CredentialVersion,
+  DerivationMode,
+  UnsupportedSourceReport,
+  ShapeValidationReport,
+  RequestQuerySource,
+  RequestQueryForm,
+  TrustList
+} from '@/types/credential';
 import { 
   executeSPARQLQuery, 
+  executeSPARQLAsk,
+  executeSPARQLDescribe,
   createDerivedCredential, 
   createDerivedCredentialsFromConstruct,
-  getSampleSPARQLQueries
+  constructToSelectQuery,
+  instantiateConstructTemplate,
+  downloadCredential,
+  getSampleSPARQLQueries,
+  getQueryForm,
+  formatCredentialForDisplay,
+  loadCredentialDataset,
+  quadsToTriG
 } from '@/utils/credentialUtils';
+import { cachedNQuadsSource } from '@/utils/credentialRepository';
+import { getCredentialGraphQuads, findCredentialGraph } from '@/utils/quadStore';
+import { getBindingSources } from '@/utils/provenanceUtils';
+import { compileRequestQuery, getRequestQuerySources } from '@/utils/queryCompilerUtils';
+import { DisclosureSummary } from '@/components/DisclosureSummary';
+import { ShapeValidationResults } from '@/components/ShapeValidationResults';
 import { 
   callLLMForSPARQLAssistance, 
   validateLLMConfiguration,
   type ChatMessage 
 } from '@/utils/llmUtils';
-import { translate, toSparql, Algebra, Factory } from 'sparqlalgebrajs';
-import * as jsonld from 'jsonld';
-import { Parser, Store } from 'n3';
-import { write as prettyTurtle, write } from '@jeswr/pretty-turtle';
+import { write } from '@jeswr/pretty-turtle';
 import * as RDF from "@rdfjs/types";
-import { everyTermsNested, forEachTermsNested, mapTermsNested } from "rdf-terms";
 
 // Define comprehensive prefix map for pretty-turtle formatting
 const SPARQL_PREFIXES = {
@@ -45,46 +65,27 @@ const SPARQL_PREFIXES = {
   'cvx': 'http://hl7.org/fhir/sid/cvx'
 };
 
-// Utility function to collect variables from algebra recursively
-const collectVariablesFromAlgebra = (operation: Algebra.Operation): Set<string> => {
-  const variables = new Set<string>();
-  
-  const collectFromPatterns = (patterns: Algebra.Pattern[]) => {
-    patterns.forEach(pattern => {
-      if (pattern && pattern.type === 'pattern') {
-        // This is a triple/quad pattern
-        [pattern.subject, pattern.predicate, pattern.object].forEach(term => {
-          if (term && term.termType === 'Variable') {
-            variables.add(term.value);
-          }
-        });
-      }
-    });
-  };
-  
-  if (operation.type === 'bgp' && operation.patterns) {
-    collectFromPatterns(operation.patterns);
-  } else if (operation.type === 'construct') {
-    // Collect from template
-    if (operation.template) {
-      collectFromPatterns(operation.template);
-    }
-    // Collect from input (WHERE clause)
-    if (operation.input) {
-      const inputVars = collectVariablesFromAlgebra(operation.input);
-      inputVars.forEach(v => variables.add(v));
-    }
-  }
-  
-  return variables;
-};
-
 interface SPARQLQueryInterfaceProps {
   credentials: VerifiableCredential[];
-  onDerivedCredentialCreated: (credential: VerifiableCredential) => void;
+  onDerivedCredentialCreated: (credential: VerifiableCredential) => Promise<void>;
+  // A verifier request to compile and load into the editor
+  requestQuerySource?: RequestQuerySource | null;
+  trustLists?: TrustList[];
 }
 
-export function SPARQLQueryInterface({ credentials, onDerivedCredentialCreated }: SPARQLQueryInterfaceProps) {
+const XSD_BOOLEAN = 'http://www.w3.org/2001/XMLSchema#boolean';
+
+// Whether every projected value of a SELECT is a boolean, so its results can be stated as a predicate proof
+const hasOnlyBooleanBindings = (results: RDF.Bindings[]): boolean =>
+  results.length > 0 && results.every(binding =>
+    [...binding].every(([, term]) => term.termType === 'Literal' && term.datatype.value === XSD_BOOLEAN));
+
+const describeRequestSource = (source: RequestQuerySource): string =>
+  source.language === 'dcql'
+    ? `DCQL credential query "${source.request.id}"`
+    : `input descriptor "${source.request.id}"${source.definitionId ? ` of presentation definition "${source.definitionId}"` : ''}`;
+
+export function SPARQLQueryInterface({ credentials, onDerivedCredentialCreated, requestQuerySource, trustLists = [] }: SPARQLQueryInterfaceProps) {
   const [query, setQuery] = useState(`# Example SPARQL query
 
 SELECT * WHERE {
@@ -96,6 +97,9 @@ SELECT * WHERE {
   const [constructResult, setConstructResult] = useState<string>('');
   const [constructQuads, setConstructQuads] = useState<RDF.Quad[]>([]);
   const [isConstructQuery, setIsConstructQuery] = useState(false);
+  // DESCRIBE results are shown as Turtle in the CONSTRUCT result panel
+  const [isDescribeQuery, setIsDescribeQuery] = useState(false);
+  const [askResult, setAskResult] = useState<boolean | null>(null);
   const [rdfData, setRdfData] = useState('');
   const [isExecuting, setIsExecuting] = useState(false);
   const [isExecutingConstruct, setIsExecutingConstruct] = useState(false);
@@ -115,10 +119,28 @@ SELECT * WHERE {
   const [derivedCredentialForm, setDerivedCredentialForm] = useState({
     id: '',
     type: 'DerivedCredential',
-    issuer: 'did:example:derived-issuer',
     name: '',
-    description: ''
+    description: '',
+    version: '1.1' as CredentialVersion
   });
+  const [derivationMode, setDerivationMode] = useState<DerivationMode>('holder-signature');
+  const [includeStatementProvenance, setIncludeStatementProvenance] = useState(false);
+  // State only the outcome of an ASK or a boolean SELECT, with the query and sources as hashes
+  const [predicateProof, setPredicateProof] = useState(false);
+  // Put derived credentials on the wallet's revocation list
+  const [includeStatus, setIncludeStatus] = useState(false);
+  // Query and derive only from credentials whose issuers the trust lists trust
+  const [trustedOnly, setTrustedOnly] = useState(false);
+  const [unsupportedSources, setUnsupportedSources] = useState<UnsupportedSourceReport[]>([]);
+  const [constructShapeReport, setConstructShapeReport] = useState<ShapeValidationReport | null>(null);
+  // The verifier request the current query was compiled from, recorded in credentials derived with it
+  const [requestSource, setRequestSource] = useState<RequestQuerySource | null>(null);
+  const [requestUnmapped, setRequestUnmapped] = useState<string[]>([]);
+  const [showRequestCompiler, setShowRequestCompiler] = useState(false);
+  const [requestInput, setRequestInput] = useState('');
+  const [requestInputIndex, setRequestInputIndex] = useState(0);
+  const [requestForm, setRequestForm] = useState<RequestQueryForm>('construct');
+  const [loadedRequestSource, setLoadedRequestSource] = useState<RequestQuerySource | null>(null);
 
   // Check LLM configuration on mount
   useEffect(() => {
@@ -126,7 +148,7 @@ SELECT * WHERE {
     setLlmConfig(config);
   }, []);
 
-  // Filter sample queries to only show those that are valid SELECT or CONSTRUCT queries and return results (for SELECT)
+  // Filter sample queries to only show those that are valid and return results (for SELECT)
   useEffect(() => {
     const filterSampleQueries = async () => {
       if (credentials.length === 0) {
@@ -140,16 +162,16 @@ SELECT * WHERE {
       for (const sampleQuery of allSampleQueries) {
         try {
           // Parse query to check if it's valid
-          const algebra = translate(sampleQuery.query);
+          const algebra = getQueryForm(sampleQuery.query);
           
           if (algebra.type === 'project') {
             // For SELECT queries, test that they return results
-            const results = await executeSPARQLQuery(sampleQuery.query, credentials);
+            const results = await executeSPARQLQuery(sampleQuery.query, credentials, cachedNQuadsSource);
             if (results.length > 0) {
               validQueries.push(sampleQuery);
             }
-          } else if (algebra.type === 'construct') {
-            // For CONSTRUCT queries, just check that they parse correctly
+          } else if (algebra.type === 'construct' || algebra.type === 'ask' || algebra.type === 'describe') {
+            // For CONSTRUCT, ASK and DESCRIBE queries, just check that they parse correctly
             validQueries.push(sampleQuery);
           }
         } catch (error) {
@@ -225,18 +247,7 @@ SELECT * WHERE {
       // Get selected bindings
       const selectedBindings = Array.from(selection).map(index => availableBindings[index]);
 
-      const algebra = translate(query);
-      if (algebra.type !== 'construct') {
-        throw new Error('Query is not a CONSTRUCT query');
-      }
-
-      const quads = selectedBindings.flatMap(binding => {
-        return algebra.template.map(quad => 
-          mapTermsNested(quad, (term) => 
-            term.termType === 'Variable' ? binding.get(term.value) || term : term
-          ) as RDF.Quad
-        );
-      });
+      const quads = instantiateConstructTemplate(query, selectedBindings);
 
       console.log('Constructing quads from selected bindings:', quads, availableBindings, selection);
       if (quads.length === 0) {
@@ -310,52 +321,13 @@ SELECT * WHERE {
     if (credentials.length > 0) {
       const loadRDF = async () => {
         try {
-          // Create a combined RDF store from all credentials using JSON-LD and pretty-turtle
-          const store = new Store();
-          
-          // Convert each credential to RDF and add to the store
-          for (const credential of credentials) {
-            try {
-              // Convert credential to N-Quads using jsonld
-              const nquads = await jsonld.toRDF(credential, { format: 'application/n-quads' });
-              
-              // Parse N-Quads and add to store
-              const parser = new Parser({ format: 'N-Quads' });
-              
-              await new Promise<void>((resolve, reject) => {
-                parser.parse(nquads as string, (error, quad) => {
-                  if (error) {
-                    reject(new Error(`Failed to parse RDF for credential ${credential.id}: ${error.message}`));
-                    return;
-                  }
-                  
-                  if (quad) {
-                    store.addQuad(quad);
-                  } else {
-                    // Parsing complete
-                    resolve();
-                  }
-                });
-              });
-            } catch (error) {
-              console.warn(`Failed to convert credential ${credential.id} to RDF:`, error);
-              // Continue with other credentials even if one fails
-            }
-          }
-          
-          // Get all quads from the store, but filter to only include default graph quads
-          const allQuads = store.getQuads(null, null, null, null);
-          // Filter to only include quads in the default graph (where graph is undefined/null)
-          const defaultGraphQuads = allQuads.filter(quad => !quad.graph || quad.graph.value === '');
+          // Reuse the shared quad store, converting only credentials it has not seen yet
+          await loadCredentialDataset(credentials, cachedNQuadsSource);
           
-          console.log(`Total quads: ${allQuads.length}, Default graph quads: ${defaultGraphQuads.length}`);
+          // Show each credential's claims and proof in their own named graphs, as GRAPH queries see them
+          const trig = await quadsToTriG(getCredentialGraphQuads(credentials), SPARQL_PREFIXES);
           
-          // Use pretty-turtle to format the output with only default graph quads
-          const prettyTurtleOutput = await prettyTurtle(defaultGraphQuads, { 
-            prefixes: SPARQL_PREFIXES
-          });
-          
-          setRdfData(prettyTurtleOutput);
+          setRdfData(`# Queries without GRAPH match the merged claims of all credentials\n${trig}`);
         } catch (error) {
           console.error('Failed to load RDF data:', error);
           setRdfData('# Error loading RDF data\n# Please check the console for details');
@@ -367,6 +339,17 @@ SELECT * WHERE {
     }
   }, [credentials]);
 
+  // Compile a request handed over from the verifier requests panel, once
+  useEffect(() => {
+    if (!requestQuerySource || requestQuerySource === loadedRequestSource) return;
+    setLoadedRequestSource(requestQuerySource);
+    compileRequestQuery(requestQuerySource, credentials, requestForm)
+      .then(compiled => loadSampleQuery(compiled.query, compiled.source, compiled.unmapped))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to compile the request'));
+  }, [requestQuerySource, loadedRequestSource, credentials, requestForm]);
+
+  const queryOptions = { trustLists: trustedOnly && trustLists.length > 0 ? trustLists : undefined };
+
   const executeQuery = async () => {
     if (!query.trim()) {
       setError('Please enter a SPARQL query');
@@ -383,33 +366,21 @@ SELECT * WHERE {
 
     try {
       // Extract variables from the query for consistent table headers
-      const algebra = translate(query);
+      const algebra = getQueryForm(query);
+      setIsDescribeQuery(false);
+      setAskResult(null);
       
       // Check if it's a CONSTRUCT query
       if (algebra.type === 'construct') {
         setIsConstructQuery(true);
 
-        // Extract variables from the SELECT query
-        const factory = new Factory();
-
-        const variables: RDF.Variable[] = [];
-        const varSet = new Set<string>();
-
-        for (const quad of algebra.template) {
-          forEachTermsNested(quad, (term) => {
-            if (term.termType === 'Variable' && !varSet.has(term.value)) {
-              variables.push(term as RDF.Variable);
-              varSet.add(term.value);
-            }
-          });
-        }
-
-        const selectQuery = toSparql(factory.createProject(algebra.input, variables));
-        setQueryVariables(variables.map((variable) => variable.value));
+        // Extract variables from the CONSTRUCT template
+        const { selectQuery, variables } = constructToSelectQuery(query);
+        setQueryVariables(variables);
 
         // Convert the CONSTRUCT query to a SELECT query and execute it
         try {
-          const results = await executeSPARQLQuery(selectQuery, credentials);
+          const results = await executeSPARQLQuery(selectQuery, credentials, cachedNQuadsSource, queryOptions);
           setQueryResults(results);
           console.log('SELECT results for CONSTRUCT:', results);
           
@@ -433,17 +404,34 @@ SELECT * WHERE {
         const selectVariables = algebra.variables.map((variable) => variable.value);
         setQueryVariables(selectVariables);
         
-        const results = await executeSPARQLQuery(query, credentials);
+        const results = await executeSPARQLQuery(query, credentials, cachedNQuadsSource, queryOptions);
         setQueryResults(results);
         setConstructResult('');
         setConstructQuads([]);
+      } else if (algebra.type === 'ask') {
+        setIsConstructQuery(false);
+        setQueryVariables([]);
+        setQueryResults([]);
+        setConstructResult('');
+        setConstructQuads([]);
+        setAskResult(await executeSPARQLAsk(query, credentials, cachedNQuadsSource, queryOptions));
+      } else if (algebra.type === 'describe') {
+        setIsConstructQuery(false);
+        setQueryVariables([]);
+        setQueryResults([]);
+        setConstructQuads([]);
+        const quads = await executeSPARQLDescribe(query, credentials, cachedNQuadsSource, queryOptions);
+        setIsDescribeQuery(true);
+        setConstructResult(quads.length > 0 ? await write(quads, { prefixes: SPARQL_PREFIXES }) : '# No statements describe the requested resources');
       } else {
-        throw new Error('Only SELECT and CONSTRUCT queries are supported');
+        throw new Error('Only SELECT, CONSTRUCT, ASK and DESCRIBE queries are supported');
       }
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Query execution failed');
       setQueryVariables([]);
       setIsConstructQuery(false);
+      setIsDescribeQuery(false);
+      setAskResult(null);
       setConstructResult('');
       setConstructQuads([]);
     } finally {
@@ -470,10 +458,14 @@ SELECT * WHERE {
 
     setIsExecuting(true);
     setError(null);
+    setUnsupportedSources([]);
+    setConstructShapeReport(null);
+    const shapeReports: ShapeValidationReport[] = [];
 
     try {
       // Get selected bindings
       const selectedBindings = Array.from(selectedResults).map(index => queryResults[index]);
+      const reports: UnsupportedSourceReport[] = [];
 
       // Create derived credentials
       const derivedCredentials = await createDerivedCredentialsFromConstruct(
@@ -483,26 +475,51 @@ SELECT * WHERE {
         {
           type: derivedCredentialForm.type ? [derivedCredentialForm.type] : [],
           name: derivedCredentialForm.name || undefined,
-          description: derivedCredentialForm.description || undefined
+          description: derivedCredentialForm.description || undefined,
+          version: derivedCredentialForm.version
+        },
+        {
+          mode: derivationMode,
+          sparqlQuery: query,
+          includeStatementProvenance,
+          includeStatus,
+          presentationRequest: requestSource ?? undefined,
+          trustLists: queryOptions.trustLists,
+          onUnsupportedSource: report => reports.push(report),
+          onShapeResults: report => {
+            shapeReports.push(report);
+            setConstructShapeReport(report);
+          }
         }
       );
 
       console.log(`Created ${derivedCredentials.length} derived credentials:`, derivedCredentials);
 
-      // Notify parent component about each new credential
-      for (const credential of derivedCredentials) {
-        onDerivedCredentialCreated(credential);
+      if (derivationMode === 'bbs-selective-disclosure') {
+        // Disclosures keep their source credential's id, so they are exported rather than stored
+        derivedCredentials.forEach((credential, index) =>
+          downloadCredential(credential, `selective-disclosure-${index + 1}.json`)
+        );
+      } else {
+        // Notify parent component about each new credential
+        for (const credential of derivedCredentials) {
+          await onDerivedCredentialCreated(credential);
+        }
       }
 
       // Reset form and show success
-      setDerivedCredentialForm({
+      setDerivedCredentialForm(prev => ({
+        ...prev,
         id: '',
         type: 'DerivedCredential',
-        issuer: 'did:example:derived-issuer',
         name: '',
         description: ''
-      });
-      setShowCreateDerived(false);
+      }));
+      // Keep the form open so unsupported sources and shape warnings stay visible
+      setUnsupportedSources(reports);
+      if (reports.length === 0 && shapeReports.length === 0) {
+        setShowCreateDerived(false);
+      }
 
       // Show success message
       setError(null);
@@ -515,24 +532,53 @@ SELECT * WHERE {
     }
   };
 
-  const loadSampleQuery = (sampleQuery: string) => {
+  const loadSampleQuery = (sampleQuery: string, source: RequestQuerySource | null = null, unmapped: string[] = []) => {
     setQuery(sampleQuery);
+    setRequestSource(source);
+    setRequestUnmapped(unmapped);
     setQueryResults([]);
     setQueryVariables([]);
     setSelectedResults(new Set());
     setConstructResult('');
     setConstructQuads([]);
     setIsConstructQuery(false);
+    setIsDescribeQuery(false);
+    setAskResult(null);
     setError(null);
   };
 
+  // Parse pasted JSON into the requests it holds, if it is any of the request shapes we compile
+  const parseRequestInput = (): RequestQuerySource[] => {
+    try {
+      return getRequestQuerySources(JSON.parse(requestInput));
+    } catch {
+      return [];
+    }
+  };
+  const requestInputSources = parseRequestInput();
+
+  const compileRequestInput = async () => {
+    const source = requestInputSources[requestInputIndex] ?? requestInputSources[0];
+    if (!source) {
+      setError('Paste a presentation definition, input descriptor, DCQL query or OpenID4VP request object');
+      return;
+    }
+    try {
+      const compiled = await compileRequestQuery(source, credentials, requestForm);
+      loadSampleQuery(compiled.query, compiled.source, compiled.unmapped);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to compile the request');
+    }
+  };
+
+  // Create a derived credential from a SELECT's results or an ASK's boolean result
   const createDerived = async () => {
-    if (!derivedCredentialForm.id || !derivedCredentialForm.name) {
+    if (!derivedCredentialForm.name) {
       setError('Please fill in required fields for derived credential');
       return;
     }
 
-    if (queryResults.length === 0) {
+    if (queryResults.length === 0 && askResult === null) {
       setError('Please execute a query first to create a derived credential');
       return;
     }
@@ -548,18 +594,24 @@ SELECT * WHERE {
           ...derivedCredentialForm,
           id: derivedCredentialForm.id || `https://example.com/derived/${Date.now()}`,
           type: [derivedCredentialForm.type]
+        },
+        {
+          predicateProof: (askResult !== null || isBooleanSelect) && predicateProof,
+          includeStatus,
+          presentationRequest: requestSource ?? undefined,
+          trustLists: queryOptions.trustLists
         }
       );
 
-      onDerivedCredentialCreated(derivedCredential);
+      await onDerivedCredentialCreated(derivedCredential);
       setShowCreateDerived(false);
-      setDerivedCredentialForm({
+      setDerivedCredentialForm(prev => ({
+        ...prev,
         id: '',
         type: 'DerivedCredential',
-        issuer: 'did:example:derived-issuer',
         name: '',
         description: ''
-      });
+      }));
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create derived credential');
     } finally {
@@ -631,8 +683,10 @@ SELECT * WHERE {
       // Use the first SPARQL query found
       const suggestedQuery = matches[0][1].trim();
       setQuery(suggestedQuery);
+      setRequestSource(null);
       setQueryResults([]);
       setQueryVariables([]);
+      setAskResult(null);
       setError(null);
     }
   };
@@ -640,13 +694,13 @@ SELECT * WHERE {
   const validateSPARQLQuery = (queryText: string): { isValid: boolean; error?: string } => {
     try {
       // Use sparqlalgebrajs to parse and validate the query
-      const algebra = translate(queryText);
+      const algebra = getQueryForm(queryText);
       
-      // Check if it's a SELECT or CONSTRUCT query (we support both now)
-      if (algebra.type !== 'project' && algebra.type !== 'construct') {
+      // Check if it's a query form we can execute
+      if (!['project', 'construct', 'ask', 'describe'].includes(algebra.type)) {
         return {
           isValid: false,
-          error: 'Only SELECT and CONSTRUCT queries are currently supported'
+          error: 'Only SELECT, CONSTRUCT, ASK and DESCRIBE queries are currently supported'
         };
       }
       
@@ -813,6 +867,81 @@ The corrected query should now work properly!`,
     );
   }
 
+  const isBooleanSelect = !isConstructQuery && !isDescribeQuery && askResult === null && hasOnlyBooleanBindings(queryResults);
+
+  // The form for deriving a credential from an ASK result or from a SELECT of boolean values, either of
+  // which can also be stated as a predicate proof
+  const booleanDerivationForm = showCreateDerived && (
+    <div className="mt-4 space-y-4">
+      <p className="text-sm text-gray-600 dark:text-gray-400">
+        {predicateProof
+          ? 'The derived credential states only the boolean outcome, signed by this wallet, with hashes of the query and of the credentials it was evaluated over. Neither is revealed.'
+          : askResult !== null
+            ? 'The derived credential states only the boolean result, signed by this wallet, with a receipt for re-running the query.'
+            : 'The derived credential states the boolean results, signed by this wallet, with a receipt for re-running the query.'}
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <input
+          type="text"
+          value={derivedCredentialForm.name}
+          onChange={(e) => setDerivedCredentialForm(prev => ({ ...prev, name: e.target.value }))}
+          placeholder="Name (e.g. Over 18)"
+          className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        />
+        <input
+          type="text"
+          value={derivedCredentialForm.type}
+          onChange={(e) => setDerivedCredentialForm(prev => ({ ...prev, type: e.target.value }))}
+          placeholder="AgeVerification"
+          className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        />
+        <select
+          value={derivedCredentialForm.version}
+          onChange={(e) => setDerivedCredentialForm(prev => ({ ...prev, version: e.target.value as CredentialVersion }))}
+          className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+        >
+          <option value="1.1">VCDM 1.1</option>
+          <option value="2.0">VCDM 2.0</option>
+        </select>
+      </div>
+      <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={predicateProof}
+          onChange={(e) => setPredicateProof(e.target.checked)}
+          className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+        />
+        <span>Predicate proof (hide the query and source credentials)</span>
+      </label>
+      <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={includeStatus}
+          onChange={(e) => setIncludeStatus(e.target.checked)}
+          className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+        />
+        <span>Revocable (add a status entry on this wallet&apos;s status list)</span>
+      </label>
+      <DisclosureSummary query={query} />
+      <div className="flex space-x-2">
+        <button
+          onClick={createDerived}
+          disabled={isExecuting || !derivedCredentialForm.name}
+          className="px-4 py-2 bg-purple-600 text-white rounded-md hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+        >
+          <Plus className="h-4 w-4" />
+          <span>{isExecuting ? 'Creating...' : 'Create Boolean Credential'}</span>
+        </button>
+        <button
+          onClick={() => setShowCreateDerived(false)}
+          className="px-4 py-2 border border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -886,6 +1015,74 @@ The corrected query should now work properly!`,
           )}
         </div>
 
+        {/* Verifier Request */}
+        <div className="mb-4">
+          <button
+            onClick={() => setShowRequestCompiler(!showRequestCompiler)}
+            className="text-sm font-medium text-gray-700 dark:text-gray-300 flex items-center space-x-1 hover:text-gray-900 dark:hover:text-white"
+          >
+            <Inbox className="h-4 w-4" />
+            <span>{showRequestCompiler ? 'Hide' : 'Compile a verifier request'}</span>
+          </button>
+          {showRequestCompiler && (
+            <div className="mt-2 space-y-2">
+              <textarea
+                value={requestInput}
+                onChange={(e) => {
+                  setRequestInput(e.target.value);
+                  setRequestInputIndex(0);
+                }}
+                placeholder='Paste a presentation definition, input descriptor, DCQL query or request object, e.g. {"input_descriptors": [...]}'
+                className="w-full h-28 p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 font-mono text-xs"
+              />
+              <div className="flex items-center space-x-2 text-sm">
+                {requestInputSources.length > 1 && (
+                  <select
+                    value={requestInputIndex}
+                    onChange={(e) => setRequestInputIndex(Number(e.target.value))}
+                    className="p-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                  >
+                    {requestInputSources.map((source, index) => (
+                      <option key={index} value={index}>{describeRequestSource(source)}</option>
+                    ))}
+                  </select>
+                )}
+                <select
+                  value={requestForm}
+                  onChange={(e) => setRequestForm(e.target.value as RequestQueryForm)}
+                  className="p-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                >
+                  <option value="construct">CONSTRUCT</option>
+                  <option value="select">SELECT</option>
+                </select>
+                <button
+                  onClick={compileRequestInput}
+                  disabled={requestInputSources.length === 0}
+                  className="px-3 py-1 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed text-sm"
+                >
+                  Compile
+                </button>
+              </div>
+            </div>
+          )}
+          {requestSource && (
+            <div className="mt-2 p-2 bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-md text-xs text-blue-800 dark:text-blue-200 flex items-start justify-between">
+              <div>
+                <p>
+                  Compiled from {describeRequestSource(requestSource)}
+                  {requestSource.clientId ? ` (asked by ${requestSource.clientId})` : ''}; credentials derived with this query record the request
+                </p>
+                {requestUnmapped.length > 0 && (
+                  <p className="mt-1 text-yellow-700 dark:text-yellow-300">Not expressed in the query: {requestUnmapped.join(', ')}</p>
+                )}
+              </div>
+              <button onClick={() => setRequestSource(null)} title="Stop recording the request" className="ml-2 flex-shrink-0">
+                <X className="h-3 w-3" />
+              </button>
+            </div>
+          )}
+        </div>
+
         {/* Query Input */}
         <div className="mb-4">
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -1099,14 +1296,31 @@ The corrected query should now work properly!`,
         </div>
 
         {/* Execute Button */}
-        <button
-          onClick={executeQuery}
-          disabled={isExecuting || !query.trim()}
-          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
-        >
-          <Play className="h-4 w-4" />
-          <span>{isExecuting ? 'Executing...' : 'Execute Query'}</span>
-        </button>
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={executeQuery}
+            disabled={isExecuting || !query.trim()}
+            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+          >
+            <Play className="h-4 w-4" />
+            <span>{isExecuting ? 'Executing...' : 'Execute Query'}</span>
+          </button>
+          <label
+            className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300"
+            title={trustLists.length > 0
+              ? `Trust lists: ${trustLists.map(list => list.name).join(', ')}; derived credentials record them as their trust policy`
+              : 'Add a trust list on the Wallet tab first'}
+          >
+            <input
+              type="checkbox"
+              checked={queryOptions.trustLists !== undefined}
+              disabled={trustLists.length === 0}
+              onChange={(e) => setTrustedOnly(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 disabled:opacity-50"
+            />
+            <span>Trusted issuers only</span>
+          </label>
+        </div>
 
         {/* Error Display */}
         {error && (
@@ -1485,6 +1699,15 @@ The corrected query should now work properly!`,
                 Query Results ({queryResults.length} results)
               </h3>
             </div>
+            {isBooleanSelect && (
+              <button
+                onClick={() => setShowCreateDerived(!showCreateDerived)}
+                className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 flex items-center space-x-1"
+              >
+                <Plus className="h-3 w-3" />
+                <span>Create Derived</span>
+              </button>
+            )}
           </div>
 
           {/* Results Table */}
@@ -1510,6 +1733,9 @@ The corrected query should now work properly!`,
                       {variable}
                     </th>
                   ))}
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Sources
+                  </th>
                 </tr>
               </thead>
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
@@ -1528,12 +1754,22 @@ The corrected query should now work properly!`,
                       )}
                       {queryVariables.map((variable, cellIndex) => {
                         const value = result.get(variable);
+                        // GRAPH variables bind to credential graphs; show which credential the row came from
+                        const credentialGraph = value && findCredentialGraph(value);
                         return (
                           <td
                             key={cellIndex}
                             className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white"
                           >
-                            {value && typeof value === 'object' && value !== null ? (
+                            {credentialGraph ? (
+                              <span
+                                className="inline-flex items-center px-2 py-0.5 rounded bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-200 text-xs"
+                                title={value.value}
+                              >
+                                {credentialGraph.kind === 'proof' ? 'Proof of ' : ''}
+                                {formatCredentialForDisplay(credentialGraph.credential).title}
+                              </span>
+                            ) : value && typeof value === 'object' && value !== null ? (
                               <span className="font-mono text-xs">
                                 {value.value || JSON.stringify(value)}
                               </span>
@@ -1543,12 +1779,28 @@ The corrected query should now work properly!`,
                           </td>
                         );
                       })}
+                      <td className="px-6 py-4 text-sm">
+                        <div className="flex flex-wrap gap-1">
+                          {(getBindingSources(result) || []).map(id => {
+                            const source = credentials.find(cred => cred.id === id);
+                            return (
+                              <span
+                                key={id}
+                                className="inline-flex items-center px-2 py-0.5 rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs whitespace-nowrap"
+                                title={id}
+                              >
+                                {source ? formatCredentialForDisplay(source).title : id}
+                              </span>
+                            );
+                          })}
+                        </div>
+                      </td>
                     </tr>
                   ))
                 ) : (
                   <tr>
                     <td 
-                      colSpan={queryVariables.length + (isConstructQuery ? 1 : 0)} 
+                      colSpan={queryVariables.length + (isConstructQuery ? 2 : 1)} 
                       className="px-6 py-4 text-center text-sm text-gray-500 dark:text-gray-400 italic"
                     >
                       No results found
@@ -1558,11 +1810,48 @@ The corrected query should now work properly!`,
               </tbody>
             </table>
           </div>
+
+          {isBooleanSelect && booleanDerivationForm}
         </div>
       )}
 
-      {/* CONSTRUCT Result Display */}
-      {isConstructQuery && (constructResult || isExecutingConstruct) && (
+      {/* ASK Result Display */}
+      {askResult !== null && (
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center space-x-2">
+              <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400" />
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                ASK Result
+              </h3>
+              <span className={`px-2 py-0.5 rounded text-sm font-mono font-semibold ${
+                askResult
+                  ? 'bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-200'
+                  : 'bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-200'
+              }`}>
+                {askResult ? 'true' : 'false'}
+              </span>
+            </div>
+            <button
+              onClick={() => setShowCreateDerived(!showCreateDerived)}
+              className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 flex items-center space-x-1"
+            >
+              <Plus className="h-3 w-3" />
+              <span>Create Derived</span>
+            </button>
+          </div>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            {askResult
+              ? 'At least one solution matches the query over your credentials.'
+              : 'No solution matches the query over your credentials.'}
+          </p>
+
+          {booleanDerivationForm}
+        </div>
+      )}
+
+      {/* CONSTRUCT (and DESCRIBE) Result Display */}
+      {(isConstructQuery || isDescribeQuery) && (constructResult || isExecutingConstruct) && (
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700 p-6">
           <div className="flex items-center justify-between mb-4">
             <div className="flex items-center space-x-2">
@@ -1572,14 +1861,14 @@ The corrected query should now work properly!`,
                 <CheckCircle className="h-5 w-5 text-green-600 dark:text-green-400" />
               )}
               <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                CONSTRUCT Result
+                {isDescribeQuery ? 'DESCRIBE Result' : 'CONSTRUCT Result'}
               </h3>
               {isExecutingConstruct && (
                 <span className="text-sm text-gray-600 dark:text-gray-400">Generating...</span>
               )}
             </div>
             <div className="flex items-center space-x-2">
-              {constructResult && (
+              {constructResult && isConstructQuery && (
                 <button
                   onClick={() => setShowCreateDerived(!showCreateDerived)}
                   className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 flex items-center space-x-1"
@@ -1729,6 +2018,44 @@ The corrected query should now work properly!`,
             </p>
           </div>
 
+          <div className="mb-4">
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Derivation Mode
+            </label>
+            <select
+              value={derivationMode}
+              onChange={(e) => {
+                setDerivationMode(e.target.value as DerivationMode);
+                setUnsupportedSources([]);
+              }}
+              className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+            >
+              <option value="holder-signature">New credential signed by this wallet</option>
+              <option value="bbs-selective-disclosure">BBS selective disclosure (keeps the issuer&apos;s signature)</option>
+            </select>
+            {derivationMode === 'bbs-selective-disclosure' && (
+              <p className="mt-2 text-sm text-gray-600 dark:text-gray-400">
+                Each source credential with a bbs-2023 proof is disclosed with only the CONSTRUCT statements it contains,
+                along with its issuer and validity period, and downloaded as a JSON file. The type, name and description below are not used.
+              </p>
+            )}
+          </div>
+
+          {unsupportedSources.length > 0 && (
+            <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md">
+              <p className="text-sm font-medium text-yellow-800 dark:text-yellow-300 mb-1">
+                Not disclosed from {unsupportedSources.length} source credential{unsupportedSources.length !== 1 ? 's' : ''}:
+              </p>
+              <ul className="text-sm text-yellow-700 dark:text-yellow-300 space-y-1">
+                {unsupportedSources.map(report => (
+                  <li key={report.credentialId}>
+                    <span className="font-mono break-all">{report.credentialId}</span>: {report.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
             <div>
               <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
@@ -1757,6 +2084,40 @@ The corrected query should now work properly!`,
             </div>
           </div>
 
+          {derivationMode === 'holder-signature' && (
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Data Model Version
+              </label>
+              <select
+                value={derivedCredentialForm.version}
+                onChange={(e) => setDerivedCredentialForm(prev => ({ ...prev, version: e.target.value as CredentialVersion }))}
+                className="w-full p-3 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+              >
+                <option value="1.1">VCDM 1.1 (issuanceDate / expirationDate)</option>
+                <option value="2.0">VCDM 2.0 (validFrom / validUntil)</option>
+              </select>
+              <label className="mt-3 flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={includeStatementProvenance}
+                  onChange={(e) => setIncludeStatementProvenance(e.target.checked)}
+                  className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+                <span>Embed per-statement provenance (PROV-O wasDerivedFrom)</span>
+              </label>
+              <label className="mt-3 flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={includeStatus}
+                  onChange={(e) => setIncludeStatus(e.target.checked)}
+                  className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                />
+                <span>Revocable (add a status entry on this wallet&apos;s status list)</span>
+              </label>
+            </div>
+          )}
+
           <div className="mb-4">
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Description Template (optional)
@@ -1770,6 +2131,16 @@ The corrected query should now work properly!`,
             />
           </div>
 
+          <div className="mb-4">
+            <DisclosureSummary query={query} />
+          </div>
+
+          {constructShapeReport && (
+            <div className="mb-4">
+              <ShapeValidationResults report={constructShapeReport} />
+            </div>
+          )}
+
           <div className="flex space-x-2">
             <button
               onClick={createDerivedFromConstruct}
@@ -1780,7 +2151,9 @@ The corrected query should now work properly!`,
               <span>
                 {isExecuting 
                   ? 'Creating...' 
-                  : `Create ${selectedResults.size} Derived Credential${selectedResults.size !== 1 ? 's' : ''}`
+                  : derivationMode === 'bbs-selective-disclosure'
+                    ? 'Derive Selective Disclosures'
+                    : `Create ${selectedResults.size} Derived Credential${selectedResults.size !== 1 ? 's' : ''}`
                 }
               </span>
             </button>
@@ -1797,9 +2170,9 @@ The corrected query should now work properly!`,
               <strong>Note:</strong> Each credential will have:
               <br />• ID: did:example:derived:{'{rdf-c14n-hash}'}
               <br />• Type: [&quot;VerifiableCredential&quot;, &quot;Derived&quot;, ...additional types]
-              <br />• Issuer: did:example:derived
+              <br />• Issuer: this wallet&apos;s did:key, with a DataIntegrityProof (eddsa-rdfc-2022) signature
               <br />• Subject: Value from ?subject variable in your query
-              <br />• Validity: Intersection of all source credential validity periods
+              <br />• Validity: Intersection of all source credential validity periods, as issuanceDate/expirationDate (VCDM 1.1) or validFrom/validUntil (VCDM 2.0)
             </p>
           </div>
         </div>
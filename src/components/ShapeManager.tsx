@@ -0,0 +1,155 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { Shapes, Plus, Trash2, AlertCircle, Lock } from 'lucide-react';
+import {
+  UserShapes,
+  BUNDLED_SHAPES,
+  loadUserShapes,
+  addUserShapes,
+  removeUserShapes
+} from '@/utils/shaclUtils';
+
+export function ShapeManager() {
+  const [userShapes, setUserShapes] = useState<UserShapes[]>([]);
+  const [showAddForm, setShowAddForm] = useState(false);
+  const [nameInput, setNameInput] = useState('');
+  const [turtleInput, setTurtleInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setUserShapes(loadUserShapes());
+  }, []);
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setTurtleInput(await file.text());
+    if (!nameInput.trim()) {
+      setNameInput(file.name.replace(/\.ttl$/, ''));
+    }
+    e.target.value = '';
+  };
+
+  const handleAdd = () => {
+    setError(null);
+    try {
+      addUserShapes(nameInput, turtleInput);
+      setUserShapes(loadUserShapes());
+      setNameInput('');
+      setTurtleInput('');
+      setShowAddForm(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add shapes');
+    }
+  };
+
+  const handleRemove = (name: string) => {
+    removeUserShapes(name);
+    setUserShapes(loadUserShapes());
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+          <Shapes className="h-5 w-5 mr-2" />
+          SHACL Shapes
+        </h2>
+        <button
+          onClick={() => {
+            setShowAddForm(!showAddForm);
+            setError(null);
+          }}
+          className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 flex items-center"
+        >
+          <Plus className="h-4 w-4 mr-1" />
+          Add shapes
+        </button>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Imported credentials and CONSTRUCT output are validated against these shapes; credentials with violations are not added and nothing is issued from violating output.
+        </p>
+
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400 flex-shrink-0" />
+            <span className="text-sm text-red-700 dark:text-red-300">{error}</span>
+          </div>
+        )}
+
+        {showAddForm && (
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              placeholder="Name"
+              className="w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 text-sm"
+            />
+            <textarea
+              value={turtleInput}
+              onChange={(e) => setTurtleInput(e.target.value)}
+              placeholder="@prefix sh: <http://www.w3.org/ns/shacl#> ."
+              className="w-full h-32 p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 font-mono text-xs"
+            />
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={handleAdd}
+                disabled={!nameInput.trim() || !turtleInput.trim()}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add shapes
+              </button>
+              <label className="px-3 py-1 text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 cursor-pointer">
+                Load .ttl file
+                <input type="file" accept=".ttl,text/turtle" onChange={handleFileSelect} className="hidden" />
+              </label>
+            </div>
+          </div>
+        )}
+
+        {userShapes.length > 0 && (
+          <div className="space-y-2">
+            {userShapes.map(shapes => (
+              <div
+                key={shapes.name}
+                className="flex items-center justify-between p-2 bg-gray-50 dark:bg-gray-700 rounded border"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-gray-900 dark:text-white truncate">{shapes.name}</p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    Added {new Date(shapes.addedAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <button
+                  onClick={() => handleRemove(shapes.name)}
+                  className="ml-2 p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                  title="Remove shapes"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <details className="text-sm">
+          <summary className="cursor-pointer text-gray-700 dark:text-gray-300">
+            {BUNDLED_SHAPES.length} bundled shape files
+          </summary>
+          <ul className="mt-2 space-y-1">
+            {BUNDLED_SHAPES.map(url => (
+              <li key={url} className="flex items-center text-xs text-gray-600 dark:text-gray-400 font-mono">
+                <Lock className="h-3 w-3 mr-1 flex-shrink-0" />
+                <a href={url} target="_blank" rel="noopener noreferrer" className="truncate hover:underline">{url}</a>
+              </li>
+            ))}
+          </ul>
+        </details>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+import { AlertCircle, AlertTriangle, Info } from 'lucide-react';
+import { ShapeValidationReport, ShapeValidationResult } from '@/types/credential';
+
+interface ShapeValidationResultsProps {
+  report: ShapeValidationReport;
+}
+
+const SEVERITY_STYLES: Record<ShapeValidationResult['severity'], { icon: typeof AlertCircle; className: string }> = {
+  'Violation': { icon: AlertCircle, className: 'text-red-700 dark:text-red-300' },
+  'Warning': { icon: AlertTriangle, className: 'text-yellow-700 dark:text-yellow-300' },
+  'Info': { icon: Info, className: 'text-blue-700 dark:text-blue-300' }
+};
+
+// SHACL results grouped by the node they were found on
+export function ShapeValidationResults({ report }: ShapeValidationResultsProps) {
+  const byFocusNode = new Map<string, ShapeValidationResult[]>();
+  for (const result of report.results) {
+    byFocusNode.set(result.focusNode, [...byFocusNode.get(result.focusNode) ?? [], result]);
+  }
+
+  return (
+    <div className="p-3 bg-gray-50 dark:bg-gray-700/50 border border-gray-200 dark:border-gray-600 rounded-md space-y-3">
+      <p className="text-sm font-medium text-gray-900 dark:text-white">
+        SHACL validation: {report.results.length} result{report.results.length !== 1 ? 's' : ''}
+      </p>
+      {[...byFocusNode].map(([focusNode, results]) => (
+        <div key={focusNode}>
+          <p className="text-xs font-mono text-gray-600 dark:text-gray-400 break-all">{focusNode}</p>
+          <ul className="mt-1 space-y-1">
+            {results.map((result, index) => {
+              const { icon: Icon, className } = SEVERITY_STYLES[result.severity];
+              return (
+                <li key={index} className={`flex items-start space-x-2 text-sm ${className}`}>
+                  <Icon className="h-4 w-4 flex-shrink-0 mt-0.5" />
+                  <span>
+                    {result.path && <span className="font-mono text-xs break-all">{result.path}: </span>}
+                    {result.message}
+                    {result.value && <span className="font-mono text-xs break-all"> (value {result.value})</span>}
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
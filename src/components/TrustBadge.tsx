@@ -0,0 +1,37 @@
+import { BadgeCheck, BadgeAlert, BadgeX } from 'lucide-react';
+import { TrustCheckResult } from '@/types/credential';
+
+interface TrustBadgeProps {
+  result: TrustCheckResult;
+  showLabel?: boolean;
+}
+
+const TRUST_STYLES: Record<TrustCheckResult['status'], { label: string; className: string }> = {
+  'trusted': {
+    label: 'Trusted issuer',
+    className: 'bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300'
+  },
+  'unverified': {
+    label: 'Listed, unverified',
+    className: 'bg-yellow-100 dark:bg-yellow-900 text-yellow-700 dark:text-yellow-300'
+  },
+  'untrusted': {
+    label: 'Untrusted issuer',
+    className: 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+  }
+};
+
+export function TrustBadge({ result, showLabel = true }: TrustBadgeProps) {
+  const style = TRUST_STYLES[result.status];
+  const Icon = result.status === 'trusted' ? BadgeCheck : result.status === 'unverified' ? BadgeAlert : BadgeX;
+
+  return (
+    <span
+      className={`inline-flex items-center space-x-1 px-2 py-0.5 text-xs rounded-full ${style.className}`}
+      title={result.message}
+    >
+      <Icon className="h-3 w-3" />
+      {showLabel && <span>{style.label}</span>}
+    </span>
+  );
+}
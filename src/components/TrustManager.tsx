@@ -0,0 +1,225 @@
+'use client';
+
+import { useState } from 'react';
+import { ListChecks, Plus, Upload, Trash2, AlertCircle } from 'lucide-react';
+import { TrustList } from '@/types/credential';
+import {
+  ANY_CREDENTIAL_TYPE,
+  loadTrustLists,
+  importTrustList,
+  addTrustedIssuer,
+  removeTrustList
+} from '@/utils/trustUtils';
+
+interface TrustManagerProps {
+  trustLists: TrustList[];
+  onTrustListsChange: (lists: TrustList[]) => void;
+}
+
+const FORMAT_LABELS: Record<TrustList['format'], string> = {
+  json: 'JSON',
+  ebsi: 'EBSI registry',
+  train: 'TRAIN list'
+};
+
+const inputClassName = 'w-full p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 text-sm';
+
+export function TrustManager({ trustLists, onTrustListsChange }: TrustManagerProps) {
+  const [openForm, setOpenForm] = useState<'import' | 'issuer' | null>(null);
+  const [nameInput, setNameInput] = useState('');
+  const [listInput, setListInput] = useState('');
+  const [didInput, setDidInput] = useState('');
+  const [typesInput, setTypesInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const toggleForm = (form: 'import' | 'issuer') => {
+    setOpenForm(openForm === form ? null : form);
+    setError(null);
+  };
+
+  const handleFileSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setListInput(await file.text());
+    e.target.value = '';
+  };
+
+  const handleImport = () => {
+    setError(null);
+    try {
+      importTrustList(listInput, nameInput);
+      onTrustListsChange(loadTrustLists());
+      setNameInput('');
+      setListInput('');
+      setOpenForm(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import trust list');
+    }
+  };
+
+  const handleAddIssuer = () => {
+    setError(null);
+    try {
+      addTrustedIssuer(didInput, typesInput.split(','), nameInput);
+      onTrustListsChange(loadTrustLists());
+      setNameInput('');
+      setDidInput('');
+      setTypesInput('');
+      setOpenForm(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add issuer');
+    }
+  };
+
+  const handleRemove = (name: string) => {
+    removeTrustList(name);
+    onTrustListsChange(loadTrustLists());
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-sm border border-gray-200 dark:border-gray-700">
+      <div className="p-4 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+          <ListChecks className="h-5 w-5 mr-2" />
+          Trusted Issuers
+        </h2>
+        <div className="flex items-center space-x-3">
+          <button
+            onClick={() => toggleForm('issuer')}
+            className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 flex items-center"
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add issuer
+          </button>
+          <button
+            onClick={() => toggleForm('import')}
+            className="text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 flex items-center"
+          >
+            <Upload className="h-4 w-4 mr-1" />
+            Import list
+          </button>
+        </div>
+      </div>
+
+      <div className="p-4 space-y-4">
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          Credentials whose proof verifies, whose status shows they are neither revoked nor suspended, and whose issuer a list trusts for their type are marked as trusted, and queries can be restricted to them.
+        </p>
+
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md flex items-center space-x-2">
+            <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400 flex-shrink-0" />
+            <span className="text-sm text-red-700 dark:text-red-300">{error}</span>
+          </div>
+        )}
+
+        {openForm === 'issuer' && (
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={didInput}
+              onChange={(e) => setDidInput(e.target.value)}
+              placeholder="Issuer DID"
+              className={`${inputClassName} font-mono`}
+            />
+            <input
+              type="text"
+              value={typesInput}
+              onChange={(e) => setTypesInput(e.target.value)}
+              placeholder="Credential types, comma separated (empty for any type)"
+              className={inputClassName}
+            />
+            <input
+              type="text"
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              placeholder="Name (optional)"
+              className={inputClassName}
+            />
+            <button
+              onClick={handleAddIssuer}
+              disabled={!didInput.trim()}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Add issuer
+            </button>
+          </div>
+        )}
+
+        {openForm === 'import' && (
+          <div className="space-y-2">
+            <input
+              type="text"
+              value={nameInput}
+              onChange={(e) => setNameInput(e.target.value)}
+              placeholder="Name (optional if the list names itself)"
+              className={inputClassName}
+            />
+            <textarea
+              value={listInput}
+              onChange={(e) => setListInput(e.target.value)}
+              placeholder='{"issuers": [{"did": "did:web:example.com", "credentialTypes": ["EmployeeCredential"]}]}'
+              className={`${inputClassName} h-32 font-mono text-xs`}
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              Accepts the wallet&apos;s JSON format, EBSI Trusted Issuers Registry exports and TRAIN trust lists in JSON.
+            </p>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={handleImport}
+                disabled={!listInput.trim()}
+                className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Import list
+              </button>
+              <label className="px-3 py-1 text-sm text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 cursor-pointer">
+                Load .json file
+                <input type="file" accept=".json,application/json" onChange={handleFileSelect} className="hidden" />
+              </label>
+            </div>
+          </div>
+        )}
+
+        {trustLists.length > 0 ? (
+          <div className="space-y-2">
+            {trustLists.map(list => (
+              <div key={list.name} className="p-2 bg-gray-50 dark:bg-gray-700 rounded border">
+                <div className="flex items-center justify-between">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm text-gray-900 dark:text-white truncate">{list.name}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {FORMAT_LABELS[list.format]} · {list.issuers.length} issuer{list.issuers.length !== 1 ? 's' : ''} · Added {new Date(list.addedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleRemove(list.name)}
+                    className="ml-2 p-1 text-gray-400 hover:text-red-600 dark:hover:text-red-400"
+                    title="Remove trust list"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+                <details className="mt-1 text-xs">
+                  <summary className="cursor-pointer text-gray-600 dark:text-gray-400">Issuers</summary>
+                  <ul className="mt-1 space-y-1">
+                    {list.issuers.map(issuer => (
+                      <li key={issuer.did} className="text-gray-600 dark:text-gray-400">
+                        {issuer.name && <span className="text-gray-900 dark:text-white">{issuer.name} </span>}
+                        <span className="font-mono break-all">{issuer.did}</span>
+                        <span className="block">
+                          {issuer.credentialTypes.includes(ANY_CREDENTIAL_TYPE) ? 'Any credential type' : issuer.credentialTypes.join(', ')}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </details>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No trust lists yet, so no issuer is marked as trusted.</p>
+        )}
+      </div>
+    </div>
+  );
+}
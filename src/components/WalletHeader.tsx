@@ -1,6 +1,77 @@
-import { Wallet } from 'lucide-react';
+'use client';
+
+import { useState } from 'react';
+import { Wallet, KeyRound, Lock, Unlock, AlertCircle } from 'lucide-react';
+import type { VaultState } from '@/utils/credentialRepository';
+
+interface WalletHeaderProps {
+  holderDid?: string;
+  // undefined while the vault state is still being read; no lock controls are shown until it is known
+  vaultState?: VaultState;
+  onUnlock?: (passphrase: string) => Promise<void>;
+  onLock?: () => void;
+  onChangePassphrase?: (currentPassphrase: string, newPassphrase: string) => Promise<void>;
+}
+
+export function WalletHeader({ holderDid, vaultState, onUnlock, onLock, onChangePassphrase }: WalletHeaderProps) {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [showChangeForm, setShowChangeForm] = useState(false);
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [newPassphrase, setNewPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const isCreating = vaultState === 'uninitialized';
+
+  const resetForms = () => {
+    setPassphrase('');
+    setConfirmation('');
+    setCurrentPassphrase('');
+    setNewPassphrase('');
+    setError(null);
+  };
+
+  // Key derivation is deliberately slow, so keep the forms disabled while it runs
+  const runVaultAction = async (action: () => Promise<void>, fallbackMessage: string) => {
+    setIsWorking(true);
+    setError(null);
+    try {
+      await action();
+      resetForms();
+      setShowChangeForm(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallbackMessage);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleUnlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onUnlock) return;
+    if (isCreating && passphrase !== confirmation) {
+      setError('Passphrases do not match');
+      return;
+    }
+    runVaultAction(() => onUnlock(passphrase), isCreating ? 'Failed to create passphrase' : 'Failed to unlock wallet');
+  };
+
+  const handleChangePassphrase = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!onChangePassphrase) return;
+    runVaultAction(() => onChangePassphrase(currentPassphrase, newPassphrase), 'Failed to change passphrase');
+  };
+
+  const errorMessage = error && (
+    <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-md flex items-center space-x-2">
+      <AlertCircle className="h-4 w-4 text-red-600 dark:text-red-400 flex-shrink-0" />
+      <span className="text-sm text-red-700 dark:text-red-300">{error}</span>
+    </div>
+  );
+
+  const inputClassName = 'p-2 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 text-sm';
 
-export function WalletHeader() {
   return (
     <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
       <div className="container mx-auto px-4 py-6">
@@ -20,6 +91,37 @@ export function WalletHeader() {
           </div>
           
           <div className="flex items-center space-x-4 text-sm text-gray-600 dark:text-gray-400">
+            {vaultState === 'unlocked' && (
+              <>
+                <button
+                  onClick={() => {
+                    setShowChangeForm(!showChangeForm);
+                    resetForms();
+                  }}
+                  className="flex items-center space-x-1 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+                >
+                  <KeyRound className="h-4 w-4" />
+                  <span>Change passphrase</span>
+                </button>
+                <button
+                  onClick={onLock}
+                  className="flex items-center space-x-1 hover:text-gray-800 dark:hover:text-gray-200 transition-colors"
+                  title="Lock the wallet"
+                >
+                  <Lock className="h-4 w-4" />
+                  <span>Lock</span>
+                </button>
+              </>
+            )}
+            {holderDid && (
+              <div
+                className="hidden md:flex items-center space-x-1 px-2 py-1 bg-gray-100 dark:bg-gray-700 rounded font-mono text-xs"
+                title={`Holder DID used to sign derived credentials: ${holderDid}`}
+              >
+                <KeyRound className="h-3 w-3" />
+                <span>{holderDid.slice(0, 16)}…{holderDid.slice(-6)}</span>
+              </div>
+            )}
             <a 
               href="https://github.com/jeswr/sparql-proof-demo" 
               target="_blank" 
@@ -33,6 +135,77 @@ export function WalletHeader() {
             </a>
           </div>
         </div>
+
+        {(vaultState === 'locked' || vaultState === 'uninitialized') && (
+          <form onSubmit={handleUnlock} className="mt-6 max-w-md space-y-3">
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white flex items-center">
+              <Lock className="h-5 w-5 mr-2" />
+              {isCreating ? 'Protect your wallet' : 'Wallet locked'}
+            </h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              {isCreating
+                ? 'Choose a passphrase to encrypt your credentials. It cannot be recovered if you forget it.'
+                : 'Enter your passphrase to decrypt your credentials.'}
+            </p>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder="Passphrase"
+              autoComplete={isCreating ? 'new-password' : 'current-password'}
+              className={`w-full ${inputClassName}`}
+              autoFocus
+            />
+            {isCreating && (
+              <input
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder="Confirm passphrase"
+                autoComplete="new-password"
+                className={`w-full ${inputClassName}`}
+              />
+            )}
+            {errorMessage}
+            <button
+              type="submit"
+              disabled={!passphrase || isWorking}
+              className="flex items-center px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Unlock className="h-4 w-4 mr-2" />
+              {isWorking ? 'Deriving key...' : isCreating ? 'Create passphrase' : 'Unlock'}
+            </button>
+          </form>
+        )}
+
+        {vaultState === 'unlocked' && showChangeForm && (
+          <form onSubmit={handleChangePassphrase} className="mt-6 max-w-md space-y-3">
+            <input
+              type="password"
+              value={currentPassphrase}
+              onChange={(e) => setCurrentPassphrase(e.target.value)}
+              placeholder="Current passphrase"
+              autoComplete="current-password"
+              className={`w-full ${inputClassName}`}
+            />
+            <input
+              type="password"
+              value={newPassphrase}
+              onChange={(e) => setNewPassphrase(e.target.value)}
+              placeholder="New passphrase"
+              autoComplete="new-password"
+              className={`w-full ${inputClassName}`}
+            />
+            {errorMessage}
+            <button
+              type="submit"
+              disabled={!currentPassphrase || !newPassphrase || isWorking}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {isWorking ? 'Re-encrypting...' : 'Change passphrase'}
+            </button>
+          </form>
+        )}
       </div>
     </header>
   );
@@ -0,0 +1,11 @@
+declare module '@digitalbazaar/bbs-2023-cryptosuite' {
+  import type { Cryptosuite } from '@digitalbazaar/data-integrity';
+
+  export function createSignCryptosuite(options?: { mandatoryPointers?: string[] }): Cryptosuite;
+  export function createDiscloseCryptosuite(options: {
+    selectivePointers?: string[];
+    presentationHeader?: Uint8Array;
+  }): Cryptosuite;
+  export function createVerifyCryptosuite(options?: { expectedPresentationHeader?: Uint8Array }): Cryptosuite;
+  export const requiredAlgorithm: string;
+}
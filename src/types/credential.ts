@@ -1,10 +1,35 @@
+import type { ContextDefinition } from 'jsonld';
+
+// VC Data Model version, told apart by the base @context
+export type CredentialVersion = '1.1' | '2.0';
+
+export interface CredentialStatus {
+  id?: string;
+  type: string;
+  [key: string]: unknown;
+}
+
+export interface CredentialSchema {
+  id: string;
+  type: string;
+  [key: string]: unknown;
+}
+
 export interface VerifiableCredential {
-  '@context': string | string[];
+  '@context': string | Array<string | ContextDefinition>;
   id: string;
   type: string[];
   issuer: string | { id: string; [key: string]: unknown };
-  issuanceDate: string;
+  // VCDM 1.1 validity period
+  issuanceDate?: string;
   expirationDate?: string;
+  // VCDM 2.0 validity period
+  validFrom?: string;
+  validUntil?: string;
+  credentialStatus?: CredentialStatus | CredentialStatus[];
+  credentialSchema?: CredentialSchema | CredentialSchema[];
+  // Wallet-only: the signed JWT the credential was decoded from (never part of the JSON-LD data)
+  envelope?: CredentialEnvelope;
   credentialSubject: {
     id?: string;
     [key: string]: unknown;
@@ -16,17 +41,494 @@ export interface VerifiableCredential {
     proofPurpose: string;
     jws?: string;
     proofValue?: string;
+    cryptosuite?: string;
     [key: string]: unknown;
   };
   [key: string]: unknown;
 }
 
+// How the wallet names an issuer: by the name the credential gives it, the domain of a did:web, a
+// domain the issuer's DID proves it controls (DID Configuration), or its shortened DID or URL
+export interface IssuerName {
+  name: string;
+  source: 'credential' | 'did-web' | 'linked-domain' | 'did' | 'url';
+}
+
 export interface CredentialDisplay {
   id: string;
   title: string;
   issuer: string;
-  issuanceDate: string;
+  issuerSource: IssuerName['source'];
+  version: CredentialVersion;
+  // Start and end of the validity period, from issuanceDate/expirationDate or validFrom/validUntil
+  issuanceDate?: string;
   expirationDate?: string;
   isExpired: boolean;
+  isNotYetValid: boolean;
   types: string[];
 }
+
+// Display metadata persisted alongside each stored credential (raw dates, so expiry is computed when shown)
+export interface CredentialMetadata {
+  id: string;
+  title: string;
+  issuer: string;
+  version: CredentialVersion;
+  types: string[];
+  validFrom?: string;
+  validUntil?: string;
+}
+
+// A VCDM 2.0 credential secured by an external envelope, carried as a data: URL
+export interface EnvelopedVerifiableCredential {
+  '@context': string | Array<string | ContextDefinition>;
+  id: string;
+  type: 'EnvelopedVerifiableCredential' | string[];
+}
+
+export type ProofVerificationStatus =
+  | 'verified'
+  | 'invalid-signature'
+  | 'unsupported-suite'
+  | 'unresolvable-key'
+  | 'unsigned'
+  | 'error';
+
+export interface ProofVerificationResult {
+  status: ProofVerificationStatus;
+  message: string;
+  proofType?: string;
+  verificationMethod?: string;
+}
+
+// How credentials derived from a CONSTRUCT query are secured: re-signed by the wallet's holder key,
+// or disclosed from the source credentials' bbs-2023 proofs so the issuer's signature still applies
+export type DerivationMode = 'holder-signature' | 'bbs-selective-disclosure';
+
+export interface UnsupportedSourceReport {
+  credentialId: string;
+  reason: string;
+}
+
+// Embedded in derived credentials so a third party can re-run the query over the same sources
+export interface DerivationReceipt {
+  type: 'DerivationReceipt';
+  queryType: 'SELECT' | 'CONSTRUCT' | 'ASK';
+  sparqlQuery: string;
+  queryHash: string;
+  sourceCredentials: string[];
+  // CONSTRUCT only: the SELECT bindings the template was instantiated with, as Turtle terms
+  selectedBindings?: Record<string, string>[];
+  subjectBinding?: string;
+  // SHA-256 of the RDFC-1.0 canonical form of the result
+  resultHash: string;
+  // SHA-256 of each source's canonical N-Quads, in sourceCredentials order, so a source that has
+  // since been replaced under the same id can be told apart
+  sourceCommitments?: string[];
+}
+
+export type DerivationCheckStatus = 'match' | 'mismatch' | 'missing-sources' | 'no-receipt' | 'error';
+
+export interface DerivationCheckResult {
+  status: DerivationCheckStatus;
+  message: string;
+  expectedHash?: string;
+  actualHash?: string;
+  // Canonical N-Quads claimed by the credential but not reproduced, and vice versa
+  missingQuads: string[];
+  unexpectedQuads: string[];
+  missingSources?: string[];
+  // Sources that differ from the credentials the receipt committed to, or whose proofs do not verify
+  changedSources?: string[];
+  unverifiedSources?: string[];
+}
+
+// Compact serializations a credential can be imported from; SD-JWT values only keep the chosen disclosures
+export interface CredentialEnvelope {
+  format: 'vc+jwt' | 'vc+sd-jwt';
+  value: string;
+}
+
+export interface SdJwtDisclosure {
+  digest: string;
+  encoded: string;
+  // Absent for array element disclosures
+  name?: string;
+  value: unknown;
+}
+
+export interface ParsedSdJwt {
+  issuerJwt: string;
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  disclosures: SdJwtDisclosure[];
+}
+
+// What a query output term reveals: identifiers (DIDs, credential ids) and raw attribute values as they
+// appear in the credentials, booleans or other values computed from attributes, or values fixed by the query
+export type DisclosureKind = 'identifier' | 'personal-attribute' | 'derived-boolean' | 'derived-value' | 'constant';
+
+export interface DisclosedTerm {
+  // ?variable, Turtle for a constant, or 'ASK result'
+  term: string;
+  kind: DisclosureKind;
+  // Local names of the credential attributes the value is taken or computed from
+  attributes: string[];
+  // Whether the value identifies the holder on its own, or only in combination with others
+  identifying?: 'direct' | 'quasi';
+}
+
+export interface DisclosureAnalysis {
+  queryType: 'SELECT' | 'CONSTRUCT' | 'ASK' | 'DESCRIBE';
+  terms: DisclosedTerm[];
+  warnings: string[];
+}
+
+// A SHACL validation result, with terms serialized as Turtle
+export interface ShapeValidationResult {
+  focusNode: string;
+  path?: string;
+  value?: string;
+  message: string;
+  severity: 'Violation' | 'Warning' | 'Info';
+  sourceShape?: string;
+}
+
+export interface ShapeValidationReport {
+  conforms: boolean;
+  results: ShapeValidationResult[];
+}
+
+// Revocation and suspension state from a credential's Bitstring Status List or StatusList2021 entries;
+// 'unknown' when the status list could not be fetched or trusted
+export type CredentialStatusState = 'none' | 'active' | 'revoked' | 'suspended' | 'unknown';
+
+export interface StatusCheckResult {
+  state: CredentialStatusState;
+  message: string;
+}
+
+// Why a derived credential no longer reflects one of its sources; 'stale-source' means the source
+// is itself a derived credential that has gone stale
+export type StaleReason = 'deleted' | 'replaced' | 'revoked' | 'suspended' | 'expired' | 'stale-source';
+
+export interface SourceDependency {
+  // The source credential id, or the commitment of a predicate proof source no longer in the wallet
+  id: string;
+  stale?: StaleReason;
+}
+
+// Which wallet credentials each derived credential was derived from, and the reverse
+export interface DependencyGraph {
+  sources: Record<string, SourceDependency[]>;
+  dependents: Record<string, string[]>;
+}
+
+export interface LineageNode {
+  id: string;
+  stale?: StaleReason;
+  sources: LineageNode[];
+}
+
+// Credentials are embedded as JSON-LD, as EnvelopedVerifiableCredentials, or (in VC-JWT 1.1
+// presentations) as compact JWT / SD-JWT strings
+export interface VerifiablePresentation {
+  '@context': string | Array<string | ContextDefinition>;
+  id?: string;
+  type: string[];
+  holder: string;
+  verifiableCredential: Array<VerifiableCredential | Record<string, unknown> | string>;
+  proof?: VerifiableCredential['proof'];
+  [key: string]: unknown;
+}
+
+export type PresentationFormat = 'json-ld' | 'jwt';
+
+export type PresentationCheckStatus =
+  | 'verified'
+  | 'invalid-proof'
+  | 'challenge-mismatch'
+  | 'domain-mismatch'
+  | 'expired'
+  | 'invalid-credential'
+  | 'unbound-credential'
+  | 'malformed';
+
+export interface PresentedCredentialResult {
+  id: string;
+  proof: ProofVerificationResult;
+  // Whether the holder is the credential's subject or (for derived credentials) its issuer
+  holderBound: boolean;
+}
+
+export interface PresentationVerificationResult {
+  status: PresentationCheckStatus;
+  message: string;
+  holder?: string;
+  proof?: ProofVerificationResult;
+  credentials: PresentedCredentialResult[];
+}
+
+// Presentation Exchange v2 definitions, as far as the wallet matches them against its credentials
+export interface PresentationDefinitionField {
+  id?: string;
+  // JSONPath expressions; the field is present when any of them selects a value
+  path: string[];
+  purpose?: string;
+  // JSON Schema the selected value must satisfy
+  filter?: Record<string, unknown>;
+  optional?: boolean;
+}
+
+export interface InputDescriptor {
+  id: string;
+  name?: string;
+  purpose?: string;
+  format?: Record<string, unknown>;
+  // Groups that submission requirements pick descriptors from
+  group?: string[];
+  constraints?: {
+    fields?: PresentationDefinitionField[];
+    limit_disclosure?: 'required' | 'preferred';
+  };
+}
+
+// Which descriptors must be answered: all of a group (or of the nested requirements), or a number of them
+export interface SubmissionRequirement {
+  name?: string;
+  purpose?: string;
+  rule: 'all' | 'pick';
+  count?: number;
+  min?: number;
+  max?: number;
+  from?: string;
+  from_nested?: SubmissionRequirement[];
+}
+
+export interface PresentationDefinition {
+  id: string;
+  name?: string;
+  purpose?: string;
+  format?: Record<string, unknown>;
+  // Without submission requirements, every input descriptor must be answered
+  submission_requirements?: SubmissionRequirement[];
+  input_descriptors: InputDescriptor[];
+}
+
+// A wallet credential that satisfies an input descriptor, scored so the best fit comes first
+export interface RankedCandidate {
+  credential: VerifiableCredential;
+  score: number;
+  // Why it ranks where it does, for display
+  notes: string[];
+}
+
+// A SPARQL CONSTRUCT query that derives what no single wallet credential can present for a descriptor
+export interface DerivationSuggestion {
+  descriptorId: string;
+  query: string;
+  sourceCredentials: string[];
+  mode: DerivationMode;
+  // Required fields the derivation cannot supply (e.g. constraints on the credential's own type)
+  uncoveredFields: string[];
+  source: RequestQuerySource;
+}
+
+export interface DescriptorEvaluation {
+  descriptorId: string;
+  candidates: RankedCandidate[];
+  derivation?: DerivationSuggestion;
+}
+
+// One way of answering the whole definition: a credential per descriptor it answers
+export interface CandidateSet {
+  selection: Record<string, VerifiableCredential>;
+  score: number;
+}
+
+export interface PresentationDefinitionMatch {
+  descriptors: DescriptorEvaluation[];
+  // Best first; empty if the wallet cannot satisfy the submission requirements
+  candidateSets: CandidateSet[];
+}
+
+export interface DescriptorMapEntry {
+  id: string;
+  format: string;
+  path: string;
+  path_nested?: Omit<DescriptorMapEntry, 'id'>;
+}
+
+export interface PresentationSubmission {
+  id: string;
+  definition_id: string;
+  descriptor_map: DescriptorMapEntry[];
+}
+
+// Digital Credentials Query Language; a null path segment selects every array element
+export interface DcqlClaimsQuery {
+  id?: string;
+  path: Array<string | number | null>;
+  values?: Array<string | number | boolean>;
+}
+
+export interface DcqlCredentialQuery {
+  id: string;
+  format: string;
+  meta?: { type_values?: string[][]; [key: string]: unknown };
+  claims?: DcqlClaimsQuery[];
+  // Alternative combinations of claim ids, in order of preference
+  claim_sets?: string[][];
+}
+
+export interface DcqlCredentialSet {
+  // Alternative combinations of credential query ids
+  options: string[][];
+  required?: boolean;
+  purpose?: string;
+}
+
+export interface DcqlQuery {
+  credentials: DcqlCredentialQuery[];
+  credential_sets?: DcqlCredentialSet[];
+}
+
+// An OpenID for Verifiable Presentations authorization request, resolved from its request object
+// if it was passed by value or by reference
+export interface AuthorizationRequest {
+  clientId: string;
+  // Whether the request object was signed by a key controlled by the client_id
+  clientAuthenticated: boolean;
+  responseUri: string;
+  nonce: string;
+  state?: string;
+  presentationDefinition?: PresentationDefinition;
+  dcqlQuery?: DcqlQuery;
+  // DCQL credential queries in formats the wallet cannot present, such as SD-JWT VCs (dc+sd-jwt)
+  unsupportedQueries?: Array<{ id: string; format: string }>;
+  clientMetadata?: Record<string, unknown>;
+}
+
+// One credential the verifier asks for (an input descriptor or DCQL credential query) and the wallet
+// credentials that satisfy it
+export interface RequestedCredentialMatch {
+  id: string;
+  name?: string;
+  purpose?: string;
+  // Best fit first
+  candidates: RankedCandidate[];
+  derivation?: DerivationSuggestion;
+}
+
+export interface AuthorizationRequestMatch {
+  requested: RequestedCredentialMatch[];
+  // The best-ranked way of answering the request, by input descriptor or credential query id
+  suggestedSelection: Record<string, VerifiableCredential>;
+}
+
+export type RequestQueryForm = 'select' | 'construct';
+
+// A verifier's request a SPARQL query was compiled from, recorded in the credentials derived with it
+export interface RequestQuerySource {
+  language: 'presentation-exchange' | 'dcql';
+  // The presentation definition the input descriptor belongs to
+  definitionId?: string;
+  // The verifier that asked, when the request came from an authorization request
+  clientId?: string;
+  request: InputDescriptor | DcqlCredentialQuery;
+}
+
+export interface CompiledRequestQuery {
+  query: string;
+  form: RequestQueryForm;
+  source: RequestQuerySource;
+  // Fields or claims the query leaves out: paths no credential's @context maps, and filter keywords
+  // SPARQL cannot express
+  unmapped: string[];
+}
+
+// How the issuer asks for the transaction code it sent the holder out of band
+export interface TxCodeDescription {
+  input_mode?: 'numeric' | 'text';
+  length?: number;
+  description?: string;
+}
+
+export interface PreAuthorizedCodeGrant {
+  'pre-authorized_code': string;
+  tx_code?: TxCodeDescription;
+}
+
+// An OpenID for Verifiable Credential Issuance credential offer
+export interface CredentialOffer {
+  credential_issuer: string;
+  credential_configuration_ids: string[];
+  grants?: {
+    'urn:ietf:params:oauth:grant-type:pre-authorized_code'?: PreAuthorizedCodeGrant;
+    authorization_code?: { issuer_state?: string; authorization_server?: string };
+  };
+}
+
+// How an issuer names itself or a credential it offers
+export interface IssuerDisplay {
+  name?: string;
+  locale?: string;
+  description?: string;
+}
+
+export interface CredentialConfiguration {
+  format: string;
+  scope?: string;
+  credential_definition?: { type?: string[]; '@context'?: unknown[] };
+  vct?: string;
+  proof_types_supported?: Record<string, { proof_signing_alg_values_supported?: string[] }>;
+  display?: IssuerDisplay[];
+}
+
+export interface CredentialIssuerMetadata {
+  credential_issuer: string;
+  credential_endpoint: string;
+  nonce_endpoint?: string;
+  authorization_servers?: string[];
+  display?: IssuerDisplay[];
+  credential_configurations_supported: Record<string, CredentialConfiguration>;
+}
+
+// A credential offer with its issuer's metadata, ready to redeem once the holder has the transaction code
+export interface ResolvedCredentialOffer {
+  offer: CredentialOffer;
+  metadata: CredentialIssuerMetadata;
+  grant: PreAuthorizedCodeGrant;
+}
+
+// An issuer the user trusts for some credential types; '*' trusts it for any type
+export interface TrustedIssuer {
+  did: string;
+  name?: string;
+  credentialTypes: string[];
+}
+
+// Trust lists are written by hand, or imported from an EBSI Trusted Issuers Registry export or a
+// TRAIN (ETSI trust status list) file
+export type TrustListFormat = 'json' | 'ebsi' | 'train';
+
+export interface TrustList {
+  name: string;
+  format: TrustListFormat;
+  issuers: TrustedIssuer[];
+  addedAt: string;
+}
+
+export interface TrustCheckResult {
+  // 'unverified' issuers are listed, but the credential's proof has not been verified as theirs
+  status: 'trusted' | 'untrusted' | 'unverified';
+  message: string;
+  // The lists naming the issuer for one of the credential's types
+  lists: string[];
+}
+
+// The trust lists a query was restricted to, recorded in the credentials derived from it
+export interface TrustPolicy {
+  type: 'TrustedIssuersPolicy';
+  trustLists: Array<{ name: string; sha256: string }>;
+}
@@ -0,0 +1,10 @@
+declare module '@digitalbazaar/data-integrity' {
+  export interface Cryptosuite {
+    name: string;
+    requiredAlgorithm: string;
+  }
+
+  export class DataIntegrityProof {
+    constructor(options: { cryptosuite: Cryptosuite; signer?: unknown; date?: Date | string });
+  }
+}
@@ -0,0 +1,7 @@
+declare module '@digitalbazaar/di-sd-primitives' {
+  export function selectJsonLd(options: {
+    document: object;
+    pointers: string[];
+    includeTypes?: boolean;
+  }): Record<string, unknown> | null;
+}
@@ -0,0 +1,40 @@
+declare module 'jsonld-signatures' {
+  export type DocumentLoader = (url: string) => Promise<{
+    contextUrl?: string;
+    documentUrl: string;
+    document: unknown;
+  }>;
+
+  export interface ProofPurpose {
+    term: string;
+  }
+
+  export interface VerificationResult {
+    verified: boolean;
+    error?: Error & { errors?: Error[] };
+    results?: Array<{ proof: unknown; verified: boolean; error?: Error }>;
+  }
+
+  export interface SuiteOptions {
+    suite: unknown;
+    purpose: ProofPurpose;
+    documentLoader: DocumentLoader;
+  }
+
+  export function sign<T extends object>(document: T, options: SuiteOptions): Promise<T & { proof: unknown }>;
+  export function derive<T extends object>(document: T, options: SuiteOptions): Promise<T & { proof: unknown }>;
+  export function verify(document: object, options: SuiteOptions): Promise<VerificationResult>;
+
+  export const purposes: {
+    AssertionProofPurpose: new (options?: { date?: Date | string }) => ProofPurpose;
+    AuthenticationProofPurpose: new (options: { challenge: string; domain?: string }) => ProofPurpose;
+  };
+
+  const jsigs: {
+    sign: typeof sign;
+    derive: typeof derive;
+    verify: typeof verify;
+    purposes: typeof purposes;
+  };
+  export default jsigs;
+}
@@ -0,0 +1,165 @@
+import * as jsonld from 'jsonld';
+import { Parser } from 'n3';
+import * as RDF from '@rdfjs/types';
+import type { JsonLdObj, RemoteDocument } from 'jsonld/jsonld-spec';
+import jsigs from 'jsonld-signatures';
+import { DataIntegrityProof } from '@digitalbazaar/data-integrity';
+import { createDiscloseCryptosuite, createVerifyCryptosuite } from '@digitalbazaar/bbs-2023-cryptosuite';
+import { selectJsonLd } from '@digitalbazaar/di-sd-primitives';
+import { VerifiableCredential } from '@/types/credential';
+import type { CredentialProof } from '@/utils/proofUtils';
+import { DID_V1_CONTEXT, MULTIKEY_V1_CONTEXT, DocumentLoader, documentLoader } from '@/utils/contextUtils';
+import { resolveDid, getVerificationMethods } from '@/utils/didUtils';
+
+export const BBS_2023_CRYPTOSUITE = 'bbs-2023';
+
+// bbs-2023 proof values are multibase base64url CBOR with a 0xd95d02 (base) or 0xd95d03 (derived) header
+const BASE_PROOF_PREFIX = 'u2V0C';
+const DERIVED_PROOF_PREFIX = 'u2V0D';
+
+const getProofs = (credential: VerifiableCredential): CredentialProof[] =>
+  (Array.isArray(credential.proof) ? credential.proof : [credential.proof])
+    .filter((proof): proof is CredentialProof => !!proof);
+
+export const isBbsProof = (proof: CredentialProof): boolean =>
+  proof.type === 'DataIntegrityProof' && proof.cryptosuite === BBS_2023_CRYPTOSUITE;
+
+// Only the issuer's base proof can be used to derive a selective disclosure
+export const hasBbsBaseProof = (credential: VerifiableCredential): boolean =>
+  getProofs(credential).some(proof => isBbsProof(proof) && typeof proof.proofValue === 'string' && proof.proofValue.startsWith(BASE_PROOF_PREFIX));
+
+export const isBbsDerivedProof = (proof: CredentialProof): boolean =>
+  isBbsProof(proof) && typeof proof.proofValue === 'string' && proof.proofValue.startsWith(DERIVED_PROOF_PREFIX);
+
+const toRemoteDocument = (url: string, document: object): RemoteDocument => ({ documentUrl: url, document: document as JsonLdObj });
+
+// Resolve DIDs and their keys (BLS12-381 keys are expressed as Multikey) with the wallet's DID
+// resolver and defer everything else to the wallet's context loader
+const bbsDocumentLoader: DocumentLoader = async (url: string) => {
+  if (url.startsWith('did:')) {
+    const [did, fragment] = url.split('#');
+    const didDocument = await resolveDid(did);
+    if (!fragment) {
+      return toRemoteDocument(url, { '@context': [DID_V1_CONTEXT, MULTIKEY_V1_CONTEXT], ...didDocument });
+    }
+
+    const verificationMethod = getVerificationMethods(didDocument).find(method => method.id === url);
+    if (!verificationMethod) {
+      throw new Error(`Verification method ${url} is not in the DID document of ${did}`);
+    }
+    return toRemoteDocument(url, { '@context': MULTIKEY_V1_CONTEXT, ...verificationMethod });
+  }
+
+  return documentLoader(url);
+};
+
+const escapePointerSegment = (segment: string): string =>
+  segment.replace(/~/g, '~0').replace(/\//g, '~1');
+
+// JSON pointers to every leaf value of the credential, excluding the proof and node identifiers
+// (ids are always disclosed by the cryptosuite as part of the document skeleton)
+const collectLeafPointers = (value: unknown, pointer = ''): string[] => {
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => collectLeafPointers(item, `${pointer}/${index}`));
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value as Record<string, unknown>)
+      .filter(([key]) => !(pointer === '' && (key === '@context' || key === 'proof')) && key !== 'id' && key !== '@id')
+      .flatMap(([key, child]) => collectLeafPointers(child, `${pointer}/${escapePointerSegment(key)}`));
+  }
+  return [pointer];
+};
+
+const toQuads = async (document: object): Promise<RDF.Quad[]> => {
+  const nquads = await jsonld.toRDF(document as jsonld.JsonLdDocument, { format: 'application/n-quads', documentLoader });
+  return new Parser({ format: 'N-Quads' }).parse(nquads as unknown as string);
+};
+
+// Blank node labels are not stable across selections, so only compare subjects when both are named
+const statementMatches = (candidate: RDF.Quad, statement: RDF.Quad): boolean =>
+  candidate.predicate.equals(statement.predicate) &&
+  candidate.object.equals(statement.object) &&
+  (candidate.subject.termType !== 'NamedNode' || statement.subject.termType !== 'NamedNode' ||
+    candidate.subject.equals(statement.subject));
+
+// Find the selective pointers whose disclosure reveals exactly the given statements of the credential
+export const findSelectivePointers = async (
+  credential: VerifiableCredential,
+  statements: RDF.Quad[]
+): Promise<string[]> => {
+  const pointers: string[] = [];
+
+  for (const pointer of collectLeafPointers(credential)) {
+    const selection = selectJsonLd({ document: credential, pointers: [pointer], includeTypes: false });
+    if (!selection) continue;
+
+    // Quads linking the selected value to the credential are skeleton; the leaf statements are
+    // those whose object is not itself the subject of another selected statement
+    const quads = await toQuads(selection);
+    const subjects = new Set(quads.map(quad => quad.subject.value));
+    const leafQuads = quads.filter(quad => quad.object.termType === 'Literal' || !subjects.has(quad.object.value));
+
+    if (leafQuads.some(quad => statements.some(statement => statementMatches(quad, statement)))) {
+      pointers.push(pointer);
+    }
+  }
+
+  return pointers;
+};
+
+// Issuer, validity and status claims a verifier needs to evaluate any disclosure
+const CREDENTIAL_METADATA_KEYS = [
+  'issuer', 'issuanceDate', 'expirationDate', 'validFrom', 'validUntil', 'credentialStatus', 'credentialSchema'
+];
+
+// Derive a BBS disclosure of the credential that reveals only the selected pointers
+// (plus the credential's issuer, validity period and status)
+export const deriveBbsDisclosure = async (
+  credential: VerifiableCredential,
+  selectivePointers: string[]
+): Promise<VerifiableCredential> => {
+  const metadataPointers = CREDENTIAL_METADATA_KEYS
+    .filter(key => credential[key] !== undefined)
+    .map(key => `/${key}`);
+  const suite = new DataIntegrityProof({
+    cryptosuite: createDiscloseCryptosuite({ selectivePointers: [...metadataPointers, ...selectivePointers] })
+  });
+  return await jsigs.derive(credential, {
+    suite,
+    purpose: new jsigs.purposes.AssertionProofPurpose(),
+    documentLoader: bbsDocumentLoader
+  }) as VerifiableCredential;
+};
+
+// Derive a disclosure revealing every claim: it is verifiable by anyone and, unlike the base proof,
+// carries neither the holder's HMAC key nor anything a verifier could link across presentations
+export const deriveFullBbsDisclosure = (credential: VerifiableCredential): Promise<VerifiableCredential> =>
+  deriveBbsDisclosure(credential, Object.keys(credential)
+    .filter(key => key !== '@context' && key !== 'proof')
+    .map(key => `/${escapePointerSegment(key)}`));
+
+const verifyDerivedDisclosure = async (credential: VerifiableCredential): Promise<{ verified: boolean; message: string }> => {
+  const suite = new DataIntegrityProof({ cryptosuite: createVerifyCryptosuite() });
+  const result = await jsigs.verify(credential, {
+    suite,
+    purpose: new jsigs.purposes.AssertionProofPurpose(),
+    documentLoader: bbsDocumentLoader
+  });
+
+  if (result.verified) {
+    return { verified: true, message: 'Signature verified with bbs-2023' };
+  }
+  const error = result.error?.errors?.[0] || result.error;
+  return { verified: false, message: error?.message || 'Signature does not match the disclosed contents' };
+};
+
+// Base proofs are only verifiable by the holder, so they are checked by deriving a full
+// disclosure and verifying that instead
+export const verifyBbsProof = async (credential: VerifiableCredential): Promise<{ verified: boolean; message: string }> => {
+  const proof = getProofs(credential).find(isBbsProof);
+  if (!proof || isBbsDerivedProof(proof)) {
+    return verifyDerivedDisclosure(credential);
+  }
+
+  return verifyDerivedDisclosure(await deriveFullBbsDisclosure(credential));
+};
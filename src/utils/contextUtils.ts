@@ -0,0 +1,236 @@
+import type { JsonLdObj, RemoteDocument } from 'jsonld/jsonld-spec';
+import credentialsV1Context from '@/contexts/credentials-v1.json';
+import credentialsV2Context from '@/contexts/credentials-v2.json';
+import credentialsExamplesV1Context from '@/contexts/credentials-examples-v1.json';
+import credentialsExamplesV2Context from '@/contexts/credentials-examples-v2.json';
+import odrlContext from '@/contexts/odrl.json';
+import citizenshipV1Context from '@/contexts/citizenship-v1.json';
+import securityV1Context from '@/contexts/security-v1.json';
+import securityV2Context from '@/contexts/security-v2.json';
+import dataIntegrityV1Context from '@/contexts/data-integrity-v1.json';
+import dataIntegrityV2Context from '@/contexts/data-integrity-v2.json';
+import ed25519Signature2018Context from '@/contexts/ed25519-signature-2018-v1.json';
+import ed25519Signature2020Context from '@/contexts/ed25519-signature-2020-v1.json';
+import multikeyV1Context from '@/contexts/multikey-v1.json';
+import statusList2021Context from '@/contexts/status-list-2021-v1.json';
+import didV1Context from '@/contexts/did-v1.json';
+import vaccinationV1Context from '@/contexts/vaccination-v1.json';
+import { utf8Encode } from '@/utils/encodingUtils';
+
+export const CREDENTIALS_V1_CONTEXT = 'https://www.w3.org/2018/credentials/v1';
+export const CREDENTIALS_V2_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+export const DATA_INTEGRITY_V2_CONTEXT = 'https://w3id.org/security/data-integrity/v2';
+export const MULTIKEY_V1_CONTEXT = 'https://w3id.org/security/multikey/v1';
+export const DID_V1_CONTEXT = 'https://www.w3.org/ns/did/v1';
+export const STATUS_LIST_2021_CONTEXT = 'https://w3id.org/vc/status-list/2021/v1';
+
+export type DocumentLoader = (url: string) => Promise<RemoteDocument>;
+
+export interface PinnedContext {
+  url: string;
+  // Hex SHA-256 of the context's JSON serialization
+  sha256: string;
+}
+
+export interface UserContext extends PinnedContext {
+  document: object;
+  addedAt: string;
+}
+
+interface StoredContext {
+  url: string;
+  document: object;
+  addedAt: string;
+}
+
+interface ContextSettings {
+  allowNetworkFallback: boolean;
+}
+
+const USER_CONTEXTS_STORAGE_KEY = 'wallet-user-contexts';
+// Pins are kept apart from the documents, so editing a stored document cannot also update its hash
+const CONTEXT_PINS_STORAGE_KEY = 'wallet-context-pins';
+const CONTEXT_SETTINGS_STORAGE_KEY = 'wallet-context-settings';
+
+// Well-known contexts shipped with the wallet, pinned so a tampered bundle is rejected
+const BUNDLED_CONTEXTS: Array<PinnedContext & { document: object }> = [
+  { url: CREDENTIALS_V1_CONTEXT, document: credentialsV1Context, sha256: '778eb3a2ffad5df9773231da61b42c098e9849844873a6b5bf9be95c70d73df7' },
+  { url: CREDENTIALS_V2_CONTEXT, document: credentialsV2Context, sha256: 'bf6fd611e6773d58f649459a45dbbb81f94e8cfd058a756644cd5a4a882c4050' },
+  { url: 'https://www.w3.org/2018/credentials/examples/v1', document: credentialsExamplesV1Context, sha256: '0390611d5cd819fc6378c68c9abf77cc72f5e09cbc9f4b5d856f18bf8c727729' },
+  // Imported by the v1 examples context
+  { url: 'https://www.w3.org/ns/odrl.jsonld', document: odrlContext, sha256: '7973dfedb8a0f68aea7a8b55b8cd853c7d66f130bcac48ea030f0641151f5b84' },
+  { url: 'https://www.w3.org/ns/credentials/examples/v2', document: credentialsExamplesV2Context, sha256: '8a675bead391be98e6054c4e07c41f73337508d398e07047344c5d349aa2dc58' },
+  { url: 'https://w3id.org/citizenship/v1', document: citizenshipV1Context, sha256: 'b37c54f7819091feadc092eb4137c8d40bceba9c4f756f869e0926e0c90402fb' },
+  { url: 'https://w3id.org/security/v1', document: securityV1Context, sha256: '911ee5b98b166cc7acd5910a934885a1e466e81a167fc66941722ee3a69703e3' },
+  { url: 'https://w3id.org/security/v2', document: securityV2Context, sha256: '272c56f1a8ed52b63a4f76ffbeaa105b23e3862703df36dfb33292ad6cdb81a8' },
+  { url: 'https://w3id.org/security/data-integrity/v1', document: dataIntegrityV1Context, sha256: '3d76dae0cd98b289312e02c08d6a7b746cb1c66da17d605067f10f697ea0a76c' },
+  { url: DATA_INTEGRITY_V2_CONTEXT, document: dataIntegrityV2Context, sha256: 'be223c58c54657e930970f0d11f03caf7287bddc7be7e6f010855190c6b39c21' },
+  { url: 'https://w3id.org/security/suites/ed25519-2018/v1', document: ed25519Signature2018Context, sha256: 'c3d1eea8c0bbf29676e3141d2f29cca3717259800f0e75caee7dbab3e782f25b' },
+  { url: 'https://w3id.org/security/suites/ed25519-2020/v1', document: ed25519Signature2020Context, sha256: '9ccf2b2a579a86c1fd167f4d1dfbdebc72dae44c7b4d592715cd621e1b5c6ba8' },
+  { url: MULTIKEY_V1_CONTEXT, document: multikeyV1Context, sha256: '91f130b30b6705ee65dfa8f86e74922a74aaa0d5fc8bb35427ec2d607d3ad3eb' },
+  { url: STATUS_LIST_2021_CONTEXT, document: statusList2021Context, sha256: '2420f53a4af31944aade1e7b98dc2b2e94fd243438d20864e39b1bbf74dc3c28' },
+  { url: DID_V1_CONTEXT, document: didV1Context, sha256: '922d86fef06acc0754ef45a4d662c51b57dcd1c9dab3bbdc8d71da81285a5270' },
+  { url: 'https://w3id.org/vaccination/v1', document: vaccinationV1Context, sha256: 'a453add8d94d09114e7f3a157ba4a1d32efd95c6324350db910719fd97739f55' }
+];
+
+// Documents whose hash has already been checked against their pin in this session
+const verifiedDocuments = new Map<string, object>();
+
+// Contexts fetched over the network in this session; they are never pinned without the user
+const fetchedDocuments = new Map<string, object>();
+
+export const hashContext = async (document: unknown): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', utf8Encode(JSON.stringify(document))));
+  return Array.from(digest, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getBundledContexts = (): PinnedContext[] =>
+  BUNDLED_CONTEXTS.map(({ url, sha256 }) => ({ url, sha256 }));
+
+const readStorage = <T>(key: string, fallback: T): T => {
+  if (typeof localStorage === 'undefined') return fallback;
+
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) as T : fallback;
+  } catch (error) {
+    console.error(`Failed to load ${key}:`, error);
+    return fallback;
+  }
+};
+
+const loadContextPins = (): Record<string, string> => readStorage(CONTEXT_PINS_STORAGE_KEY, {});
+
+const saveContextPins = (pins: Record<string, string>) => {
+  localStorage.setItem(CONTEXT_PINS_STORAGE_KEY, JSON.stringify(pins));
+};
+
+const loadStoredContexts = (): StoredContext[] => readStorage(USER_CONTEXTS_STORAGE_KEY, []);
+
+const saveStoredContexts = (contexts: StoredContext[]) => {
+  localStorage.setItem(USER_CONTEXTS_STORAGE_KEY, JSON.stringify(contexts));
+};
+
+// User contexts with their pins; a context whose pin is missing is listed with an empty hash
+export const loadUserContexts = (): UserContext[] => {
+  const pins = loadContextPins();
+  return loadStoredContexts().map(({ url, document, addedAt }) => ({
+    url,
+    document,
+    addedAt,
+    sha256: pins[url] || ''
+  }));
+};
+
+// Pin a user-supplied context under its URL, replacing any earlier version
+export const addUserContext = async (url: string, document: unknown): Promise<UserContext> => {
+  if (!/^https?:\/\/\S+$/.test(url)) {
+    throw new Error('Context URL must be an absolute http(s) URL');
+  }
+  if (BUNDLED_CONTEXTS.some(context => context.url === url)) {
+    throw new Error(`${url} is bundled with the wallet and cannot be replaced`);
+  }
+  if (!document || typeof document !== 'object' || Array.isArray(document) || !('@context' in document)) {
+    throw new Error('Context document must be a JSON object with an @context property');
+  }
+
+  const context: UserContext = {
+    url,
+    document,
+    sha256: await hashContext(document),
+    addedAt: new Date().toISOString()
+  };
+  saveStoredContexts([
+    ...loadStoredContexts().filter(existing => existing.url !== url),
+    { url, document, addedAt: context.addedAt }
+  ]);
+  saveContextPins({ ...loadContextPins(), [url]: context.sha256 });
+  verifiedDocuments.delete(url);
+  fetchedDocuments.delete(url);
+  return context;
+};
+
+export const removeUserContext = (url: string) => {
+  saveStoredContexts(loadStoredContexts().filter(context => context.url !== url));
+  const pins = loadContextPins();
+  delete pins[url];
+  saveContextPins(pins);
+  verifiedDocuments.delete(url);
+};
+
+// Contexts fetched over the network this session that the user has not pinned
+export const getFetchedContexts = (): Array<{ url: string; document: object }> =>
+  Array.from(fetchedDocuments, ([url, document]) => ({ url, document }));
+
+const loadContextSettings = (): ContextSettings => {
+  const defaults: ContextSettings = { allowNetworkFallback: false };
+  if (typeof localStorage === 'undefined') return defaults;
+
+  try {
+    const stored = localStorage.getItem(CONTEXT_SETTINGS_STORAGE_KEY);
+    return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+  } catch {
+    return defaults;
+  }
+};
+
+export const isNetworkFallbackEnabled = (): boolean => loadContextSettings().allowNetworkFallback;
+
+export const setNetworkFallbackEnabled = (allowNetworkFallback: boolean) => {
+  localStorage.setItem(CONTEXT_SETTINGS_STORAGE_KEY, JSON.stringify({ ...loadContextSettings(), allowNetworkFallback }));
+};
+
+const toRemoteDocument = (url: string, document: object): RemoteDocument => ({
+  contextUrl: undefined,
+  documentUrl: url,
+  document: document as JsonLdObj
+});
+
+const fetchContext = async (url: string): Promise<unknown> => {
+  const response = await fetch(url, { headers: { Accept: 'application/ld+json, application/json' } });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch context ${url}: HTTP ${response.status}`);
+  }
+  return response.json();
+};
+
+// Resolve contexts from the bundled set, then from user-supplied contexts, rejecting any whose
+// contents no longer match their pin. Unknown contexts are only fetched when network fallback is
+// enabled, and are then kept for this session only until the user pins them.
+export const documentLoader: DocumentLoader = async (url: string) => {
+  const verified = verifiedDocuments.get(url);
+  if (verified) {
+    return toRemoteDocument(url, verified);
+  }
+
+  const bundled = BUNDLED_CONTEXTS.find(context => context.url === url);
+  const stored = bundled ? undefined : loadStoredContexts().find(context => context.url === url);
+  const pinned = bundled || (stored && { document: stored.document, sha256: loadContextPins()[url] });
+  if (pinned) {
+    if (!pinned.sha256) {
+      throw new Error(`Context ${url} has no pin; add it again to pin it`);
+    }
+    const actual = await hashContext(pinned.document);
+    if (actual !== pinned.sha256) {
+      throw new Error(`Context ${url} does not match its pinned hash (expected ${pinned.sha256}, got ${actual})`);
+    }
+    verifiedDocuments.set(url, pinned.document);
+    return toRemoteDocument(url, pinned.document);
+  }
+
+  const fetched = fetchedDocuments.get(url);
+  if (fetched) {
+    return toRemoteDocument(url, fetched);
+  }
+
+  if (!isNetworkFallbackEnabled()) {
+    throw new Error(`Context ${url} is not available offline; add it as a user context`);
+  }
+
+  const document = await fetchContext(url);
+  if (!document || typeof document !== 'object' || Array.isArray(document)) {
+    throw new Error(`Context ${url} is not a JSON object`);
+  }
+  fetchedDocuments.set(url, document);
+  return toRemoteDocument(url, document);
+};
@@ -0,0 +1,55 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { VerifiableCredential } from '@/types/credential';
+import { getCredentialRepository, getVaultState, initializeVault, lockVault, unlockVault } from '@/utils/credentialRepository';
+
+const PASSPHRASE = 'test passphrase';
+
+const credential: VerifiableCredential = {
+  '@context': ['https://www.w3.org/2018/credentials/v1', { '@vocab': 'http://schema.org/' }],
+  id: 'urn:uuid:sealed-credential',
+  type: ['VerifiableCredential'],
+  issuer: 'did:example:issuer',
+  issuanceDate: '2024-01-01T00:00:00Z',
+  credentialSubject: { id: 'did:example:alex', birthDate: '1990-04-01' }
+};
+
+// Every record the wallet has written, as stored
+const readRawRecords = () => new Promise<unknown[]>((resolve, reject) => {
+  const request = indexedDB.open('sparql-wallet');
+  request.onerror = () => reject(request.error);
+  request.onsuccess = () => {
+    const db = request.result;
+    const transaction = db.transaction([...db.objectStoreNames], 'readonly');
+    const requests = [...db.objectStoreNames].map(name => transaction.objectStore(name).getAll());
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(requests.flatMap(storeRequest => storeRequest.result));
+    };
+    transaction.onerror = () => reject(transaction.error);
+  };
+});
+
+describe('vault', () => {
+  beforeAll(async () => {
+    await initializeVault(PASSPHRASE);
+    await (await getCredentialRepository()).put(credential);
+  });
+
+  it('stores credentials only in sealed form', async () => {
+    const stored = JSON.stringify(await readRawRecords());
+    expect(stored).toContain(credential.id);
+    expect(stored).not.toContain('1990-04-01');
+    expect(stored).not.toContain('did:example:issuer');
+  });
+
+  it('opens the credentials only while unlocked with the passphrase', async () => {
+    lockVault();
+    expect(await getVaultState()).toBe('locked');
+    await expect((await getCredentialRepository()).list()).rejects.toMatchObject({ code: 'WALLET_LOCKED' });
+    await expect(unlockVault('wrong passphrase')).rejects.toMatchObject({ code: 'INVALID_PASSPHRASE' });
+    expect(await getVaultState()).toBe('locked');
+
+    await unlockVault(PASSPHRASE);
+    expect(await (await getCredentialRepository()).list()).toEqual([credential]);
+  });
+});
@@ -0,0 +1,416 @@
+import { VerifiableCredential, CredentialMetadata } from '@/types/credential';
+import {
+  CredentialError,
+  credentialToNQuads,
+  formatCredentialForDisplay,
+  getValidityPeriod,
+  NQuadsSource
+} from '@/utils/credentialUtils';
+import {
+  EncryptedPayload,
+  DEFAULT_PBKDF2_ITERATIONS,
+  decryptJson,
+  deriveKeyFromPassphrase,
+  encryptJson,
+  generateSalt
+} from '@/utils/encryptionUtils';
+import { decodeBase64url, encodeBase64url } from '@/utils/encodingUtils';
+
+export interface CredentialRepository {
+  list(): Promise<VerifiableCredential[]>;
+  listMetadata(): Promise<CredentialMetadata[]>;
+  put(credential: VerifiableCredential): Promise<void>;
+  delete(id: string): Promise<void>;
+  getNQuads(credential: VerifiableCredential): Promise<string | undefined>;
+}
+
+export type VaultState = 'uninitialized' | 'locked' | 'unlocked';
+
+// Records are keyed by credential id; everything else is sealed with the wallet key
+interface CredentialRecord {
+  id: string;
+  addedAt: string;
+  payload: EncryptedPayload;
+}
+
+interface SealedRecord {
+  id: string;
+  payload: EncryptedPayload;
+}
+
+// Schema v1 stored credentials, N-Quads and metadata in plaintext
+interface PlaintextCredentialRecord {
+  id: string;
+  credential: VerifiableCredential;
+  addedAt: string;
+}
+
+interface VaultRecord {
+  id: typeof VAULT_RECORD_ID;
+  salt: string;
+  iterations: number;
+  // A known value sealed with the wallet key, used to check the passphrase on unlock
+  check: EncryptedPayload;
+}
+
+const DB_NAME = 'sparql-wallet';
+const CREDENTIALS_STORE = 'credentials';
+const NQUADS_STORE = 'nquads';
+const METADATA_STORE = 'metadata';
+const VAULT_STORE = 'vault';
+const VAULT_RECORD_ID = 'vault';
+const VAULT_CHECK_VALUE = 'sparql-wallet-vault';
+// Other secrets sealed with the wallet key share the vault store under this id prefix
+const VAULT_SECRET_PREFIX = 'secret:';
+const MIN_PASSPHRASE_LENGTH = 8;
+
+// Before the repository, the whole wallet was one JSON array under this localStorage key
+const LEGACY_STORAGE_KEY = 'wallet-credentials';
+
+// Schema migrations, applied in order; the database version is the number of migrations
+const SCHEMA_MIGRATIONS: Array<(db: IDBDatabase) => void> = [
+  // v1: credentials, their N-Quads and display metadata in separate stores keyed by credential id
+  db => {
+    db.createObjectStore(CREDENTIALS_STORE, { keyPath: 'id' }).createIndex('addedAt', 'addedAt');
+    db.createObjectStore(NQUADS_STORE, { keyPath: 'id' });
+    db.createObjectStore(METADATA_STORE, { keyPath: 'id' });
+  },
+  // v2: passphrase vault; plaintext v1 records are sealed when the vault is created
+  db => {
+    db.createObjectStore(VAULT_STORE, { keyPath: 'id' });
+  }
+];
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, SCHEMA_MIGRATIONS.length);
+    request.onupgradeneeded = event => {
+      for (let version = event.oldVersion; version < SCHEMA_MIGRATIONS.length; version++) {
+        SCHEMA_MIGRATIONS[version](request.result);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Credential database upgrade is blocked by another open tab'));
+  });
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = openDatabase();
+    // Allow a retry if opening fails (e.g. IndexedDB disabled in private browsing)
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+  return databasePromise;
+};
+
+const getAll = async <T>(db: IDBDatabase, storeName: string): Promise<T[]> =>
+  requestToPromise(db.transaction(storeName, 'readonly').objectStore(storeName).getAll() as IDBRequest<T[]>);
+
+const readVaultRecord = async (db: IDBDatabase): Promise<VaultRecord | undefined> =>
+  requestToPromise(
+    db.transaction(VAULT_STORE, 'readonly').objectStore(VAULT_STORE).get(VAULT_RECORD_ID) as IDBRequest<VaultRecord | undefined>
+  );
+
+// The wallet key only ever lives in memory, and only while the wallet is unlocked
+let walletKey: CryptoKey | null = null;
+
+const requireWalletKey = (): CryptoKey => {
+  if (!walletKey) {
+    throw new CredentialError('Wallet is locked', 'WALLET_LOCKED');
+  }
+  return walletKey;
+};
+
+const toMetadata = (credential: VerifiableCredential): CredentialMetadata => {
+  const display = formatCredentialForDisplay(credential);
+  return {
+    id: credential.id,
+    title: display.title,
+    issuer: display.issuer,
+    version: display.version,
+    types: display.types,
+    ...getValidityPeriod(credential)
+  };
+};
+
+// N-Quads are precomputed on write; a credential whose contexts cannot be loaded yet is stored
+// without them and converted again on first query
+const computeNQuads = async (credential: VerifiableCredential): Promise<string | undefined> => {
+  try {
+    return await credentialToNQuads(credential);
+  } catch (error) {
+    console.warn(`Failed to precompute N-Quads for credential ${credential.id}:`, error);
+    return undefined;
+  }
+};
+
+interface SealedCredential {
+  record: CredentialRecord;
+  metadata: SealedRecord;
+  nquads?: SealedRecord;
+}
+
+const sealCredential = async (
+  key: CryptoKey,
+  credential: VerifiableCredential,
+  addedAt: string,
+  nquads: string | undefined
+): Promise<SealedCredential> => ({
+  record: { id: credential.id, addedAt, payload: await encryptJson(key, credential) },
+  metadata: { id: credential.id, payload: await encryptJson(key, toMetadata(credential)) },
+  ...(nquads !== undefined && { nquads: { id: credential.id, payload: await encryptJson(key, nquads) } })
+});
+
+// Encryption happens before the transaction opens, since IndexedDB transactions commit when
+// they go idle across an await
+const writeSealedCredentials = async (db: IDBDatabase, sealed: SealedCredential[], vault?: VaultRecord) => {
+  const transaction = db.transaction([CREDENTIALS_STORE, NQUADS_STORE, METADATA_STORE, VAULT_STORE], 'readwrite');
+  for (const { record, metadata, nquads } of sealed) {
+    transaction.objectStore(CREDENTIALS_STORE).put(record);
+    transaction.objectStore(METADATA_STORE).put(metadata);
+    if (nquads) {
+      transaction.objectStore(NQUADS_STORE).put(nquads);
+    } else {
+      transaction.objectStore(NQUADS_STORE).delete(record.id);
+    }
+  }
+  if (vault) {
+    transaction.objectStore(VAULT_STORE).put(vault);
+  }
+  await transactionDone(transaction);
+};
+
+const readLegacyCredentials = (): VerifiableCredential[] => {
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!legacy) return [];
+
+  try {
+    const parsed = JSON.parse(legacy);
+    return (Array.isArray(parsed) ? parsed : []).filter(
+      (credential): credential is VerifiableCredential =>
+        !!credential && typeof credential === 'object' && typeof credential.id === 'string'
+    );
+  } catch (error) {
+    // Keep the blob so it can still be recovered by hand
+    console.error('Legacy wallet storage is corrupt and was not migrated:', error);
+    return [];
+  }
+};
+
+const validatePassphrase = (passphrase: string) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new CredentialError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`, 'WEAK_PASSPHRASE');
+  }
+};
+
+const createVaultRecord = async (passphrase: string): Promise<{ vault: VaultRecord; key: CryptoKey }> => {
+  const salt = generateSalt();
+  const key = await deriveKeyFromPassphrase(passphrase, salt, DEFAULT_PBKDF2_ITERATIONS);
+  return {
+    key,
+    vault: {
+      id: VAULT_RECORD_ID,
+      salt: encodeBase64url(salt),
+      iterations: DEFAULT_PBKDF2_ITERATIONS,
+      check: await encryptJson(key, VAULT_CHECK_VALUE)
+    }
+  };
+};
+
+const deriveVaultKey = async (vault: VaultRecord, passphrase: string): Promise<CryptoKey> => {
+  const key = await deriveKeyFromPassphrase(passphrase, decodeBase64url(vault.salt), vault.iterations);
+  try {
+    if (await decryptJson<string>(key, vault.check) === VAULT_CHECK_VALUE) {
+      return key;
+    }
+  } catch {
+    // AES-GCM authentication fails for a key derived from the wrong passphrase
+  }
+  throw new CredentialError('Incorrect passphrase', 'INVALID_PASSPHRASE');
+};
+
+export const getVaultState = async (): Promise<VaultState> => {
+  if (walletKey) return 'unlocked';
+  return await readVaultRecord(await getDatabase()) ? 'locked' : 'uninitialized';
+};
+
+// Create the vault, sealing any plaintext records and migrating the legacy localStorage wallet
+export const initializeVault = async (passphrase: string): Promise<void> => {
+  validatePassphrase(passphrase);
+  const db = await getDatabase();
+  if (await readVaultRecord(db)) {
+    throw new CredentialError('Wallet already has a passphrase', 'VAULT_EXISTS');
+  }
+
+  const { vault, key } = await createVaultRecord(passphrase);
+
+  const plaintextRecords = (await getAll<PlaintextCredentialRecord>(db, CREDENTIALS_STORE))
+    .filter(record => record.credential)
+    .sort((a, b) => a.addedAt.localeCompare(b.addedAt));
+  const legacyCredentials = readLegacyCredentials();
+
+  const existingIds = new Set(plaintextRecords.map(record => record.id));
+  const toSeal = [
+    ...plaintextRecords.map(record => ({ credential: record.credential, addedAt: record.addedAt })),
+    // Legacy credentials sort before anything added since, in their original order
+    ...legacyCredentials
+      .filter(credential => !existingIds.has(credential.id))
+      .map((credential, index) => ({ credential, addedAt: new Date(index).toISOString() }))
+  ];
+
+  const sealed = await Promise.all(toSeal.map(async ({ credential, addedAt }) =>
+    sealCredential(key, credential, addedAt, await computeNQuads(credential))
+  ));
+  await writeSealedCredentials(db, sealed, vault);
+
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  walletKey = key;
+};
+
+export const unlockVault = async (passphrase: string): Promise<void> => {
+  const vault = await readVaultRecord(await getDatabase());
+  if (!vault) {
+    throw new CredentialError('Wallet has no passphrase yet', 'VAULT_MISSING');
+  }
+  walletKey = await deriveVaultKey(vault, passphrase);
+};
+
+export const lockVault = () => {
+  walletKey = null;
+};
+
+export const isVaultUnlocked = (): boolean => walletKey !== null;
+
+// Read a secret sealed with the wallet key (undefined when none is stored)
+export const readVaultSecret = async <T>(name: string): Promise<T | undefined> => {
+  const key = requireWalletKey();
+  const db = await getDatabase();
+  const record = await requestToPromise(
+    db.transaction(VAULT_STORE, 'readonly').objectStore(VAULT_STORE).get(VAULT_SECRET_PREFIX + name) as IDBRequest<SealedRecord | undefined>
+  );
+  return record ? decryptJson<T>(key, record.payload) : undefined;
+};
+
+export const writeVaultSecret = async (name: string, value: unknown): Promise<void> => {
+  const key = requireWalletKey();
+  const record: SealedRecord = { id: VAULT_SECRET_PREFIX + name, payload: await encryptJson(key, value) };
+  const db = await getDatabase();
+  const transaction = db.transaction(VAULT_STORE, 'readwrite');
+  transaction.objectStore(VAULT_STORE).put(record);
+  await transactionDone(transaction);
+};
+
+// Re-encrypt every record under a key derived from the new passphrase, in a single transaction
+export const changeVaultPassphrase = async (currentPassphrase: string, newPassphrase: string): Promise<void> => {
+  validatePassphrase(newPassphrase);
+  const db = await getDatabase();
+  const vault = await readVaultRecord(db);
+  if (!vault) {
+    throw new CredentialError('Wallet has no passphrase yet', 'VAULT_MISSING');
+  }
+  const currentKey = await deriveVaultKey(vault, currentPassphrase);
+  const { vault: newVault, key: newKey } = await createVaultRecord(newPassphrase);
+
+  const reseal = async (payload: EncryptedPayload) => encryptJson(newKey, await decryptJson(currentKey, payload));
+  const [records, metadata, nquads, secrets] = await Promise.all([
+    getAll<CredentialRecord>(db, CREDENTIALS_STORE),
+    getAll<SealedRecord>(db, METADATA_STORE),
+    getAll<SealedRecord>(db, NQUADS_STORE),
+    getAll<SealedRecord>(db, VAULT_STORE).then(all => all.filter(record => record.id.startsWith(VAULT_SECRET_PREFIX)))
+  ]);
+  const [resealedRecords, resealedMetadata, resealedNQuads, resealedSecrets] = await Promise.all([
+    Promise.all(records.map(async record => ({ ...record, payload: await reseal(record.payload) }))),
+    Promise.all(metadata.map(async record => ({ ...record, payload: await reseal(record.payload) }))),
+    Promise.all(nquads.map(async record => ({ ...record, payload: await reseal(record.payload) }))),
+    Promise.all(secrets.map(async record => ({ ...record, payload: await reseal(record.payload) })))
+  ]);
+
+  const transaction = db.transaction([CREDENTIALS_STORE, NQUADS_STORE, METADATA_STORE, VAULT_STORE], 'readwrite');
+  resealedRecords.forEach(record => transaction.objectStore(CREDENTIALS_STORE).put(record));
+  resealedMetadata.forEach(record => transaction.objectStore(METADATA_STORE).put(record));
+  resealedNQuads.forEach(record => transaction.objectStore(NQUADS_STORE).put(record));
+  resealedSecrets.forEach(record => transaction.objectStore(VAULT_STORE).put(record));
+  transaction.objectStore(VAULT_STORE).put(newVault);
+  await transactionDone(transaction);
+
+  walletKey = newKey;
+};
+
+// A record that fails to decrypt only loses that credential
+const openRecords = async <T>(key: CryptoKey, records: SealedRecord[]): Promise<T[]> => {
+  const opened = await Promise.all(records.map(async record => {
+    try {
+      return [await decryptJson<T>(key, record.payload)];
+    } catch (error) {
+      console.warn(`Skipping credential record ${record.id} that failed to decrypt:`, error);
+      return [];
+    }
+  }));
+  return opened.flat();
+};
+
+const createIndexedDbCredentialRepository = (db: IDBDatabase): CredentialRepository => ({
+  list: async () => {
+    const key = requireWalletKey();
+    const records = await requestToPromise(
+      db.transaction(CREDENTIALS_STORE, 'readonly').objectStore(CREDENTIALS_STORE)
+        .index('addedAt').getAll() as IDBRequest<CredentialRecord[]>
+    );
+    return openRecords<VerifiableCredential>(key, records);
+  },
+
+  listMetadata: async () => openRecords<CredentialMetadata>(requireWalletKey(), await getAll<SealedRecord>(db, METADATA_STORE)),
+
+  put: async credential => {
+    const key = requireWalletKey();
+    const sealed = await sealCredential(key, credential, new Date().toISOString(), await computeNQuads(credential));
+    await writeSealedCredentials(db, [sealed]);
+  },
+
+  delete: async id => {
+    requireWalletKey();
+    const transaction = db.transaction([CREDENTIALS_STORE, NQUADS_STORE, METADATA_STORE], 'readwrite');
+    transaction.objectStore(CREDENTIALS_STORE).delete(id);
+    transaction.objectStore(NQUADS_STORE).delete(id);
+    transaction.objectStore(METADATA_STORE).delete(id);
+    await transactionDone(transaction);
+  },
+
+  getNQuads: async credential => {
+    const key = requireWalletKey();
+    const record = await requestToPromise(
+      db.transaction(NQUADS_STORE, 'readonly').objectStore(NQUADS_STORE).get(credential.id) as IDBRequest<SealedRecord | undefined>
+    );
+    return record ? decryptJson<string>(key, record.payload) : undefined;
+  }
+});
+
+// Open the wallet's credential repository; its operations fail while the vault is locked
+export const getCredentialRepository = async (): Promise<CredentialRepository> =>
+  createIndexedDbCredentialRepository(await getDatabase());
+
+// Query-time source of the repository's cached N-Quads (undefined when not cached or unavailable)
+export const cachedNQuadsSource: NQuadsSource = async credential => {
+  try {
+    return await (await getCredentialRepository()).getNQuads(credential);
+  } catch {
+    return undefined;
+  }
+};
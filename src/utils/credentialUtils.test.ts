@@ -0,0 +1,118 @@
+import { readFileSync } from 'fs';
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { UnsupportedSourceReport, VerifiableCredential } from '@/types/credential';
+import { initializeVault } from '@/utils/credentialRepository';
+import {
+  constructToSelectQuery,
+  createDerivedCredential,
+  createDerivedCredentialsFromConstruct,
+  executeSPARQLQuery,
+  instantiateConstructTemplate,
+  verifyDerivation,
+  verifyPredicateProof
+} from '@/utils/credentialUtils';
+import { verifyCredentialProof } from '@/utils/proofUtils';
+
+const loadSample = (name: string): VerifiableCredential =>
+  JSON.parse(readFileSync(`public/${name}`, 'utf8')) as VerifiableCredential;
+
+// The app fetches bundled files such as SHACL shapes from its own origin; derived credentials are signed
+// with the holder key, which needs an unlocked vault
+beforeAll(async () => {
+  const fetchUrl = globalThis.fetch;
+  vi.stubGlobal('fetch', (url: string, init?: RequestInit) =>
+    url.startsWith('/') ? Promise.resolve(new Response(readFileSync(`public${url}`, 'utf8'))) : fetchUrl(url, init));
+  await initializeVault('test passphrase');
+});
+
+describe('BBS selective disclosure', () => {
+  const JOB_TITLE_QUERY = 'PREFIX schema: <http://schema.org/> CONSTRUCT { ?subject schema:jobTitle ?title } WHERE { ?subject schema:jobTitle ?title }';
+  const bbsEmployee = loadSample('sample-bbs-employee.json');
+  // Issued without a BBS proof, so it cannot be selectively disclosed
+  const otherEmployee: VerifiableCredential = {
+    '@context': ['https://www.w3.org/2018/credentials/v1', { '@vocab': 'http://schema.org/' }],
+    id: 'urn:uuid:other-employee',
+    type: ['VerifiableCredential'],
+    issuer: 'did:example:other-employer',
+    issuanceDate: '2024-01-01T00:00:00Z',
+    credentialSubject: { id: 'did:example:sam', jobTitle: 'Librarian' }
+  };
+
+  it('discloses only the selected results, from the credentials they came from', async () => {
+    const wallet = [bbsEmployee, otherEmployee];
+    const bindings = await executeSPARQLQuery(constructToSelectQuery(JOB_TITLE_QUERY).selectQuery, wallet);
+    const selected = bindings.filter(binding => binding.get('title')?.value === 'Senior Engineer');
+    const reports: UnsupportedSourceReport[] = [];
+
+    const disclosures = await createDerivedCredentialsFromConstruct(
+      instantiateConstructTemplate(JOB_TITLE_QUERY, selected),
+      selected,
+      wallet,
+      {},
+      { mode: 'bbs-selective-disclosure', onUnsupportedSource: report => reports.push(report) }
+    );
+
+    expect(reports).toEqual([]);
+    expect(disclosures).toHaveLength(1);
+    expect(disclosures[0].credentialSubject.jobTitle).toBe('Senior Engineer');
+    expect(disclosures[0].credentialSubject.birthDate).toBeUndefined();
+    expect((await verifyCredentialProof(disclosures[0])).status).toBe('verified');
+  });
+});
+
+describe('derivation receipts', () => {
+  const JOB_TITLE_QUERY = 'PREFIX schema: <http://schema.org/> SELECT ?title WHERE { ?subject schema:jobTitle ?title }';
+  const bbsEmployee = loadSample('sample-bbs-employee.json');
+  let derived: VerifiableCredential;
+
+  beforeAll(async () => {
+    derived = await createDerivedCredential(JOB_TITLE_QUERY, [bbsEmployee], { id: 'urn:uuid:job-title', type: ['JobTitleCredential'] });
+  });
+
+  it('reproduces the result from the committed sources', async () => {
+    await expect(verifyDerivation(derived, [bbsEmployee])).resolves.toMatchObject({ status: 'match', missingQuads: [], unexpectedQuads: [] });
+  });
+
+  it('reports a source that differs from the one the receipt committed to', async () => {
+    const altered = { ...bbsEmployee, credentialSubject: { ...bbsEmployee.credentialSubject, jobTitle: 'Chief Engineer' } };
+
+    await expect(verifyDerivation(derived, [altered])).resolves.toMatchObject({
+      status: 'mismatch',
+      changedSources: [bbsEmployee.id],
+      unverifiedSources: [bbsEmployee.id]
+    });
+  });
+
+  it('reports a source whose proof does not verify', async () => {
+    const unsigned: VerifiableCredential = { ...bbsEmployee, proof: undefined };
+    const unsignedDerived = await createDerivedCredential(JOB_TITLE_QUERY, [unsigned], { id: 'urn:uuid:unsigned', type: [] });
+
+    const result = await verifyDerivation(unsignedDerived, [unsigned]);
+    expect(result.status).toBe('mismatch');
+    expect(result.changedSources).toBeUndefined();
+    expect(result.unverifiedSources).toEqual([bbsEmployee.id]);
+  });
+});
+
+describe('predicate proofs', () => {
+  const SENIOR_QUERY = 'PREFIX schema: <http://schema.org/> SELECT ?senior WHERE { ?subject schema:jobTitle ?title BIND(?title = "Senior Engineer" AS ?senior) }';
+  const bbsEmployee = loadSample('sample-bbs-employee.json');
+
+  it('states only the outcome of a boolean SELECT, which re-checks against the query and sources', async () => {
+    const proof = await createDerivedCredential(SENIOR_QUERY, [bbsEmployee], { id: 'urn:uuid:senior', type: ['SeniorityProof'] }, { predicateProof: true });
+
+    expect(proof.credentialSubject.predicateResults).toEqual([{ senior: true }]);
+    expect(JSON.stringify(proof)).not.toContain('Senior Engineer');
+    await expect(verifyPredicateProof(proof, SENIOR_QUERY, [bbsEmployee])).resolves.toMatchObject({ status: 'match' });
+    await expect(verifyPredicateProof(proof, SENIOR_QUERY.replace('Senior', 'Junior'), [bbsEmployee])).resolves.toMatchObject({ status: 'mismatch' });
+  });
+
+  it('refuses a SELECT that projects anything but booleans', async () => {
+    await expect(createDerivedCredential(
+      'PREFIX schema: <http://schema.org/> SELECT ?title WHERE { ?subject schema:jobTitle ?title }',
+      [bbsEmployee],
+      { id: 'urn:uuid:title', type: [] },
+      { predicateProof: true }
+    )).rejects.toThrow('Predicate proofs can only project boolean values');
+  });
+});
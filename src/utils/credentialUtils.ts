@@ -1,12 +1,46 @@
-import { VerifiableCredential, CredentialDisplay } from '@/types/credential';
+import {
+  VerifiableCredential,
+  CredentialDisplay,
+  CredentialVersion,
+  DerivationMode,
+  RequestQuerySource,
+  UnsupportedSourceReport,
+  DerivationReceipt,
+  DerivationCheckResult,
+  ParsedSdJwt,
+  SdJwtDisclosure,
+  ShapeValidationReport,
+  IssuerName,
+  TrustList,
+  TrustPolicy
+} from '@/types/credential';
 import * as jsonld from 'jsonld';
-import { Parser, Writer, Store } from 'n3';
+import { Parser, Writer, Store, DataFactory } from 'n3';
 import { write as prettyTurtle } from '@jeswr/pretty-turtle';
-import { translate } from 'sparqlalgebrajs';
+import { translate, toSparql, Algebra, Factory, Util } from 'sparqlalgebrajs';
 import { QueryEngine } from '@comunica/query-sparql-rdfjs';
 import * as RDF from '@rdfjs/types';
-import { termToString } from 'rdf-string-ttl';
+import { termToString, stringToTerm } from 'rdf-string-ttl';
+import { forEachTermsNested, mapTermsNested } from 'rdf-terms';
 import { canonize } from 'rdf-canonize';
+import { SigningKey, signWithDataIntegrity, verifyCredentialProof } from '@/utils/proofUtils';
+import { getHolderKey } from '@/utils/holderKeyUtils';
+import { hasBbsBaseProof, findSelectivePointers, deriveBbsDisclosure } from '@/utils/bbsUtils';
+import { utf8Decode } from '@/utils/encodingUtils';
+import { getIssuerId, getIssuerName } from '@/utils/issuerUtils';
+import {
+  CREDENTIALS_V1_CONTEXT,
+  CREDENTIALS_V2_CONTEXT,
+  DATA_INTEGRITY_V2_CONTEXT,
+  STATUS_LIST_2021_CONTEXT,
+  documentLoader
+} from '@/utils/contextUtils';
+import { detectCredentialEncoding, decodeJwtCredential, decodeSdJwtCredential, parseSdJwt } from '@/utils/jwtUtils';
+import { loadCredentialGraphs, getCredentialGraphSource, getProvenanceSource, DatasetClauses } from '@/utils/quadStore';
+import { toProvenanceQuery, attributeBindings, recordBindingSources, collectBindingSources } from '@/utils/provenanceUtils';
+import { validateQuadsAgainstShapes, hasShapeViolations } from '@/utils/shaclUtils';
+import { checkCredentialStatus, commitStatusEntry, reserveStatusEntry } from '@/utils/statusListUtils';
+import { filterTrustedCredentials, getTrustPolicy, loadTrustLists } from '@/utils/trustUtils';
 
 export class CredentialError extends Error {
   constructor(message: string, public code: string) {
@@ -15,6 +49,127 @@ export class CredentialError extends Error {
   }
 }
 
+
+// Derived credentials are signed by the wallet's holder key, so every term must map to an IRI
+// or it would silently drop out of the canonicalized (and therefore signed) data
+const DERIVED_TERMS_CONTEXT = {
+  '@vocab': 'https://example.org/derived/',
+  'prov': 'http://www.w3.org/ns/prov#',
+  'derivedFrom': { '@type': '@id' },
+  'wasDerivedFrom': { '@id': 'prov:wasDerivedFrom', '@type': '@id' },
+  'queryResults': { '@type': '@json' },
+  'predicateResults': { '@type': '@json' },
+  'derivationMetadata': { '@type': '@json' },
+  'derivationReceipt': { '@type': '@json' },
+  'presentationRequest': { '@type': '@json' },
+  'trustPolicy': { '@type': '@json' }
+} as const;
+
+// The VCDM 2.0 context already defines the Data Integrity terms
+// VCDM 2.0 defines Bitstring Status List entries itself; 1.1 credentials need the StatusList2021 context
+export const getDerivedCredentialContext = (
+  version: CredentialVersion = '1.1',
+  withStatusList = false
+): VerifiableCredential['@context'] =>
+  version === '2.0'
+    ? [CREDENTIALS_V2_CONTEXT, DERIVED_TERMS_CONTEXT]
+    : [CREDENTIALS_V1_CONTEXT, ...(withStatusList ? [STATUS_LIST_2021_CONTEXT] : []), DATA_INTEGRITY_V2_CONTEXT, DERIVED_TERMS_CONTEXT];
+
+// A status entry on the wallet's revocation list, so the holder can revoke the derived credential later
+const toStatusProperties = (version: CredentialVersion, includeStatus?: boolean) =>
+  includeStatus ? { credentialStatus: reserveStatusEntry(version) } : {};
+
+// Sign a derived credential, then allocate the status entry reserved for it
+const signDerivedCredential = async (
+  credential: VerifiableCredential,
+  holderKey: SigningKey,
+  proofOptions: Record<string, unknown>
+): Promise<VerifiableCredential> => {
+  const signed = await signWithDataIntegrity(credential, holderKey, proofOptions);
+  if (credential.credentialStatus && !Array.isArray(credential.credentialStatus)) {
+    await commitStatusEntry(credential.credentialStatus);
+  }
+  return signed;
+};
+
+// Revoked or suspended credentials cannot back a derived credential; a status that cannot be checked
+// (e.g. while offline) does not block derivation
+const assertSourcesInGoodStanding = async (sources: VerifiableCredential[]) => {
+  const results = await Promise.all(sources.map(async credential => ({ credential, ...await checkCredentialStatus(credential) })));
+  const blocked = results.filter(({ state }) => state === 'revoked' || state === 'suspended');
+  if (blocked.length > 0) {
+    throw new CredentialError(
+      `Cannot derive from ${blocked.map(({ credential, state }) => `${credential.id} (${state})`).join(', ')}`,
+      'REVOKED_SOURCE'
+    );
+  }
+};
+
+export const getCredentialVersion = (credential: { '@context'?: unknown }): CredentialVersion => {
+  const contexts = Array.isArray(credential['@context']) ? credential['@context'] : [credential['@context']];
+  return contexts[0] === CREDENTIALS_V2_CONTEXT ? '2.0' : '1.1';
+};
+
+// Validity period of a credential in either data model version
+export const getValidityPeriod = (credential: VerifiableCredential): { validFrom?: string; validUntil?: string } => ({
+  validFrom: credential.validFrom || credential.issuanceDate,
+  validUntil: credential.validUntil || credential.expirationDate
+});
+
+// Validity period properties named for the given data model version
+const toValidityProperties = (version: CredentialVersion, validFrom: string, validUntil?: string) =>
+  version === '2.0'
+    ? { validFrom, ...(validUntil && { validUntil }) }
+    : { issuanceDate: validFrom, ...(validUntil && { expirationDate: validUntil }) };
+
+const toArray = <T>(value: T | T[] | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const isEnvelopedCredential = (credential: Record<string, unknown>): boolean =>
+  credential.type === 'EnvelopedVerifiableCredential' ||
+  (Array.isArray(credential.type) && credential.type.includes('EnvelopedVerifiableCredential'));
+
+// The JSON-LD view of a credential, without wallet-only properties such as its JWT envelope
+export const toJsonLdDocument = (credential: VerifiableCredential): jsonld.JsonLdDocument => {
+  const document: Record<string, unknown> = { ...credential };
+  delete document.envelope;
+  return document as jsonld.JsonLdDocument;
+};
+
+// Decode the credential carried in an EnvelopedVerifiableCredential's data: URL
+// (JWT-secured payloads keep the JWT as their envelope; SD-JWTs reveal every disclosure)
+const unwrapEnvelopedCredential = async (envelope: Record<string, unknown>): Promise<unknown> => {
+  const match = typeof envelope.id === 'string' ? envelope.id.match(/^data:([^;,]*)((?:;[^;,]*)*),([\s\S]*)$/) : null;
+  if (!match) {
+    throw new CredentialError('Enveloped credential id must be a data: URL', 'INVALID_ENVELOPE');
+  }
+
+  const [, mediaType, parameters, data] = match;
+  if (mediaType === 'application/vc+jwt' || mediaType === 'application/vc+sd-jwt') {
+    try {
+      if (mediaType === 'application/vc+jwt') {
+        return await decodeJwtCredential(data);
+      }
+      const sdJwt = await parseSdJwt(data);
+      return await decodeSdJwtCredential(sdJwt, sdJwt.disclosures);
+    } catch (error) {
+      throw new CredentialError(`Enveloped credential is not a valid JWT: ${error instanceof Error ? error.message : error}`, 'INVALID_ENVELOPE');
+    }
+  }
+  if (mediaType !== 'application/vc+ld+json' && mediaType !== 'application/vc') {
+    throw new CredentialError(`Unsupported enveloped credential media type: ${mediaType || 'none'}`, 'UNSUPPORTED_ENVELOPE');
+  }
+
+  try {
+    const payload = parameters.split(';').includes('base64')
+      ? utf8Decode(Uint8Array.from(atob(data), char => char.charCodeAt(0)))
+      : decodeURIComponent(data);
+    return JSON.parse(payload);
+  } catch {
+    throw new CredentialError('Enveloped credential payload is not valid JSON', 'INVALID_ENVELOPE');
+  }
+};
+
 export const validateCredential = async (credential: unknown): Promise<VerifiableCredential> => {
   // Basic structure validation
   if (!credential || typeof credential !== 'object') {
@@ -23,8 +178,16 @@ export const validateCredential = async (credential: unknown): Promise<Verifiabl
 
   const credentialObj = credential as Record<string, unknown>;
 
-  // Check required fields
-  const requiredFields = ['@context', 'id', 'type', 'issuer', 'issuanceDate', 'credentialSubject'];
+  if (isEnvelopedCredential(credentialObj)) {
+    return validateCredential(await unwrapEnvelopedCredential(credentialObj));
+  }
+
+  // Check required fields (VCDM 2.0 made the validity period optional)
+  const version = getCredentialVersion(credentialObj);
+  const requiredFields = ['@context', 'id', 'type', 'issuer', 'credentialSubject'];
+  if (version === '1.1') {
+    requiredFields.push('issuanceDate');
+  }
   for (const field of requiredFields) {
     if (!(field in credentialObj)) {
       throw new CredentialError(`Missing required field: ${field}`, 'MISSING_FIELD');
@@ -45,18 +208,29 @@ export const validateCredential = async (credential: unknown): Promise<Verifiabl
   }
 
   // Validate dates
-  try {
-    new Date(credentialObj.issuanceDate as string);
-    if (credentialObj.expirationDate) {
-      new Date(credentialObj.expirationDate as string);
+  const dateFields = version === '2.0' ? ['validFrom', 'validUntil'] : ['issuanceDate', 'expirationDate'];
+  for (const field of dateFields) {
+    const value = credentialObj[field];
+    if (value !== undefined && (typeof value !== 'string' || isNaN(new Date(value).getTime()))) {
+      throw new CredentialError(`Invalid date format for ${field}`, 'INVALID_DATE');
+    }
+  }
+
+  // Validate status and schema entries (a single object or an array in both versions)
+  for (const status of toArray(credentialObj.credentialStatus as Record<string, unknown> | Record<string, unknown>[] | undefined)) {
+    if (!status || typeof status !== 'object' || typeof status.type !== 'string') {
+      throw new CredentialError('Each credentialStatus entry must be an object with a type', 'INVALID_STATUS');
+    }
+  }
+  for (const schema of toArray(credentialObj.credentialSchema as Record<string, unknown> | Record<string, unknown>[] | undefined)) {
+    if (!schema || typeof schema !== 'object' || typeof schema.id !== 'string' || typeof schema.type !== 'string') {
+      throw new CredentialError('Each credentialSchema entry must be an object with an id and a type', 'INVALID_SCHEMA');
     }
-  } catch {
-    throw new CredentialError('Invalid date format', 'INVALID_DATE');
   }
 
   // Test JSON-LD processing to catch context issues early
   try {
-    await jsonld.expand(credential as jsonld.JsonLdDocument);
+    await jsonld.expand(toJsonLdDocument(credential as VerifiableCredential), { documentLoader });
   } catch (error) {
     if (error instanceof Error && error.message.includes('tried to redefine a protected term')) {
       throw new CredentialError(
@@ -74,20 +248,24 @@ export const validateCredential = async (credential: unknown): Promise<Verifiabl
 
 export const expandCredential = async (credential: VerifiableCredential): Promise<unknown> => {
   try {
-    return await jsonld.expand(credential);
+    return await jsonld.expand(toJsonLdDocument(credential), { documentLoader });
   } catch (error) {
     console.warn('Failed to expand credential with JSON-LD:', error);
     return credential;
   }
 };
 
+// Terms that only exist in the VCDM 2.0 context
+const V2_ONLY_TERMS = ['https://www.w3.org/2018/credentials#validFrom', 'https://www.w3.org/2018/credentials#validUntil'];
+
 export const compactCredential = async (expanded: unknown, context?: unknown): Promise<VerifiableCredential> => {
   try {
+    const serialized = JSON.stringify(expanded);
     const defaultContext = (context as jsonld.ContextDefinition) || [
-      'https://www.w3.org/2018/credentials/v1'
+      V2_ONLY_TERMS.some(term => serialized.includes(term)) ? CREDENTIALS_V2_CONTEXT : CREDENTIALS_V1_CONTEXT
     ];
     
-    const compacted = await jsonld.compact(expanded as jsonld.JsonLdDocument, defaultContext);
+    const compacted = await jsonld.compact(expanded as jsonld.JsonLdDocument, defaultContext, { documentLoader });
     return compacted as VerifiableCredential;
   } catch (error) {
     console.warn('Failed to compact credential with JSON-LD:', error);
@@ -95,14 +273,17 @@ export const compactCredential = async (expanded: unknown, context?: unknown): P
   }
 };
 
-export const formatCredentialForDisplay = (credential: VerifiableCredential): CredentialDisplay => {
-  const issuer = typeof credential.issuer === 'string' 
-    ? credential.issuer 
-    : credential.issuer.id;
+// Issuer names resolved from DID documents, by issuer id, take precedence over what the credential says
+export const formatCredentialForDisplay = (
+  credential: VerifiableCredential,
+  issuerNames: Record<string, IssuerName> = {}
+): CredentialDisplay => {
+  const issuer = issuerNames[getIssuerId(credential.issuer)] ?? getIssuerName(credential.issuer);
 
-  const issuanceDate = new Date(credential.issuanceDate);
-  const expirationDate = credential.expirationDate ? new Date(credential.expirationDate) : undefined;
-  const isExpired = expirationDate ? expirationDate < new Date() : false;
+  const { validFrom, validUntil } = getValidityPeriod(credential);
+  const validFromDate = validFrom ? new Date(validFrom) : undefined;
+  const validUntilDate = validUntil ? new Date(validUntil) : undefined;
+  const now = new Date();
 
   // Extract a meaningful title from the credential
   let title = 'Verifiable Credential';
@@ -117,10 +298,13 @@ export const formatCredentialForDisplay = (credential: VerifiableCredential): Cr
   return {
     id: credential.id,
     title,
-    issuer: issuer.replace(/^https?:\/\//, '').replace(/^www\./, ''),
-    issuanceDate: issuanceDate.toLocaleDateString(),
-    expirationDate: expirationDate?.toLocaleDateString(),
-    isExpired,
+    issuer: issuer.name,
+    issuerSource: issuer.source,
+    version: getCredentialVersion(credential),
+    issuanceDate: validFromDate?.toLocaleDateString(),
+    expirationDate: validUntilDate?.toLocaleDateString(),
+    isExpired: validUntilDate ? validUntilDate < now : false,
+    isNotYetValid: validFromDate ? validFromDate > now : false,
     types: credential.type
   };
 };
@@ -140,21 +324,91 @@ export const downloadCredential = (credential: VerifiableCredential, filename?:
   URL.revokeObjectURL(url);
 };
 
-export const parseCredentialFile = async (file: File): Promise<VerifiableCredential> => {
+// Export the JWT a credential was imported from, in its original compact serialization
+export const downloadCredentialEnvelope = (credential: VerifiableCredential) => {
+  if (!credential.envelope) {
+    throw new CredentialError('Credential was not imported from a JWT', 'NO_ENVELOPE');
+  }
+
+  const { format, value } = credential.envelope;
+  const blob = new Blob([value], { type: `application/${format}` });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `credential-${credential.id.replace(/[^a-zA-Z0-9]/g, '-')}.${format === 'vc+sd-jwt' ? 'sd-jwt' : 'jwt'}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+};
+
+// SD-JWTs are returned undecoded so the holder can choose which disclosures to import
+export type ParsedCredentialInput =
+  | { kind: 'credential'; credential: VerifiableCredential }
+  | { kind: 'sd-jwt'; sdJwt: ParsedSdJwt };
+
+// Parse credential text in any supported encoding: JSON(-LD), a compact JWS (VC-JWT) or an SD-JWT VC
+export const parseCredentialText = async (text: string): Promise<ParsedCredentialInput> => {
+  const encoding = detectCredentialEncoding(text);
+
+  if (encoding === 'json') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new CredentialError('Invalid JSON format', 'INVALID_JSON');
+    }
+    return { kind: 'credential', credential: await validateCredential(parsed) };
+  }
+
+  if (encoding === 'jwt') {
+    let decoded: VerifiableCredential;
+    try {
+      decoded = await decodeJwtCredential(text.trim());
+    } catch (error) {
+      throw new CredentialError(`Invalid JWT: ${error instanceof Error ? error.message : error}`, 'INVALID_JWT');
+    }
+    return { kind: 'credential', credential: await validateCredential(decoded) };
+  }
+
+  if (encoding === 'sd-jwt') {
+    try {
+      return { kind: 'sd-jwt', sdJwt: await parseSdJwt(text) };
+    } catch (error) {
+      throw new CredentialError(`Invalid SD-JWT: ${error instanceof Error ? error.message : error}`, 'INVALID_JWT');
+    }
+  }
+
+  throw new CredentialError('Unrecognized credential format: expected JSON, a JWT or an SD-JWT', 'INVALID_FORMAT');
+};
+
+// Decode an SD-JWT VC revealing only the disclosures the holder selected
+export const importSdJwtCredential = async (
+  sdJwt: ParsedSdJwt,
+  selectedDisclosures: SdJwtDisclosure[]
+): Promise<VerifiableCredential> => {
+  let decoded: VerifiableCredential;
+  try {
+    decoded = await decodeSdJwtCredential(sdJwt, selectedDisclosures);
+  } catch (error) {
+    throw new CredentialError(`Invalid SD-JWT: ${error instanceof Error ? error.message : error}`, 'INVALID_JWT');
+  }
+  return validateCredential(decoded);
+};
+
+export const parseCredentialFile = async (file: File): Promise<ParsedCredentialInput> => {
   return new Promise((resolve, reject) => {
     const reader = new FileReader();
     
     reader.onload = async (event) => {
       try {
         const content = event.target?.result as string;
-        const parsed = JSON.parse(content);
-        const validated = await validateCredential(parsed);
-        resolve(validated);
+        resolve(await parseCredentialText(content));
       } catch (error) {
         if (error instanceof CredentialError) {
           reject(error);
-        } else if (error instanceof SyntaxError) {
-          reject(new CredentialError('Invalid JSON format', 'INVALID_JSON'));
         } else {
           reject(new CredentialError('Failed to parse credential file', 'PARSE_ERROR'));
         }
@@ -169,17 +423,49 @@ export const parseCredentialFile = async (file: File): Promise<VerifiableCredent
   });
 };
 
+export const credentialToNQuads = async (credential: VerifiableCredential): Promise<string> =>
+  await jsonld.toRDF(toJsonLdDocument(credential), { format: 'application/n-quads', documentLoader }) as unknown as string;
+
+// Supplies precomputed N-Quads for a credential (e.g. from the credential repository), or undefined to convert it
+export type NQuadsSource = (credential: VerifiableCredential) => Promise<string | undefined>;
+
+// Each parse gets fresh blank node labels, so blank nodes of different credentials never merge
+const loadCredentialQuads = async (credential: VerifiableCredential, nquadsSource?: NQuadsSource): Promise<RDF.Quad[]> => {
+  const nquads = (await nquadsSource?.(credential)) ?? await credentialToNQuads(credential);
+  return new Parser({ format: 'N-Quads' }).parse(nquads);
+};
+
+// Check a credential's claims against the SHACL shapes for its types
+export const validateCredentialShapes = async (
+  credential: VerifiableCredential,
+  nquadsSource?: NQuadsSource
+): Promise<ShapeValidationReport> =>
+  validateQuadsAgainstShapes(await loadCredentialQuads(credential, nquadsSource));
+
+// Bring the shared quad store up to date with these credentials (a no-op for unchanged ones)
+export const loadCredentialDataset = (credentials: VerifiableCredential[], nquadsSource?: NQuadsSource): Promise<void> =>
+  loadCredentialGraphs(credentials, credential => loadCredentialQuads(credential, nquadsSource));
+
+let queryEngine: QueryEngine | null = null;
+
+const getQueryEngine = (): QueryEngine => {
+  if (!queryEngine) {
+    queryEngine = new QueryEngine();
+  }
+  return queryEngine;
+};
+
 export const convertToTurtle = async (credential: VerifiableCredential): Promise<string> => {
   try {
     // First convert JSON-LD to RDF using jsonld library
-    const nquads = await jsonld.toRDF(credential, { format: 'application/n-quads' });
+    const nquads = await credentialToNQuads(credential);
     
     // Parse the N-Quads into N3 store
     const parser = new Parser({ format: 'N-Quads' });
     const store = new Store();
     
     return new Promise((resolve, reject) => {
-      parser.parse(nquads as string, async (error, quad, prefixes) => {
+      parser.parse(nquads, async (error, quad, prefixes) => {
         if (error) {
           reject(new Error(`Failed to parse RDF: ${error.message}`));
           return;
@@ -260,6 +546,8 @@ export const convertToTurtle = async (credential: VerifiableCredential): Promise
 const createEnhancedTurtle = (credential: VerifiableCredential): string => {
   const issuer = typeof credential.issuer === 'string' ? credential.issuer : credential.issuer.id;
   const issuerName = typeof credential.issuer === 'object' && credential.issuer.name ? credential.issuer.name : null;
+  const { validFrom, validUntil } = getValidityPeriod(credential);
+  const isV2 = getCredentialVersion(credential) === '2.0';
   
   // Determine context-specific prefixes based on credential types and contexts
   let contextPrefixes = '';
@@ -376,8 +664,8 @@ ${contextPrefixes}
 # Credential
 <${credential.id}> a ${credential.type.map(t => t === 'VerifiableCredential' ? 'cred:VerifiableCredential' : `schema:${t}`).join(', ')} ;
     cred:issuer <${issuer}> ;
-    cred:issuanceDate "${credential.issuanceDate}"^^xsd:dateTime ;
-    ${credential.expirationDate ? `cred:expirationDate "${credential.expirationDate}"^^xsd:dateTime ;` : ''}
+    ${validFrom ? `cred:${isV2 ? 'validFrom' : 'issuanceDate'} "${validFrom}"^^xsd:dateTime ;` : ''}
+    ${validUntil ? `cred:${isV2 ? 'validUntil' : 'expirationDate'} "${validUntil}"^^xsd:dateTime ;` : ''}
     cred:credentialSubject <${credential.credentialSubject.id || '_:subject'}> .
 
 `;
@@ -432,6 +720,28 @@ ${contextPrefixes}
   return turtle;
 };
 
+// Pretty-printed TriG: each graph is written with pretty-turtle and wrapped in a graph block, sharing one prefix header
+export const quadsToTriG = async (quads: RDF.Quad[], prefixes: Record<string, string>): Promise<string> => {
+  const graphs = new Map<string, { graph: RDF.Quad_Graph; triples: RDF.Quad[] }>();
+  for (const quad of quads) {
+    const key = termToString(quad.graph);
+    if (!graphs.has(key)) graphs.set(key, { graph: quad.graph, triples: [] });
+    graphs.get(key)!.triples.push(DataFactory.quad(quad.subject, quad.predicate, quad.object));
+  }
+
+  const prefixLines = new Set<string>();
+  const blocks = await Promise.all([...graphs.values()].map(async ({ graph, triples }) => {
+    const lines = (await prettyTurtle(triples, { prefixes })).split('\n');
+    lines.filter(line => line.startsWith('@prefix')).forEach(line => prefixLines.add(line));
+    const body = lines.filter(line => !line.startsWith('@prefix')).join('\n').trim();
+    return graph.termType === 'DefaultGraph'
+      ? body
+      : `${termToString(graph)} {\n${body.split('\n').map(line => line && `  ${line}`).join('\n')}\n}`;
+  }));
+
+  return [[...prefixLines].join('\n'), ...blocks].join('\n\n');
+};
+
 // SPARQL Querying and Derived Credentials
 
 export const combinedRDFFromCredentials = async (credentials: VerifiableCredential[]): Promise<string> => {
@@ -464,78 +774,233 @@ export const combinedRDFFromCredentials = async (credentials: VerifiableCredenti
   return prefixes + combinedData;
 };
 
+// FROM and FROM NAMED clauses wrap the query form (SELECT, CONSTRUCT, ...) in a dataset operation
+const splitDatasetClauses = (algebra: Algebra.Operation): { form: Algebra.Operation; from?: Algebra.From } =>
+  algebra.type === Algebra.types.FROM ? { form: algebra.input, from: algebra } : { form: algebra };
+
+// The query form of a SPARQL query, looking through any dataset clauses
+export const getQueryForm = (query: string): Algebra.Operation => splitDatasetClauses(translate(query)).form;
+
+// Record which credentials each binding came from, by re-running the query with the graph of every
+// matched triple bound; results it cannot explain are attributed to every queried credential
+const recordQueryProvenance = async (
+  algebra: Algebra.Project,
+  from: DatasetClauses | undefined,
+  credentials: VerifiableCredential[],
+  bindings: RDF.Bindings[]
+) => {
+  const credentialIds = credentials.map(cred => cred.id);
+  const provenanceQuery = toProvenanceQuery(algebra);
+  if (!provenanceQuery) {
+    bindings.forEach(binding => recordBindingSources(binding, credentialIds));
+    return;
+  }
+
+  const rows = await (await getQueryEngine().queryBindings(provenanceQuery.operation, {
+    sources: [getProvenanceSource(credentials, from)],
+  })).toArray();
+  attributeBindings(bindings, algebra.variables, rows, provenanceQuery.sourceVariables, credentialIds);
+};
+
+// Evaluate a SELECT query form over the credentials, recording each binding's sources
+const evaluateBindings = async (
+  algebra: Algebra.Project,
+  from: DatasetClauses | undefined,
+  credentials: VerifiableCredential[],
+  nquadsSource?: NQuadsSource
+): Promise<RDF.Bindings[]> => {
+  if (credentials.length === 0) {
+    return [];
+  }
+  
+  // Reuse the wallet's shared quad store, converting only credentials it has not seen yet
+  await loadCredentialDataset(credentials, nquadsSource);
+  // Dataset clauses are applied by the source itself, so only the query form goes to the engine
+  const source = getCredentialGraphSource(credentials, from);
+  
+  // If no credentials could be converted to RDF, return empty results
+  if (source.size === 0) {
+    console.warn('No credentials could be converted to RDF - returning empty results');
+    return [];
+  }
+  
+  // Execute SPARQL query using Comunica
+  const bindingsStream = await getQueryEngine().queryBindings(algebra, {
+    sources: [source],
+  });
+  
+  // Collect all bindings
+  const bindings = await bindingsStream.toArray();
+  await recordQueryProvenance(algebra, from, credentials, bindings);
+  return bindings;
+};
+
+const toQueryError = (error: unknown): CredentialError => {
+  console.error('SPARQL query execution failed:', error);
+  if (error instanceof CredentialError) {
+    return error;
+  }
+  return new CredentialError(`SPARQL query failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 'SPARQL_ERROR');
+};
+
+export interface QueryOptions {
+  // Query only the credentials whose issuers these lists trust for their type
+  trustLists?: TrustList[];
+}
+
+const restrictToTrusted = async (credentials: VerifiableCredential[], options: QueryOptions): Promise<VerifiableCredential[]> =>
+  options.trustLists ? filterTrustedCredentials(credentials, options.trustLists) : credentials;
+
 export const executeSPARQLQuery = async (
   sparqlQuery: string, 
-  credentials: VerifiableCredential[]
+  allCredentials: VerifiableCredential[],
+  nquadsSource?: NQuadsSource,
+  options: QueryOptions = {}
 ): Promise<RDF.Bindings[]> => {
   try {
     console.log('SPARQL Query:', sparqlQuery);
+    const credentials = await restrictToTrusted(allCredentials, options);
     console.log('Credentials to query:', credentials.length);
     
-    // Parse the SPARQL query using sparqlalgebrajs to validate it's a SELECT query
-    const algebra = translate(sparqlQuery);
+    // Parse the SPARQL query using sparqlalgebrajs to validate it's a SELECT query, in the quad form the engine expects
+    const { form: algebra, from } = splitDatasetClauses(translate(sparqlQuery, { quads: true, blankToVariable: true }));
     
     // Check if this is a SELECT query
-    if (algebra.type !== 'project') {
+    if (algebra.type !== Algebra.types.PROJECT) {
       throw new CredentialError('Only SELECT queries are supported in executeSPARQLQuery', 'UNSUPPORTED_QUERY_TYPE');
     }
     
     // Extract the variables from the SELECT clause
-    const selectVariables = (algebra as { variables: Array<{ value: string }> }).variables.map((variable) => variable.value);
+    const selectVariables = algebra.variables.map((variable) => variable.value);
     console.log('SELECT variables:', selectVariables);
     
-    if (credentials.length === 0) {
-      console.log('No credentials available for querying');
-      return [];
-    }
-    
-    // Create a combined RDF store from all credentials
-    const store = new Store();
-    
-    // Convert each credential to RDF and add to the store
-    for (const credential of credentials) {
-      try {
-        // Convert credential to N-Quads using jsonld
-        const rdfDataset = await jsonld.toRDF(credential);
-        store.addAll(rdfDataset as RDF.Dataset);
-      } catch (error) {
-        console.warn(`Failed to convert credential ${credential.id} to RDF:`, error);
-        if (error instanceof Error) {
-          console.warn(`Error details: ${error.message}`);
-          if (error.message.includes('tried to redefine a protected term')) {
-            console.warn(`Credential ${credential.id} has context issues - skipping RDF conversion`);
-          }
-        }
-        // Continue with other credentials even if one fails
-      }
-    }
-    
-    console.log(`Created RDF store with ${store.size} quads`);
-    
-    // If no credentials could be converted to RDF, return empty results
-    if (store.size === 0) {
-      console.warn('No credentials could be converted to RDF - returning empty results');
-      return [];
+    return await evaluateBindings(algebra, from, credentials, nquadsSource);
+  } catch (error) {
+    throw toQueryError(error);
+  }
+};
+
+// Whether an ASK query has any solution over the credentials
+export const executeSPARQLAsk = async (
+  sparqlQuery: string,
+  allCredentials: VerifiableCredential[],
+  nquadsSource?: NQuadsSource,
+  options: QueryOptions = {}
+): Promise<boolean> => {
+  try {
+    const credentials = await restrictToTrusted(allCredentials, options);
+    const { form: algebra, from } = splitDatasetClauses(translate(sparqlQuery, { quads: true, blankToVariable: true }));
+    if (algebra.type !== Algebra.types.ASK) {
+      throw new CredentialError('Only ASK queries are supported in executeSPARQLAsk', 'UNSUPPORTED_QUERY_TYPE');
     }
-    
-    // Execute SPARQL query using Comunica
-    const queryEngine = new QueryEngine();
-    
-    const bindingsStream = await queryEngine.queryBindings(sparqlQuery, {
-      sources: [store],
-    });
-    
-    // Collect all bindings
-    const bindings = await bindingsStream.toArray();
-    return bindings;
-    
+    if (credentials.length === 0) return false;
+
+    await loadCredentialDataset(credentials, nquadsSource);
+    return await getQueryEngine().queryBoolean(algebra, { sources: [getCredentialGraphSource(credentials, from)] });
   } catch (error) {
-    console.error('SPARQL query execution failed:', error);
-    if (error instanceof CredentialError) {
-      throw error;
+    throw toQueryError(error);
+  }
+};
+
+// The statements a DESCRIBE query returns about its resources, as the query engine describes them
+export const executeSPARQLDescribe = async (
+  sparqlQuery: string,
+  allCredentials: VerifiableCredential[],
+  nquadsSource?: NQuadsSource,
+  options: QueryOptions = {}
+): Promise<RDF.Quad[]> => {
+  try {
+    const credentials = await restrictToTrusted(allCredentials, options);
+    const { form: algebra, from } = splitDatasetClauses(translate(sparqlQuery, { quads: true, blankToVariable: true }));
+    if (algebra.type !== Algebra.types.DESCRIBE) {
+      throw new CredentialError('Only DESCRIBE queries are supported in executeSPARQLDescribe', 'UNSUPPORTED_QUERY_TYPE');
     }
-    throw new CredentialError(`SPARQL query failed: ${error instanceof Error ? error.message : 'Unknown error'}`, 'SPARQL_ERROR');
+    if (credentials.length === 0) return [];
+
+    await loadCredentialDataset(credentials, nquadsSource);
+    return await (await getQueryEngine().queryQuads(algebra, { sources: [getCredentialGraphSource(credentials, from)] })).toArray();
+  } catch (error) {
+    throw toQueryError(error);
+  }
+};
+
+// The solutions that make an ASK query true, as bindings of its variables with their sources recorded
+const findAskSolutions = async (sparqlQuery: string, credentials: VerifiableCredential[]): Promise<RDF.Bindings[]> => {
+  const { form: algebra, from } = splitDatasetClauses(translate(sparqlQuery, { quads: true, blankToVariable: true }));
+  if (algebra.type !== Algebra.types.ASK) {
+    throw new CredentialError('Query is not an ASK query', 'UNSUPPORTED_QUERY_TYPE');
+  }
+  const project = new Factory().createProject(algebra.input, Util.inScopeVariables(algebra.input));
+  return evaluateBindings(project, from, credentials);
+};
+
+// Plain JSON form of query bindings (variable name to Turtle term), stable across storage round trips
+const serializeBindings = (bindings: RDF.Bindings[]): Record<string, string>[] =>
+  bindings.map(binding => Object.fromEntries(
+    [...binding].map(([variable, term]) => [variable.value, termToString(term)])
+  ));
+
+const BINDING_PREDICATE_BASE = 'https://example.org/derived/binding#';
+
+// SELECT results as RDF, one blank node per row, so they can be canonicalized and hashed like CONSTRUCT results
+const serializedBindingsToQuads = (rows: Record<string, string>[]): RDF.Quad[] =>
+  rows.flatMap((row, index) => {
+    const rowNode = DataFactory.blankNode(`row${index}`);
+    return Object.entries(row).map(([variable, term]) => DataFactory.quad(
+      rowNode,
+      DataFactory.namedNode(BINDING_PREDICATE_BASE + encodeURIComponent(variable)),
+      stringToTerm(term) as RDF.Quad_Object
+    ));
+  });
+
+// ASK results as RDF, so they can be canonicalized and hashed like other results
+const askResultToQuads = (result: boolean): RDF.Quad[] => [
+  DataFactory.quad(
+    DataFactory.blankNode('result'),
+    DataFactory.namedNode('https://example.org/derived/askResult'),
+    DataFactory.literal(String(result), DataFactory.namedNode('http://www.w3.org/2001/XMLSchema#boolean'))
+  )
+];
+
+// Convert a CONSTRUCT query into a SELECT over the variables of its template
+export const constructToSelectQuery = (constructQuery: string): { selectQuery: string; variables: string[] } => {
+  const { form: algebra, from } = splitDatasetClauses(translate(constructQuery));
+  if (algebra.type !== Algebra.types.CONSTRUCT) {
+    throw new CredentialError('Query is not a CONSTRUCT query', 'UNSUPPORTED_QUERY_TYPE');
+  }
+
+  const variables: RDF.Variable[] = [];
+  const seen = new Set<string>();
+  for (const quad of algebra.template) {
+    forEachTermsNested(quad, (term) => {
+      if (term.termType === 'Variable' && !seen.has(term.value)) {
+        variables.push(term);
+        seen.add(term.value);
+      }
+    });
+  }
+
+  // Keep any FROM / FROM NAMED clauses, so the SELECT runs over the same dataset
+  const factory = new Factory();
+  const project = factory.createProject(algebra.input, variables);
+  return {
+    selectQuery: toSparql(from ? factory.createFrom(project, from.default, from.named) : project),
+    variables: variables.map(variable => variable.value)
+  };
+};
+
+// Instantiate a CONSTRUCT template once per binding; unbound variables are left in place
+export const instantiateConstructTemplate = (constructQuery: string, bindings: RDF.Bindings[]): RDF.Quad[] => {
+  const algebra = getQueryForm(constructQuery);
+  if (algebra.type !== Algebra.types.CONSTRUCT) {
+    throw new CredentialError('Query is not a CONSTRUCT query', 'UNSUPPORTED_QUERY_TYPE');
   }
+
+  return bindings.flatMap(binding => algebra.template.map(quad =>
+    mapTermsNested(quad, (term) =>
+      term.termType === 'Variable' ? binding.get(term.value) || term : term
+    ) as RDF.Quad
+  ));
 };
 
 export const createDerivedCredential = async (
@@ -544,54 +1009,101 @@ export const createDerivedCredential = async (
   derivedCredentialTemplate: {
     id: string;
     type: string[];
-    issuer: string;
     name?: string;
     description?: string;
-  }
+    version?: CredentialVersion;
+  },
+  options: {
+    // State only the outcome of an ASK, or of a SELECT of boolean values, with the query and the
+    // sources replaced by hashes
+    predicateProof?: boolean;
+    includeStatus?: boolean;
+    // The verifier request the query was compiled from
+    presentationRequest?: RequestQuerySource;
+    // Derive only from credentials whose issuers these lists trust, recording them as the trust policy
+    trustLists?: TrustList[];
+  } = {}
 ): Promise<VerifiableCredential> => {
+  const trustPolicy = options.trustLists && await getTrustPolicy(options.trustLists);
+  if (options.trustLists) {
+    sourceCredentials = await filterTrustedCredentials(sourceCredentials, options.trustLists);
+    if (sourceCredentials.length === 0) {
+      throw new CredentialError('None of the credentials come from issuers the trust lists trust', 'NO_TRUSTED_SOURCES');
+    }
+  }
+  if (options.predicateProof) {
+    return createPredicateProof(sparqlQuery, sourceCredentials, derivedCredentialTemplate, options.includeStatus, trustPolicy);
+  }
+
   try {
+    // ASK queries derive a boolean claim; the solutions that make it true only serve to find its sources
+    const isAsk = getQueryForm(sparqlQuery).type === Algebra.types.ASK;
+
     // Execute the SPARQL query to get derived data
-    const queryResults = await executeSPARQLQuery(sparqlQuery, sourceCredentials);
+    const queryResults = isAsk
+      ? await findAskSolutions(sparqlQuery, sourceCredentials)
+      : await executeSPARQLQuery(sparqlQuery, sourceCredentials);
+    // Only the credentials the results were matched in are listed, and needed to reproduce them; an empty
+    // result depends on every source
+    const sourceIds = sourceCredentials.map(cred => cred.id);
+    const derivedFrom = queryResults.length > 0 ? collectBindingSources(queryResults, sourceIds) : sourceIds;
+    await assertSourcesInGoodStanding(sourceCredentials.filter(cred => derivedFrom.includes(cred.id)));
     
-    // Create the base derived credential structure
+    const askResult = queryResults.length > 0;
+    const serializedResults = serializeBindings(queryResults);
+    const queryHash = await hashString(sparqlQuery);
+    const receipt: DerivationReceipt = {
+      type: 'DerivationReceipt',
+      queryType: isAsk ? 'ASK' : 'SELECT',
+      sparqlQuery,
+      queryHash,
+      sourceCredentials: derivedFrom,
+      resultHash: await canonicalizeAndHash(isAsk ? askResultToQuads(askResult) : serializedBindingsToQuads(serializedResults)),
+      sourceCommitments: await commitToSources(derivedFrom, sourceCredentials)
+    };
+
+    // Create the base derived credential structure, issued by the wallet's holder key
+    const holderKey = await getHolderKey();
     const now = new Date().toISOString();
     const derivedCredential: VerifiableCredential = {
-      '@context': [
-        'https://www.w3.org/2018/credentials/v1',
-        'https://w3id.org/credentials/derived/v1'
-      ],
+      '@context': getDerivedCredentialContext(derivedCredentialTemplate.version, options.includeStatus),
       id: derivedCredentialTemplate.id,
-      type: ['VerifiableCredential', ...derivedCredentialTemplate.type.filter(t => t !== 'VerifiableCredential')],
-      issuer: derivedCredentialTemplate.issuer,
-      issuanceDate: now,
+      type: [
+        'VerifiableCredential',
+        'Derived',
+        ...derivedCredentialTemplate.type.filter(t => t !== 'VerifiableCredential' && t !== 'Derived')
+      ],
+      issuer: holderKey.did,
+      ...toValidityProperties(derivedCredentialTemplate.version || '1.1', now),
+      ...toStatusProperties(derivedCredentialTemplate.version || '1.1', options.includeStatus),
       name: derivedCredentialTemplate.name,
       description: derivedCredentialTemplate.description,
       credentialSubject: {
         id: 'did:derived:' + Date.now(),
         type: 'DerivedCredentialSubject',
-        derivedFrom: sourceCredentials.map(cred => cred.id),
+        derivedFrom,
         sparqlQuery: sparqlQuery,
-        queryResults: queryResults
-      },
-      // Mock signature for now - to be replaced with ZKP proof
-      proof: {
-        type: 'DerivedCredentialProof2024',
-        created: now,
-        verificationMethod: derivedCredentialTemplate.issuer + '#keys-1',
-        proofPurpose: 'assertionMethod',
-        proofValue: 'mock-derived-proof-' + Date.now() + '-will-be-replaced-with-zkp',
-        // Add metadata about the derivation
-        derivationMetadata: {
-          sourceCredentials: sourceCredentials.length,
-          queryHash: await hashString(sparqlQuery),
-          derivationTimestamp: now
-        }
+        ...(isAsk ? { askResult } : { queryResults: serializedResults }),
+        derivationReceipt: receipt,
+        ...(options.presentationRequest && { presentationRequest: options.presentationRequest }),
+        ...(trustPolicy && { trustPolicy })
       }
     };
 
-    return derivedCredential;
+    return await signDerivedCredential(derivedCredential, holderKey, {
+      created: now,
+      // Add metadata about the derivation
+      derivationMetadata: {
+        sourceCredentials: derivedFrom.length,
+        queryHash,
+        derivationTimestamp: now
+      }
+    });
   } catch (error) {
     console.error('Failed to create derived credential:', error);
+    if (error instanceof CredentialError && error.code === 'REVOKED_SOURCE') {
+      throw error;
+    }
     throw new CredentialError(
       `Failed to create derived credential: ${error instanceof Error ? error.message : 'Unknown error'}`, 
       'DERIVATION_ERROR'
@@ -599,51 +1111,287 @@ export const createDerivedCredential = async (
   }
 };
 
+const XSD_BOOLEAN = 'http://www.w3.org/2001/XMLSchema#boolean';
+
+// Literals in a query's WHERE clause (e.g. an age threshold), which can reveal as much as the data they are compared with
+const collectWhereLiterals = (operation: Algebra.Operation): RDF.Literal[] => {
+  const literals: RDF.Literal[] = [];
+  const visitTerm = (term: RDF.Term) => {
+    if (term.termType === 'Literal') literals.push(term);
+  };
+  const visitExpression = (expression: Algebra.Expression): boolean => {
+    switch (expression.expressionType) {
+      case Algebra.expressionTypes.TERM:
+        visitTerm(expression.term);
+        break;
+      case Algebra.expressionTypes.OPERATOR:
+      case Algebra.expressionTypes.NAMED:
+        expression.args.forEach(visitExpression);
+        break;
+      case Algebra.expressionTypes.AGGREGATE:
+        visitExpression(expression.expression);
+        break;
+      case Algebra.expressionTypes.EXISTENCE:
+        Util.recurseOperation(expression.input, callbacks);
+        break;
+    }
+    return false;
+  };
+  const callbacks = {
+    [Algebra.types.PATTERN]: (pattern: Algebra.Pattern) => {
+      forEachTermsNested(pattern, visitTerm);
+      return false;
+    },
+    [Algebra.types.PATH]: (path: Algebra.Path) => {
+      visitTerm(path.subject);
+      visitTerm(path.object);
+      return false;
+    },
+    [Algebra.types.VALUES]: (values: Algebra.Values) => {
+      values.bindings.forEach(binding => Object.values(binding).forEach(visitTerm));
+      return false;
+    },
+    [Algebra.types.EXPRESSION]: visitExpression
+  };
+  Util.recurseOperation(operation, callbacks);
+  return literals;
+};
+
+// Commit to a source credential without naming it: the SHA-256 of its canonical N-Quads
+export const commitToCredential = async (credential: VerifiableCredential): Promise<string> =>
+  hashString(await canonize(await credentialToNQuads(credential), {
+    algorithm: 'URDNA2015',
+    inputFormat: 'application/n-quads',
+    format: 'application/n-quads'
+  }));
+
+// Commitments to the sources a receipt lists, in the same order
+const commitToSources = (sourceIds: string[], sourceCredentials: VerifiableCredential[]): Promise<string[]> =>
+  Promise.all(sourceIds.map(id => commitToCredential(sourceCredentials.find(cred => cred.id === id) as VerifiableCredential)));
+
+type PredicateOutcome = boolean | Record<string, boolean>[];
+
+// Evaluate an ASK, or a SELECT whose every binding is a boolean, along with the solutions behind it
+const evaluatePredicate = async (
+  sparqlQuery: string,
+  sourceCredentials: VerifiableCredential[]
+): Promise<{ outcome: PredicateOutcome; solutions: RDF.Bindings[] }> => {
+  const form = getQueryForm(sparqlQuery);
+  if (form.type === Algebra.types.ASK) {
+    const solutions = await findAskSolutions(sparqlQuery, sourceCredentials);
+    return { outcome: solutions.length > 0, solutions };
+  }
+  if (form.type !== Algebra.types.PROJECT) {
+    throw new CredentialError('Predicate proofs need an ASK query or a SELECT of boolean values', 'UNSUPPORTED_QUERY_TYPE');
+  }
+
+  const solutions = await executeSPARQLQuery(sparqlQuery, sourceCredentials);
+  const outcome = solutions.map(binding => Object.fromEntries([...binding].map(([variable, term]) => {
+    if (term.termType !== 'Literal' || term.datatype.value !== XSD_BOOLEAN) {
+      throw new CredentialError(
+        `Predicate proofs can only project boolean values, but ?${variable.value} is bound to ${termToString(term)}`,
+        'NON_BOOLEAN_PROJECTION'
+      );
+    }
+    return [variable.value, term.value === 'true' || term.value === '1'];
+  })));
+  return { outcome, solutions };
+};
+
+// A derived credential stating only a predicate's outcome. The query and the sources are replaced by the
+// query hash and source commitments, so a verifier needs both out of band to re-check it.
+const createPredicateProof = async (
+  sparqlQuery: string,
+  sourceCredentials: VerifiableCredential[],
+  derivedCredentialTemplate: {
+    id: string;
+    type: string[];
+    name?: string;
+    description?: string;
+    version?: CredentialVersion;
+  },
+  includeStatus?: boolean,
+  trustPolicy?: TrustPolicy
+): Promise<VerifiableCredential> => {
+  try {
+    const { outcome, solutions } = await evaluatePredicate(sparqlQuery, sourceCredentials);
+    // A false outcome depends on every source
+    const sourceIds = solutions.length > 0
+      ? collectBindingSources(solutions, sourceCredentials.map(cred => cred.id))
+      : sourceCredentials.map(cred => cred.id);
+    const sources = sourceCredentials.filter(cred => sourceIds.includes(cred.id));
+    await assertSourcesInGoodStanding(sources);
+
+    const holderKey = await getHolderKey();
+    const now = new Date().toISOString();
+    const statedClaims = {
+      id: 'did:derived:' + Date.now(),
+      type: 'PredicateProof',
+      queryHash: await hashString(sparqlQuery),
+      sourceCommitments: await Promise.all(sources.map(commitToCredential)),
+      ...(trustPolicy && { trustPolicy })
+    };
+    const derivedCredential: VerifiableCredential = {
+      '@context': getDerivedCredentialContext(derivedCredentialTemplate.version, includeStatus),
+      id: derivedCredentialTemplate.id,
+      type: [
+        'VerifiableCredential',
+        'Derived',
+        ...derivedCredentialTemplate.type.filter(t => t !== 'VerifiableCredential' && t !== 'Derived')
+      ],
+      issuer: holderKey.did,
+      ...toValidityProperties(derivedCredentialTemplate.version || '1.1', now),
+      ...toStatusProperties(derivedCredentialTemplate.version || '1.1', includeStatus),
+      name: derivedCredentialTemplate.name,
+      description: derivedCredentialTemplate.description,
+      credentialSubject: {
+        ...statedClaims,
+        ...(typeof outcome === 'boolean' ? { predicateResult: outcome } : { predicateResults: outcome })
+      }
+    };
+
+    // Everything else in the credential is an outcome or a hash, so only the user's own text can repeat a
+    // literal the query used in its WHERE clause; refuse rather than sign it. The credential is compared
+    // as RDF, so a literal only counts as disclosed when the credential states the same term.
+    const statedLiterals = (await loadCredentialQuads({ ...derivedCredential, credentialSubject: statedClaims }))
+      .map(quad => quad.object)
+      .filter(term => term.termType === 'Literal');
+    const disclosed = collectWhereLiterals(getQueryForm(sparqlQuery)).filter(literal =>
+      statedLiterals.some(term => term.equals(literal)));
+    if (disclosed.length > 0) {
+      throw new CredentialError(
+        `Predicate proof would disclose ${disclosed.map(literal => `"${literal.value}"`).join(', ')} from the query's WHERE clause`,
+        'DISCLOSES_QUERY_LITERAL'
+      );
+    }
+
+    return await signDerivedCredential(derivedCredential, holderKey, { created: now });
+  } catch (error) {
+    console.error('Failed to create predicate proof:', error);
+    if (error instanceof CredentialError) {
+      throw error;
+    }
+    throw new CredentialError(
+      `Failed to create predicate proof: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'DERIVATION_ERROR'
+    );
+  }
+};
+
+// Check a predicate proof against a query and source credentials supplied out of band: the query must
+// match its hash, the sources its commitments, and re-evaluating the query must give the stated outcome
+export const verifyPredicateProof = async (
+  derived: VerifiableCredential,
+  sparqlQuery: string,
+  sourceCredentials: VerifiableCredential[]
+): Promise<DerivationCheckResult> => {
+  const subject = derived.credentialSubject;
+  const base = { missingQuads: [], unexpectedQuads: [] };
+  if (subject.type !== 'PredicateProof') {
+    return { ...base, status: 'no-receipt', message: 'Credential is not a predicate proof' };
+  }
+  if (await hashString(sparqlQuery) !== subject.queryHash) {
+    return { ...base, status: 'mismatch', message: 'Query does not match the credential queryHash' };
+  }
+
+  try {
+    const commitments = (subject.sourceCommitments as string[] | undefined) || [];
+    const committed = new Map<string, VerifiableCredential>();
+    for (const credential of sourceCredentials) {
+      committed.set(await commitToCredential(credential), credential);
+    }
+    const missingSources = commitments.filter(commitment => !committed.has(commitment));
+    if (missingSources.length > 0) {
+      return {
+        ...base,
+        status: 'missing-sources',
+        message: `${missingSources.length} committed source credential${missingSources.length !== 1 ? 's are' : ' is'} not available`,
+        missingSources
+      };
+    }
+
+    const { outcome } = await evaluatePredicate(sparqlQuery, commitments.map(commitment => committed.get(commitment) as VerifiableCredential));
+    const claimed = subject.predicateResults ?? subject.predicateResult;
+    return JSON.stringify(outcome) === JSON.stringify(claimed)
+      ? { ...base, status: 'match', message: 'Re-evaluating the query over the committed sources gave the stated outcome' }
+      : { ...base, status: 'mismatch', message: 'Re-evaluating the query over the committed sources gave a different outcome' };
+  } catch (error) {
+    console.error('Failed to verify predicate proof:', error);
+    return {
+      ...base,
+      status: 'error',
+      message: `Predicate proof check failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
 // Helper function to get the validity period intersection of multiple credentials
 const getValidityPeriodIntersection = (credentials: VerifiableCredential[]): { validFrom: string; validUntil?: string } => {
-  // Find the latest issuanceDate (validFrom)
-  const validFrom = credentials
-    .map(cred => new Date(cred.issuanceDate))
-    .reduce((latest, current) => current > latest ? current : latest)
-    .toISOString();
-
-  // Find the earliest expirationDate (validUntil)
-  const expirationDates = credentials
-    .map(cred => cred.expirationDate)
+  const periods = credentials.map(getValidityPeriod);
+
+  // Find the latest start of validity (sources without one are valid from now)
+  const validFromDates = periods
+    .map(period => period.validFrom)
+    .filter((date): date is string => date !== undefined)
+    .map(date => new Date(date));
+  const validFrom = (validFromDates.length > 0
+    ? validFromDates.reduce((latest, current) => current > latest ? current : latest)
+    : new Date()
+  ).toISOString();
+
+  // Find the earliest end of validity
+  const validUntilDates = periods
+    .map(period => period.validUntil)
     .filter((date): date is string => date !== undefined)
     .map(date => new Date(date));
 
-  const validUntil = expirationDates.length > 0 
-    ? expirationDates.reduce((earliest, current) => current < earliest ? current : earliest).toISOString()
+  const validUntil = validUntilDates.length > 0 
+    ? validUntilDates.reduce((earliest, current) => current < earliest ? current : earliest).toISOString()
     : undefined;
 
   return { validFrom, validUntil };
 };
 
-// Helper function to canonicalize RDF data and generate hash
-const canonicalizeAndHash = async (quads: RDF.Quad[]): Promise<string> => {
-  try {
-    // Convert quads to N-Triples format for canonicalization
-    const writer = new Writer({ format: 'N-Triples' });
-    
-    // Add all quads to the writer
-    for (const quad of quads) {
-      writer.addQuad(quad);
+// Canonical N-Quads (URDNA2015) of a set of quads
+const canonicalizeQuads = async (quads: RDF.Quad[]): Promise<string> => {
+  // Convert quads to N-Triples format for canonicalization
+  const writer = new Writer({ format: 'N-Triples' });
+
+  // Query engines scope blank node labels (e.g. "bc_0__:b2"), which are not valid N-Triples labels
+  const blankNodeLabels = new Map<string, string>();
+  const relabel = (term: RDF.Term): RDF.Term => {
+    if (term.termType !== 'BlankNode') return term;
+    if (!blankNodeLabels.has(term.value)) {
+      blankNodeLabels.set(term.value, `b${blankNodeLabels.size}`);
     }
-    
-    // Get the N-Triples string
-    const ntriples = await new Promise<string>((resolve, reject) => {
-      writer.end((error, result) => {
-        if (error) reject(error);
-        else resolve(result);
-      });
+    return DataFactory.blankNode(blankNodeLabels.get(term.value));
+  };
+  
+  // Add all quads to the writer
+  for (const quad of quads) {
+    writer.addQuad(mapTermsNested(quad, relabel) as RDF.Quad);
+  }
+  
+  // Get the N-Triples string
+  const ntriples = await new Promise<string>((resolve, reject) => {
+    writer.end((error, result) => {
+      if (error) reject(error);
+      else resolve(result);
     });
+  });
 
-    // Canonicalize the RDF dataset
-    const canonicalized = await canonize(ntriples, {
-      algorithm: 'URDNA2015',
-      format: 'application/n-quads'
-    });
+  // Canonicalize the RDF dataset
+  return canonize(ntriples, {
+    algorithm: 'URDNA2015',
+    inputFormat: 'application/n-quads',
+    format: 'application/n-quads'
+  });
+};
+
+// Helper function to canonicalize RDF data and generate hash
+const canonicalizeAndHash = async (quads: RDF.Quad[]): Promise<string> => {
+  try {
+    const canonicalized = await canonicalizeQuads(quads);
 
     // Generate SHA-256 hash of the canonicalized dataset
     const encoder = new TextEncoder();
@@ -658,6 +1406,10 @@ const canonicalizeAndHash = async (quads: RDF.Quad[]): Promise<string> => {
   }
 };
 
+// A statement as an N-Triples line, for referring to it from PROV-O annotations
+const formatStatement = (quad: RDF.Quad): string =>
+  `${termToString(quad.subject)} ${termToString(quad.predicate)} ${termToString(quad.object)} .`;
+
 // Create multiple derived credentials from CONSTRUCT query results
 export const createDerivedCredentialsFromConstruct = async (
   constructQuads: RDF.Quad[],
@@ -667,18 +1419,122 @@ export const createDerivedCredentialsFromConstruct = async (
     type?: string[];
     name?: string;
     description?: string;
+    version?: CredentialVersion;
+  } = {},
+  options: {
+    mode?: DerivationMode;
+    // The CONSTRUCT query, recorded in a derivation receipt so the result can be re-checked later
+    sparqlQuery?: string;
+    // Embed a PROV-O entity per statement, naming the source credentials it was derived from
+    includeStatementProvenance?: boolean;
+    // Give each credential signed by the wallet a status entry on the wallet's revocation list
+    includeStatus?: boolean;
+    onUnsupportedSource?: (report: UnsupportedSourceReport) => void;
+    // Called with the SHACL results for the CONSTRUCT output, if there are any
+    onShapeResults?: (report: ShapeValidationReport) => void;
+    // The verifier request the query was compiled from; selective disclosures cannot record it, since
+    // only the issuer's statements are signed
+    presentationRequest?: RequestQuerySource;
+    // Refuse bindings drawn from credentials whose issuers these lists do not trust, and record them as
+    // the trust policy (except in selective disclosures, for the same reason)
+    trustLists?: TrustList[];
   } = {}
 ): Promise<VerifiableCredential[]> => {
+  // Nothing is issued, in either mode, from statements that violate a shape
+  const shapeReport = await validateQuadsAgainstShapes(constructQuads);
+  if (shapeReport.results.length > 0) {
+    options.onShapeResults?.(shapeReport);
+  }
+  if (hasShapeViolations(shapeReport)) {
+    const violations = shapeReport.results.filter(result => result.severity === 'Violation').length;
+    throw new CredentialError(
+      `CONSTRUCT output violates ${violations} SHACL constraint${violations !== 1 ? 's' : ''}`,
+      'SHAPE_VIOLATION'
+    );
+  }
+  const selectedSources = collectBindingSources(selectedBindings, sourceCredentials.map(cred => cred.id));
+  const selected = sourceCredentials.filter(cred => selectedSources.includes(cred.id));
+  await assertSourcesInGoodStanding(selected);
+  const trustPolicy = options.trustLists && await getTrustPolicy(options.trustLists);
+  if (options.trustLists) {
+    const trusted = await filterTrustedCredentials(selected, options.trustLists);
+    if (trusted.length < selected.length) {
+      throw new CredentialError(
+        `${selected.length - trusted.length} of the selected results come from credentials whose issuers are not trusted`,
+        'UNTRUSTED_SOURCE'
+      );
+    }
+  }
+
+  if (options.mode === 'bbs-selective-disclosure') {
+    // Only the sources of the selected results, which passed the status and trust checks above
+    return deriveSelectiveDisclosures(constructQuads, selected, options.onUnsupportedSource);
+  }
+
   try {
-    const validityPeriod = getValidityPeriodIntersection(sourceCredentials);
+    const holderKey = await getHolderKey();
+    const version = derivedCredentialTemplate.version || '1.1';
     const derivedCredentials: VerifiableCredential[] = [];
+    const queryHash = options.sparqlQuery ? await hashString(options.sparqlQuery) : undefined;
+    const sourceIds = sourceCredentials.map(cred => cred.id);
+
+    // The statements each selected binding instantiates, to tell which bindings a statement came from
+    const bindingStatements = selectedBindings.map(binding =>
+      options.sparqlQuery ? instantiateConstructTemplate(options.sparqlQuery, [binding]) : []
+    );
+
+    // Bindings behind a subject's statements; without the query, only its ?subject binding is known
+    const getSubjectBindings = (subjectValue: string): RDF.Bindings[] =>
+      selectedBindings.filter((binding, index) => options.sparqlQuery
+        ? bindingStatements[index].some(quad => quad.subject.value === subjectValue)
+        : binding.get('subject')?.value === subjectValue
+      );
+
+    // A derived credential lists only the sources its bindings were matched in, takes its validity
+    // period from them and, if asked, records the sources of each of its statements
+    const attributeStatements = (quads: RDF.Quad[], bindings: RDF.Bindings[]) => {
+      const derivedFrom = collectBindingSources(bindings, sourceIds);
+      const validityPeriod = getValidityPeriodIntersection(sourceCredentials.filter(cred => derivedFrom.includes(cred.id)));
+      const getStatementSources = (quad: RDF.Quad): string[] => {
+        const producing = selectedBindings.filter((_, index) => bindingStatements[index].some(statement => statement.equals(quad)));
+        return producing.length > 0 ? collectBindingSources(producing, derivedFrom) : derivedFrom;
+      };
+
+      return {
+        derivedFrom,
+        validityProperties: toValidityProperties(version, validityPeriod.validFrom, validityPeriod.validUntil),
+        statementProvenance: options.includeStatementProvenance
+          ? quads.map(quad => ({ type: 'prov:Entity', statement: formatStatement(quad), wasDerivedFrom: getStatementSources(quad) }))
+          : undefined
+      };
+    };
+
+    // The receipt only needs the bindings and sources behind this credential to reproduce its statements
+    const createReceipt = async (
+      resultHash: string,
+      derivedFrom: string[],
+      bindings: RDF.Bindings[],
+      subjectBinding?: string
+    ): Promise<DerivationReceipt | undefined> =>
+      options.sparqlQuery && queryHash
+        ? {
+            type: 'DerivationReceipt',
+            queryType: 'CONSTRUCT',
+            sparqlQuery: options.sparqlQuery,
+            queryHash,
+            sourceCredentials: derivedFrom,
+            selectedBindings: serializeBindings(bindings),
+            ...(subjectBinding && { subjectBinding }),
+            resultHash,
+            sourceCommitments: await commitToSources(derivedFrom, sourceCredentials)
+          }
+        : undefined;
 
     // Group quads by subject (from ?subject variable in bindings)
     const subjectToQuads = new Map<string, RDF.Quad[]>();
-    const subjectToBindings = new Map<string, RDF.Bindings>();
 
     // Build mappings from selected bindings
-    selectedBindings.forEach((bindings, index) => {
+    selectedBindings.forEach((bindings) => {
       const subjectTerm = bindings.get('subject');
       if (subjectTerm) {
         const subjectValue = subjectTerm.value;
@@ -690,7 +1546,6 @@ export const createDerivedCredentialsFromConstruct = async (
 
         if (relatedQuads.length > 0) {
           subjectToQuads.set(subjectValue, relatedQuads);
-          subjectToBindings.set(subjectValue, bindings);
         }
       }
     });
@@ -703,22 +1558,21 @@ export const createDerivedCredentialsFromConstruct = async (
       const datasetHash = await canonicalizeAndHash(constructQuads);
       
       const now = new Date().toISOString();
+      const { derivedFrom, validityProperties, statementProvenance } = attributeStatements(constructQuads, selectedBindings);
+      const receipt = await createReceipt(datasetHash, derivedFrom, selectedBindings);
       const derivedCredential: VerifiableCredential = {
-        '@context': [
-          'https://www.w3.org/2018/credentials/v1',
-          'https://w3id.org/credentials/derived/v1'
-        ],
+        '@context': getDerivedCredentialContext(version, options.includeStatus),
         id: `did:example:derived:${datasetHash}`,
         type: ['VerifiableCredential', 'Derived', ...(derivedCredentialTemplate.type || [])],
-        issuer: 'did:example:derived',
-        issuanceDate: validityPeriod.validFrom,
-        ...(validityPeriod.validUntil && { expirationDate: validityPeriod.validUntil }),
+        issuer: holderKey.did,
+        ...validityProperties,
+        ...toStatusProperties(version, options.includeStatus),
         name: derivedCredentialTemplate.name || 'Derived Credential from CONSTRUCT Query',
         description: derivedCredentialTemplate.description || 'Credential derived from SPARQL CONSTRUCT query results',
         credentialSubject: {
           id: 'did:derived:' + datasetHash,
           type: 'DerivedCredentialSubject',
-          derivedFrom: sourceCredentials.map(cred => cred.id),
+          derivedFrom,
           constructResult: await prettyTurtle(constructQuads, {
             prefixes: {
               'cred': 'https://www.w3.org/2018/credentials#',
@@ -727,48 +1581,45 @@ export const createDerivedCredentialsFromConstruct = async (
               'derived': 'https://example.org/derived/',
               'xsd': 'http://www.w3.org/2001/XMLSchema#'
             }
-          })
-        },
-        proof: {
-          type: 'DerivedCredentialProof2024',
-          created: now,
-          verificationMethod: 'did:example:derived#keys-1',
-          proofPurpose: 'assertionMethod',
-          proofValue: 'mock-derived-proof-' + datasetHash,
-          derivationMetadata: {
-            sourceCredentials: sourceCredentials.length,
-            datasetHash: datasetHash,
-            derivationTimestamp: now
-          }
+          }),
+          ...(statementProvenance && { statementProvenance }),
+          ...(receipt && { derivationReceipt: receipt }),
+          ...(options.presentationRequest && { presentationRequest: options.presentationRequest }),
+          ...(trustPolicy && { trustPolicy })
         }
       };
 
-      derivedCredentials.push(derivedCredential);
+      derivedCredentials.push(await signDerivedCredential(derivedCredential, holderKey, {
+        created: now,
+        derivationMetadata: {
+          sourceCredentials: derivedFrom.length,
+          datasetHash: datasetHash,
+          derivationTimestamp: now
+        }
+      }));
     } else {
       // Create one credential per subject
       for (const [subjectValue, quads] of subjectToQuads) {
-        const bindings = subjectToBindings.get(subjectValue);
-        
         // Generate hash for this subject's data
         const datasetHash = await canonicalizeAndHash(quads);
         
         const now = new Date().toISOString();
+        const bindings = getSubjectBindings(subjectValue);
+        const { derivedFrom, validityProperties, statementProvenance } = attributeStatements(quads, bindings);
+        const receipt = await createReceipt(datasetHash, derivedFrom, bindings, subjectValue);
         const derivedCredential: VerifiableCredential = {
-          '@context': [
-            'https://www.w3.org/2018/credentials/v1',
-            'https://w3id.org/credentials/derived/v1'
-          ],
+          '@context': getDerivedCredentialContext(version, options.includeStatus),
           id: `did:example:derived:${datasetHash}`,
           type: ['VerifiableCredential', 'Derived', ...(derivedCredentialTemplate.type || [])],
-          issuer: 'did:example:derived',
-          issuanceDate: validityPeriod.validFrom,
-          ...(validityPeriod.validUntil && { expirationDate: validityPeriod.validUntil }),
+          issuer: holderKey.did,
+          ...validityProperties,
+          ...toStatusProperties(version, options.includeStatus),
           name: derivedCredentialTemplate.name || `Derived Credential for ${subjectValue}`,
           description: derivedCredentialTemplate.description || `Credential derived from SPARQL CONSTRUCT query for subject ${subjectValue}`,
           credentialSubject: {
             id: subjectValue,
             type: 'DerivedCredentialSubject',
-            derivedFrom: sourceCredentials.map(cred => cred.id),
+            derivedFrom,
             constructResult: await prettyTurtle(quads, {
               prefixes: {
                 'cred': 'https://www.w3.org/2018/credentials#',
@@ -777,24 +1628,23 @@ export const createDerivedCredentialsFromConstruct = async (
                 'derived': 'https://example.org/derived/',
                 'xsd': 'http://www.w3.org/2001/XMLSchema#'
               }
-            })
-          },
-          proof: {
-            type: 'DerivedCredentialProof2024',
-            created: now,
-            verificationMethod: 'did:example:derived#keys-1',
-            proofPurpose: 'assertionMethod',
-            proofValue: 'mock-derived-proof-' + datasetHash,
-            derivationMetadata: {
-              sourceCredentials: sourceCredentials.length,
-              datasetHash: datasetHash,
-              subjectBinding: subjectValue,
-              derivationTimestamp: now
-            }
+            }),
+            ...(statementProvenance && { statementProvenance }),
+            ...(receipt && { derivationReceipt: receipt }),
+            ...(options.presentationRequest && { presentationRequest: options.presentationRequest }),
+            ...(trustPolicy && { trustPolicy })
           }
         };
 
-        derivedCredentials.push(derivedCredential);
+        derivedCredentials.push(await signDerivedCredential(derivedCredential, holderKey, {
+          created: now,
+          derivationMetadata: {
+            sourceCredentials: derivedFrom.length,
+            datasetHash: datasetHash,
+            subjectBinding: subjectValue,
+            derivationTimestamp: now
+          }
+        }));
       }
     }
 
@@ -808,6 +1658,244 @@ export const createDerivedCredentialsFromConstruct = async (
   }
 };
 
+// Derive one BBS disclosure per bbs-2023 source credential revealing only the statements of the
+// instantiated CONSTRUCT template it contains; other sources are reported instead of being re-signed
+const deriveSelectiveDisclosures = async (
+  constructQuads: RDF.Quad[],
+  sourceCredentials: VerifiableCredential[],
+  onUnsupportedSource: (report: UnsupportedSourceReport) => void = () => {}
+): Promise<VerifiableCredential[]> => {
+  const disclosures: VerifiableCredential[] = [];
+  for (const credential of sourceCredentials) {
+    if (!hasBbsBaseProof(credential)) {
+      onUnsupportedSource({ credentialId: credential.id, reason: 'Credential does not carry a bbs-2023 base proof' });
+      continue;
+    }
+
+    try {
+      const pointers = await findSelectivePointers(credential, constructQuads);
+      if (pointers.length === 0) {
+        onUnsupportedSource({ credentialId: credential.id, reason: 'None of the CONSTRUCT results are statements of this credential' });
+        continue;
+      }
+
+      disclosures.push(await deriveBbsDisclosure(credential, pointers));
+    } catch (error) {
+      console.error(`Failed to derive selective disclosure of ${credential.id}:`, error);
+      onUnsupportedSource({
+        credentialId: credential.id,
+        reason: `Selective disclosure failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  }
+
+  return disclosures;
+};
+
+// Order-independent key for a serialized binding row
+const bindingKey = (row: Record<string, string>): string =>
+  JSON.stringify(Object.entries(row).sort(([a], [b]) => a.localeCompare(b)));
+
+// Re-run the receipt's query over the source credentials
+const reproduceDerivationResult = async (
+  receipt: DerivationReceipt,
+  sourceCredentials: VerifiableCredential[]
+): Promise<RDF.Quad[]> => {
+  if (receipt.queryType === 'SELECT') {
+    const results = await executeSPARQLQuery(receipt.sparqlQuery, sourceCredentials);
+    return serializedBindingsToQuads(serializeBindings(results));
+  }
+  if (receipt.queryType === 'ASK') {
+    return askResultToQuads(await executeSPARQLAsk(receipt.sparqlQuery, sourceCredentials));
+  }
+
+  // Same CONSTRUCT logic as the query interface: SELECT the template variables, then
+  // instantiate the template with the bindings that were selected at derivation time
+  const { selectQuery } = constructToSelectQuery(receipt.sparqlQuery);
+  const results = await executeSPARQLQuery(selectQuery, sourceCredentials);
+  const selected = new Set((receipt.selectedBindings || []).map(bindingKey));
+  const serializedResults = serializeBindings(results);
+  const reproducedBindings = results.filter((_, index) => selected.has(bindingKey(serializedResults[index])));
+
+  const quads = instantiateConstructTemplate(receipt.sparqlQuery, reproducedBindings);
+  return receipt.subjectBinding
+    ? quads.filter(quad => quad.subject.value === receipt.subjectBinding)
+    : quads;
+};
+
+// The result the derived credential itself claims
+const getClaimedDerivationResult = async (
+  derived: VerifiableCredential,
+  receipt: DerivationReceipt
+): Promise<RDF.Quad[]> => {
+  const subject = derived.credentialSubject;
+  if (receipt.queryType === 'SELECT') {
+    return serializedBindingsToQuads((subject.queryResults as Record<string, string>[] | undefined) || []);
+  }
+  if (receipt.queryType === 'ASK') {
+    return askResultToQuads(subject.askResult === true);
+  }
+  return new Parser({ format: 'Turtle' }).parse((subject.constructResult as string | undefined) || '');
+};
+
+const canonicalLines = async (quads: RDF.Quad[]): Promise<string[]> =>
+  (await canonicalizeQuads(quads)).split('\n').filter(line => line.trim() !== '');
+
+// Check a derived credential's receipt: check the sources against their commitments and proofs, re-execute
+// the embedded query over them, canonicalize the result and compare it against the receipt hash, the dataset
+// hash in the proof and the claimed result
+export const verifyDerivation = async (
+  derived: VerifiableCredential,
+  sourceCredentials: VerifiableCredential[]
+): Promise<DerivationCheckResult> => {
+  const receipt = derived.credentialSubject.derivationReceipt as DerivationReceipt | undefined;
+  if (!receipt || receipt.type !== 'DerivationReceipt') {
+    return {
+      status: 'no-receipt',
+      message: 'Credential does not carry a derivation receipt',
+      missingQuads: [],
+      unexpectedQuads: []
+    };
+  }
+
+  const missingSources = receipt.sourceCredentials.filter(id => !sourceCredentials.some(cred => cred.id === id));
+  if (missingSources.length > 0) {
+    return {
+      status: 'missing-sources',
+      message: `${missingSources.length} source credential${missingSources.length !== 1 ? 's are' : ' is'} not available`,
+      missingSources,
+      missingQuads: [],
+      unexpectedQuads: []
+    };
+  }
+  // Keep the receipt's order so blank node labels come out the same as at derivation time
+  const sources = receipt.sourceCredentials.map(id => sourceCredentials.find(cred => cred.id === id) as VerifiableCredential);
+
+  try {
+    if (await hashString(receipt.sparqlQuery) !== receipt.queryHash) {
+      return {
+        status: 'mismatch',
+        message: 'Embedded query does not match the receipt queryHash',
+        missingQuads: [],
+        unexpectedQuads: []
+      };
+    }
+
+    // The sources must be the very credentials the receipt committed to, still carrying their issuers' proofs
+    const commitments = await commitToSources(receipt.sourceCredentials, sources);
+    const changedSources = receipt.sourceCommitments
+      ? receipt.sourceCredentials.filter((_, index) => commitments[index] !== receipt.sourceCommitments?.[index])
+      : [];
+    const proofs = await Promise.all(sources.map(verifyCredentialProof));
+    const unverifiedSources = receipt.sourceCredentials.filter((_, index) => proofs[index].status !== 'verified');
+    if (changedSources.length > 0 || unverifiedSources.length > 0) {
+      return {
+        status: 'mismatch',
+        message: changedSources.length > 0
+          ? `${changedSources.length} source credential${changedSources.length !== 1 ? 's do' : ' does'} not match the receipt's commitments`
+          : `${unverifiedSources.length} source credential${unverifiedSources.length !== 1 ? 's do' : ' does'} not carry a valid proof`,
+        ...(changedSources.length > 0 && { changedSources }),
+        ...(unverifiedSources.length > 0 && { unverifiedSources }),
+        missingQuads: [],
+        unexpectedQuads: []
+      };
+    }
+
+    const reproduced = await reproduceDerivationResult(receipt, sources);
+    const claimed = await getClaimedDerivationResult(derived, receipt);
+    const actualHash = await canonicalizeAndHash(reproduced);
+    // CONSTRUCT credentials also sign the hash of their statements into the proof
+    const datasetHash = (derived.proof?.derivationMetadata as { datasetHash?: string } | undefined)?.datasetHash;
+
+    const [reproducedLines, claimedLines] = await Promise.all([canonicalLines(reproduced), canonicalLines(claimed)]);
+    const missingQuads = claimedLines.filter(line => !reproducedLines.includes(line));
+    const unexpectedQuads = reproducedLines.filter(line => !claimedLines.includes(line));
+    const base = { expectedHash: receipt.resultHash, actualHash, missingQuads, unexpectedQuads };
+
+    if (actualHash === receipt.resultHash && (datasetHash === undefined || actualHash === datasetHash) &&
+        missingQuads.length === 0 && unexpectedQuads.length === 0) {
+      return { ...base, status: 'match', message: `Re-running the query reproduced all ${reproducedLines.length} statements` };
+    }
+
+    return {
+      ...base,
+      status: 'mismatch',
+      message: actualHash !== receipt.resultHash
+        ? 'Re-running the query produced a different result hash'
+        : datasetHash !== undefined && actualHash !== datasetHash
+          ? 'Re-running the query produced a different dataset hash than the proof states'
+          : 'Credential contents do not match its receipt'
+    };
+  } catch (error) {
+    console.error('Failed to verify derivation:', error);
+    return {
+      status: 'error',
+      message: `Derivation check failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      missingQuads: [],
+      unexpectedQuads: []
+    };
+  }
+};
+
+// Derive a stale credential again: re-run its receipt's query over those of its sources still in the
+// wallet and in good standing, so the new credential never draws on credentials the old one did not
+export const rederiveCredential = async (
+  derived: VerifiableCredential,
+  walletCredentials: VerifiableCredential[]
+): Promise<VerifiableCredential[]> => {
+  const subject = derived.credentialSubject;
+  const receipt = subject.derivationReceipt as DerivationReceipt | undefined;
+  if (!receipt || receipt.type !== 'DerivationReceipt') {
+    throw new CredentialError('Credential does not carry a derivation receipt to re-run', 'NO_RECEIPT');
+  }
+
+  const present = walletCredentials.filter(cred => receipt.sourceCredentials.includes(cred.id));
+  const statuses = await Promise.all(present.map(checkCredentialStatus));
+  const sources = present.filter((_, index) => statuses[index].state !== 'revoked' && statuses[index].state !== 'suspended');
+  if (sources.length === 0) {
+    throw new CredentialError('None of the source credentials can still be derived from', 'NO_SOURCES');
+  }
+
+  const template = {
+    type: derived.type.filter(t => t !== 'VerifiableCredential' && t !== 'Derived'),
+    name: typeof derived.name === 'string' ? derived.name : undefined,
+    description: typeof derived.description === 'string' ? derived.description : undefined,
+    version: getCredentialVersion(derived)
+  };
+  const includeStatus = derived.credentialStatus !== undefined;
+  // A credential derived under a trust policy is derived again under the current trust lists, which the
+  // viewer compares with the recorded policy (describeTrustPolicyChanges) before the user re-derives
+  const trustLists = subject.trustPolicy !== undefined ? loadTrustLists() : undefined;
+
+  if (receipt.queryType !== 'CONSTRUCT') {
+    return [await createDerivedCredential(receipt.sparqlQuery, sources, { ...template, id: derived.id }, { includeStatus, trustLists })];
+  }
+
+  // Only the results that were selected when the credential was derived, as in reproduceDerivationResult
+  const { selectQuery } = constructToSelectQuery(receipt.sparqlQuery);
+  const results = await executeSPARQLQuery(selectQuery, sources, undefined, { trustLists });
+  const selected = new Set((receipt.selectedBindings || []).map(bindingKey));
+  const serializedResults = serializeBindings(results);
+  const bindings = results
+    .filter((_, index) => selected.has(bindingKey(serializedResults[index])))
+    .filter(binding => !receipt.subjectBinding || binding.get('subject')?.value === receipt.subjectBinding);
+  if (bindings.length === 0) {
+    throw new CredentialError('Re-running the query over the remaining sources gave no results', 'NO_RESULTS');
+  }
+  return createDerivedCredentialsFromConstruct(
+    instantiateConstructTemplate(receipt.sparqlQuery, bindings),
+    bindings,
+    sources,
+    template,
+    {
+      sparqlQuery: receipt.sparqlQuery,
+      includeStatementProvenance: subject.statementProvenance !== undefined,
+      includeStatus,
+      trustLists
+    }
+  );
+};
+
 // Helper function to hash a string (simple implementation)
 const hashString = async (str: string): Promise<string> => {
   const encoder = new TextEncoder();
@@ -851,6 +1939,38 @@ SELECT ?subject ?isAdult WHERE {
   ?subject schema:birthDate|citizenship:birthDate ?birthDate .
   BIND((xsd:date(?birthDate) < xsd:date("${new Date(Date.now() - 18 * 365.25 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]}")) AS ?isAdult)
   FILTER(BOUND(?isAdult) && ?isAdult)
+}`
+  },
+  {
+    name: 'Is Over 18',
+    description: 'ASK whether a credential shows its holder is over 18, without returning the birth date',
+    query: `PREFIX schema: <http://schema.org/>
+PREFIX citizenship: <https://w3id.org/citizenship#>
+PREFIX xsd: <http://www.w3.org/2001/XMLSchema#>
+
+ASK {
+  ?subject schema:birthDate|citizenship:birthDate ?birthDate .
+  FILTER(xsd:date(?birthDate) < xsd:date("${new Date(Date.now() - 18 * 365.25 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]}"))
+}`
+  },
+  {
+    name: 'Describe Credential Subjects',
+    description: 'Show every statement about the subjects of your credentials',
+    query: `PREFIX cred: <https://www.w3.org/2018/credentials#>
+
+DESCRIBE ?subject WHERE {
+  ?credential cred:credentialSubject ?subject .
+}`
+  },
+  {
+    name: 'Names by Credential',
+    description: 'Find names and the credential that states each one',
+    query: `PREFIX schema: <http://schema.org/>
+
+SELECT ?credential ?subject ?name WHERE {
+  GRAPH ?credential {
+    ?subject schema:name ?name .
+  }
 }`
   },
   {
@@ -867,6 +1987,21 @@ CONSTRUCT {
   ?subject schema:birthDate|citizenship:birthDate ?birthDate .
   BIND((xsd:date(?birthDate) < xsd:date("${new Date(Date.now() - 18 * 365.25 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]}")) AS ?isAdult)
   FILTER(BOUND(?isAdult) && ?isAdult)
+}`
+  },
+  {
+    name: 'Disclose Employment (CONSTRUCT)',
+    description: 'Select employment statements (can be disclosed from bbs-2023 credentials)',
+    query: `PREFIX schema: <http://schema.org/>
+
+CONSTRUCT {
+  ?subject schema:jobTitle ?jobTitle ;
+           schema:worksFor ?employer .
+  ?employer schema:name ?employerName .
+} WHERE {
+  ?subject schema:jobTitle ?jobTitle ;
+           schema:worksFor ?employer .
+  ?employer schema:name ?employerName .
 }`
   },
   {
@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import { encodeBase64url, utf8Encode } from '@/utils/encodingUtils';
+import { ed25519PublicKeyToDidKey } from '@/utils/holderKeyUtils';
+import {
+  createDidResolver,
+  getAssertionMethodId,
+  getDidWebUrl,
+  importVerificationKey,
+  resolveDid,
+  resolveVerificationMethod
+} from '@/utils/didUtils';
+
+const generateEd25519Key = async () =>
+  await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+
+describe('did:key', () => {
+  it('resolves to a document whose assertion method verifies the key holder\'s signatures', async () => {
+    const keyPair = await generateEd25519Key();
+    const did = await ed25519PublicKeyToDidKey(keyPair.publicKey);
+
+    const document = await resolveDid(did);
+    const methodId = await getAssertionMethodId(did);
+    expect(document.id).toBe(did);
+    expect(methodId).toBe(`${did}#${did.slice('did:key:'.length)}`);
+
+    const key = await resolveVerificationMethod(methodId, 'assertionMethod');
+    expect(key.algorithm).toBe('Ed25519');
+    expect(key.controller).toBe(did);
+
+    const message = utf8Encode('signed by the holder');
+    const signature = await crypto.subtle.sign({ name: 'Ed25519' }, keyPair.privateKey, message);
+    expect(await crypto.subtle.verify({ name: 'Ed25519' }, await importVerificationKey(key), signature, message)).toBe(true);
+  });
+
+  it('rejects a key that is not in the document', async () => {
+    const did = await ed25519PublicKeyToDidKey((await generateEd25519Key()).publicKey);
+    await expect(resolveVerificationMethod(`${did}#other`, 'assertionMethod')).rejects.toThrow('is not in the DID document');
+  });
+});
+
+describe('did:jwk', () => {
+  it('resolves a P-256 key from the JWK in the DID', async () => {
+    const keyPair = await crypto.subtle.generateKey({ name: 'ECDSA', namedCurve: 'P-256' }, true, ['sign', 'verify']) as CryptoKeyPair;
+    const { kty, crv, x, y } = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+    const did = `did:jwk:${encodeBase64url(utf8Encode(JSON.stringify({ kty, crv, x, y })))}`;
+
+    const document = await resolveDid(did);
+    expect(document.id).toBe(did);
+    expect(document.verificationMethod?.map(method => method.id)).toEqual([`${did}#0`]);
+
+    const key = await resolveVerificationMethod(`${did}#0`, 'authentication');
+    expect(key.algorithm).toBe('P-256');
+
+    const message = utf8Encode('signed with P-256');
+    const algorithm = { name: 'ECDSA', hash: 'SHA-256' };
+    const signature = await crypto.subtle.sign(algorithm, keyPair.privateKey, message);
+    expect(await crypto.subtle.verify(algorithm, await importVerificationKey(key), signature, message)).toBe(true);
+  });
+});
+
+describe('did:web', () => {
+  it('maps DIDs to the URLs their documents are served at', () => {
+    expect(getDidWebUrl('did:web:example.com')).toBe('https://example.com/.well-known/did.json');
+    expect(getDidWebUrl('did:web:example.com%3A8443:users:alice')).toBe('https://example.com:8443/users/alice/did.json');
+  });
+
+  const did = 'did:web:issuer.example';
+  const issuerDocument = {
+    '@context': ['https://www.w3.org/ns/did/v1'],
+    id: did,
+    verificationMethod: [{
+      id: '#key-1',
+      type: 'Multikey',
+      publicKeyMultibase: 'z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK'
+    }],
+    assertionMethod: ['#key-1']
+  };
+
+  it('fetches the document once and makes relative key ids absolute', async () => {
+    const fetchDocument = vi.fn(async () => Response.json(issuerDocument));
+    const resolver = createDidResolver({ fetch: fetchDocument });
+
+    const key = await resolver.resolveVerificationMethod(did, 'assertionMethod');
+    expect(key.id).toBe(`${did}#key-1`);
+    expect(key.controller).toBe(did);
+    await resolver.resolve(did);
+    expect(fetchDocument).toHaveBeenCalledTimes(1);
+    expect(fetchDocument).toHaveBeenCalledWith('https://issuer.example/.well-known/did.json', expect.anything());
+  });
+
+  it('only accepts a key for the purposes the document authorizes it for', async () => {
+    const resolver = createDidResolver({ fetch: async () => Response.json(issuerDocument) });
+
+    await expect(resolver.resolveVerificationMethod(`${did}#key-1`, 'assertionMethod')).resolves.toMatchObject({ id: `${did}#key-1` });
+    await expect(resolver.resolveVerificationMethod(`${did}#key-1`, 'authentication')).rejects.toThrow('is not authorized for authentication');
+  });
+
+  it('rejects a document that describes another DID', async () => {
+    const resolver = createDidResolver({ fetch: async () => Response.json({ id: 'did:web:other.example' }) });
+    await expect(resolver.resolve('did:web:issuer.example')).rejects.toThrow('not did:web:issuer.example');
+  });
+});
+
+describe('unsupported identifiers', () => {
+  it('rejects DID methods it cannot resolve and identifiers that are not DIDs', async () => {
+    await expect(resolveDid('did:example:123')).rejects.toThrow('did:example is not supported');
+    await expect(resolveVerificationMethod('https://issuer.example/keys/1', 'assertionMethod')).rejects.toThrow('not a DID');
+  });
+});
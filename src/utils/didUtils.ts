@@ -0,0 +1,407 @@
+import { DID_V1_CONTEXT, MULTIKEY_V1_CONTEXT } from '@/utils/contextUtils';
+import { concatBytes, decodeBase58btc, decodeBase64url, decodeMultibase, utf8Decode } from '@/utils/encodingUtils';
+
+export type KeyAlgorithm = 'Ed25519' | 'P-256' | 'P-384';
+
+export interface ResolvedVerificationKey {
+  id: string;
+  controller: string;
+  algorithm: KeyAlgorithm;
+  publicKeyBytes: Uint8Array;
+}
+
+// Multicodec varint prefixes for the public key types we can verify with WebCrypto
+const MULTICODEC_PREFIXES: Array<{ prefix: number[]; algorithm: KeyAlgorithm }> = [
+  { prefix: [0xed, 0x01], algorithm: 'Ed25519' },
+  { prefix: [0x80, 0x24], algorithm: 'P-256' },
+  { prefix: [0x81, 0x24], algorithm: 'P-384' }
+];
+
+// Curve parameters needed to decompress SEC1 points (both curves use a = -3)
+const CURVE_PARAMETERS: Record<'P-256' | 'P-384', { p: bigint; b: bigint; size: number }> = {
+  'P-256': {
+    p: BigInt('0xffffffff00000001000000000000000000000000ffffffffffffffffffffffff'),
+    b: BigInt('0x5ac635d8aa3a93e7b3ebbd55769886bc651d06b0cc53b0f63bce3c3e27d2604b'),
+    size: 32
+  },
+  'P-384': {
+    p: BigInt('0xfffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffeffffffff0000000000000000ffffffff'),
+    b: BigInt('0xb3312fa7e23ee7e4988e056be3f82d19181d9c6efe8141120314088f5013875ac656398d8a2ed19d2a85c8edd3ec2aef'),
+    size: 48
+  }
+};
+
+export const decodeMulticodecPublicKey = (multibaseKey: string): { algorithm: KeyAlgorithm; publicKeyBytes: Uint8Array } => {
+  const bytes = decodeMultibase(multibaseKey);
+  for (const { prefix, algorithm } of MULTICODEC_PREFIXES) {
+    if (prefix.every((byte, index) => bytes[index] === byte)) {
+      return { algorithm, publicKeyBytes: bytes.slice(prefix.length) };
+    }
+  }
+  throw new Error(`Unsupported multicodec key type in ${multibaseKey}`);
+};
+
+// A DID document, as far as the wallet reads it: keys, what they may be used for, and services
+// such as linked domains
+export interface DidVerificationMethod {
+  id: string;
+  type: string;
+  controller: string;
+  publicKeyMultibase?: string;
+  publicKeyJwk?: JsonWebKey;
+  publicKeyBase58?: string;
+}
+
+export interface DidService {
+  id: string;
+  type: string | string[];
+  serviceEndpoint: unknown;
+}
+
+export type VerificationRelationship = 'authentication' | 'assertionMethod' | 'keyAgreement' | 'capabilityInvocation' | 'capabilityDelegation';
+
+export type DidDocument = {
+  '@context'?: unknown;
+  id: string;
+  alsoKnownAs?: string[];
+  controller?: string | string[];
+  verificationMethod?: DidVerificationMethod[];
+  service?: DidService[];
+} & Partial<Record<VerificationRelationship, Array<string | DidVerificationMethod>>>;
+
+// Resolves the DIDs of one method; network methods fetch through the resolver's fetch so tests can
+// answer from fixtures
+export type DidMethodResolver = (did: string, context: { fetch: typeof fetch }) => Promise<DidDocument>;
+
+export interface DidResolverOptions {
+  fetch?: typeof fetch;
+  // Added to, or replacing, the built-in methods (key, jwk, web, peer)
+  methods?: Record<string, DidMethodResolver>;
+  cacheTtlMs?: number;
+}
+
+// The relationships a key must be listed under to sign credentials (assertionMethod) or
+// presentations and other proofs of control (authentication)
+export type ProofPurpose = Extract<VerificationRelationship, 'assertionMethod' | 'authentication'>;
+
+export interface DidResolver {
+  resolve: (did: string) => Promise<DidDocument>;
+  // Dereference a DID URL to its public key, which the DID must authorize for the proof purpose; a
+  // bare DID stands for its first key for that purpose
+  resolveVerificationMethod: (verificationMethod: string, proofPurpose: ProofPurpose) => Promise<ResolvedVerificationKey>;
+  clearCache: () => void;
+}
+
+const VERIFICATION_RELATIONSHIPS: VerificationRelationship[] = [
+  'authentication', 'assertionMethod', 'keyAgreement', 'capabilityInvocation', 'capabilityDelegation'
+];
+const SIGNING_RELATIONSHIPS: VerificationRelationship[] = ['authentication', 'assertionMethod', 'capabilityInvocation', 'capabilityDelegation'];
+
+// did:web documents can change, so resolutions are only reused for a while
+const DEFAULT_CACHE_TTL_MS = 15 * 60 * 1000;
+
+const multikeyDocument = (did: string, keys: Array<{ fragment: string; publicKeyMultibase: string; relationships: VerificationRelationship[] }>): DidDocument => {
+  const document: DidDocument = {
+    '@context': [DID_V1_CONTEXT, MULTIKEY_V1_CONTEXT],
+    id: did,
+    verificationMethod: keys.map(({ fragment, publicKeyMultibase }) => ({
+      id: `${did}#${fragment}`,
+      type: 'Multikey',
+      controller: did,
+      publicKeyMultibase
+    }))
+  };
+  for (const { fragment, relationships } of keys) {
+    for (const relationship of relationships) {
+      document[relationship] = [...(document[relationship] ?? []), `${did}#${fragment}`];
+    }
+  }
+  return document;
+};
+
+// did:key: the DID is the public key; X25519 keys can only be used for key agreement
+const resolveDidKey: DidMethodResolver = async did => {
+  const publicKeyMultibase = did.slice('did:key:'.length);
+  const bytes = decodeMultibase(publicKeyMultibase);
+  const isX25519 = bytes[0] === 0xec && bytes[1] === 0x01;
+  return multikeyDocument(did, [{ fragment: publicKeyMultibase, publicKeyMultibase, relationships: isX25519 ? ['keyAgreement'] : SIGNING_RELATIONSHIPS }]);
+};
+
+// did:jwk: the DID is a base64url JSON Web Key, whose use limits what it may do
+const resolveDidJwk: DidMethodResolver = async did => {
+  let publicKeyJwk: JsonWebKey & { use?: string };
+  try {
+    publicKeyJwk = JSON.parse(utf8Decode(decodeBase64url(did.slice('did:jwk:'.length))));
+  } catch {
+    throw new Error(`${did} does not encode a JSON Web Key`);
+  }
+  if ('d' in publicKeyJwk) {
+    throw new Error(`${did} encodes a private key`);
+  }
+  const id = `${did}#0`;
+  const relationships = publicKeyJwk.use === 'enc' ? ['keyAgreement'] : publicKeyJwk.use === 'sig' ? SIGNING_RELATIONSHIPS : VERIFICATION_RELATIONSHIPS;
+  return {
+    '@context': [DID_V1_CONTEXT, 'https://w3id.org/security/suites/jws-2020/v1'],
+    id: did,
+    ...Object.fromEntries(relationships.map(relationship => [relationship, [id]])),
+    verificationMethod: [{ id, type: 'JsonWebKey2020', controller: did, publicKeyJwk }]
+  } as DidDocument;
+};
+
+// did:web:example.com:users:alice is served at https://example.com/users/alice/did.json, a bare
+// domain at /.well-known/did.json; ports are percent-encoded
+export const getDidWebUrl = (did: string): string => {
+  const [domain, ...path] = did.slice('did:web:'.length).split(':').map(decodeURIComponent);
+  if (!domain) {
+    throw new Error(`${did} names no domain`);
+  }
+  return path.length > 0 ? `https://${domain}/${path.join('/')}/did.json` : `https://${domain}/.well-known/did.json`;
+};
+
+const resolveDidWeb: DidMethodResolver = async (did, { fetch: fetchDocument }) => {
+  const url = getDidWebUrl(did);
+  const response = await fetchDocument(url, { headers: { Accept: 'application/did+json, application/did+ld+json, application/json' } });
+  if (!response.ok) {
+    throw new Error(`Fetching ${url} failed: HTTP ${response.status}`);
+  }
+  const document = await response.json() as DidDocument;
+  if (document.id !== did) {
+    throw new Error(`${url} describes ${document.id}, not ${did}`);
+  }
+  return document;
+};
+
+const PEER_PURPOSES: Record<string, VerificationRelationship[]> = {
+  V: ['authentication'],
+  A: ['assertionMethod'],
+  E: ['keyAgreement'],
+  I: ['capabilityInvocation'],
+  D: ['capabilityDelegation']
+};
+
+const PEER_SERVICE_ABBREVIATIONS: Record<string, string> = { t: 'type', s: 'serviceEndpoint', r: 'routingKeys', a: 'accept', dm: 'DIDCommMessaging' };
+
+const expandPeerService = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(expandPeerService);
+  if (typeof value === 'string') return PEER_SERVICE_ABBREVIATIONS[value] ?? value;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [PEER_SERVICE_ABBREVIATIONS[key] ?? key, expandPeerService(child)]));
+  }
+  return value;
+};
+
+// did:peer numalgo 0 wraps a single inception key like did:key; numalgo 2 lists purpose-prefixed
+// keys (named #key-1, #key-2, ...) and abbreviated services
+const resolveDidPeer: DidMethodResolver = async did => {
+  const numalgo = did.charAt('did:peer:'.length);
+  const rest = did.slice('did:peer:'.length + 1);
+
+  if (numalgo === '0') {
+    decodeMultibase(rest);
+    return multikeyDocument(did, [{ fragment: rest, publicKeyMultibase: rest, relationships: SIGNING_RELATIONSHIPS }]);
+  }
+  if (numalgo !== '2') {
+    throw new Error(`did:peer numalgo ${numalgo} is not supported`);
+  }
+
+  const elements = rest.split('.').filter(Boolean);
+  const keys = elements
+    .filter(element => PEER_PURPOSES[element.charAt(0)])
+    .map((element, index) => ({ fragment: `key-${index + 1}`, publicKeyMultibase: element.slice(1), relationships: PEER_PURPOSES[element.charAt(0)] }));
+  if (keys.length === 0) {
+    throw new Error(`${did} lists no keys`);
+  }
+  keys.forEach(key => decodeMultibase(key.publicKeyMultibase));
+
+  const services = elements
+    .filter(element => element.charAt(0) === 'S')
+    .map((element, index) => {
+      const service = expandPeerService(JSON.parse(utf8Decode(decodeBase64url(element.slice(1))))) as Omit<DidService, 'id'> & { id?: string };
+      return { ...service, id: service.id ?? (index === 0 ? '#service' : `#service-${index}`) } as DidService;
+    });
+  return { ...multikeyDocument(did, keys), ...(services.length > 0 && { service: services }) };
+};
+
+const BUILTIN_METHODS: Record<string, DidMethodResolver> = {
+  key: resolveDidKey,
+  jwk: resolveDidJwk,
+  web: resolveDidWeb,
+  peer: resolveDidPeer
+};
+
+const toAbsoluteId = (did: string, id: string) => id.startsWith('#') ? `${did}${id}` : id;
+
+// Documents may name their keys relative to the DID; make every key id absolute, as proof
+// libraries compare them with the verificationMethod of a proof
+const normalizeDocument = (document: DidDocument): DidDocument => {
+  const normalizeMethod = (method: DidVerificationMethod): DidVerificationMethod => ({
+    ...method,
+    id: toAbsoluteId(document.id, method.id),
+    controller: method.controller ?? document.id
+  });
+  const normalized: DidDocument = {
+    ...document,
+    ...(document.verificationMethod && { verificationMethod: document.verificationMethod.map(normalizeMethod) })
+  };
+  for (const relationship of VERIFICATION_RELATIONSHIPS) {
+    if (document[relationship]) {
+      normalized[relationship] = document[relationship]!.map(entry =>
+        typeof entry === 'string' ? toAbsoluteId(document.id, entry) : normalizeMethod(entry));
+    }
+  }
+  return normalized;
+};
+
+// Every key the document describes, whether listed in verificationMethod or embedded in a relationship
+export const getVerificationMethods = (document: DidDocument): DidVerificationMethod[] => [
+  ...(document.verificationMethod ?? []),
+  ...VERIFICATION_RELATIONSHIPS.flatMap(relationship =>
+    (document[relationship] ?? []).filter((entry): entry is DidVerificationMethod => typeof entry === 'object'))
+];
+
+// The id of the first key a relationship lists, such as the key a DID signs credentials with
+export const getRelationshipMethodId = (document: DidDocument, relationship: VerificationRelationship): string | undefined => {
+  const entry = document[relationship]?.[0];
+  return typeof entry === 'string' ? entry : entry?.id;
+};
+
+const isAuthorizedFor = (document: DidDocument, id: string, relationship: VerificationRelationship): boolean =>
+  (document[relationship] ?? []).some(entry => (typeof entry === 'string' ? entry : entry.id) === id);
+
+const JWK_CURVES: Record<string, KeyAlgorithm> = { Ed25519: 'Ed25519', 'P-256': 'P-256', 'P-384': 'P-384' };
+
+const toVerificationKey = (method: DidVerificationMethod): ResolvedVerificationKey => {
+  const base = { id: method.id, controller: method.controller };
+  if (method.publicKeyMultibase) {
+    return { ...base, ...decodeMulticodecPublicKey(method.publicKeyMultibase) };
+  }
+  if (method.publicKeyBase58 && method.type === 'Ed25519VerificationKey2018') {
+    return { ...base, algorithm: 'Ed25519', publicKeyBytes: decodeBase58btc(method.publicKeyBase58) };
+  }
+  const jwk = method.publicKeyJwk;
+  const algorithm = jwk?.crv ? JWK_CURVES[jwk.crv] : undefined;
+  if (jwk?.x && algorithm === 'Ed25519' && jwk.kty === 'OKP') {
+    return { ...base, algorithm, publicKeyBytes: decodeBase64url(jwk.x) };
+  }
+  if (jwk?.x && jwk.y && algorithm && jwk.kty === 'EC') {
+    return { ...base, algorithm, publicKeyBytes: concatBytes(new Uint8Array([0x04]), decodeBase64url(jwk.x), decodeBase64url(jwk.y)) };
+  }
+  throw new Error(`Verification method ${method.id} has no Ed25519, P-256 or P-384 public key`);
+};
+
+export const createDidResolver = (options: DidResolverOptions = {}): DidResolver => {
+  // Looked up on each call, so a fetch patched in after the resolver was made is still used
+  const fetchDocument = options.fetch ?? ((input: RequestInfo | URL, init?: RequestInit) => fetch(input, init));
+  const methods = { ...BUILTIN_METHODS, ...options.methods };
+  const cacheTtlMs = options.cacheTtlMs ?? DEFAULT_CACHE_TTL_MS;
+  const cache = new Map<string, { document: Promise<DidDocument>; expiresAt: number }>();
+
+  const resolve = (did: string): Promise<DidDocument> => {
+    const cached = cache.get(did);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.document;
+    }
+
+    const method = /^did:([a-z0-9]+):/.exec(did)?.[1];
+    const resolver = method ? methods[method] : undefined;
+    if (!resolver) {
+      return Promise.reject(new Error(`Cannot resolve ${did}: ${method ? `did:${method} is not supported` : 'not a DID'}`));
+    }
+    const document = resolver(did, { fetch: fetchDocument }).then(normalizeDocument);
+    cache.set(did, { document, expiresAt: Date.now() + cacheTtlMs });
+    // Failures are not remembered, so a DID can be retried once its host is reachable again
+    document.catch(() => cache.delete(did));
+    return document;
+  };
+
+  const resolveVerificationMethod = async (verificationMethod: string, proofPurpose: ProofPurpose): Promise<ResolvedVerificationKey> => {
+    const [did] = verificationMethod.split('#');
+    const document = await resolve(did);
+    const id = verificationMethod.includes('#') ? verificationMethod : getRelationshipMethodId(document, proofPurpose);
+    const method = getVerificationMethods(document).find(candidate => candidate.id === id);
+    if (!method) {
+      throw new Error(`Verification method ${id ?? verificationMethod} is not in the DID document of ${did}`);
+    }
+    if (!isAuthorizedFor(document, method.id, proofPurpose)) {
+      throw new Error(`Verification method ${method.id} is not authorized for ${proofPurpose} by ${did}`);
+    }
+    return toVerificationKey(method);
+  };
+
+  return { resolve, resolveVerificationMethod, clearCache: () => cache.clear() };
+};
+
+let didResolver = createDidResolver();
+
+// Swap the resolver the wallet uses, e.g. to add a DID method or answer did:web from fixtures
+export const setDidResolver = (resolver: DidResolver) => {
+  didResolver = resolver;
+};
+
+export const resolveDid = (did: string): Promise<DidDocument> => didResolver.resolve(did);
+
+export const resolveVerificationMethod = (verificationMethod: string, proofPurpose: ProofPurpose): Promise<ResolvedVerificationKey> =>
+  didResolver.resolveVerificationMethod(verificationMethod, proofPurpose);
+
+// The key a DID signs credentials with, for the verificationMethod of the proofs it makes
+export const getAssertionMethodId = async (did: string): Promise<string> => {
+  const id = getRelationshipMethodId(await resolveDid(did), 'assertionMethod');
+  if (!id) {
+    throw new Error(`${did} has no assertion method`);
+  }
+  return id;
+};
+
+const modPow = (base: bigint, exponent: bigint, modulus: bigint): bigint => {
+  let result = BigInt(1);
+  base %= modulus;
+  while (exponent > BigInt(0)) {
+    if (exponent & BigInt(1)) result = (result * base) % modulus;
+    base = (base * base) % modulus;
+    exponent >>= BigInt(1);
+  }
+  return result;
+};
+
+const bigintToBytes = (value: bigint, size: number): Uint8Array => {
+  const hex = value.toString(16).padStart(size * 2, '0');
+  return Uint8Array.from(hex.match(/.{2}/g) || [], byte => parseInt(byte, 16));
+};
+
+// WebCrypto only reliably imports uncompressed EC points, but did:key uses compressed ones
+const decompressPoint = (compressed: Uint8Array, curve: 'P-256' | 'P-384'): Uint8Array => {
+  const { p, b, size } = CURVE_PARAMETERS[curve];
+  if (compressed.length === size * 2 + 1 && compressed[0] === 0x04) {
+    return compressed;
+  }
+  if (compressed.length !== size + 1 || (compressed[0] !== 0x02 && compressed[0] !== 0x03)) {
+    throw new Error(`Invalid compressed ${curve} public key`);
+  }
+
+  const x = BigInt('0x' + Array.from(compressed.slice(1), byte => byte.toString(16).padStart(2, '0')).join(''));
+  const rhs = (((modPow(x, BigInt(3), p) - BigInt(3) * x + b) % p) + p) % p;
+  // Both curves have p = 3 (mod 4), so the square root is rhs^((p + 1) / 4)
+  let y = modPow(rhs, (p + BigInt(1)) / BigInt(4), p);
+  if ((y & BigInt(1)) !== BigInt(compressed[0] & 1)) {
+    y = p - y;
+  }
+
+  const uncompressed = new Uint8Array(size * 2 + 1);
+  uncompressed[0] = 0x04;
+  uncompressed.set(bigintToBytes(x, size), 1);
+  uncompressed.set(bigintToBytes(y, size), size + 1);
+  return uncompressed;
+};
+
+export const importVerificationKey = async (key: ResolvedVerificationKey): Promise<CryptoKey> => {
+  if (key.algorithm === 'Ed25519') {
+    return crypto.subtle.importKey('raw', key.publicKeyBytes, { name: 'Ed25519' }, true, ['verify']);
+  }
+  return crypto.subtle.importKey(
+    'raw',
+    decompressPoint(key.publicKeyBytes, key.algorithm),
+    { name: 'ECDSA', namedCurve: key.algorithm },
+    true,
+    ['verify']
+  );
+};
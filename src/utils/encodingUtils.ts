@@ -0,0 +1,89 @@
+// Byte encodings used by Data Integrity proofs, JWS and DID methods
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export const encodeBase58btc = (bytes: Uint8Array): string => {
+  // Count leading zero bytes, which base58 encodes as leading '1's
+  let zeros = 0;
+  while (zeros < bytes.length && bytes[zeros] === 0) zeros++;
+
+  const digits: number[] = [];
+  for (let i = zeros; i < bytes.length; i++) {
+    let carry = bytes[i];
+    for (let j = 0; j < digits.length; j++) {
+      carry += digits[j] << 8;
+      digits[j] = carry % 58;
+      carry = Math.floor(carry / 58);
+    }
+    while (carry > 0) {
+      digits.push(carry % 58);
+      carry = Math.floor(carry / 58);
+    }
+  }
+
+  return '1'.repeat(zeros) + digits.reverse().map(d => BASE58_ALPHABET[d]).join('');
+};
+
+export const decodeBase58btc = (encoded: string): Uint8Array => {
+  let zeros = 0;
+  while (zeros < encoded.length && encoded[zeros] === '1') zeros++;
+
+  const bytes: number[] = [];
+  for (let i = zeros; i < encoded.length; i++) {
+    let carry = BASE58_ALPHABET.indexOf(encoded[i]);
+    if (carry < 0) {
+      throw new Error(`Invalid base58 character: ${encoded[i]}`);
+    }
+    for (let j = 0; j < bytes.length; j++) {
+      carry += bytes[j] * 58;
+      bytes[j] = carry & 0xff;
+      carry >>= 8;
+    }
+    while (carry > 0) {
+      bytes.push(carry & 0xff);
+      carry >>= 8;
+    }
+  }
+
+  const result = new Uint8Array(zeros + bytes.length);
+  result.set(bytes.reverse(), zeros);
+  return result;
+};
+
+export const encodeBase64url = (bytes: Uint8Array): string => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+export const decodeBase64url = (encoded: string): Uint8Array => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const padded = base64 + '='.repeat((4 - (base64.length % 4)) % 4);
+  const binary = atob(padded);
+  return Uint8Array.from(binary, c => c.charCodeAt(0));
+};
+
+// Multibase values carry a one-character prefix naming the base
+export const decodeMultibase = (value: string): Uint8Array => {
+  const prefix = value[0];
+  const body = value.slice(1);
+  if (prefix === 'z') return decodeBase58btc(body);
+  if (prefix === 'u') return decodeBase64url(body);
+  throw new Error(`Unsupported multibase prefix: ${prefix}`);
+};
+
+export const encodeMultibaseBase58btc = (bytes: Uint8Array): string => 'z' + encodeBase58btc(bytes);
+
+export const concatBytes = (...parts: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+};
+
+export const utf8Encode = (value: string): Uint8Array => new TextEncoder().encode(value);
+
+export const utf8Decode = (bytes: Uint8Array): string => new TextDecoder().decode(bytes);
@@ -0,0 +1,44 @@
+import { decodeBase64url, encodeBase64url, utf8Decode, utf8Encode } from '@/utils/encodingUtils';
+
+// AES-GCM ciphertext (including its authentication tag) with the IV it was sealed under
+export interface EncryptedPayload {
+  iv: string;
+  ciphertext: string;
+}
+
+// OWASP's current recommendation for PBKDF2-HMAC-SHA256
+export const DEFAULT_PBKDF2_ITERATIONS = 600_000;
+
+export const generateSalt = (): Uint8Array => crypto.getRandomValues(new Uint8Array(16));
+
+// Derive a non-extractable AES-256-GCM key from a passphrase with PBKDF2-SHA-256
+export const deriveKeyFromPassphrase = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number = DEFAULT_PBKDF2_ITERATIONS
+): Promise<CryptoKey> => {
+  const baseKey = await crypto.subtle.importKey('raw', utf8Encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    baseKey,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptJson = async (key: CryptoKey, value: unknown): Promise<EncryptedPayload> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, utf8Encode(JSON.stringify(value)));
+  return { iv: encodeBase64url(iv), ciphertext: encodeBase64url(new Uint8Array(ciphertext)) };
+};
+
+// Throws if the key is wrong or the payload was modified (AES-GCM authentication fails)
+export const decryptJson = async <T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> => {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: decodeBase64url(payload.iv) },
+    key,
+    decodeBase64url(payload.ciphertext)
+  );
+  return JSON.parse(utf8Decode(new Uint8Array(plaintext))) as T;
+};
@@ -0,0 +1,39 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { initializeVault, lockVault, readVaultSecret, unlockVault, writeVaultSecret } from '@/utils/credentialRepository';
+import { forgetHolderKey, getHolderKey } from '@/utils/holderKeyUtils';
+
+const PASSPHRASE = 'test passphrase';
+const UNREADABLE_KEY = { publicKeyJwk: { kty: 'OKP', crv: 'Ed25519' }, privateKeyJwk: { kty: 'OKP', crv: 'Ed25519' } };
+
+describe('holder key', () => {
+  beforeAll(async () => {
+    await initializeVault(PASSPHRASE);
+  });
+
+  it('reports a legacy key it cannot import instead of replacing it', async () => {
+    localStorage.setItem('wallet-holder-key', JSON.stringify(UNREADABLE_KEY));
+
+    await expect(getHolderKey()).rejects.toMatchObject({ code: 'HOLDER_KEY_UNREADABLE' });
+    expect(await readVaultSecret('holder-key')).toBeUndefined();
+    expect(localStorage.getItem('wallet-holder-key')).not.toBeNull();
+    localStorage.removeItem('wallet-holder-key');
+  });
+
+  it('keeps the same key across locking the wallet', async () => {
+    const { did } = await getHolderKey();
+
+    lockVault();
+    forgetHolderKey();
+    await expect(getHolderKey()).rejects.toMatchObject({ code: 'WALLET_LOCKED' });
+    await unlockVault(PASSPHRASE);
+    expect((await getHolderKey()).did).toBe(did);
+  });
+
+  it('reports a stored key it cannot import instead of replacing it', async () => {
+    await writeVaultSecret('holder-key', UNREADABLE_KEY);
+    forgetHolderKey();
+
+    await expect(getHolderKey()).rejects.toMatchObject({ code: 'HOLDER_KEY_UNREADABLE' });
+    expect(await readVaultSecret('holder-key')).toEqual(UNREADABLE_KEY);
+  });
+});
@@ -0,0 +1,118 @@
+import { SigningKey } from '@/utils/proofUtils';
+import { concatBytes, encodeMultibaseBase58btc } from '@/utils/encodingUtils';
+import { getAssertionMethodId } from '@/utils/didUtils';
+import { CredentialError } from '@/utils/credentialUtils';
+import { isVaultUnlocked, readVaultSecret, writeVaultSecret } from '@/utils/credentialRepository';
+
+// The private key is sealed in the vault with the wallet key
+const HOLDER_KEY_SECRET = 'holder-key';
+
+// Earlier versions kept the key pair in plaintext under this localStorage key
+const LEGACY_HOLDER_KEY_STORAGE_KEY = 'wallet-holder-key';
+
+export interface HolderKey extends SigningKey {
+  did: string;
+  publicKey: CryptoKey;
+}
+
+interface StoredHolderKey {
+  publicKeyJwk: JsonWebKey;
+  privateKeyJwk: JsonWebKey;
+}
+
+// did:key for an Ed25519 public key: multibase(base58btc, 0xed01 || raw key)
+export const ed25519PublicKeyToDidKey = async (publicKey: CryptoKey): Promise<string> => {
+  const rawPublicKey = new Uint8Array(await crypto.subtle.exportKey('raw', publicKey));
+  return 'did:key:' + encodeMultibaseBase58btc(concatBytes(new Uint8Array([0xed, 0x01]), rawPublicKey));
+};
+
+const toHolderKey = async (publicKey: CryptoKey, privateKey: CryptoKey): Promise<HolderKey> => {
+  const did = await ed25519PublicKeyToDidKey(publicKey);
+  return {
+    did,
+    verificationMethod: await getAssertionMethodId(did),
+    algorithm: 'Ed25519',
+    publicKey,
+    privateKey
+  };
+};
+
+const importHolderKey = async ({ publicKeyJwk, privateKeyJwk }: StoredHolderKey): Promise<HolderKey> => {
+  const [publicKey, privateKey] = await Promise.all([
+    crypto.subtle.importKey('jwk', publicKeyJwk, { name: 'Ed25519' }, true, ['verify']),
+    crypto.subtle.importKey('jwk', privateKeyJwk, { name: 'Ed25519' }, true, ['sign'])
+  ]);
+  return toHolderKey(publicKey, privateKey);
+};
+
+// A key that exists but cannot be imported is reported rather than replaced: a new key would be a new
+// holder DID, cutting the wallet off from every credential bound to the old one
+const importExistingHolderKey = async (stored: StoredHolderKey, source: string): Promise<HolderKey> => {
+  try {
+    return await importHolderKey(stored);
+  } catch (error) {
+    console.error(`Failed to import the ${source}:`, error);
+    throw new CredentialError(
+      `The ${source} could not be imported: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      'HOLDER_KEY_UNREADABLE'
+    );
+  }
+};
+
+// Move a plaintext key from localStorage into the vault, so the holder DID survives the upgrade
+const migrateLegacyHolderKey = async (): Promise<HolderKey | undefined> => {
+  const legacy = localStorage.getItem(LEGACY_HOLDER_KEY_STORAGE_KEY);
+  if (!legacy) return undefined;
+
+  let stored: StoredHolderKey;
+  try {
+    stored = JSON.parse(legacy) as StoredHolderKey;
+  } catch {
+    throw new CredentialError('The legacy holder key is not valid JSON', 'HOLDER_KEY_UNREADABLE');
+  }
+  const holderKey = await importExistingHolderKey(stored, 'legacy holder key');
+  await writeVaultSecret(HOLDER_KEY_SECRET, stored);
+  localStorage.removeItem(LEGACY_HOLDER_KEY_STORAGE_KEY);
+  return holderKey;
+};
+
+const loadStoredHolderKey = async (): Promise<HolderKey | undefined> => {
+  const stored = await readVaultSecret<StoredHolderKey>(HOLDER_KEY_SECRET);
+  return stored ? importExistingHolderKey(stored, 'stored holder key') : migrateLegacyHolderKey();
+};
+
+let holderKeyPromise: Promise<HolderKey> | null = null;
+
+// Load the wallet's Ed25519 holder key from the vault, generating and sealing one on first use.
+// The key is only available while the vault is unlocked, and a key that cannot be imported is an error.
+export const getHolderKey = (): Promise<HolderKey> => {
+  if (!isVaultUnlocked()) {
+    holderKeyPromise = null;
+    return Promise.reject(new CredentialError('Wallet is locked', 'WALLET_LOCKED'));
+  }
+  if (!holderKeyPromise) {
+    holderKeyPromise = (async () => {
+      const existing = await loadStoredHolderKey();
+      if (existing) return existing;
+
+      const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+      const stored: StoredHolderKey = {
+        publicKeyJwk: await crypto.subtle.exportKey('jwk', keyPair.publicKey),
+        privateKeyJwk: await crypto.subtle.exportKey('jwk', keyPair.privateKey)
+      };
+      await writeVaultSecret(HOLDER_KEY_SECRET, stored);
+
+      return toHolderKey(keyPair.publicKey, keyPair.privateKey);
+    })();
+    // Allow a retry if key generation fails (e.g. Ed25519 unsupported in this browser)
+    holderKeyPromise.catch(() => {
+      holderKeyPromise = null;
+    });
+  }
+  return holderKeyPromise;
+};
+
+// Drop the in-memory key when the vault locks
+export const forgetHolderKey = () => {
+  holderKeyPromise = null;
+};
@@ -0,0 +1,112 @@
+import { VerifiableCredential, IssuerName } from '@/types/credential';
+import { DidDocument, resolveDid } from '@/utils/didUtils';
+import { decodeJwtCredential } from '@/utils/jwtUtils';
+import { verifyCredentialProof } from '@/utils/proofUtils';
+
+type Issuer = VerifiableCredential['issuer'];
+
+const DID_CONFIGURATION_PATH = '/.well-known/did-configuration.json';
+
+export const getIssuerId = (issuer: Issuer): string => typeof issuer === 'string' ? issuer : issuer.id;
+
+// Issuer names are plain strings or language-tagged values
+const readIssuerName = (issuer: Issuer): string | undefined => {
+  if (typeof issuer === 'string') return undefined;
+  const names = (Array.isArray(issuer.name) ? issuer.name : [issuer.name]) as unknown[];
+  for (const name of names) {
+    if (typeof name === 'string' && name.trim()) return name;
+    if (name && typeof name === 'object' && typeof (name as { '@value'?: unknown })['@value'] === 'string') {
+      return (name as { '@value': string })['@value'];
+    }
+  }
+  return undefined;
+};
+
+// did:web:example.com%3A8443:users:alice reads as example.com:8443/users/alice
+const formatDidWeb = (did: string): string =>
+  did.slice('did:web:'.length).split(':').map(decodeURIComponent).join('/');
+
+// Long DIDs keep their method and the ends of their identifier
+const shortenDid = (did: string): string => {
+  const prefix = did.slice(0, did.indexOf(':', 'did:'.length) + 1);
+  const identifier = did.slice(prefix.length);
+  return identifier.length > 20 ? `${prefix}${identifier.slice(0, 8)}…${identifier.slice(-6)}` : did;
+};
+
+// What the wallet can name an issuer without any network access
+export const getIssuerName = (issuer: Issuer): IssuerName => {
+  const name = readIssuerName(issuer);
+  if (name) return { name, source: 'credential' };
+
+  const id = getIssuerId(issuer);
+  if (id.startsWith('did:web:')) return { name: formatDidWeb(id), source: 'did-web' };
+  if (id.startsWith('did:')) return { name: shortenDid(id), source: 'did' };
+  return { name: id.replace(/^https?:\/\//, '').replace(/^www\./, ''), source: 'url' };
+};
+
+// LinkedDomains endpoints are an origin, a list of them, or an object listing them
+const getLinkedDomainOrigins = (document: DidDocument): string[] =>
+  (document.service ?? [])
+    .filter(service => (Array.isArray(service.type) ? service.type : [service.type]).includes('LinkedDomains'))
+    .flatMap(service => {
+      const endpoint = service.serviceEndpoint as string | string[] | { origins?: string[] };
+      return typeof endpoint === 'string' ? [endpoint] : Array.isArray(endpoint) ? endpoint : endpoint?.origins ?? [];
+    })
+    .flatMap(endpoint => {
+      try {
+        return [new URL(endpoint).origin];
+      } catch {
+        return [];
+      }
+    });
+
+// A domain is linked to a DID when its DID Configuration holds a Domain Linkage Credential the DID
+// issued to itself for that origin, as JSON-LD or as a JWT
+export const verifyLinkedDomain = async (did: string, origin: string, fetchConfiguration: typeof fetch = fetch): Promise<boolean> => {
+  let linkedDids: unknown[];
+  try {
+    const response = await fetchConfiguration(`${origin}${DID_CONFIGURATION_PATH}`, { headers: { Accept: 'application/json' } });
+    if (!response.ok) return false;
+    linkedDids = ((await response.json()) as { linked_dids?: unknown[] }).linked_dids ?? [];
+  } catch (error) {
+    console.warn(`Could not fetch the DID Configuration of ${origin}:`, error);
+    return false;
+  }
+
+  for (const entry of linkedDids) {
+    try {
+      const credential = typeof entry === 'string' ? await decodeJwtCredential(entry) : entry as VerifiableCredential;
+      const subject = credential.credentialSubject as { id?: string; origin?: string };
+      const matches = credential.type?.includes('DomainLinkageCredential') &&
+        getIssuerId(credential.issuer) === did &&
+        subject.id === did &&
+        typeof subject.origin === 'string' &&
+        new URL(subject.origin).origin === origin;
+      if (matches && (await verifyCredentialProof(credential)).status === 'verified') {
+        return true;
+      }
+    } catch (error) {
+      console.warn(`Skipping an unreadable Domain Linkage Credential from ${origin}:`, error);
+    }
+  }
+  return false;
+};
+
+// Name an issuer by the first domain its DID document links to that confirms the link, falling back
+// to what the credential itself says
+export const resolveIssuerName = async (issuer: Issuer): Promise<IssuerName> => {
+  const fallback = getIssuerName(issuer);
+  const id = getIssuerId(issuer);
+  if (fallback.source !== 'did') return fallback;
+
+  try {
+    for (const origin of getLinkedDomainOrigins(await resolveDid(id))) {
+      if (await verifyLinkedDomain(id, origin)) {
+        return { name: new URL(origin).host, source: 'linked-domain' };
+      }
+    }
+  } catch (error) {
+    console.warn(`Could not resolve issuer ${id}:`, error);
+  }
+  return fallback;
+};
@@ -0,0 +1,234 @@
+import { VerifiableCredential, CredentialEnvelope, ParsedSdJwt, SdJwtDisclosure } from '@/types/credential';
+import { CREDENTIALS_V2_CONTEXT } from '@/utils/contextUtils';
+import { KeyAlgorithm } from '@/utils/didUtils';
+import { decodeBase64url, encodeBase64url, utf8Decode, utf8Encode } from '@/utils/encodingUtils';
+
+export type CredentialEncoding = 'json' | 'jwt' | 'sd-jwt';
+
+export interface DecodedJws {
+  header: Record<string, unknown>;
+  payload: Record<string, unknown>;
+  signingInput: Uint8Array;
+  signature: Uint8Array;
+}
+
+const COMPACT_JWS_PATTERN = /^[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+$/;
+
+// JOSE algorithms we can verify with WebCrypto, by the did:key algorithm they require
+export const JWS_KEY_ALGORITHMS: Record<string, KeyAlgorithm> = {
+  EdDSA: 'Ed25519',
+  Ed25519: 'Ed25519',
+  ES256: 'P-256',
+  ES384: 'P-384'
+};
+
+// Registered JWT claims that describe the credential rather than its subject
+const REGISTERED_CLAIMS = ['iss', 'sub', 'jti', 'iat', 'nbf', 'exp', 'aud', 'cnf', 'vct', 'status', '_sd_alg'];
+
+export const detectCredentialEncoding = (input: string): CredentialEncoding | null => {
+  const value = input.trim();
+  if (value.startsWith('{') || value.startsWith('[')) return 'json';
+  if (value.includes('~') && COMPACT_JWS_PATTERN.test(value.split('~')[0])) return 'sd-jwt';
+  if (COMPACT_JWS_PATTERN.test(value)) return 'jwt';
+  return null;
+};
+
+const decodeJsonSegment = (segment: string, label: string): Record<string, unknown> => {
+  let value: unknown;
+  try {
+    value = JSON.parse(utf8Decode(decodeBase64url(segment)));
+  } catch {
+    throw new Error(`JWT ${label} is not base64url-encoded JSON`);
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`JWT ${label} must be a JSON object`);
+  }
+  return value as Record<string, unknown>;
+};
+
+export const decodeJws = (jws: string): DecodedJws => {
+  if (!COMPACT_JWS_PATTERN.test(jws)) {
+    throw new Error('Expected a compact JWS with a header, payload and signature');
+  }
+
+  const [encodedHeader, encodedPayload, encodedSignature] = jws.split('.');
+  return {
+    header: decodeJsonSegment(encodedHeader, 'header'),
+    payload: decodeJsonSegment(encodedPayload, 'payload'),
+    signingInput: utf8Encode(`${encodedHeader}.${encodedPayload}`),
+    signature: decodeBase64url(encodedSignature)
+  };
+};
+
+// Header and claims of a JWT whose signature is checked elsewhere or absent (an unsecured "alg": "none" JWT)
+export const decodeJwtClaims = (jwt: string): Pick<DecodedJws, 'header' | 'payload'> => {
+  const [encodedHeader, encodedPayload, signature, ...rest] = jwt.split('.');
+  if (encodedPayload === undefined || signature === undefined || rest.length > 0) {
+    throw new Error('Expected a JWT with a header, payload and (possibly empty) signature');
+  }
+  return { header: decodeJsonSegment(encodedHeader, 'header'), payload: decodeJsonSegment(encodedPayload, 'payload') };
+};
+
+const sha256Base64url = async (value: string): Promise<string> =>
+  encodeBase64url(new Uint8Array(await crypto.subtle.digest('SHA-256', utf8Encode(value))));
+
+// <issuer JWT>~<disclosure>~...~[<key binding JWT>]
+export const parseSdJwt = async (compact: string): Promise<ParsedSdJwt> => {
+  const [issuerJwt, ...segments] = compact.trim().split('~');
+  const { header, payload } = decodeJws(issuerJwt);
+
+  const hashAlgorithm = payload._sd_alg ?? 'sha-256';
+  if (hashAlgorithm !== 'sha-256') {
+    throw new Error(`Unsupported SD-JWT hash algorithm ${String(hashAlgorithm)}`);
+  }
+
+  // The last segment is empty, or a key binding JWT that only matters to a presentation
+  const disclosures = await Promise.all(segments.slice(0, -1).filter(Boolean).map(async (encoded): Promise<SdJwtDisclosure> => {
+    let parts: unknown;
+    try {
+      parts = JSON.parse(utf8Decode(decodeBase64url(encoded)));
+    } catch {
+      throw new Error('SD-JWT disclosure is not base64url-encoded JSON');
+    }
+    if (!Array.isArray(parts) || (parts.length !== 2 && parts.length !== 3)) {
+      throw new Error('SD-JWT disclosure must be an array of salt, optional name and value');
+    }
+
+    const digest = await sha256Base64url(encoded);
+    return parts.length === 3
+      ? { digest, encoded, name: String(parts[1]), value: parts[2] }
+      : { digest, encoded, value: parts[1] };
+  }));
+
+  return { issuerJwt, header, payload, disclosures };
+};
+
+const isArrayElementDigest = (value: unknown): value is { '...': string } =>
+  !!value && typeof value === 'object' && !Array.isArray(value) &&
+  Object.keys(value).length === 1 && typeof (value as Record<string, unknown>)['...'] === 'string';
+
+// Rebuild the issuer's claims revealing only the given disclosures; undisclosed digests are dropped
+export const reconstructSdJwtClaims = (
+  payload: Record<string, unknown>,
+  disclosures: SdJwtDisclosure[]
+): Record<string, unknown> => {
+  const disclosuresByDigest = new Map(disclosures.map(disclosure => [disclosure.digest, disclosure]));
+  const referenced = new Set<string>();
+
+  const reveal = (value: unknown): unknown => {
+    if (Array.isArray(value)) {
+      return value.flatMap(item => {
+        if (!isArrayElementDigest(item)) return [reveal(item)];
+
+        const disclosure = disclosuresByDigest.get(item['...']);
+        if (!disclosure || disclosure.name !== undefined) return [];
+        referenced.add(disclosure.digest);
+        return [reveal(disclosure.value)];
+      });
+    }
+
+    if (value && typeof value === 'object') {
+      const object = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      for (const [key, child] of Object.entries(object)) {
+        if (key !== '_sd' && key !== '_sd_alg') {
+          result[key] = reveal(child);
+        }
+      }
+
+      for (const digest of Array.isArray(object._sd) ? object._sd : []) {
+        const disclosure = disclosuresByDigest.get(digest);
+        if (!disclosure || disclosure.name === undefined) continue;
+        if (disclosure.name in result) {
+          throw new Error(`Disclosure for ${disclosure.name} overwrites a claim of the signed payload`);
+        }
+        referenced.add(digest);
+        result[disclosure.name] = reveal(disclosure.value);
+      }
+      return result;
+    }
+
+    return value;
+  };
+
+  const claims = reveal(payload) as Record<string, unknown>;
+
+  const unreferenced = disclosures.find(disclosure => !referenced.has(disclosure.digest));
+  if (unreferenced) {
+    throw new Error(`Disclosure ${unreferenced.name ?? unreferenced.digest} is not referenced by the signed payload`);
+  }
+  return claims;
+};
+
+const fromNumericDate = (value: unknown): string | undefined =>
+  typeof value === 'number' ? new Date(value * 1000).toISOString() : undefined;
+
+// Map JWT claims onto the credential data model:
+// - VC-JOSE-COSE (vc+jwt): the payload is the credential itself
+// - VC-JWT 1.1: the credential is in the vc claim, with registered claims standing in for some properties
+// - SD-JWT VC: plain claims typed by vct, expressed as a VCDM 2.0 credential
+const credentialFromClaims = async (claims: Record<string, unknown>, issuerJwt: string): Promise<VerifiableCredential> => {
+  if (claims['@context']) {
+    return claims as unknown as VerifiableCredential;
+  }
+
+  if (claims.vc && typeof claims.vc === 'object') {
+    const credential = { ...(claims.vc as Record<string, unknown>) } as unknown as VerifiableCredential;
+    if (!credential.issuer && typeof claims.iss === 'string') credential.issuer = claims.iss;
+    if (!credential.id && typeof claims.jti === 'string') credential.id = claims.jti;
+    if (!credential.issuanceDate) credential.issuanceDate = fromNumericDate(claims.nbf) ?? fromNumericDate(claims.iat);
+    if (!credential.expirationDate && claims.exp !== undefined) credential.expirationDate = fromNumericDate(claims.exp);
+    if (typeof claims.sub === 'string' && credential.credentialSubject && !credential.credentialSubject.id) {
+      credential.credentialSubject = { id: claims.sub, ...credential.credentialSubject };
+    }
+    return credential;
+  }
+
+  const subjectClaims = Object.fromEntries(
+    Object.entries(claims).filter(([key]) => !REGISTERED_CLAIMS.includes(key))
+  );
+  const validFrom = fromNumericDate(claims.nbf) ?? fromNumericDate(claims.iat);
+  const validUntil = fromNumericDate(claims.exp);
+
+  return {
+    '@context': [CREDENTIALS_V2_CONTEXT],
+    // SD-JWT VCs rarely carry a jti, so fall back to an identifier derived from the issuer-signed JWT
+    id: typeof claims.jti === 'string' ? claims.jti : `urn:sd-jwt:${await sha256Base64url(issuerJwt)}`,
+    type: ['VerifiableCredential', ...(typeof claims.vct === 'string' ? [claims.vct] : [])],
+    issuer: claims.iss as string,
+    ...(validFrom && { validFrom }),
+    ...(validUntil && { validUntil }),
+    credentialSubject: {
+      ...(typeof claims.sub === 'string' && { id: claims.sub }),
+      ...subjectClaims
+    }
+  };
+};
+
+export const decodeJwtCredential = async (jwt: string): Promise<VerifiableCredential> => {
+  const { payload } = decodeJws(jwt);
+  const credential = await credentialFromClaims(payload, jwt);
+  return { ...credential, envelope: { format: 'vc+jwt', value: jwt } };
+};
+
+// Decode an SD-JWT VC keeping only the selected disclosures, both in the claims and in the stored envelope
+export const decodeSdJwtCredential = async (
+  sdJwt: ParsedSdJwt,
+  selectedDisclosures: SdJwtDisclosure[]
+): Promise<VerifiableCredential> => {
+  const claims = reconstructSdJwtClaims(sdJwt.payload, selectedDisclosures);
+  const credential = await credentialFromClaims(claims, sdJwt.issuerJwt);
+  const value = [sdJwt.issuerJwt, ...selectedDisclosures.map(disclosure => disclosure.encoded), ''].join('~');
+  return { ...credential, envelope: { format: 'vc+sd-jwt', value } };
+};
+
+export const decodeCredentialEnvelope = async (envelope: CredentialEnvelope): Promise<VerifiableCredential> => {
+  if (envelope.format === 'vc+jwt') {
+    return decodeJwtCredential(envelope.value);
+  }
+  const sdJwt = await parseSdJwt(envelope.value);
+  return decodeSdJwtCredential(sdJwt, sdJwt.disclosures);
+};
+
+export const getIssuerJwt = (envelope: CredentialEnvelope): string =>
+  envelope.format === 'vc+sd-jwt' ? envelope.value.split('~')[0] : envelope.value;
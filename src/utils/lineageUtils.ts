@@ -0,0 +1,131 @@
+import {
+  VerifiableCredential,
+  DerivationReceipt,
+  StatusCheckResult,
+  StaleReason,
+  SourceDependency,
+  DependencyGraph,
+  LineageNode
+} from '@/types/credential';
+import { commitToCredential, getValidityPeriod } from '@/utils/credentialUtils';
+
+// Canonicalizing a credential is slow, so each credential object is committed to once; a credential
+// that cannot be canonicalized (e.g. its context is unreachable) has no commitment
+const commitments = new WeakMap<VerifiableCredential, Promise<string | undefined>>();
+
+const getCommitment = (credential: VerifiableCredential): Promise<string | undefined> => {
+  let commitment = commitments.get(credential);
+  if (!commitment) {
+    commitment = commitToCredential(credential).catch(error => {
+      console.warn(`Cannot commit to credential ${credential.id}:`, error);
+      return undefined;
+    });
+    commitments.set(credential, commitment);
+  }
+  return commitment;
+};
+
+const isDerived = (credential: VerifiableCredential) => credential.type.includes('Derived');
+
+// Why a source present in the wallet no longer backs what was derived from it, if it does not
+const getSourceStaleness = async (
+  source: VerifiableCredential,
+  expectedCommitment: string | undefined,
+  status: StatusCheckResult | undefined
+): Promise<StaleReason | undefined> => {
+  if (status?.state === 'revoked' || status?.state === 'suspended') return status.state;
+  const { validUntil } = getValidityPeriod(source);
+  if (validUntil && new Date(validUntil) < new Date()) return 'expired';
+  if (expectedCommitment) {
+    const commitment = await getCommitment(source);
+    if (commitment && commitment !== expectedCommitment) return 'replaced';
+  }
+  return undefined;
+};
+
+// The sources a derived credential names (or, for a predicate proof, commits to) and their staleness
+const getDirectSources = async (
+  derived: VerifiableCredential,
+  byId: Map<string, VerifiableCredential>,
+  statusResults: Record<string, StatusCheckResult>,
+  byCommitment: () => Promise<Map<string, VerifiableCredential>>
+): Promise<SourceDependency[]> => {
+  const subject = derived.credentialSubject;
+
+  // Predicate proofs only carry commitments: a source that no longer matches one is deleted or replaced
+  if (subject.type === 'PredicateProof') {
+    const committed = await byCommitment();
+    return Promise.all(((subject.sourceCommitments as string[] | undefined) || []).map(async commitment => {
+      const source = committed.get(commitment);
+      return source
+        ? { id: source.id, stale: await getSourceStaleness(source, undefined, statusResults[source.id]) }
+        : { id: commitment, stale: 'deleted' as const };
+    }));
+  }
+
+  const receipt = subject.derivationReceipt as DerivationReceipt | undefined;
+  const sourceIds = Array.isArray(subject.derivedFrom)
+    ? subject.derivedFrom as string[]
+    : receipt?.sourceCredentials || [];
+  return Promise.all(sourceIds.map(async id => {
+    const source = byId.get(id);
+    if (!source) return { id, stale: 'deleted' as const };
+    const index = receipt?.sourceCredentials.indexOf(id) ?? -1;
+    return { id, stale: await getSourceStaleness(source, index >= 0 ? receipt?.sourceCommitments?.[index] : undefined, statusResults[id]) };
+  }));
+};
+
+// Link every derived credential in the wallet to its sources; deleting, replacing, revoking or
+// suspending a source, or its expiry, makes what was derived from it (transitively) stale
+export const buildDependencyGraph = async (
+  credentials: VerifiableCredential[],
+  statusResults: Record<string, StatusCheckResult> = {}
+): Promise<DependencyGraph> => {
+  const byId = new Map(credentials.map(credential => [credential.id, credential]));
+  let committed: Promise<Map<string, VerifiableCredential>> | undefined;
+  const byCommitment = () => {
+    committed ??= Promise.all(credentials.map(async credential => [await getCommitment(credential), credential] as const))
+      .then(entries => new Map(entries.filter((entry): entry is [string, VerifiableCredential] => entry[0] !== undefined)));
+    return committed;
+  };
+
+  const sources: DependencyGraph['sources'] = {};
+  for (const credential of credentials.filter(isDerived)) {
+    sources[credential.id] = await getDirectSources(credential, byId, statusResults, byCommitment);
+  }
+
+  // A derived source that has gone stale makes its dependents stale too
+  for (let changed = true; changed;) {
+    changed = false;
+    for (const dependencies of Object.values(sources)) {
+      for (const dependency of dependencies) {
+        if (!dependency.stale && sources[dependency.id]?.some(source => source.stale)) {
+          dependency.stale = 'stale-source';
+          changed = true;
+        }
+      }
+    }
+  }
+
+  const dependents: DependencyGraph['dependents'] = {};
+  for (const [derivedId, dependencies] of Object.entries(sources)) {
+    for (const { id } of dependencies) {
+      dependents[id] = [...dependents[id] ?? [], derivedId];
+    }
+  }
+  return { sources, dependents };
+};
+
+export const getStaleSources = (id: string, graph: DependencyGraph): Array<Required<SourceDependency>> =>
+  (graph.sources[id] || []).filter((source): source is Required<SourceDependency> => source.stale !== undefined);
+
+// The sources of a credential, their sources and so on; a credential reached twice is only expanded once
+export const getLineageTree = (id: string, graph: DependencyGraph, stale?: StaleReason, expanded = new Set<string>()): LineageNode => {
+  if (expanded.has(id)) return { id, stale, sources: [] };
+  expanded.add(id);
+  return {
+    id,
+    stale,
+    sources: (graph.sources[id] || []).map(source => getLineageTree(source.id, graph, source.stale, expanded))
+  };
+};
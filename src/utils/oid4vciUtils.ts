@@ -0,0 +1,245 @@
+import {
+  CredentialOffer,
+  CredentialIssuerMetadata,
+  CredentialConfiguration,
+  ResolvedCredentialOffer
+} from '@/types/credential';
+import { CredentialError, ParsedCredentialInput, parseCredentialText } from '@/utils/credentialUtils';
+import { HolderKey, getHolderKey } from '@/utils/holderKeyUtils';
+import { getJwsAlgorithm, signCompactJws } from '@/utils/presentationUtils';
+
+export const PRE_AUTHORIZED_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:pre-authorized_code';
+
+const OFFER_SCHEME = 'openid-credential-offer:';
+
+interface TokenResponse {
+  access_token: string;
+  token_type?: string;
+  c_nonce?: string;
+}
+
+// Credential responses before OID4VCI 1.0 carry a single credential and may hand out the next nonce
+interface CredentialResponse {
+  credentials?: Array<{ credential: unknown }>;
+  credential?: unknown;
+  transaction_id?: string;
+  c_nonce?: string;
+}
+
+export const isCredentialOfferLink = (input: string): boolean =>
+  input.trim().toLowerCase().startsWith(OFFER_SCHEME);
+
+const describeError = (error: unknown): string => error instanceof Error ? error.message : String(error);
+
+// Call an issuer or authorization server endpoint, surfacing its OAuth error response if it fails
+const callEndpoint = async <T>(url: string, init: RequestInit, code: string): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, init);
+  } catch (error) {
+    throw new CredentialError(`Could not reach ${url}: ${describeError(error)}`, code);
+  }
+  const body = await response.json().catch(() => ({})) as Record<string, unknown>;
+  if (!response.ok) {
+    throw new CredentialError(`${url} failed: ${body.error_description ?? body.error ?? `HTTP ${response.status}`}`, code);
+  }
+  return body as T;
+};
+
+// Metadata lives under /.well-known/ inserted between the host and the identifier's path; some
+// issuers instead serve it appended to the identifier, so that is tried too
+const getWellKnownUrls = (identifier: string, suffix: string): string[] => {
+  const url = new URL(identifier);
+  const path = url.pathname.replace(/\/$/, '');
+  const inserted = `${url.origin}/.well-known/${suffix}${path}`;
+  const appended = `${url.origin}${path}/.well-known/${suffix}`;
+  return inserted === appended ? [inserted] : [inserted, appended];
+};
+
+const fetchWellKnown = async <T>(identifier: string, suffixes: string[], code: string): Promise<T> => {
+  const urls = suffixes.flatMap(suffix => getWellKnownUrls(identifier, suffix));
+  for (const url of urls) {
+    try {
+      const response = await fetch(url, { headers: { Accept: 'application/json' } });
+      if (response.ok) {
+        return await response.json() as T;
+      }
+    } catch (error) {
+      console.warn(`Could not fetch ${url}:`, error);
+    }
+  }
+  throw new CredentialError(`No metadata found for ${identifier} (tried ${urls.join(', ')})`, code);
+};
+
+// Read a credential offer passed by value (credential_offer) or by reference (credential_offer_uri)
+export const parseCredentialOffer = async (input: string): Promise<CredentialOffer> => {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    throw new CredentialError('Credential offer must be a URL such as openid-credential-offer://?credential_offer=...', 'INVALID_OFFER');
+  }
+
+  const byValue = url.searchParams.get('credential_offer');
+  const byReference = url.searchParams.get('credential_offer_uri');
+  let offer: CredentialOffer;
+  if (byValue) {
+    try {
+      offer = JSON.parse(byValue) as CredentialOffer;
+    } catch {
+      throw new CredentialError('credential_offer is not valid JSON', 'INVALID_OFFER');
+    }
+  } else if (byReference) {
+    offer = await callEndpoint<CredentialOffer>(byReference, { headers: { Accept: 'application/json' } }, 'INVALID_OFFER');
+  } else {
+    throw new CredentialError('Credential offer has neither credential_offer nor credential_offer_uri', 'INVALID_OFFER');
+  }
+
+  if (typeof offer.credential_issuer !== 'string' || !Array.isArray(offer.credential_configuration_ids) || offer.credential_configuration_ids.length === 0) {
+    throw new CredentialError('Credential offer must name its credential_issuer and credential_configuration_ids', 'INVALID_OFFER');
+  }
+  return offer;
+};
+
+// Resolve an offer and its issuer's metadata; only the pre-authorized code flow is supported, since
+// the wallet has no redirect URI for an authorization code flow
+export const resolveCredentialOffer = async (input: string): Promise<ResolvedCredentialOffer> => {
+  const offer = await parseCredentialOffer(input);
+  const grant = offer.grants?.[PRE_AUTHORIZED_CODE_GRANT];
+  if (!grant?.['pre-authorized_code']) {
+    throw new CredentialError('Only credential offers with a pre-authorized code are supported', 'UNSUPPORTED_OFFER');
+  }
+
+  const metadata = await fetchWellKnown<CredentialIssuerMetadata>(offer.credential_issuer, ['openid-credential-issuer'], 'ISSUER_METADATA_FAILED');
+  if (metadata.credential_issuer !== offer.credential_issuer || typeof metadata.credential_endpoint !== 'string') {
+    throw new CredentialError(`Metadata of ${offer.credential_issuer} does not describe that issuer's credential endpoint`, 'ISSUER_METADATA_FAILED');
+  }
+  const unknown = offer.credential_configuration_ids.filter(id => !metadata.credential_configurations_supported?.[id]);
+  if (unknown.length > 0) {
+    throw new CredentialError(`Issuer does not describe the offered credentials ${unknown.join(', ')}`, 'INVALID_OFFER');
+  }
+  return { offer, metadata, grant };
+};
+
+// The issuer's display name for an offered credential, falling back to its configuration id
+export const getOfferedCredentialName = (resolved: ResolvedCredentialOffer, configurationId: string): string =>
+  resolved.metadata.credential_configurations_supported[configurationId]?.display?.[0]?.name ?? configurationId;
+
+const requestAccessToken = async (resolved: ResolvedCredentialOffer, txCode?: string): Promise<TokenResponse> => {
+  const authorizationServer = resolved.metadata.authorization_servers?.[0] ?? resolved.offer.credential_issuer;
+  const { token_endpoint: tokenEndpoint } = await fetchWellKnown<{ token_endpoint?: string }>(
+    authorizationServer,
+    ['oauth-authorization-server', 'openid-configuration'],
+    'ISSUER_METADATA_FAILED'
+  );
+  if (!tokenEndpoint) {
+    throw new CredentialError(`Authorization server ${authorizationServer} has no token_endpoint`, 'ISSUER_METADATA_FAILED');
+  }
+
+  const token = await callEndpoint<TokenResponse>(tokenEndpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+    body: new URLSearchParams({
+      grant_type: PRE_AUTHORIZED_CODE_GRANT,
+      'pre-authorized_code': resolved.grant['pre-authorized_code'],
+      ...(txCode && { tx_code: txCode })
+    })
+  }, 'TOKEN_FAILED');
+  if (typeof token.access_token !== 'string') {
+    throw new CredentialError('Token response has no access_token', 'TOKEN_FAILED');
+  }
+  return token;
+};
+
+const requestNonce = async (metadata: CredentialIssuerMetadata): Promise<string | undefined> => {
+  if (!metadata.nonce_endpoint) return undefined;
+  const { c_nonce: nonce } = await callEndpoint<{ c_nonce?: string }>(metadata.nonce_endpoint, { method: 'POST' }, 'CREDENTIAL_REQUEST_FAILED');
+  return nonce;
+};
+
+// Proof of possession of the holder key, so the credential is bound to the wallet's DID
+const createProofJwt = async (issuer: string, nonce?: string): Promise<string> => {
+  const holderKey = await getHolderKey();
+  return signCompactJws(
+    { typ: 'openid4vci-proof+jwt', alg: getJwsAlgorithm(holderKey), kid: holderKey.verificationMethod },
+    { aud: issuer, iat: Math.floor(Date.now() / 1000), ...(nonce && { nonce }) },
+    holderKey
+  );
+};
+
+const usesJwtProof = (configuration: CredentialConfiguration, configurationId: string): boolean => {
+  if (!configuration.proof_types_supported) return false;
+  if (!configuration.proof_types_supported.jwt) {
+    throw new CredentialError(`${configurationId} needs a proof type other than jwt, which the wallet cannot make`, 'UNSUPPORTED_OFFER');
+  }
+  return true;
+};
+
+// Parse an issued credential: JSON-LD credentials arrive as objects, JWT and SD-JWT credentials as strings
+const readIssuedCredential = (value: unknown): Promise<ParsedCredentialInput> =>
+  parseCredentialText(typeof value === 'string' ? value : JSON.stringify(value));
+
+// Whether an issued credential is bound to the holder key the wallet proved possession of: a JSON-LD
+// or JWT credential must be about the holder DID, an SD-JWT must confirm the holder key in cnf
+const isBoundToHolder = async (input: ParsedCredentialInput, holderKey: HolderKey): Promise<boolean> => {
+  if (input.kind === 'credential') {
+    const subjects = Array.isArray(input.credential.credentialSubject) ? input.credential.credentialSubject : [input.credential.credentialSubject];
+    return subjects.some(subject => subject?.id === holderKey.did);
+  }
+  const { cnf, sub } = input.sdJwt.payload as { cnf?: { kid?: unknown; jwk?: JsonWebKey }; sub?: unknown };
+  if (typeof cnf?.kid === 'string') return cnf.kid.split('#')[0] === holderKey.did;
+  if (cnf?.jwk) {
+    const { kty, crv, x, y } = await crypto.subtle.exportKey('jwk', holderKey.publicKey);
+    return cnf.jwk.kty === kty && cnf.jwk.crv === crv && cnf.jwk.x === x && cnf.jwk.y === y;
+  }
+  return sub === holderKey.did;
+};
+
+// Run the pre-authorized code flow: exchange the code (and transaction code, if the offer asks for
+// one) for an access token, then request each offered credential with a proof of the holder key
+export const redeemCredentialOffer = async (resolved: ResolvedCredentialOffer, txCode?: string): Promise<ParsedCredentialInput[]> => {
+  if (resolved.grant.tx_code && !txCode?.trim()) {
+    throw new CredentialError('This offer needs the transaction code the issuer sent you', 'TX_CODE_REQUIRED');
+  }
+  const token = await requestAccessToken(resolved, txCode?.trim());
+  let nonce = token.c_nonce;
+
+  const results: ParsedCredentialInput[] = [];
+  for (const configurationId of resolved.offer.credential_configuration_ids) {
+    const configuration = resolved.metadata.credential_configurations_supported[configurationId];
+    let proofs: { jwt: string[] } | undefined;
+    if (usesJwtProof(configuration, configurationId)) {
+      nonce ??= await requestNonce(resolved.metadata);
+      proofs = { jwt: [await createProofJwt(resolved.offer.credential_issuer, nonce)] };
+      // Nonces are single use
+      nonce = undefined;
+    }
+
+    const response = await callEndpoint<CredentialResponse>(resolved.metadata.credential_endpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        Authorization: `${token.token_type ?? 'Bearer'} ${token.access_token}`
+      },
+      body: JSON.stringify({ credential_configuration_id: configurationId, ...(proofs && { proofs }) })
+    }, 'CREDENTIAL_REQUEST_FAILED');
+
+    if (response.transaction_id && !response.credentials && response.credential === undefined) {
+      throw new CredentialError(`${getOfferedCredentialName(resolved, configurationId)} will be issued later, which the wallet does not support`, 'DEFERRED_UNSUPPORTED');
+    }
+    const issued = response.credentials?.map(entry => entry.credential) ?? (response.credential !== undefined ? [response.credential] : []);
+    if (issued.length === 0) {
+      throw new CredentialError(`Issuer returned no ${getOfferedCredentialName(resolved, configurationId)}`, 'CREDENTIAL_REQUEST_FAILED');
+    }
+    for (const credential of issued) {
+      const input = await readIssuedCredential(credential);
+      if (proofs && !await isBoundToHolder(input, await getHolderKey())) {
+        throw new CredentialError(`Issuer bound the ${getOfferedCredentialName(resolved, configurationId)} to a key other than the wallet's`, 'UNBOUND_CREDENTIAL');
+      }
+      results.push(input);
+    }
+    nonce = response.c_nonce;
+  }
+  return results;
+};
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { ed25519PublicKeyToDidKey } from '@/utils/holderKeyUtils';
+import { parseAuthorizationRequest } from '@/utils/oid4vpUtils';
+import { signCompactJws } from '@/utils/presentationUtils';
+import { SigningKey } from '@/utils/proofUtils';
+
+const RESPONSE_URI = 'https://verifier.example/response';
+
+const DCQL_QUERY = {
+  credentials: [
+    { id: 'employee', format: 'ldp_vc', claims: [{ path: ['credentialSubject', 'jobTitle'] }] },
+    { id: 'pid', format: 'dc+sd-jwt', meta: { vct_values: ['urn:eudi:pid:1'] } }
+  ]
+};
+
+const createVerifierKey = async (): Promise<SigningKey & { did: string }> => {
+  const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  const did = await ed25519PublicKeyToDidKey(keyPair.publicKey);
+  return { did, verificationMethod: `${did}#${did.slice('did:key:'.length)}`, algorithm: 'Ed25519', privateKey: keyPair.privateKey };
+};
+
+const toRequestUrl = (parameters: Record<string, unknown>) => {
+  const url = new URL('openid4vp://');
+  for (const [name, value] of Object.entries(parameters)) {
+    url.searchParams.set(name, typeof value === 'string' ? value : JSON.stringify(value));
+  }
+  return url.toString();
+};
+
+const requestParameters = (clientId: string) => ({
+  client_id: clientId,
+  response_type: 'vp_token',
+  response_mode: 'direct_post',
+  response_uri: RESPONSE_URI,
+  nonce: 'nonce-123',
+  dcql_query: DCQL_QUERY
+});
+
+describe('parseAuthorizationRequest', () => {
+  it('authenticates a DID client by its signed request object', async () => {
+    const verifier = await createVerifierKey();
+    const clientId = `decentralized_identifier:${verifier.did}`;
+    const requestObject = await signCompactJws(
+      { typ: 'oauth-authz-req+jwt', alg: 'EdDSA', kid: verifier.verificationMethod },
+      requestParameters(clientId),
+      verifier
+    );
+
+    const request = await parseAuthorizationRequest(toRequestUrl({ client_id: clientId, request: requestObject }));
+    expect(request.clientId).toBe(clientId);
+    expect(request.clientAuthenticated).toBe(true);
+  });
+
+  it('rejects a DID client whose request is not a signed request object', async () => {
+    const { did } = await createVerifierKey();
+
+    await expect(parseAuthorizationRequest(toRequestUrl(requestParameters(`decentralized_identifier:${did}`))))
+      .rejects.toThrow('must be a request object signed by one of its keys');
+    await expect(parseAuthorizationRequest(toRequestUrl(requestParameters(did))))
+      .rejects.toThrow('must be a request object signed by one of its keys');
+  });
+
+  it('holds an unprefixed client to responses on its own host', async () => {
+    await expect(parseAuthorizationRequest(toRequestUrl(requestParameters('verifier.example')))).resolves.toMatchObject({
+      clientAuthenticated: false,
+      responseUri: RESPONSE_URI
+    });
+    await expect(parseAuthorizationRequest(toRequestUrl(requestParameters('https://verifier.example')))).resolves.toBeDefined();
+
+    await expect(parseAuthorizationRequest(toRequestUrl(requestParameters('https://trusted-bank.example'))))
+      .rejects.toThrow(`would send the user or the response to ${RESPONSE_URI}`);
+    await expect(parseAuthorizationRequest(toRequestUrl({
+      ...requestParameters('verifier.example'),
+      redirect_uri: 'https://attacker.example/continue'
+    }))).rejects.toThrow('https://attacker.example/continue');
+  });
+
+  it('reports DCQL credential queries in formats the wallet cannot present', async () => {
+    const request = await parseAuthorizationRequest(toRequestUrl(requestParameters(`redirect_uri:${RESPONSE_URI}`)));
+    expect(request.unsupportedQueries).toEqual([{ id: 'pid', format: 'dc+sd-jwt' }]);
+  });
+});
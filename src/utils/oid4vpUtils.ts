@@ -0,0 +1,438 @@
+import {
+  VerifiableCredential,
+  VerifiablePresentation,
+  CredentialVersion,
+  PresentationFormat,
+  PresentationDefinition,
+  PresentationSubmission,
+  DcqlQuery,
+  DcqlCredentialQuery,
+  DcqlClaimsQuery,
+  AuthorizationRequest,
+  AuthorizationRequestMatch
+} from '@/types/credential';
+import { CredentialError, getCredentialVersion, toJsonLdDocument } from '@/utils/credentialUtils';
+import { hasBbsBaseProof, deriveBbsDisclosure } from '@/utils/bbsUtils';
+import { ResolvedVerificationKey, resolveVerificationMethod, importVerificationKey } from '@/utils/didUtils';
+import { JWS_KEY_ALGORITHMS, decodeJws, decodeJwtClaims } from '@/utils/jwtUtils';
+import { getSignatureAlgorithm } from '@/utils/proofUtils';
+import {
+  ClaimFormat,
+  MatchContext,
+  getClaimFormat,
+  isPresentable,
+  isSubmissionSatisfied,
+  matchPresentationDefinition,
+  rankCredential
+} from '@/utils/presentationExchangeUtils';
+import { createPresentation, createPresentationJwt } from '@/utils/presentationUtils';
+
+// Client identifier prefixes: redirect_uri clients are only known by where responses go, DID clients
+// sign their requests with a key of the DID
+const REDIRECT_URI_PREFIX = 'redirect_uri:';
+const DID_PREFIX = 'decentralized_identifier:';
+// The other client identifier prefixes; the wallet cannot check these clients, but knows they are not unprefixed
+const CLIENT_ID_PREFIX_PATTERN = /^(redirect_uri|decentralized_identifier|x509_san_dns|x509_hash|verifier_attestation|openid_federation|origin):/;
+
+// The DCQL formats the wallet can present, by the claim format of its credentials
+const DCQL_FORMATS: Record<string, ClaimFormat> = {
+  ldp_vc: 'ldp_vc',
+  jwt_vc_json: 'jwt_vc_json'
+};
+
+export interface AuthorizationResponseResult {
+  // Where the verifier wants the user to continue, if anywhere
+  redirectUri?: string;
+}
+
+const fetchRequestResource = async (url: string, accept: string): Promise<Response> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers: { Accept: accept } });
+  } catch (error) {
+    throw new CredentialError(`Could not fetch ${url}: ${error instanceof Error ? error.message : error}`, 'REQUEST_FETCH_FAILED');
+  }
+  if (!response.ok) {
+    throw new CredentialError(`Fetching ${url} failed: HTTP ${response.status}`, 'REQUEST_FETCH_FAILED');
+  }
+  return response;
+};
+
+const getClientDid = (clientId: string, clientIdScheme: unknown): string | undefined => {
+  if (clientId.startsWith(DID_PREFIX)) return clientId.slice(DID_PREFIX.length);
+  // Pre-1.0 requests name the scheme separately, or leave it to be inferred from the client_id
+  return (clientIdScheme === 'did' || clientIdScheme === undefined) && clientId.startsWith('did:') ? clientId : undefined;
+};
+
+const getClientRedirectUri = (clientId: string, clientIdScheme: unknown): string | undefined => {
+  if (clientId.startsWith(REDIRECT_URI_PREFIX)) return clientId.slice(REDIRECT_URI_PREFIX.length);
+  return clientIdScheme === 'redirect_uri' ? clientId : undefined;
+};
+
+// An unprefixed client_id (or one without a pre-1.0 client_id_scheme) names the verifier by its URL or
+// host, which is all the wallet can hold its response destinations to
+const isUnprefixedClientId = (clientId: string, clientIdScheme: unknown): boolean =>
+  clientIdScheme === undefined && !CLIENT_ID_PREFIX_PATTERN.test(clientId) && !clientId.startsWith('did:');
+
+const isOnClientHost = (clientId: string, uri: string): boolean => {
+  try {
+    const destination = new URL(uri);
+    return /^https?:\/\//.test(clientId) ? new URL(clientId).origin === destination.origin : destination.host === clientId;
+  } catch {
+    return false;
+  }
+};
+
+// Check that a request object was signed by a key of the client's DID
+const verifyRequestObjectSignature = async (jwt: string, did: string): Promise<void> => {
+  const jws = decodeJws(jwt);
+  const alg = String(jws.header.alg);
+  const kid = typeof jws.header.kid === 'string' ? jws.header.kid : '';
+  let key: ResolvedVerificationKey;
+  try {
+    key = await resolveVerificationMethod(kid.startsWith('#') ? `${did}${kid}` : kid || did, 'authentication');
+  } catch (error) {
+    throw new CredentialError(`Cannot authenticate request object signed by ${did}: ${error instanceof Error ? error.message : error}`, 'INVALID_REQUEST');
+  }
+  if (key.controller !== did || JWS_KEY_ALGORITHMS[alg] !== key.algorithm) {
+    throw new CredentialError(`Request object is not signed with a ${alg} key of ${did}`, 'INVALID_REQUEST');
+  }
+  const isValid = await crypto.subtle.verify(getSignatureAlgorithm(key.algorithm), await importVerificationKey(key), jws.signature, jws.signingInput);
+  if (!isValid) {
+    throw new CredentialError('Request object signature does not match its contents', 'INVALID_REQUEST');
+  }
+};
+
+// A request object replaces the URL's parameters; its client_id must match the one in the URL
+const readRequestObject = async (
+  jwt: string,
+  clientId: string | undefined
+): Promise<{ parameters: Record<string, unknown>; clientAuthenticated: boolean }> => {
+  let decoded: ReturnType<typeof decodeJwtClaims>;
+  try {
+    decoded = decodeJwtClaims(jwt.trim());
+  } catch (error) {
+    throw new CredentialError(`Request object is not a JWT: ${error instanceof Error ? error.message : error}`, 'INVALID_REQUEST');
+  }
+
+  const { header, payload } = decoded;
+  if (clientId !== undefined && payload.client_id !== clientId) {
+    throw new CredentialError('Request object client_id does not match the authorization request', 'INVALID_REQUEST');
+  }
+  const did = typeof payload.client_id === 'string' ? getClientDid(payload.client_id, payload.client_id_scheme) : undefined;
+  if (!did) {
+    return { parameters: payload, clientAuthenticated: false };
+  }
+  if (header.alg === 'none') {
+    throw new CredentialError(`Requests from ${did} must be signed`, 'INVALID_REQUEST');
+  }
+  await verifyRequestObjectSignature(jwt.trim(), did);
+  return { parameters: payload, clientAuthenticated: true };
+};
+
+// JSON-valued parameters are strings in a URL and objects in a request object
+const readJsonParameter = <T>(value: unknown, name: string): T | undefined => {
+  if (value === undefined || (value !== null && typeof value === 'object')) return value as T | undefined;
+  try {
+    return JSON.parse(String(value)) as T;
+  } catch {
+    throw new CredentialError(`${name} is not valid JSON`, 'INVALID_REQUEST');
+  }
+};
+
+// Resolve an openid4vp:// (or https) authorization request, passed by value or by reference
+// (request_uri), into the verifier's query and where to send the response
+export const parseAuthorizationRequest = async (input: string): Promise<AuthorizationRequest> => {
+  let url: URL;
+  try {
+    url = new URL(input.trim());
+  } catch {
+    throw new CredentialError('Authorization request must be a URL such as openid4vp://?client_id=...', 'INVALID_REQUEST');
+  }
+
+  const query = Object.fromEntries(url.searchParams);
+  let parameters: Record<string, unknown> = query;
+  let clientAuthenticated = false;
+  const requestObject = query.request ?? (query.request_uri
+    ? await (await fetchRequestResource(query.request_uri, 'application/oauth-authz-req+jwt, application/jwt')).text()
+    : undefined);
+  if (requestObject !== undefined) {
+    ({ parameters, clientAuthenticated } = await readRequestObject(requestObject, query.client_id));
+  }
+
+  const readString = (name: string) => typeof parameters[name] === 'string' ? parameters[name] as string : undefined;
+  const clientId = readString('client_id');
+  const responseUri = readString('response_uri');
+  const nonce = readString('nonce');
+  if (!clientId || !nonce) {
+    throw new CredentialError('Authorization request must include a client_id and nonce', 'INVALID_REQUEST');
+  }
+  if (readString('response_type') !== 'vp_token') {
+    throw new CredentialError(`Unsupported response_type ${readString('response_type') ?? '(none)'}; only vp_token is supported`, 'UNSUPPORTED_REQUEST');
+  }
+  if (readString('response_mode') !== 'direct_post' || !responseUri) {
+    throw new CredentialError('Only direct_post responses with a response_uri are supported', 'UNSUPPORTED_REQUEST');
+  }
+  const did = getClientDid(clientId, parameters.client_id_scheme);
+  if (did && !clientAuthenticated) {
+    throw new CredentialError(`Requests from ${did} must be a request object signed by one of its keys`, 'INVALID_REQUEST');
+  }
+  const redirectUri = getClientRedirectUri(clientId, parameters.client_id_scheme);
+  if (redirectUri !== undefined && redirectUri !== responseUri) {
+    throw new CredentialError(`Response would be sent to ${responseUri}, not to the client ${redirectUri}`, 'INVALID_REQUEST');
+  }
+  if (isUnprefixedClientId(clientId, parameters.client_id_scheme)) {
+    const foreign = [responseUri, readString('redirect_uri')].find(uri => uri !== undefined && !isOnClientHost(clientId, uri));
+    if (foreign) {
+      throw new CredentialError(`Request from ${clientId} would send the user or the response to ${foreign}`, 'INVALID_REQUEST');
+    }
+  }
+
+  const presentationDefinition = parameters.presentation_definition_uri
+    ? await (await fetchRequestResource(String(parameters.presentation_definition_uri), 'application/json')).json() as PresentationDefinition
+    : readJsonParameter<PresentationDefinition>(parameters.presentation_definition, 'presentation_definition');
+  const dcqlQuery = readJsonParameter<DcqlQuery>(parameters.dcql_query, 'dcql_query');
+  if (!presentationDefinition === !dcqlQuery) {
+    throw new CredentialError('Authorization request must include either a presentation definition or a DCQL query', 'INVALID_REQUEST');
+  }
+  if (presentationDefinition && !Array.isArray(presentationDefinition.input_descriptors)) {
+    throw new CredentialError('Presentation definition has no input_descriptors', 'INVALID_REQUEST');
+  }
+  if (dcqlQuery && !Array.isArray(dcqlQuery.credentials)) {
+    throw new CredentialError('DCQL query has no credentials', 'INVALID_REQUEST');
+  }
+  const unsupportedQueries = (dcqlQuery?.credentials ?? [])
+    .filter(query => !DCQL_FORMATS[query.format])
+    .map(query => ({ id: query.id, format: query.format }));
+
+  return {
+    clientId,
+    clientAuthenticated,
+    responseUri,
+    nonce,
+    state: readString('state'),
+    presentationDefinition,
+    dcqlQuery,
+    ...(unsupportedQueries.length > 0 && { unsupportedQueries }),
+    clientMetadata: readJsonParameter<Record<string, unknown>>(parameters.client_metadata, 'client_metadata')
+  };
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Follow a DCQL claims path pointer through the credential
+const selectClaimValues = (document: unknown, path: DcqlClaimsQuery['path']): unknown[] =>
+  path.reduce<unknown[]>((values, segment) => values.flatMap(value => {
+    if (segment === null) return Array.isArray(value) ? value : [];
+    if (typeof segment === 'number') return Array.isArray(value) && segment < value.length ? [value[segment]] : [];
+    return isObject(value) && segment in value ? [value[segment]] : [];
+  }), [document]);
+
+const isClaimSatisfied = (credential: VerifiableCredential, claim: DcqlClaimsQuery): boolean =>
+  selectClaimValues(credential, claim.path).some(value => !claim.values || claim.values.includes(value as string | number | boolean));
+
+// Verifiers name types by IRI; the credential's types are compared by local name since they are not expanded here
+const hasTypes = (credential: VerifiableCredential, types: string[]): boolean =>
+  types.every(type => credential.type.some(own => own === type || type.endsWith(`#${own}`) || type.endsWith(`/${own}`)));
+
+export const matchDcqlCredentialQuery = (query: DcqlCredentialQuery, credential: VerifiableCredential): boolean => {
+  if (DCQL_FORMATS[query.format] !== getClaimFormat(credential)) return false;
+  const typeValues = query.meta?.type_values;
+  if (typeValues && !typeValues.some(types => hasTypes(credential, types))) return false;
+
+  const claims = query.claims || [];
+  if (!query.claim_sets) {
+    return claims.every(claim => isClaimSatisfied(credential, claim));
+  }
+  return query.claim_sets.some(claimSet => claimSet.every(id => {
+    const claim = claims.find(candidate => candidate.id === id);
+    return !!claim && isClaimSatisfied(credential, claim);
+  }));
+};
+
+// For every credential the verifier asks for, the wallet credentials that could be shared, best first,
+// and the selection that answers the request best
+export const matchAuthorizationRequest = async (
+  request: AuthorizationRequest,
+  credentials: VerifiableCredential[],
+  context: MatchContext = {}
+): Promise<AuthorizationRequestMatch> => {
+  const definition = request.presentationDefinition;
+  if (definition) {
+    const { descriptors, candidateSets } = await matchPresentationDefinition(definition, credentials, context);
+    return {
+      requested: definition.input_descriptors.map((descriptor, index) => {
+        const derivation = descriptors[index].derivation;
+        return {
+          id: descriptor.id,
+          name: descriptor.name,
+          purpose: descriptor.purpose,
+          candidates: descriptors[index].candidates,
+          // A derived credential records which verifier it was made for
+          ...(derivation && { derivation: { ...derivation, source: { ...derivation.source, clientId: request.clientId } } })
+        };
+      }),
+      suggestedSelection: candidateSets[0]?.selection ?? {}
+    };
+  }
+
+  const presentable = credentials.filter(credential => isPresentable(credential, context));
+  const requested = (request.dcqlQuery?.credentials || []).map(query => ({
+    id: query.id,
+    purpose: request.dcqlQuery?.credential_sets?.find(set => set.options.some(option => option.includes(query.id)))?.purpose,
+    candidates: presentable
+      .filter(credential => matchDcqlCredentialQuery(query, credential))
+      .map(credential => rankCredential(credential, context))
+      .sort((a, b) => b.score - a.score)
+  }));
+  return {
+    requested,
+    suggestedSelection: Object.fromEntries(requested
+      .filter(match => match.candidates.length > 0)
+      .map(match => [match.id, match.candidates[0].credential]))
+  };
+};
+
+// Whether the chosen credentials (by input descriptor or credential query id) answer the request, under
+// the definition's submission requirements; DCQL credential sets that are not required may be left out
+export const isRequestSatisfied = (
+  request: AuthorizationRequest,
+  selection: Record<string, VerifiableCredential | undefined>
+): boolean => {
+  const isSelected = (id: string) => !!selection[id];
+  if (request.presentationDefinition) {
+    return isSubmissionSatisfied(request.presentationDefinition, Object.keys(selection).filter(isSelected));
+  }
+  const query = request.dcqlQuery;
+  if (!query) return false;
+  if (!query.credential_sets) {
+    return query.credentials.every(credentialQuery => isSelected(credentialQuery.id));
+  }
+  return query.credential_sets
+    .filter(set => set.required !== false)
+    .every(set => set.options.some(option => option.every(isSelected)));
+};
+
+// JSON-LD presentations carry one data model version, so they follow their credentials'
+const getPresentationVersion = (credentials: VerifiableCredential[], format: PresentationFormat): CredentialVersion => {
+  const versions = new Set(credentials.filter(credential => !credential.envelope).map(getCredentialVersion));
+  return versions.size === 1 && (format === 'jwt' || credentials.every(credential => !credential.envelope))
+    ? [...versions][0]
+    : '2.0';
+};
+
+// Presentations are bound to the request's nonce and to the client_id as their audience
+const presentCredentials = (
+  request: AuthorizationRequest,
+  credentials: VerifiableCredential[],
+  format: PresentationFormat
+): Promise<VerifiablePresentation | string> => {
+  const options = { challenge: request.nonce, domain: request.clientId, version: getPresentationVersion(credentials, format) };
+  return format === 'jwt' ? createPresentationJwt(credentials, options) : createPresentation(credentials, options);
+};
+
+// Data Integrity presentations unless the verifier only accepts JWT ones
+const getDefinitionPresentationFormat = (request: AuthorizationRequest): PresentationFormat => {
+  const formats = request.presentationDefinition?.format ?? request.clientMetadata?.vp_formats;
+  if (!isObject(formats) || 'ldp_vp' in formats) return 'json-ld';
+  return 'jwt_vp_json' in formats || 'jwt_vp' in formats ? 'jwt' : 'json-ld';
+};
+
+const buildPresentationSubmission = (
+  definition: PresentationDefinition,
+  selection: Record<string, VerifiableCredential | undefined>,
+  presented: VerifiableCredential[],
+  format: PresentationFormat
+): PresentationSubmission => {
+  // A VC-JWT 1.1 presentation carries its credentials in the vp claim
+  const root = format === 'jwt' && getPresentationVersion(presented, format) === '1.1' ? '$.vp' : '$';
+  return {
+    id: crypto.randomUUID(),
+    definition_id: definition.id,
+    descriptor_map: definition.input_descriptors.flatMap(descriptor => {
+      const credential = selection[descriptor.id];
+      return credential
+        ? [{
+            id: descriptor.id,
+            format: format === 'jwt' ? 'jwt_vp_json' : 'ldp_vp',
+            path: '$',
+            path_nested: { format: getClaimFormat(credential), path: `${root}.verifiableCredential[${presented.indexOf(credential)}]` }
+          }]
+        : [];
+    })
+  };
+};
+
+const postToResponseUri = async (request: AuthorizationRequest, fields: Record<string, string>): Promise<AuthorizationResponseResult> => {
+  let response: Response;
+  try {
+    response = await fetch(request.responseUri, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({ ...fields, ...(request.state && { state: request.state }) })
+    });
+  } catch (error) {
+    throw new CredentialError(`Could not reach the verifier: ${error instanceof Error ? error.message : error}`, 'RESPONSE_FAILED');
+  }
+
+  const body = await response.json().catch(() => ({})) as Record<string, unknown>;
+  if (!response.ok) {
+    throw new CredentialError(
+      `Verifier rejected the response: ${body.error_description ?? body.error ?? `HTTP ${response.status}`}`,
+      'RESPONSE_REJECTED'
+    );
+  }
+  return { redirectUri: typeof body.redirect_uri === 'string' ? body.redirect_uri : undefined };
+};
+
+// A DCQL query's claims as JSON pointers, unless one of them selects array elements by wildcard
+const getClaimPointers = (query: DcqlCredentialQuery): string[] | undefined => {
+  if (!query.claims?.length || query.claims.some(claim => claim.path.includes(null))) return undefined;
+  return query.claims.map(claim =>
+    claim.path.map(segment => `/${String(segment).replace(/~/g, '~0').replace(/\//g, '~1')}`).join(''));
+};
+
+// A bbs-2023 credential discloses only the claims the query asks for (and its subject, to bind it to
+// the holder); anything else is presented whole
+const discloseRequestedClaims = async (credential: VerifiableCredential, query: DcqlCredentialQuery): Promise<VerifiableCredential> => {
+  const pointers = getClaimPointers(query);
+  if (!pointers || !hasBbsBaseProof(credential)) return credential;
+  const subjectPointer = credential.credentialSubject.id ? ['/credentialSubject/id'] : [];
+  return deriveBbsDisclosure(toJsonLdDocument(credential) as VerifiableCredential, [...subjectPointer, ...pointers]);
+};
+
+// Present the chosen credentials and post the vp_token to the verifier: one presentation (described
+// by a presentation submission) for a presentation definition, one per credential query for DCQL
+export const respondToAuthorizationRequest = async (
+  request: AuthorizationRequest,
+  selection: Record<string, VerifiableCredential | undefined>
+): Promise<AuthorizationResponseResult> => {
+  if (!isRequestSatisfied(request, selection)) {
+    throw new CredentialError('The selected credentials do not answer every part of the request', 'REQUEST_NOT_SATISFIED');
+  }
+
+  const definition = request.presentationDefinition;
+  if (definition) {
+    const presented = [...new Set(Object.values(selection).filter((credential): credential is VerifiableCredential => !!credential))];
+    const format = getDefinitionPresentationFormat(request);
+    const presentation = await presentCredentials(request, presented, format);
+    return postToResponseUri(request, {
+      vp_token: typeof presentation === 'string' ? presentation : JSON.stringify(presentation),
+      presentation_submission: JSON.stringify(buildPresentationSubmission(definition, selection, presented, format))
+    });
+  }
+
+  const vpToken: Record<string, Array<VerifiablePresentation | string>> = {};
+  for (const query of request.dcqlQuery?.credentials || []) {
+    const credential = selection[query.id];
+    if (credential) {
+      const disclosed = await discloseRequestedClaims(credential, query);
+      vpToken[query.id] = [await presentCredentials(request, [disclosed], query.format === 'jwt_vc_json' ? 'jwt' : 'json-ld')];
+    }
+  }
+  return postToResponseUri(request, { vp_token: JSON.stringify(vpToken) });
+};
+
+export const declineAuthorizationRequest = (request: AuthorizationRequest): Promise<AuthorizationResponseResult> =>
+  postToResponseUri(request, { error: 'access_denied', error_description: 'The holder declined to share credentials' });
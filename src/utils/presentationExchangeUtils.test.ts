@@ -0,0 +1,66 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { PresentationDefinition, VerifiableCredential } from '@/types/credential';
+import { evaluateJsonPath, matchPresentationDefinition } from '@/utils/presentationExchangeUtils';
+
+const loadSample = (name: string): VerifiableCredential =>
+  JSON.parse(readFileSync(`public/${name}`, 'utf8')) as VerifiableCredential;
+
+const employee = loadSample('sample-bbs-employee.json');
+const degree = loadSample('sample-credential.json');
+const vaccination = loadSample('sample-vaccination.json');
+const wallet = [employee, degree, vaccination];
+
+const DEFINITION: PresentationDefinition = {
+  id: 'onboarding',
+  submission_requirements: [{ rule: 'pick', count: 1, from: 'A' }],
+  input_descriptors: [
+    {
+      id: 'employment',
+      group: ['A'],
+      constraints: {
+        fields: [
+          { path: ['$.type'], filter: { type: 'array', contains: { const: 'EmployeeCredential' } } },
+          { path: ['$.credentialSubject.jobTitle'] }
+        ]
+      }
+    },
+    {
+      id: 'education',
+      group: ['A'],
+      constraints: { fields: [{ path: ['$.credentialSubject.degree.type'], filter: { type: 'string', const: 'BachelorDegree' } }] }
+    }
+  ]
+};
+
+describe('matchPresentationDefinition', () => {
+  it('finds the credentials each input descriptor accepts', async () => {
+    const { descriptors } = await matchPresentationDefinition(DEFINITION, wallet);
+
+    expect(descriptors.map(({ descriptorId, candidates }) => [descriptorId, candidates.map(({ credential }) => credential.id)]))
+      .toEqual([['employment', [employee.id]], ['education', [degree.id]]]);
+  });
+
+  it('offers one way of answering per credential a pick requirement can take', async () => {
+    const { candidateSets } = await matchPresentationDefinition(DEFINITION, wallet);
+
+    expect(candidateSets.map(({ selection }) => Object.keys(selection)).sort()).toEqual([['education'], ['employment']]);
+  });
+
+  it('never offers a revoked credential', async () => {
+    const { descriptors, candidateSets } = await matchPresentationDefinition(DEFINITION, wallet, {
+      statusResults: { [employee.id]: { state: 'revoked', message: 'Credential has been revoked by its issuer' } }
+    });
+
+    expect(descriptors[0].candidates).toEqual([]);
+    expect(candidateSets.map(({ selection }) => Object.keys(selection))).toEqual([['education']]);
+  });
+});
+
+describe('evaluateJsonPath', () => {
+  it('reads values through nested objects and arrays', () => {
+    expect(evaluateJsonPath(employee, '$.credentialSubject.worksFor.name')).toEqual(['Example Corp']);
+    expect(evaluateJsonPath(employee, "$['type'][1]")).toEqual(['EmployeeCredential']);
+    expect(evaluateJsonPath(employee, '$.credentialSubject.missing')).toEqual([]);
+  });
+});
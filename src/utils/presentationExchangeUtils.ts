@@ -0,0 +1,523 @@
+import {
+  VerifiableCredential,
+  InputDescriptor,
+  PresentationDefinition,
+  PresentationDefinitionField,
+  SubmissionRequirement,
+  ProofVerificationResult,
+  StatusCheckResult,
+  RankedCandidate,
+  DerivationSuggestion,
+  DescriptorEvaluation,
+  CandidateSet,
+  PresentationDefinitionMatch
+} from '@/types/credential';
+import { hasBbsBaseProof } from '@/utils/bbsUtils';
+import { decodeJws } from '@/utils/jwtUtils';
+import { compileInputDescriptor } from '@/utils/queryCompilerUtils';
+import {
+  NQuadsSource,
+  CredentialError,
+  getCredentialVersion,
+  getValidityPeriod,
+  constructToSelectQuery,
+  instantiateConstructTemplate,
+  executeSPARQLQuery,
+  createDerivedCredentialsFromConstruct
+} from '@/utils/credentialUtils';
+
+// Claim format designations (as used by Presentation Exchange and OID4VP) of wallet credentials
+export type ClaimFormat = 'ldp_vc' | 'jwt_vc_json' | 'vc+sd-jwt';
+
+// Older definitions use the pre-OID4VP designations
+const FORMAT_ALIASES: Record<string, ClaimFormat> = {
+  ldp_vc: 'ldp_vc',
+  jwt_vc_json: 'jwt_vc_json',
+  jwt_vc: 'jwt_vc_json',
+  'vc+sd-jwt': 'vc+sd-jwt',
+  'dc+sd-jwt': 'vc+sd-jwt'
+};
+
+type PathSegment =
+  | { kind: 'child'; key: string | number }
+  | { kind: 'wildcard' }
+  | { kind: 'descendant'; key: string };
+
+// $, .name, ..name, .*, [*], [0], ['name'] and ["name"]; filter and slice expressions are not supported
+const PATH_SEGMENT_PATTERN = /^(?:\.\.([A-Za-z_$@][\w$@-]*)|\.([A-Za-z_$@][\w$@-]*)|\.\*|\[\*\]|\[(\d+)\]|\[\s*'([^']*)'\s*\]|\[\s*"([^"]*)"\s*\])/;
+
+const parseJsonPath = (path: string): PathSegment[] => {
+  if (!path.startsWith('$')) {
+    throw new Error(`JSONPath ${path} must start with $`);
+  }
+
+  const segments: PathSegment[] = [];
+  for (let rest = path.slice(1); rest;) {
+    const match = PATH_SEGMENT_PATTERN.exec(rest);
+    if (!match) {
+      throw new Error(`Unsupported JSONPath expression ${path}`);
+    }
+    const [segment, descendant, name, index, singleQuoted, doubleQuoted] = match;
+    if (descendant !== undefined) segments.push({ kind: 'descendant', key: descendant });
+    else if (index !== undefined) segments.push({ kind: 'child', key: Number(index) });
+    else if (name !== undefined || singleQuoted !== undefined || doubleQuoted !== undefined) {
+      segments.push({ kind: 'child', key: (name ?? singleQuoted ?? doubleQuoted) as string });
+    } else segments.push({ kind: 'wildcard' });
+    rest = rest.slice(segment.length);
+  }
+  return segments;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const childValues = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : isObject(value) ? Object.values(value) : [];
+
+const descendantValues = (value: unknown, key: string): unknown[] => [
+  ...(isObject(value) && key in value ? [value[key]] : []),
+  ...childValues(value).flatMap(child => descendantValues(child, key))
+];
+
+const applySegment = (value: unknown, segment: PathSegment): unknown[] => {
+  switch (segment.kind) {
+    case 'wildcard':
+      return childValues(value);
+    case 'descendant':
+      return descendantValues(value, segment.key);
+    case 'child':
+      if (typeof segment.key === 'number') {
+        return Array.isArray(value) && segment.key < value.length ? [value[segment.key]] : [];
+      }
+      return isObject(value) && segment.key in value ? [value[segment.key]] : [];
+  }
+};
+
+// Every value a JSONPath expression selects in a document
+export const evaluateJsonPath = (document: unknown, path: string): unknown[] =>
+  parseJsonPath(path).reduce<unknown[]>((values, segment) => values.flatMap(value => applySegment(value, segment)), [document]);
+
+const matchesType = (value: unknown, type: string): boolean => {
+  switch (type) {
+    case 'null': return value === null;
+    case 'array': return Array.isArray(value);
+    case 'object': return isObject(value);
+    case 'integer': return Number.isInteger(value);
+    default: return typeof value === type;
+  }
+};
+
+const isSameValue = (value: unknown, expected: unknown) => JSON.stringify(value) === JSON.stringify(expected);
+
+const STRING_FORMATS: Record<string, (value: string) => boolean> = {
+  'date': value => /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(Date.parse(value)),
+  'date-time': value => /^\d{4}-\d{2}-\d{2}T/.test(value) && !isNaN(Date.parse(value)),
+  'email': value => /^[^@\s]+@[^@\s]+$/.test(value),
+  'uri': value => /^[a-z][a-z0-9+.-]*:/i.test(value)
+};
+
+// formatMinimum and friends compare dates, the way definitions express age or validity limits
+const compareFormatted = (value: string, bound: unknown, accept: (difference: number) => boolean): boolean => {
+  const difference = Date.parse(value) - Date.parse(String(bound));
+  return !isNaN(difference) && accept(difference);
+};
+
+// JSON Schema keywords apply only to values of their type, so e.g. a pattern does not constrain a number
+const matchesStringKeywords = (value: string, filter: Record<string, unknown>): boolean => {
+  const { pattern, minLength, maxLength, format, formatMinimum, formatMaximum, formatExclusiveMinimum, formatExclusiveMaximum } = filter;
+  if (typeof pattern === 'string' && !new RegExp(pattern, 'u').test(value)) return false;
+  if (typeof minLength === 'number' && [...value].length < minLength) return false;
+  if (typeof maxLength === 'number' && [...value].length > maxLength) return false;
+  if (typeof format === 'string' && STRING_FORMATS[format] && !STRING_FORMATS[format](value)) return false;
+  if (formatMinimum !== undefined && !compareFormatted(value, formatMinimum, difference => difference >= 0)) return false;
+  if (formatMaximum !== undefined && !compareFormatted(value, formatMaximum, difference => difference <= 0)) return false;
+  if (formatExclusiveMinimum !== undefined && !compareFormatted(value, formatExclusiveMinimum, difference => difference > 0)) return false;
+  if (formatExclusiveMaximum !== undefined && !compareFormatted(value, formatExclusiveMaximum, difference => difference < 0)) return false;
+  return true;
+};
+
+const matchesNumberKeywords = (value: number, filter: Record<string, unknown>): boolean => {
+  const { minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf } = filter;
+  if (typeof minimum === 'number' && value < minimum) return false;
+  if (typeof maximum === 'number' && value > maximum) return false;
+  if (typeof exclusiveMinimum === 'number' && value <= exclusiveMinimum) return false;
+  if (typeof exclusiveMaximum === 'number' && value >= exclusiveMaximum) return false;
+  if (typeof multipleOf === 'number' && !Number.isInteger(value / multipleOf)) return false;
+  return true;
+};
+
+const matchesArrayKeywords = (value: unknown[], filter: Record<string, unknown>): boolean => {
+  const { contains, items, minItems, maxItems } = filter;
+  if (isObject(contains) && !value.some(item => matchesFilter(item, contains))) return false;
+  if (isObject(items) && !value.every(item => matchesFilter(item, items))) return false;
+  if (typeof minItems === 'number' && value.length < minItems) return false;
+  if (typeof maxItems === 'number' && value.length > maxItems) return false;
+  return true;
+};
+
+const matchesObjectKeywords = (value: Record<string, unknown>, filter: Record<string, unknown>): boolean => {
+  const { required, properties } = filter;
+  if (Array.isArray(required) && !required.every(name => String(name) in value)) return false;
+  if (isObject(properties)) {
+    return Object.entries(properties).every(([name, schema]) =>
+      !(name in value) || !isObject(schema) || matchesFilter(value[name], schema));
+  }
+  return true;
+};
+
+// A JSON Schema subset covering what definitions filter with; other keywords are not enforced
+export const matchesFilter = (value: unknown, filter: Record<string, unknown>): boolean => {
+  const { type, const: constant, enum: allowed, not, allOf, anyOf, oneOf } = filter;
+  if (typeof type === 'string' && !matchesType(value, type)) return false;
+  if (Array.isArray(type) && !type.some(option => matchesType(value, String(option)))) return false;
+  if (constant !== undefined && !isSameValue(value, constant)) return false;
+  if (Array.isArray(allowed) && !allowed.some(option => isSameValue(value, option))) return false;
+
+  if (typeof value === 'string' && !matchesStringKeywords(value, filter)) return false;
+  if (typeof value === 'number' && !matchesNumberKeywords(value, filter)) return false;
+  if (Array.isArray(value) && !matchesArrayKeywords(value, filter)) return false;
+  if (isObject(value) && !matchesObjectKeywords(value, filter)) return false;
+
+  const subschemas = (list: unknown) => Array.isArray(list) ? list.filter(isObject) : [];
+  if (isObject(not) && matchesFilter(value, not)) return false;
+  if (!subschemas(allOf).every(schema => matchesFilter(value, schema))) return false;
+  if (Array.isArray(anyOf) && !subschemas(anyOf).some(schema => matchesFilter(value, schema))) return false;
+  if (Array.isArray(oneOf) && subschemas(oneOf).filter(schema => matchesFilter(value, schema)).length !== 1) return false;
+  return true;
+};
+
+export const getClaimFormat = (credential: VerifiableCredential): ClaimFormat =>
+  !credential.envelope ? 'ldp_vc' : credential.envelope.format === 'vc+jwt' ? 'jwt_vc_json' : 'vc+sd-jwt';
+
+// The document paths are evaluated against: the claims of a JWT-secured credential (a VC-JWT 1.1
+// credential sits in its vc claim), otherwise the credential itself with only the disclosed claims
+export const getClaimsDocument = (credential: VerifiableCredential): Record<string, unknown> => {
+  if (credential.envelope?.format === 'vc+jwt') {
+    return decodeJws(credential.envelope.value).payload;
+  }
+  const document: Record<string, unknown> = { ...credential };
+  delete document.envelope;
+  return document;
+};
+
+// Whether a format designation object (e.g. { ldp_vc: {...}, jwt_vc_json: {...} }) allows a claim format;
+// no designation allows every format
+export const isFormatAccepted = (format: Record<string, unknown> | undefined, claimFormat: ClaimFormat): boolean =>
+  !format || Object.keys(format).some(designation => FORMAT_ALIASES[designation] === claimFormat);
+
+const isFieldSatisfied = (document: unknown, field: PresentationDefinitionField): boolean =>
+  field.path.some(path => {
+    try {
+      return evaluateJsonPath(document, path).some(value => !field.filter || matchesFilter(value, field.filter));
+    } catch (error) {
+      console.warn(`Skipping input descriptor path ${path}:`, error);
+      return false;
+    }
+  });
+
+const getRequiredFields = (descriptor: InputDescriptor): PresentationDefinitionField[] =>
+  (descriptor.constraints?.fields || []).filter(field => !field.optional);
+
+const tryClaimsDocument = (credential: VerifiableCredential): Record<string, unknown> | undefined => {
+  try {
+    return getClaimsDocument(credential);
+  } catch {
+    return undefined;
+  }
+};
+
+// The keys a JSONPath expression follows from the credential's root (a VC-JWT's vc claim counts as the
+// root), if it only names object members
+export const getClaimKeys = (path: string): string[] | undefined => {
+  let segments: PathSegment[];
+  try {
+    segments = parseJsonPath(path);
+  } catch {
+    return undefined;
+  }
+  if (segments[0]?.kind === 'child' && segments[0].key === 'vc') segments = segments.slice(1);
+  const keys = segments.map(segment => segment.kind === 'child' && typeof segment.key === 'string' ? segment.key : undefined);
+  return keys.every(key => key !== undefined) ? keys as string[] : undefined;
+};
+
+// The keys leading to the credentialSubject claim a field points at, if one of its paths is that simple
+const getSubjectClaimPath = (field: PresentationDefinitionField): string[] | undefined => {
+  for (const path of field.path) {
+    const keys = getClaimKeys(path);
+    if (keys && keys.length > 1 && keys[0] === 'credentialSubject') return keys.slice(1);
+  }
+  return undefined;
+};
+
+const getSubjects = (credential: VerifiableCredential): Array<Record<string, unknown>> =>
+  (Array.isArray(credential.credentialSubject) ? credential.credentialSubject : [credential.credentialSubject]).filter(isObject);
+
+// Subject claims presenting the credential would disclose beyond those the descriptor's fields ask for
+const getExtraClaims = (descriptor: InputDescriptor, credential: VerifiableCredential): string[] => {
+  const requested = new Set((descriptor.constraints?.fields || []).map(field => getSubjectClaimPath(field)?.[0]));
+  return [...new Set(getSubjects(credential).flatMap(Object.keys))]
+    .filter(key => key !== 'id' && key !== 'type' && !requested.has(key));
+};
+
+// Whether a credential satisfies an input descriptor as it is: its format is accepted, every required
+// field is present and, if disclosure must be limited, it holds nothing else about its subject
+export const matchInputDescriptor = (
+  descriptor: InputDescriptor,
+  credential: VerifiableCredential,
+  definition?: PresentationDefinition
+): boolean => {
+  if (!isFormatAccepted(descriptor.format ?? definition?.format, getClaimFormat(credential))) return false;
+
+  const document = tryClaimsDocument(credential);
+  if (!document || !getRequiredFields(descriptor).every(field => isFieldSatisfied(document, field))) return false;
+  return descriptor.constraints?.limit_disclosure !== 'required' || getExtraClaims(descriptor, credential).length === 0;
+};
+
+// What the wallet knows about its credentials, to rank them
+export interface MatchContext {
+  verificationResults?: Record<string, ProofVerificationResult>;
+  statusResults?: Record<string, StatusCheckResult>;
+}
+
+// Revoked and suspended credentials are never offered
+export const isPresentable = (credential: VerifiableCredential, { statusResults = {} }: MatchContext): boolean =>
+  statusResults[credential.id]?.state !== 'revoked' && statusResults[credential.id]?.state !== 'suspended';
+
+// How likely a verifier is to accept the credential: its proof, revocation status and validity period
+export const rankCredential = (
+  credential: VerifiableCredential,
+  { verificationResults = {}, statusResults = {} }: MatchContext
+): RankedCandidate => {
+  const notes: string[] = [];
+  let score = 0;
+  const proof = verificationResults[credential.id];
+  if (proof?.status === 'verified') {
+    score += 1;
+    notes.push('Proof verified');
+  } else if (proof) {
+    score -= 2;
+    notes.push('Proof does not verify');
+  }
+  if (statusResults[credential.id]?.state === 'unknown') {
+    score -= 1;
+    notes.push('Revocation status unknown');
+  }
+  const { validFrom, validUntil } = getValidityPeriod(credential);
+  if (validUntil && Date.parse(validUntil) < Date.now()) {
+    score -= 3;
+    notes.push('Expired');
+  }
+  if (validFrom && Date.parse(validFrom) > Date.now()) {
+    score -= 3;
+    notes.push('Not yet valid');
+  }
+  return { credential, score, notes };
+};
+
+// Descriptor-specific ranking on top: the fewer other claims disclosed (above all when the definition
+// prefers limited disclosure) and the more optional fields answered, the better
+const rankCandidate = (
+  descriptor: InputDescriptor,
+  credential: VerifiableCredential,
+  document: Record<string, unknown>,
+  context: MatchContext
+): RankedCandidate => {
+  const { score, notes } = rankCredential(credential, context);
+  let adjusted = score;
+  const extras = getExtraClaims(descriptor, credential).length;
+  if (extras === 0) {
+    adjusted += descriptor.constraints?.limit_disclosure === 'preferred' ? 2 : 1;
+    notes.unshift('Discloses only the requested claims');
+  } else {
+    adjusted -= (descriptor.constraints?.limit_disclosure === 'preferred' ? 0.5 : 0.1) * extras;
+    notes.unshift(`Also discloses ${extras} other claim${extras !== 1 ? 's' : ''}`);
+  }
+  const optional = (descriptor.constraints?.fields || []).filter(field => field.optional && isFieldSatisfied(document, field)).length;
+  if (optional > 0) {
+    adjusted += 0.5 * optional;
+    notes.push(`Answers ${optional} optional field${optional !== 1 ? 's' : ''}`);
+  }
+  return { credential, score: adjusted, notes };
+};
+
+// Alternative descriptor combinations are capped, since pick rules over large groups explode
+const MAX_ALTERNATIVES = 64;
+
+const combinations = <T>(items: T[], size: number): T[][] =>
+  size === 0 ? [[]] : items.flatMap((item, index) =>
+    combinations(items.slice(index + 1), size - 1).map(rest => [item, ...rest])).slice(0, MAX_ALTERNATIVES);
+
+const product = (left: string[][], right: string[][]): string[][] =>
+  left.flatMap(a => right.map(b => [...new Set([...a, ...b])])).slice(0, MAX_ALTERNATIVES);
+
+const getPickSizes = (requirement: SubmissionRequirement, available: number): number[] => {
+  if (requirement.count !== undefined) return requirement.count <= available ? [requirement.count] : [];
+  const sizes: number[] = [];
+  for (let size = requirement.min ?? 0; size <= Math.min(requirement.max ?? available, available); size++) sizes.push(size);
+  return sizes;
+};
+
+// The sets of descriptor ids that satisfy a requirement, using only descriptors the wallet can answer
+const getRequirementAlternatives = (
+  requirement: SubmissionRequirement,
+  descriptors: InputDescriptor[],
+  answerable: Set<string>
+): string[][] => {
+  if (requirement.from !== undefined) {
+    const group = descriptors.filter(descriptor => descriptor.group?.includes(requirement.from as string)).map(descriptor => descriptor.id);
+    if (requirement.rule === 'all') {
+      return group.every(id => answerable.has(id)) ? [group] : [];
+    }
+    const options = group.filter(id => answerable.has(id));
+    return getPickSizes(requirement, options.length).flatMap(size => combinations(options, size));
+  }
+
+  const nested = (requirement.from_nested || []).map(child => getRequirementAlternatives(child, descriptors, answerable));
+  if (requirement.rule === 'all') {
+    return nested.reduce(product, [[]]);
+  }
+  const satisfiable = nested.filter(alternatives => alternatives.length > 0);
+  return getPickSizes(requirement, satisfiable.length)
+    .flatMap(size => combinations(satisfiable, size).flatMap(chosen => chosen.reduce(product, [[]])));
+};
+
+// Every way of answering the definition with the given descriptors, as sets of descriptor ids
+const getSubmissionAlternatives = (definition: PresentationDefinition, answerable: Set<string>): string[][] => {
+  if (!definition.submission_requirements) {
+    const all = definition.input_descriptors.map(descriptor => descriptor.id);
+    return all.every(id => answerable.has(id)) ? [all] : [];
+  }
+  const alternatives = definition.submission_requirements
+    .map(requirement => getRequirementAlternatives(requirement, definition.input_descriptors, answerable))
+    .reduce(product, [[]]);
+  const unique = new Map(alternatives.map(ids => [[...ids].sort().join('\n'), ids]));
+  return [...unique.values()].filter(ids => ids.length > 0);
+};
+
+// Whether answering exactly these descriptors satisfies the definition's submission requirements
+export const isSubmissionSatisfied = (definition: PresentationDefinition, answered: string[]): boolean => {
+  const answeredSet = new Set(answered);
+  return getSubmissionAlternatives(definition, answeredSet)
+    .some(ids => ids.length === answeredSet.size && ids.every(id => answeredSet.has(id)));
+};
+
+// Fill each alternative with the best candidates, preferring a credential already chosen for another
+// descriptor so fewer credentials are disclosed
+const buildCandidateSets = (alternatives: string[][], evaluations: DescriptorEvaluation[]): CandidateSet[] =>
+  alternatives.map(ids => {
+    const selection: Record<string, VerifiableCredential> = {};
+    let score = 0;
+    for (const id of ids) {
+      const chosen = new Set(Object.values(selection));
+      const [best] = [...evaluations.find(evaluation => evaluation.descriptorId === id)?.candidates || []]
+        .sort((a, b) => (b.score + (chosen.has(b.credential) ? 1 : 0)) - (a.score + (chosen.has(a.credential) ? 1 : 0)));
+      selection[id] = best.credential;
+      score += best.score;
+    }
+    return { selection, score: score - new Set(Object.values(selection)).size };
+  }).sort((a, b) => b.score - a.score);
+
+// When no single credential satisfies a descriptor, suggest a CONSTRUCT over the fewest credentials that
+// hold its subject claims. A lone bbs-2023 source is selectively disclosed, so the result keeps the
+// source's own claims (such as its type); otherwise the wallet signs a new credential with the claims
+const suggestDerivation = async (
+  descriptor: InputDescriptor,
+  credentials: VerifiableCredential[],
+  definition?: PresentationDefinition
+): Promise<DerivationSuggestion | undefined> => {
+  const fields = getRequiredFields(descriptor);
+  const documents = new Map(credentials.map(credential => [credential, tryClaimsDocument(credential)]));
+  const claims = fields.flatMap(field => {
+    const keys = getSubjectClaimPath(field);
+    const sources = credentials.filter(credential => {
+      const document = documents.get(credential);
+      return document && isFieldSatisfied(document, field);
+    });
+    return keys && sources.length > 0 ? [{ field, keys, sources }] : [];
+  });
+
+  const chosen: VerifiableCredential[] = [];
+  for (let remaining = claims; remaining.length > 0;) {
+    const coverage = (credential: VerifiableCredential) => remaining.filter(claim => claim.sources.includes(credential)).length;
+    const best = credentials.reduce((a, b) => coverage(b) > coverage(a) ? b : a);
+    chosen.push(best);
+    remaining = remaining.filter(claim => !claim.sources.includes(best));
+  }
+
+  if (chosen.length === 0) return undefined;
+
+  const mode = chosen.length === 1 && hasBbsBaseProof(chosen[0]) ? 'bbs-selective-disclosure' : 'holder-signature';
+  // A holder-signed credential does not carry its sources' own claims (such as their type), so only the
+  // subject claims are asked of them
+  const carried = mode === 'holder-signature'
+    ? { ...descriptor, constraints: { ...descriptor.constraints, fields: claims.map(claim => claim.field) } }
+    : descriptor;
+  const compiled = await compileInputDescriptor(carried, chosen, 'construct', { definitionId: definition?.id });
+  const label = (field: PresentationDefinitionField) => field.id ?? field.path[0];
+  if (claims.every(claim => compiled.unmapped.includes(label(claim.field)))) return undefined;
+
+  return {
+    descriptorId: descriptor.id,
+    query: compiled.query,
+    sourceCredentials: chosen.map(credential => credential.id),
+    mode,
+    uncoveredFields: [
+      ...compiled.unmapped,
+      ...(mode === 'holder-signature' ? fields.filter(field => !getSubjectClaimPath(field)).map(label) : [])
+    ],
+    source: compiled.source
+  };
+};
+
+// Evaluate a definition against the wallet: ranked candidates per descriptor (or a derivation to
+// suggest when there are none) and the ways of answering the whole definition, best first
+export const matchPresentationDefinition = async (
+  definition: PresentationDefinition,
+  credentials: VerifiableCredential[],
+  context: MatchContext = {}
+): Promise<PresentationDefinitionMatch> => {
+  const presentable = credentials.filter(credential => isPresentable(credential, context));
+  const descriptors = await Promise.all(definition.input_descriptors.map(async (descriptor): Promise<DescriptorEvaluation> => {
+    const candidates = presentable
+      .filter(credential => matchInputDescriptor(descriptor, credential, definition))
+      .map(credential => rankCandidate(descriptor, credential, getClaimsDocument(credential), context))
+      .sort((a, b) => b.score - a.score);
+    // Derivations produce Data Integrity credentials
+    const derivation = candidates.length === 0 && isFormatAccepted(descriptor.format ?? definition.format, 'ldp_vc')
+      ? await suggestDerivation(descriptor, presentable, definition)
+      : undefined;
+    return { descriptorId: descriptor.id, candidates, ...(derivation && { derivation }) };
+  }));
+
+  const answerable = new Set(descriptors.filter(evaluation => evaluation.candidates.length > 0).map(evaluation => evaluation.descriptorId));
+  return { descriptors, candidateSets: buildCandidateSets(getSubmissionAlternatives(definition, answerable), descriptors) };
+};
+
+// Run a suggested derivation over its sources. Selective disclosures keep their source's id, while
+// holder-signed credentials are new, belong in the wallet and record the request they answer
+export const deriveForDescriptor = async (
+  suggestion: DerivationSuggestion,
+  credentials: VerifiableCredential[],
+  nquadsSource?: NQuadsSource
+): Promise<VerifiableCredential[]> => {
+  const sources = credentials.filter(credential => suggestion.sourceCredentials.includes(credential.id));
+  const { selectQuery } = constructToSelectQuery(suggestion.query);
+  const bindings = await executeSPARQLQuery(selectQuery, sources, nquadsSource);
+  if (bindings.length === 0) {
+    throw new CredentialError('The suggested derivation has no results', 'NO_RESULTS');
+  }
+
+  const descriptor = suggestion.source.request as InputDescriptor;
+  const versions = new Set(sources.map(getCredentialVersion));
+  return createDerivedCredentialsFromConstruct(
+    instantiateConstructTemplate(suggestion.query, bindings),
+    bindings,
+    sources,
+    {
+      name: descriptor.name,
+      description: descriptor.purpose,
+      version: versions.size === 1 ? [...versions][0] : '2.0'
+    },
+    { mode: suggestion.mode, sparqlQuery: suggestion.query, presentationRequest: suggestion.source }
+  );
+};
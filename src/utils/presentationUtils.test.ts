@@ -0,0 +1,81 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { VerifiableCredential } from '@/types/credential';
+import { initializeVault } from '@/utils/credentialRepository';
+import { HolderKey, ed25519PublicKeyToDidKey, getHolderKey } from '@/utils/holderKeyUtils';
+import { createPresentation, createPresentationJwt, verifyPresentation } from '@/utils/presentationUtils';
+import { SigningKey, signWithDataIntegrity } from '@/utils/proofUtils';
+
+const CHALLENGE = 'challenge-123';
+const DOMAIN = 'https://verifier.example';
+
+const createIssuerKey = async (): Promise<SigningKey & { did: string }> => {
+  const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  const did = await ed25519PublicKeyToDidKey(keyPair.publicKey);
+  return { did, verificationMethod: `${did}#${did.slice('did:key:'.length)}`, algorithm: 'Ed25519', privateKey: keyPair.privateKey };
+};
+
+const issueCredential = (issuer: SigningKey & { did: string }, subjectId: string, name: string): Promise<VerifiableCredential> =>
+  signWithDataIntegrity({
+    '@context': ['https://www.w3.org/ns/credentials/v2', { '@vocab': 'https://schema.org/' }],
+    id: `urn:uuid:${crypto.randomUUID()}`,
+    type: ['VerifiableCredential', 'EmployeeCredential'],
+    issuer: issuer.did,
+    validFrom: '2024-01-01T00:00:00Z',
+    credentialSubject: { id: subjectId, name }
+  }, issuer) as Promise<VerifiableCredential>;
+
+describe('presentation round trip', () => {
+  let holder: HolderKey;
+  let issuer: SigningKey & { did: string };
+  let credential: VerifiableCredential;
+
+  beforeAll(async () => {
+    await initializeVault('test passphrase');
+    holder = await getHolderKey();
+    issuer = await createIssuerKey();
+    credential = await issueCredential(issuer, holder.did, 'Alex');
+  });
+
+  it('verifies a Data Integrity presentation of a credential about its holder', async () => {
+    const presentation = await createPresentation([credential], { challenge: CHALLENGE, domain: DOMAIN });
+    const result = await verifyPresentation(presentation, { challenge: CHALLENGE, domain: DOMAIN });
+
+    expect(result.status).toBe('verified');
+    expect(result.holder).toBe(holder.did);
+    expect(result.credentials).toHaveLength(1);
+    expect(result.credentials[0].holderBound).toBe(true);
+  });
+
+  it('verifies a JWT presentation', async () => {
+    const presentation = await createPresentationJwt([credential], { challenge: CHALLENGE, domain: DOMAIN });
+    const result = await verifyPresentation(presentation, { challenge: CHALLENGE, domain: DOMAIN });
+
+    expect(result.status).toBe('verified');
+    expect(result.holder).toBe(holder.did);
+  });
+
+  it('rejects a presentation made for another challenge or verifier', async () => {
+    const presentation = await createPresentation([credential], { challenge: CHALLENGE, domain: DOMAIN });
+
+    expect((await verifyPresentation(presentation, { challenge: 'replayed', domain: DOMAIN })).status).toBe('challenge-mismatch');
+    expect((await verifyPresentation(presentation, { challenge: CHALLENGE, domain: 'https://other.example' })).status).toBe('domain-mismatch');
+  });
+
+  it('rejects a presentation whose credential was altered after issuance', async () => {
+    const altered = { ...credential, credentialSubject: { ...credential.credentialSubject, name: 'Mallory' } };
+    const presentation = await createPresentation([altered], { challenge: CHALLENGE, domain: DOMAIN });
+    const result = await verifyPresentation(presentation, { challenge: CHALLENGE, domain: DOMAIN });
+
+    expect(result.status).toBe('invalid-credential');
+    expect(result.credentials[0].proof.status).toBe('invalid-signature');
+  });
+
+  it('does not accept a credential about someone other than the holder', async () => {
+    const someoneElses = await issueCredential(issuer, 'did:example:someone-else', 'Sam');
+    const presentation = await createPresentation([someoneElses], { challenge: CHALLENGE, domain: DOMAIN });
+    const result = await verifyPresentation(presentation, { challenge: CHALLENGE, domain: DOMAIN });
+
+    expect(result.status).toBe('unbound-credential');
+    expect(result.credentials[0].holderBound).toBe(false);
+  });
+});
@@ -0,0 +1,343 @@
+import {
+  VerifiableCredential,
+  VerifiablePresentation,
+  CredentialVersion,
+  PresentationFormat,
+  ProofVerificationResult,
+  PresentedCredentialResult,
+  PresentationVerificationResult
+} from '@/types/credential';
+import { CREDENTIALS_V1_CONTEXT, CREDENTIALS_V2_CONTEXT, DATA_INTEGRITY_V2_CONTEXT } from '@/utils/contextUtils';
+import {
+  CredentialError,
+  getCredentialVersion,
+  toJsonLdDocument,
+  validateCredential,
+  parseCredentialText,
+  importSdJwtCredential
+} from '@/utils/credentialUtils';
+import { ResolvedVerificationKey, resolveVerificationMethod, importVerificationKey } from '@/utils/didUtils';
+import { encodeBase64url, utf8Encode } from '@/utils/encodingUtils';
+import { JWS_KEY_ALGORITHMS, decodeJws } from '@/utils/jwtUtils';
+import {
+  SigningKey,
+  CredentialProof,
+  getSignatureAlgorithm,
+  signWithDataIntegrity,
+  verifyDocumentProof,
+  verifyCredentialProof
+} from '@/utils/proofUtils';
+import { getHolderKey } from '@/utils/holderKeyUtils';
+import { hasBbsBaseProof, deriveFullBbsDisclosure } from '@/utils/bbsUtils';
+
+// Presentations answer one verifier request, so they are only accepted shortly after they were made
+const PRESENTATION_LIFETIME_MS = 10 * 60 * 1000;
+
+export interface PresentationOptions {
+  // Supplied by the verifier: the challenge (nonce) stops a presentation being replayed, the domain
+  // (audience) stops it being used with another verifier
+  challenge: string;
+  domain: string;
+  version?: CredentialVersion;
+}
+
+const getIssuerId = (credential: VerifiableCredential): string =>
+  typeof credential.issuer === 'string' ? credential.issuer : credential.issuer.id;
+
+// How a wallet credential is embedded: JSON-LD credentials as they are, except that a bbs-2023 base
+// proof is replaced by a derived disclosure; JWT-secured ones keep their issuer's JWT, which only
+// VCDM 2.0 (as an EnvelopedVerifiableCredential) and VC-JWT 1.1 can carry
+const toPresentedCredential = async (
+  credential: VerifiableCredential,
+  version: CredentialVersion,
+  format: PresentationFormat
+): Promise<VerifiablePresentation['verifiableCredential'][number]> => {
+  if (!credential.envelope) {
+    // The 1.1 and 2.0 base contexts protect the same terms differently, so a JSON-LD presentation
+    // cannot mix them; a VC-JWT 1.1 vp claim is not processed as JSON-LD
+    if ((format === 'json-ld' || version === '2.0') && getCredentialVersion(credential) !== version) {
+      throw new CredentialError(
+        `${credential.id} is a VCDM ${getCredentialVersion(credential)} credential and cannot be embedded in a VCDM ${version} presentation`,
+        'MIXED_VERSIONS'
+      );
+    }
+    const document = toJsonLdDocument(credential) as VerifiableCredential;
+    return (hasBbsBaseProof(document) ? await deriveFullBbsDisclosure(document) : document) as Record<string, unknown>;
+  }
+  if (version === '2.0') {
+    return {
+      '@context': CREDENTIALS_V2_CONTEXT,
+      id: `data:application/${credential.envelope.format},${credential.envelope.value}`,
+      type: 'EnvelopedVerifiableCredential'
+    };
+  }
+  if (format === 'jwt') {
+    return credential.envelope.value;
+  }
+  throw new CredentialError(
+    `${credential.id} is JWT-secured and can only be presented in a VCDM 2.0 or VP-JWT presentation`,
+    'ENVELOPE_NOT_PRESENTABLE'
+  );
+};
+
+const buildPresentation = async (
+  credentials: VerifiableCredential[],
+  holder: string,
+  { challenge, domain, version = '2.0' }: PresentationOptions,
+  format: PresentationFormat
+): Promise<VerifiablePresentation> => {
+  if (credentials.length === 0) {
+    throw new CredentialError('Select at least one credential to present', 'NO_CREDENTIALS');
+  }
+  if (!challenge.trim() || !domain.trim()) {
+    throw new CredentialError('A presentation needs the verifier\'s challenge and domain', 'MISSING_CHALLENGE');
+  }
+
+  return {
+    // VCDM 1.1 does not define the Data Integrity proof terms
+    '@context': version === '2.0' ? [CREDENTIALS_V2_CONTEXT] : [CREDENTIALS_V1_CONTEXT, DATA_INTEGRITY_V2_CONTEXT],
+    id: `urn:uuid:${crypto.randomUUID()}`,
+    type: ['VerifiablePresentation'],
+    holder,
+    verifiableCredential: await Promise.all(credentials.map(credential => toPresentedCredential(credential, version, format)))
+  };
+};
+
+// Bundle credentials into a presentation signed by the holder key with a Data Integrity
+// authentication proof bound to the verifier's challenge and domain
+export const createPresentation = async (
+  credentials: VerifiableCredential[],
+  options: PresentationOptions
+): Promise<VerifiablePresentation> => {
+  const holderKey = await getHolderKey();
+  const presentation = await buildPresentation(credentials, holderKey.did, options, 'json-ld');
+  const now = Date.now();
+
+  return signWithDataIntegrity(presentation, holderKey, {
+    created: new Date(now).toISOString(),
+    expires: new Date(now + PRESENTATION_LIFETIME_MS).toISOString(),
+    proofPurpose: 'authentication',
+    challenge: options.challenge,
+    domain: options.domain
+  });
+};
+
+// The JWS alg name for a signing key's algorithm
+export const getJwsAlgorithm = (key: SigningKey): string =>
+  Object.entries(JWS_KEY_ALGORITHMS).find(([, algorithm]) => algorithm === key.algorithm)?.[0] as string;
+
+export const signCompactJws = async (header: Record<string, unknown>, payload: Record<string, unknown>, key: SigningKey): Promise<string> => {
+  const signingInput = `${encodeBase64url(utf8Encode(JSON.stringify(header)))}.${encodeBase64url(utf8Encode(JSON.stringify(payload)))}`;
+  const signature = await crypto.subtle.sign(getSignatureAlgorithm(key.algorithm), key.privateKey, utf8Encode(signingInput));
+  return `${signingInput}.${encodeBase64url(new Uint8Array(signature))}`;
+};
+
+// The same presentation as a JWT signed by the holder key, with the challenge as its nonce and the
+// domain as its audience: a VC-JWT 1.1 vp claim, or a VCDM 2.0 presentation as the payload (vp+jwt)
+export const createPresentationJwt = async (
+  credentials: VerifiableCredential[],
+  options: PresentationOptions
+): Promise<string> => {
+  const holderKey = await getHolderKey();
+  const presentation = await buildPresentation(credentials, holderKey.did, options, 'jwt');
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const claims = {
+    iss: holderKey.did,
+    aud: options.domain,
+    nonce: options.challenge,
+    iat: issuedAt,
+    exp: issuedAt + PRESENTATION_LIFETIME_MS / 1000
+  };
+
+  return (options.version ?? '2.0') === '2.0'
+    ? signCompactJws({ alg: getJwsAlgorithm(holderKey), typ: 'vp+jwt', kid: holderKey.verificationMethod }, { ...presentation, ...claims }, holderKey)
+    : signCompactJws({ alg: getJwsAlgorithm(holderKey), typ: 'JWT', kid: holderKey.verificationMethod }, { ...claims, jti: presentation.id, vp: presentation }, holderKey);
+};
+
+export const downloadPresentation = (presentation: VerifiablePresentation | string) => {
+  const isJwt = typeof presentation === 'string';
+  const blob = new Blob([isJwt ? presentation : JSON.stringify(presentation, null, 2)], {
+    type: isJwt ? 'application/jwt' : 'application/json'
+  });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = isJwt ? 'presentation.jwt' : 'presentation.json';
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  URL.revokeObjectURL(url);
+};
+
+const decodePresentedCredential = async (entry: VerifiablePresentation['verifiableCredential'][number]): Promise<VerifiableCredential> => {
+  if (typeof entry === 'string') {
+    const parsed = await parseCredentialText(entry);
+    // A presented SD-JWT carries only the disclosures the holder chose to reveal
+    return parsed.kind === 'credential' ? parsed.credential : importSdJwtCredential(parsed.sdJwt, parsed.sdJwt.disclosures);
+  }
+  return validateCredential(entry);
+};
+
+const verifyPresentedCredentials = (presentation: VerifiablePresentation, holder: string): Promise<PresentedCredentialResult[]> =>
+  Promise.all((Array.isArray(presentation.verifiableCredential) ? presentation.verifiableCredential : [presentation.verifiableCredential])
+    .map(async (entry, index) => {
+      try {
+        const credential = await decodePresentedCredential(entry);
+        const subjects = Array.isArray(credential.credentialSubject) ? credential.credentialSubject : [credential.credentialSubject];
+        return {
+          id: credential.id,
+          // A base proof is the holder's secret: a verifier is only ever shown a derived disclosure
+          proof: hasBbsBaseProof(credential)
+            ? { status: 'invalid-signature' as const, message: 'Presented with its bbs-2023 base proof instead of a derived disclosure' }
+            : await verifyCredentialProof(credential),
+          holderBound: getIssuerId(credential) === holder || subjects.some(subject => subject?.id === holder)
+        };
+      } catch (error) {
+        return {
+          id: `credential ${index + 1}`,
+          proof: { status: 'error' as const, message: error instanceof Error ? error.message : 'Credential could not be decoded' },
+          holderBound: false
+        };
+      }
+    }));
+
+const includesValue = (value: unknown, expected: string) =>
+  Array.isArray(value) ? value.includes(expected) : value === expected;
+
+type PresentationProofCheck = Pick<PresentationVerificationResult, 'status' | 'message' | 'holder' | 'proof'> & {
+  presentation?: VerifiablePresentation;
+};
+
+const checkDataIntegrityPresentation = async (
+  presentation: VerifiablePresentation,
+  { challenge, domain }: Pick<PresentationOptions, 'challenge' | 'domain'>
+): Promise<PresentationProofCheck> => {
+  const { holder, proof } = presentation;
+  if (!Array.isArray(presentation.type) || !presentation.type.includes('VerifiablePresentation') || typeof holder !== 'string') {
+    return { status: 'malformed', message: 'Not a VerifiablePresentation with a holder' };
+  }
+  if (!proof || Array.isArray(proof)) {
+    return { status: 'malformed', message: 'Presentation must carry a single proof', holder };
+  }
+  if (proof.proofPurpose !== 'authentication') {
+    return { status: 'invalid-proof', message: `Proof purpose is ${proof.proofPurpose}, not authentication`, holder };
+  }
+
+  const result = await verifyDocumentProof(presentation, proof as CredentialProof, holder, 'authentication');
+  const base = { holder, proof: result, presentation };
+  if (result.status !== 'verified') return { ...base, status: 'invalid-proof', message: result.message };
+  if (proof.challenge !== challenge) return { ...base, status: 'challenge-mismatch', message: 'Proof challenge does not match' };
+  if (!includesValue(proof.domain, domain)) return { ...base, status: 'domain-mismatch', message: 'Proof domain does not match' };
+  if (typeof proof.expires === 'string' && new Date(proof.expires) < new Date()) {
+    return { ...base, status: 'expired', message: 'Presentation proof has expired' };
+  }
+  return { ...base, status: 'verified', message: result.message };
+};
+
+const checkJwtPresentation = async (
+  jwt: string,
+  { challenge, domain }: Pick<PresentationOptions, 'challenge' | 'domain'>
+): Promise<PresentationProofCheck> => {
+  let jws: ReturnType<typeof decodeJws>;
+  try {
+    jws = decodeJws(jwt.trim());
+  } catch (error) {
+    return { status: 'malformed', message: error instanceof Error ? error.message : 'Malformed JWT' };
+  }
+
+  const { header, payload } = jws;
+  const iss = typeof payload.iss === 'string' ? payload.iss : undefined;
+  const presentation = (payload.vp && typeof payload.vp === 'object' ? payload.vp : payload['@context'] ? payload : undefined) as
+    VerifiablePresentation | undefined;
+  if (!iss || !presentation || !Array.isArray(presentation.type) || !presentation.type.includes('VerifiablePresentation')) {
+    return { status: 'malformed', message: 'JWT does not carry a VerifiablePresentation issued by its holder' };
+  }
+  const holder = presentation.holder ?? iss;
+  if (holder !== iss) {
+    return { status: 'invalid-proof', message: 'Presentation holder is not the JWT issuer', holder };
+  }
+
+  const alg = String(header.alg);
+  const kid = typeof header.kid === 'string' ? header.kid : undefined;
+  const verificationMethod = kid?.startsWith('#') ? `${iss}${kid}` : kid || iss;
+  const base = { proofType: `${header.typ === 'vp+jwt' ? 'vp+jwt' : 'jwt_vp'} (${alg})`, verificationMethod };
+  const reject = (proof: ProofVerificationResult): PresentationProofCheck =>
+    ({ status: 'invalid-proof', message: proof.message, holder, proof });
+
+  const keyAlgorithm = JWS_KEY_ALGORITHMS[alg];
+  if (!keyAlgorithm) {
+    return reject({ ...base, status: 'unsupported-suite', message: `JWS algorithm ${alg} is not supported` });
+  }
+  let key: ResolvedVerificationKey;
+  try {
+    key = await resolveVerificationMethod(verificationMethod, 'authentication');
+  } catch (error) {
+    return reject({ ...base, status: 'unresolvable-key', message: error instanceof Error ? error.message : 'Unable to resolve verification method' });
+  }
+  if (key.algorithm !== keyAlgorithm) {
+    return reject({ ...base, status: 'invalid-signature', message: `${key.algorithm} keys cannot be used with ${alg}` });
+  }
+  if (key.controller !== holder) {
+    return reject({ ...base, status: 'invalid-signature', message: `Verification method is not controlled by ${holder}` });
+  }
+  const isValid = await crypto.subtle.verify(getSignatureAlgorithm(key.algorithm), await importVerificationKey(key), jws.signature, jws.signingInput);
+  if (!isValid) {
+    return reject({ ...base, status: 'invalid-signature', message: 'Signature does not match the JWT contents' });
+  }
+
+  const checked = { holder, presentation, proof: { ...base, status: 'verified' as const, message: `Signature verified with ${alg}` } };
+  if (payload.nonce !== challenge) return { ...checked, status: 'challenge-mismatch', message: 'JWT nonce does not match the challenge' };
+  if (!includesValue(payload.aud, domain)) return { ...checked, status: 'domain-mismatch', message: 'JWT audience does not match the domain' };
+  if (typeof payload.exp === 'number' && payload.exp * 1000 < Date.now()) {
+    return { ...checked, status: 'expired', message: 'Presentation JWT has expired' };
+  }
+  return { ...checked, status: 'verified', message: checked.proof.message };
+};
+
+// Verifier side: check a JSON-LD or JWT presentation was signed by its holder for this challenge and
+// domain, and verify every credential it carries
+export const verifyPresentation = async (
+  presentation: VerifiablePresentation | string,
+  expected: Pick<PresentationOptions, 'challenge' | 'domain'>
+): Promise<PresentationVerificationResult> => {
+  try {
+    const check = typeof presentation === 'string'
+      ? await checkJwtPresentation(presentation, expected)
+      : await checkDataIntegrityPresentation(presentation, expected);
+    const { presentation: checked, ...result } = check;
+    if (result.status !== 'verified' || !checked || !result.holder) {
+      return { ...result, credentials: [] };
+    }
+
+    const credentials = await verifyPresentedCredentials(checked, result.holder);
+    const invalid = credentials.filter(credential => credential.proof.status !== 'verified');
+    if (invalid.length > 0) {
+      return {
+        ...result,
+        status: 'invalid-credential',
+        message: `${invalid.length} presented credential${invalid.length !== 1 ? 's do' : ' does'} not verify`,
+        credentials
+      };
+    }
+    // Anyone can present a credential they were shown; only the subject (or the issuer of a derived
+    // credential) proves they are entitled to it by signing the presentation
+    const unbound = credentials.filter(credential => !credential.holderBound);
+    return unbound.length > 0
+      ? {
+          ...result,
+          status: 'unbound-credential',
+          message: `${unbound.length} presented credential${unbound.length !== 1 ? 's are' : ' is'} not about the holder`,
+          credentials
+        }
+      : { ...result, message: `Presentation and ${credentials.length} credential${credentials.length !== 1 ? 's' : ''} verified`, credentials };
+  } catch (error) {
+    console.warn('Failed to verify presentation:', error);
+    return {
+      status: 'malformed',
+      message: `Verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      credentials: []
+    };
+  }
+};
@@ -0,0 +1,261 @@
+import * as RDF from '@rdfjs/types';
+import { Algebra, Util } from 'sparqlalgebrajs';
+import { termToString } from 'rdf-string-ttl';
+import { DisclosedTerm, DisclosureAnalysis, DisclosureKind } from '@/types/credential';
+
+// Attributes that identify a person on their own, matched by local name so any vocabulary's
+// birthDate or name counts
+const DIRECT_IDENTIFIERS = new Set([
+  'name', 'givenName', 'familyName', 'lprNumber', 'email', 'telephone', 'identifier', 'taxID', 'passportNumber', 'image'
+]);
+// Attributes that single a person out in combination
+const QUASI_IDENTIFIERS = new Set([
+  'birthDate', 'gender', 'birthCountry', 'birthPlace', 'nationality', 'postalCode', 'address', 'residentSince'
+]);
+// Attributes whose values are other resources rather than data about the subject
+const LINK_ATTRIBUTES = new Set(['credentialSubject', 'issuer', 'holder']);
+
+const BOOLEAN_OPERATORS = new Set([
+  '=', '!=', '<', '>', '<=', '>=', '&&', '||', '!', 'bound', 'regex', 'sameterm', 'in', 'notin', 'langmatches',
+  'contains', 'strstarts', 'strends', 'isiri', 'isuri', 'isblank', 'isliteral', 'isnumeric'
+]);
+const XSD_BOOLEAN = 'http://www.w3.org/2001/XMLSchema#boolean';
+
+const localName = (iri: string) => iri.slice(Math.max(iri.lastIndexOf('#'), iri.lastIndexOf('/')) + 1);
+
+// Variables bound by the triple patterns, property paths, BIND, VALUES and aggregates in an operation,
+// including any CONSTRUCT template
+export const collectVariablesFromAlgebra = (operation: Algebra.Operation): Set<string> => {
+  const variables = new Set<string>();
+  const collect = (...terms: RDF.Term[]) => terms.forEach(term => {
+    if (term.termType === 'Variable') variables.add(term.value);
+  });
+  Util.recurseOperation(operation, {
+    [Algebra.types.PATTERN]: (pattern: Algebra.Pattern) => {
+      collect(pattern.subject, pattern.predicate, pattern.object, pattern.graph);
+      return false;
+    },
+    [Algebra.types.PATH]: (path: Algebra.Path) => {
+      collect(path.subject, path.object, path.graph);
+      return false;
+    },
+    [Algebra.types.GRAPH]: (graph: Algebra.Graph) => {
+      collect(graph.name);
+      return true;
+    },
+    [Algebra.types.EXTEND]: (extend: Algebra.Extend) => {
+      collect(extend.variable);
+      return true;
+    },
+    [Algebra.types.GROUP]: (group: Algebra.Group) => {
+      collect(...group.aggregates.map(aggregate => aggregate.variable));
+      return true;
+    },
+    [Algebra.types.VALUES]: (values: Algebra.Values) => {
+      collect(...values.variables);
+      return false;
+    }
+  });
+  return variables;
+};
+
+// How a variable gets its value in the WHERE clause
+type VariableSource =
+  | { type: 'position'; position: 'subject' | 'predicate' | 'object' | 'graph'; attributes: string[] }
+  | { type: 'expression'; expression: Algebra.Expression }
+  | { type: 'aggregate'; aggregate: Algebra.BoundAggregate }
+  | { type: 'values' };
+
+const collectVariableSources = (operation: Algebra.Operation): Map<string, VariableSource[]> => {
+  const sources = new Map<string, VariableSource[]>();
+  const add = (variable: RDF.Term, source: VariableSource) => {
+    if (variable.termType !== 'Variable') return;
+    sources.set(variable.value, [...sources.get(variable.value) ?? [], source]);
+  };
+  const addTriple = (subject: RDF.Term, attributes: string[], object: RDF.Term, graph: RDF.Term) => {
+    add(subject, { type: 'position', position: 'subject', attributes: [] });
+    add(object, { type: 'position', position: 'object', attributes });
+    add(graph, { type: 'position', position: 'graph', attributes: [] });
+  };
+
+  Util.recurseOperation(operation, {
+    [Algebra.types.PATTERN]: (pattern: Algebra.Pattern) => {
+      addTriple(pattern.subject, pattern.predicate.termType === 'NamedNode' ? [localName(pattern.predicate.value)] : [], pattern.object, pattern.graph);
+      add(pattern.predicate, { type: 'position', position: 'predicate', attributes: [] });
+      return false;
+    },
+    [Algebra.types.GRAPH]: (graph: Algebra.Graph) => {
+      add(graph.name, { type: 'position', position: 'graph', attributes: [] });
+      return true;
+    },
+    [Algebra.types.PATH]: (path: Algebra.Path) => {
+      const attributes: string[] = [];
+      Util.recurseOperation(path.predicate, {
+        [Algebra.types.LINK]: (link: Algebra.Link) => {
+          attributes.push(localName(link.iri.value));
+          return false;
+        }
+      });
+      addTriple(path.subject, attributes, path.object, path.graph);
+      return false;
+    },
+    [Algebra.types.EXTEND]: (extend: Algebra.Extend) => {
+      add(extend.variable, { type: 'expression', expression: extend.expression });
+      return true;
+    },
+    [Algebra.types.GROUP]: (group: Algebra.Group) => {
+      group.aggregates.forEach(aggregate => add(aggregate.variable, { type: 'aggregate', aggregate }));
+      return true;
+    },
+    [Algebra.types.VALUES]: (values: Algebra.Values) => {
+      values.variables.forEach(variable => add(variable, { type: 'values' }));
+      return false;
+    }
+  });
+  return sources;
+};
+
+interface Classification {
+  kind: DisclosureKind;
+  attributes: string[];
+}
+
+const unique = (values: string[]) => [...new Set(values)];
+
+// Classify what a variable's values reveal, following BIND and aggregate expressions back to the
+// attributes they were computed from
+const createClassifier = (sources: Map<string, VariableSource[]>) => {
+  const classifyVariable = (name: string, seen: Set<string>): Classification => {
+    const variableSources = sources.get(name);
+    // Unbound variables, or ones already being classified in a cycle, reveal nothing further
+    if (!variableSources || seen.has(name)) return { kind: 'constant', attributes: [] };
+    seen = new Set([...seen, name]);
+
+    const computed = variableSources.find(source => source.type === 'expression' || source.type === 'aggregate');
+    if (computed?.type === 'expression') return classifyExpression(computed.expression, seen);
+    if (computed?.type === 'aggregate') {
+      const input = classifyExpression(computed.aggregate.expression, seen);
+      // MIN, MAX, SAMPLE and GROUP_CONCAT return the values they aggregate
+      if (['min', 'max', 'sample', 'group_concat'].includes(computed.aggregate.aggregator)) return input;
+      return { kind: 'derived-value', attributes: computed.aggregate.aggregator === 'count' ? [] : input.attributes };
+    }
+
+    const positions = variableSources.flatMap(source => source.type === 'position' ? [source] : []);
+    if (positions.length === 0) return { kind: 'constant', attributes: [] };
+    const attributes = unique(positions.flatMap(source => source.attributes));
+    const isIdentifier = positions.some(source => source.position !== 'object') ||
+      (attributes.length > 0 && attributes.every(attribute => LINK_ATTRIBUTES.has(attribute)));
+    return isIdentifier
+      ? { kind: 'identifier', attributes: [] }
+      : { kind: 'personal-attribute', attributes };
+  };
+
+  const classifyExpression = (expression: Algebra.Expression, seen: Set<string>): Classification => {
+    const inputs = (expressions: Algebra.Expression[]) =>
+      unique(expressions.flatMap(input => classifyExpression(input, seen).attributes));
+    switch (expression.expressionType) {
+      case Algebra.expressionTypes.TERM:
+        return expression.term.termType === 'Variable'
+          ? classifyVariable(expression.term.value, seen)
+          : { kind: 'constant', attributes: [] };
+      case Algebra.expressionTypes.OPERATOR:
+        return {
+          kind: BOOLEAN_OPERATORS.has(expression.operator) ? 'derived-boolean' : 'derived-value',
+          attributes: inputs(expression.args)
+        };
+      case Algebra.expressionTypes.NAMED:
+        return {
+          kind: expression.name.value === XSD_BOOLEAN ? 'derived-boolean' : 'derived-value',
+          attributes: inputs(expression.args)
+        };
+      case Algebra.expressionTypes.EXISTENCE:
+        return { kind: 'derived-boolean', attributes: [] };
+      case Algebra.expressionTypes.AGGREGATE:
+        return { kind: 'derived-value', attributes: inputs([expression.expression]) };
+      default:
+        return { kind: 'constant', attributes: [] };
+    }
+  };
+
+  return (name: string) => classifyVariable(name, new Set());
+};
+
+const identifyingLevel = ({ kind, attributes }: Classification): DisclosedTerm['identifying'] => {
+  // A boolean about an attribute does not reveal the attribute itself
+  if (kind === 'derived-boolean' || kind === 'constant') return undefined;
+  if (attributes.some(attribute => DIRECT_IDENTIFIERS.has(attribute))) return 'direct';
+  if (attributes.some(attribute => QUASI_IDENTIFIERS.has(attribute))) return 'quasi';
+  return undefined;
+};
+
+const toDisclosedTerm = (term: string, classification: Classification): DisclosedTerm => ({
+  term,
+  ...classification,
+  identifying: identifyingLevel(classification)
+});
+
+const collectWarnings = (terms: DisclosedTerm[]): string[] => {
+  const warnings: string[] = [];
+  const identifiers = terms.filter(term => term.kind === 'identifier');
+  if (identifiers.length > 0) {
+    warnings.push(`${identifiers.map(term => term.term).join(', ')} disclose${identifiers.length === 1 ? 's' : ''} identifiers (such as DIDs or credential ids) that let verifiers link presentations together`);
+  }
+  for (const term of terms.filter(term => term.identifying === 'direct')) {
+    warnings.push(`${term.term} discloses ${term.attributes.filter(attribute => DIRECT_IDENTIFIERS.has(attribute)).join(', ')}, which can identify a person directly`);
+  }
+  const quasiIdentifiers = unique(terms.flatMap(term =>
+    term.identifying ? term.attributes.filter(attribute => QUASI_IDENTIFIERS.has(attribute)) : []));
+  if (quasiIdentifiers.length === 1) {
+    warnings.push(`${quasiIdentifiers[0]} is a quasi-identifier; consider disclosing a boolean derived from it instead`);
+  } else if (quasiIdentifiers.length > 1) {
+    warnings.push(`Together, ${quasiIdentifiers.join(', ')} are quasi-identifiers that can single out the holder`);
+  }
+  return warnings;
+};
+
+// Which attributes the output of a query form (as returned by getQueryForm) discloses: each projected
+// variable, CONSTRUCT template term, ASK result or DESCRIBE resource, classified by what it reveals
+export const analyzeQueryDisclosure = (operation: Algebra.Operation): DisclosureAnalysis => {
+  switch (operation.type) {
+    case Algebra.types.PROJECT: {
+      const classify = createClassifier(collectVariableSources(operation.input));
+      const terms = operation.variables.map(variable => toDisclosedTerm(`?${variable.value}`, classify(variable.value)));
+      return { queryType: 'SELECT', terms, warnings: collectWarnings(terms) };
+    }
+    case Algebra.types.CONSTRUCT: {
+      const classify = createClassifier(collectVariableSources(operation.input));
+      // Template variables the WHERE clause never binds produce no statements
+      const bound = collectVariablesFromAlgebra(operation.input);
+      const terms = new Map<string, DisclosedTerm>();
+      for (const { subject, object } of operation.template) {
+        for (const term of [subject, object]) {
+          if (term.termType === 'Variable' && bound.has(term.value)) {
+            terms.set(`?${term.value}`, toDisclosedTerm(`?${term.value}`, classify(term.value)));
+          } else if (term.termType === 'NamedNode' || term.termType === 'Literal') {
+            terms.set(termToString(term), toDisclosedTerm(termToString(term), { kind: 'constant', attributes: [] }));
+          }
+        }
+      }
+      return { queryType: 'CONSTRUCT', terms: [...terms.values()], warnings: collectWarnings([...terms.values()]) };
+    }
+    case Algebra.types.ASK: {
+      const attributes = unique([...collectVariableSources(operation.input).values()].flatMap(sources =>
+        sources.flatMap(source => source.type === 'position' ? source.attributes : [])));
+      return { queryType: 'ASK', terms: [toDisclosedTerm('ASK result', { kind: 'derived-boolean', attributes })], warnings: [] };
+    }
+    case Algebra.types.DESCRIBE: {
+      const terms = operation.terms.map(term =>
+        toDisclosedTerm(termToString(term), { kind: 'identifier', attributes: [] }));
+      return {
+        queryType: 'DESCRIBE',
+        terms,
+        warnings: [
+          ...collectWarnings(terms),
+          'DESCRIBE discloses every statement about the described resources, whichever attributes they hold'
+        ]
+      };
+    }
+    default:
+      throw new Error(`Cannot analyze the disclosure of a ${operation.type} query`);
+  }
+};
@@ -0,0 +1,63 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { VerifiableCredential } from '@/types/credential';
+import { ed25519PublicKeyToDidKey } from '@/utils/holderKeyUtils';
+import { SigningKey, signWithDataIntegrity, verifyCredentialProof } from '@/utils/proofUtils';
+
+const createIssuerKey = async (): Promise<SigningKey & { did: string }> => {
+  const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  const did = await ed25519PublicKeyToDidKey(keyPair.publicKey);
+  return { did, verificationMethod: `${did}#${did.slice('did:key:'.length)}`, algorithm: 'Ed25519', privateKey: keyPair.privateKey };
+};
+
+describe('verifyCredentialProof', () => {
+  let issuer: SigningKey & { did: string };
+  let credential: VerifiableCredential;
+
+  beforeAll(async () => {
+    issuer = await createIssuerKey();
+    credential = await signWithDataIntegrity({
+      '@context': ['https://www.w3.org/ns/credentials/v2', { '@vocab': 'https://schema.org/' }],
+      id: 'urn:uuid:signed-credential',
+      type: ['VerifiableCredential'],
+      issuer: issuer.did,
+      validFrom: '2024-01-01T00:00:00Z',
+      credentialSubject: { id: 'did:example:alex', name: 'Alex' }
+    }, issuer) as VerifiableCredential;
+  });
+
+  it('verifies an eddsa-rdfc-2022 proof made by the issuer', async () => {
+    await expect(verifyCredentialProof(credential)).resolves.toMatchObject({ status: 'verified', proofType: 'DataIntegrityProof (eddsa-rdfc-2022)' });
+  });
+
+  it('rejects a credential changed after signing', async () => {
+    const altered = { ...credential, credentialSubject: { ...credential.credentialSubject, name: 'Sam' } };
+    await expect(verifyCredentialProof(altered)).resolves.toMatchObject({
+      status: 'invalid-signature',
+      message: 'Signature does not match the document contents'
+    });
+  });
+
+  it('rejects a proof made with a key the issuer does not control', async () => {
+    // The proof being replaced is left out of what is signed
+    const resigned = await signWithDataIntegrity(credential, await createIssuerKey()) as VerifiableCredential;
+    await expect(verifyCredentialProof(resigned)).resolves.toMatchObject({ status: 'invalid-signature' });
+  });
+
+  it('rejects a proof for another purpose, or for none', async () => {
+    const forAuthentication = await signWithDataIntegrity(credential, issuer, { proofPurpose: 'authentication' }) as VerifiableCredential;
+    await expect(verifyCredentialProof(forAuthentication)).resolves.toMatchObject({
+      status: 'invalid-signature',
+      message: 'Proof purpose is authentication, not assertionMethod'
+    });
+
+    const withoutPurpose = { ...credential, proof: { ...credential.proof, proofPurpose: undefined } } as unknown as VerifiableCredential;
+    await expect(verifyCredentialProof(withoutPurpose)).resolves.toMatchObject({
+      status: 'invalid-signature',
+      message: 'Proof does not state its proofPurpose'
+    });
+  });
+
+  it('reports a credential without a proof as unsigned', async () => {
+    await expect(verifyCredentialProof({ ...credential, proof: undefined })).resolves.toMatchObject({ status: 'unsigned' });
+  });
+});
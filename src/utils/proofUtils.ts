@@ -0,0 +1,366 @@
+import * as jsonld from 'jsonld';
+import { canonize } from 'rdf-canonize';
+import { VerifiableCredential, ProofVerificationResult } from '@/types/credential';
+import {
+  KeyAlgorithm,
+  ProofPurpose,
+  ResolvedVerificationKey,
+  resolveVerificationMethod,
+  importVerificationKey
+} from '@/utils/didUtils';
+import {
+  concatBytes,
+  decodeBase64url,
+  decodeMultibase,
+  encodeMultibaseBase58btc,
+  utf8Decode,
+  utf8Encode
+} from '@/utils/encodingUtils';
+import { isBbsProof, verifyBbsProof } from '@/utils/bbsUtils';
+import { documentLoader } from '@/utils/contextUtils';
+import { JWS_KEY_ALGORITHMS, decodeCredentialEnvelope, decodeJws, getIssuerJwt } from '@/utils/jwtUtils';
+
+export type CredentialProof = NonNullable<VerifiableCredential['proof']>;
+
+export interface SigningKey {
+  verificationMethod: string;
+  algorithm: KeyAlgorithm;
+  privateKey: CryptoKey;
+}
+
+type HashAlgorithm = 'SHA-256' | 'SHA-384';
+
+interface ProofSuite {
+  name: string;
+  keyAlgorithms: KeyAlgorithm[];
+  signatureEncoding: 'multibase' | 'detached-jws';
+}
+
+// Suites we can verify locally with WebCrypto and RDF Dataset Canonicalization
+const getProofSuite = (proof: CredentialProof): ProofSuite | null => {
+  switch (proof.type) {
+    case 'Ed25519Signature2020':
+      return { name: proof.type, keyAlgorithms: ['Ed25519'], signatureEncoding: 'multibase' };
+    case 'Ed25519Signature2018':
+      return { name: proof.type, keyAlgorithms: ['Ed25519'], signatureEncoding: 'detached-jws' };
+    case 'DataIntegrityProof':
+      if (proof.cryptosuite === 'eddsa-rdfc-2022') {
+        return { name: proof.cryptosuite, keyAlgorithms: ['Ed25519'], signatureEncoding: 'multibase' };
+      }
+      if (proof.cryptosuite === 'ecdsa-rdfc-2019') {
+        return { name: proof.cryptosuite, keyAlgorithms: ['P-256', 'P-384'], signatureEncoding: 'multibase' };
+      }
+      return null;
+    default:
+      return null;
+  }
+};
+
+export const getHashAlgorithmForKey = (algorithm: KeyAlgorithm): HashAlgorithm =>
+  algorithm === 'P-384' ? 'SHA-384' : 'SHA-256';
+
+// Canonicalize a JSON-LD document with RDFC-1.0 (the standardized URDNA2015)
+export const canonicalizeDocument = async (document: object): Promise<string> => {
+  const nquads = await jsonld.toRDF(document as jsonld.JsonLdDocument, { format: 'application/n-quads', documentLoader });
+  return canonize(nquads, {
+    algorithm: 'RDFC-1.0',
+    inputFormat: 'application/n-quads',
+    format: 'application/n-quads'
+  });
+};
+
+const digest = async (algorithm: HashAlgorithm, value: string): Promise<Uint8Array> =>
+  new Uint8Array(await crypto.subtle.digest(algorithm, utf8Encode(value)));
+
+// Both Linked Data Signatures and Data Integrity sign hash(proof options) || hash(document),
+// where the proof options inherit the document's @context
+export const createVerifyData = async (
+  document: Record<string, unknown>,
+  proof: CredentialProof,
+  hashAlgorithm: HashAlgorithm = 'SHA-256'
+): Promise<Uint8Array> => {
+  const unsecuredDocument = { ...document };
+  delete unsecuredDocument.proof;
+
+  const proofOptions: Record<string, unknown> = { ...proof, '@context': document['@context'] };
+  delete proofOptions.proofValue;
+  delete proofOptions.jws;
+
+  const [proofHash, documentHash] = await Promise.all([
+    canonicalizeDocument(proofOptions).then(canonical => digest(hashAlgorithm, canonical)),
+    canonicalizeDocument(unsecuredDocument).then(canonical => digest(hashAlgorithm, canonical))
+  ]);
+
+  return concatBytes(proofHash, documentHash);
+};
+
+export const getSignatureAlgorithm = (algorithm: KeyAlgorithm): AlgorithmIdentifier | EcdsaParams =>
+  algorithm === 'Ed25519'
+    ? { name: 'Ed25519' }
+    : { name: 'ECDSA', hash: getHashAlgorithmForKey(algorithm) };
+
+// Ed25519Signature2018 uses an unencoded-payload detached JWS over the verify data
+const decodeDetachedJws = (jws: string, verifyData: Uint8Array): { signature: Uint8Array; signingInput: Uint8Array } => {
+  const [encodedHeader, payload, encodedSignature] = jws.split('.');
+  if (!encodedHeader || payload !== '' || !encodedSignature) {
+    throw new Error('Expected a detached JWS');
+  }
+
+  const header = JSON.parse(utf8Decode(decodeBase64url(encodedHeader)));
+  if (header.alg !== 'EdDSA' || header.b64 !== false || !Array.isArray(header.crit) || !header.crit.includes('b64')) {
+    throw new Error('Unsupported JWS header for Ed25519Signature2018');
+  }
+
+  return {
+    signature: decodeBase64url(encodedSignature),
+    signingInput: concatBytes(utf8Encode(encodedHeader + '.'), verifyData)
+  };
+};
+
+const getIssuerId = (credential: VerifiableCredential): string | undefined =>
+  typeof credential.issuer === 'string' ? credential.issuer : credential.issuer?.id;
+
+// Proofs are untrusted input: the fields read before verifying must be strings, or reading them would throw
+const PROOF_STRING_FIELDS = ['type', 'verificationMethod'];
+const OPTIONAL_PROOF_STRING_FIELDS = ['cryptosuite', 'proofValue', 'jws', 'proofPurpose'];
+
+const checkProofFields = (proof: unknown): ProofVerificationResult | undefined => {
+  if (typeof proof !== 'object' || proof === null || Array.isArray(proof)) {
+    return { status: 'invalid-signature', message: 'Proof is not an object' };
+  }
+  const fields = proof as Record<string, unknown>;
+  const malformed = PROOF_STRING_FIELDS.find(field => typeof fields[field] !== 'string') ??
+    OPTIONAL_PROOF_STRING_FIELDS.find(field => fields[field] !== undefined && typeof fields[field] !== 'string');
+  return malformed ? { status: 'invalid-signature', message: `Proof ${malformed} is missing or not a string` } : undefined;
+};
+
+// bbs-2023 needs BLS12-381 pairings, which WebCrypto does not provide
+const verifyBbsCredentialProof = async (
+  credential: VerifiableCredential,
+  proof: CredentialProof,
+  base: Pick<ProofVerificationResult, 'proofType' | 'verificationMethod'>
+): Promise<ProofVerificationResult> => {
+  if (proof.verificationMethod.split('#')[0] !== getIssuerId(credential)) {
+    return { ...base, status: 'invalid-signature', message: 'Verification method is not controlled by the credential issuer' };
+  }
+
+  try {
+    const { verified, message } = await verifyBbsProof(credential);
+    return { ...base, status: verified ? 'verified' : 'invalid-signature', message };
+  } catch (error) {
+    console.warn(`Failed to verify bbs-2023 proof on credential ${credential.id}:`, error);
+    return {
+      ...base,
+      status: 'error',
+      message: `Verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+const describeProof = (proof: CredentialProof) => ({
+  proofType: proof.cryptosuite ? `${proof.type} (${proof.cryptosuite})` : proof.type,
+  verificationMethod: proof.verificationMethod
+});
+
+const verifySingleProof = async (
+  credential: VerifiableCredential,
+  proof: CredentialProof
+): Promise<ProofVerificationResult> => {
+  const malformed = checkProofFields(proof);
+  if (malformed) return malformed;
+
+  const issuerId = getIssuerId(credential);
+  if (typeof issuerId !== 'string') {
+    return { ...describeProof(proof), status: 'invalid-signature', message: 'Credential does not name its issuer' };
+  }
+  if (isBbsProof(proof)) {
+    return verifyBbsCredentialProof(credential, proof, describeProof(proof));
+  }
+  return verifyDocumentProof(credential, proof, issuerId);
+};
+
+// Verify a Linked Data or Data Integrity proof on any JSON-LD document, made with a key the given
+// DID controls (a credential's issuer, a presentation's holder) and authorizes for the proof purpose
+export const verifyDocumentProof = async (
+  document: Record<string, unknown>,
+  proof: CredentialProof,
+  controller: string,
+  proofPurpose: ProofPurpose = 'assertionMethod'
+): Promise<ProofVerificationResult> => {
+  const malformed = checkProofFields(proof);
+  if (malformed) return malformed;
+  const base = describeProof(proof);
+  // A proof that does not state its purpose could be replayed for any purpose its key is authorized for
+  if (proof.proofPurpose === undefined) {
+    return { ...base, status: 'invalid-signature', message: 'Proof does not state its proofPurpose' };
+  }
+  if (proof.proofPurpose !== proofPurpose) {
+    return { ...base, status: 'invalid-signature', message: `Proof purpose is ${proof.proofPurpose}, not ${proofPurpose}` };
+  }
+
+  const suite = getProofSuite(proof);
+  if (!suite) {
+    return { ...base, status: 'unsupported-suite', message: `Proof suite ${base.proofType} is not supported` };
+  }
+
+  let key: ResolvedVerificationKey;
+  try {
+    key = await resolveVerificationMethod(proof.verificationMethod, proofPurpose);
+  } catch (error) {
+    return {
+      ...base,
+      status: 'unresolvable-key',
+      message: error instanceof Error ? error.message : 'Unable to resolve verification method'
+    };
+  }
+
+  if (!suite.keyAlgorithms.includes(key.algorithm)) {
+    return { ...base, status: 'invalid-signature', message: `${key.algorithm} keys cannot be used with ${suite.name}` };
+  }
+
+  if (key.controller !== controller) {
+    return { ...base, status: 'invalid-signature', message: `Verification method is not controlled by ${controller}` };
+  }
+
+  try {
+    const verifyData = await createVerifyData(document, proof, getHashAlgorithmForKey(key.algorithm));
+
+    let signature: Uint8Array;
+    let signedData: Uint8Array;
+    if (suite.signatureEncoding === 'detached-jws') {
+      if (!proof.jws) {
+        return { ...base, status: 'invalid-signature', message: 'Proof is missing its jws value' };
+      }
+      ({ signature, signingInput: signedData } = decodeDetachedJws(proof.jws, verifyData));
+    } else {
+      if (!proof.proofValue) {
+        return { ...base, status: 'invalid-signature', message: 'Proof is missing its proofValue' };
+      }
+      signature = decodeMultibase(proof.proofValue);
+      signedData = verifyData;
+    }
+
+    const publicKey = await importVerificationKey(key);
+    const isValid = await crypto.subtle.verify(getSignatureAlgorithm(key.algorithm), publicKey, signature, signedData);
+
+    return isValid
+      ? { ...base, status: 'verified', message: `Signature verified with ${suite.name}` }
+      : { ...base, status: 'invalid-signature', message: 'Signature does not match the document contents' };
+  } catch (error) {
+    console.warn(`Failed to verify proof on ${document.id || 'document'}:`, error);
+    return {
+      ...base,
+      status: 'error',
+      message: `Verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+// JWT-secured credentials are verified against the issuer's JWS, and their decoded contents must
+// match what the envelope carries
+const verifyEnvelopeProof = async (credential: VerifiableCredential): Promise<ProofVerificationResult> => {
+  const envelope = credential.envelope!;
+
+  let jws: ReturnType<typeof decodeJws>;
+  try {
+    jws = decodeJws(getIssuerJwt(envelope));
+  } catch (error) {
+    return { status: 'invalid-signature', message: error instanceof Error ? error.message : 'Malformed JWT' };
+  }
+
+  const alg = String(jws.header.alg);
+  const kid = typeof jws.header.kid === 'string' ? jws.header.kid : undefined;
+  const iss = typeof jws.payload.iss === 'string' ? jws.payload.iss : getIssuerId(credential);
+  const verificationMethod = kid?.startsWith('#') ? `${iss}${kid}` : kid || iss;
+  if (!verificationMethod) {
+    return { proofType: `${envelope.format} (${alg})`, status: 'invalid-signature', message: 'JWT names neither its key nor its issuer' };
+  }
+  const base = { proofType: `${envelope.format} (${alg})`, verificationMethod };
+
+  const keyAlgorithm = JWS_KEY_ALGORITHMS[alg];
+  if (!keyAlgorithm) {
+    return { ...base, status: 'unsupported-suite', message: `JWS algorithm ${alg} is not supported` };
+  }
+
+  let key: ResolvedVerificationKey;
+  try {
+    key = await resolveVerificationMethod(verificationMethod, 'assertionMethod');
+  } catch (error) {
+    return {
+      ...base,
+      status: 'unresolvable-key',
+      message: error instanceof Error ? error.message : 'Unable to resolve verification method'
+    };
+  }
+
+  if (key.algorithm !== keyAlgorithm) {
+    return { ...base, status: 'invalid-signature', message: `${key.algorithm} keys cannot be used with ${alg}` };
+  }
+
+  if (key.controller !== getIssuerId(credential)) {
+    return { ...base, status: 'invalid-signature', message: 'Verification method is not controlled by the credential issuer' };
+  }
+
+  try {
+    const publicKey = await importVerificationKey(key);
+    const isValid = await crypto.subtle.verify(getSignatureAlgorithm(key.algorithm), publicKey, jws.signature, jws.signingInput);
+    if (!isValid) {
+      return { ...base, status: 'invalid-signature', message: 'Signature does not match the JWT contents' };
+    }
+
+    const decoded = await decodeCredentialEnvelope(envelope);
+    if (JSON.stringify(decoded) !== JSON.stringify(credential)) {
+      return { ...base, status: 'invalid-signature', message: 'Credential contents differ from its signed JWT' };
+    }
+
+    return { ...base, status: 'verified', message: `Signature verified with ${alg}` };
+  } catch (error) {
+    console.warn(`Failed to verify JWT on credential ${credential.id}:`, error);
+    return {
+      ...base,
+      status: 'error',
+      message: `Verification failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
+
+export const verifyCredentialProof = async (credential: VerifiableCredential): Promise<ProofVerificationResult> => {
+  if (credential.envelope) {
+    return verifyEnvelopeProof(credential);
+  }
+
+  const proofs = (Array.isArray(credential.proof) ? credential.proof : [credential.proof])
+    .filter((proof): proof is CredentialProof => proof !== undefined && proof !== null);
+
+  if (proofs.length === 0) {
+    return { status: 'unsigned', message: 'Credential does not carry a proof' };
+  }
+
+  // A proof set is only trusted when every proof in it verifies
+  const results = await Promise.all(proofs.map(proof => verifySingleProof(credential, proof)));
+  return results.find(result => result.status !== 'verified') || results[0];
+};
+
+// Secure a document with a DataIntegrityProof (eddsa-rdfc-2022 or ecdsa-rdfc-2019 depending on the key)
+export const signWithDataIntegrity = async <T extends Record<string, unknown>>(
+  document: T,
+  key: SigningKey,
+  proofOptions: Record<string, unknown> = {}
+): Promise<T & { proof: CredentialProof }> => {
+  const proof: CredentialProof = {
+    type: 'DataIntegrityProof',
+    cryptosuite: key.algorithm === 'Ed25519' ? 'eddsa-rdfc-2022' : 'ecdsa-rdfc-2019',
+    created: new Date().toISOString(),
+    verificationMethod: key.verificationMethod,
+    proofPurpose: 'assertionMethod',
+    ...proofOptions
+  };
+
+  const verifyData = await createVerifyData(document, proof, getHashAlgorithmForKey(key.algorithm));
+  const signature = await crypto.subtle.sign(getSignatureAlgorithm(key.algorithm), key.privateKey, verifyData);
+
+  return {
+    ...document,
+    proof: { ...proof, proofValue: encodeMultibaseBase58btc(new Uint8Array(signature)) }
+  };
+};
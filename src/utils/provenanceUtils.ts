@@ -0,0 +1,175 @@
+import * as RDF from '@rdfjs/types';
+import { Algebra, Factory, Util } from 'sparqlalgebrajs';
+import { DataFactory } from 'n3';
+import { termToString } from 'rdf-string-ttl';
+import { DEFAULT_GRAPH_ALIAS_PREFIX, findCredentialGraph } from '@/utils/quadStore';
+
+// A SELECT query rewritten to also bind the graph of every triple it matches
+export interface ProvenanceQuery {
+  operation: Algebra.Project;
+  sourceVariables: RDF.Variable[];
+}
+
+// Source credential ids per query binding, recorded by executeSPARQLQuery. Bindings are immutable,
+// so keying by identity keeps results usable as plain RDF.Bindings everywhere else.
+const bindingSources = new WeakMap<RDF.Bindings, string[]>();
+
+export const recordBindingSources = (binding: RDF.Bindings, credentialIds: string[]) => {
+  bindingSources.set(binding, credentialIds);
+};
+
+// The source credentials whose triples were matched to produce a binding (undefined if it was not
+// returned by executeSPARQLQuery)
+export const getBindingSources = (binding: RDF.Bindings): string[] | undefined => bindingSources.get(binding);
+
+// Union of the sources of several bindings, in the order of `credentialIds`; bindings without recorded
+// sources could have come from any of them
+export const collectBindingSources = (bindings: RDF.Bindings[], credentialIds: string[]): string[] => {
+  const sources = new Set<string>();
+  for (const binding of bindings) {
+    (getBindingSources(binding) ?? credentialIds).forEach(id => sources.add(id));
+  }
+  return credentialIds.filter(id => sources.has(id));
+};
+
+// Solutions of aggregates, MINUS, (NOT) EXISTS and LIMIT depend on triples they did not match, or on
+// other solutions, so no set of matched graphs explains them
+const isMonotonic = (operation: Algebra.Operation): boolean => {
+  let monotonic = true;
+  const reject = () => {
+    monotonic = false;
+    return false;
+  };
+  const visitExpression = (expression: Algebra.Expression): boolean => {
+    if (expression.expressionType === Algebra.expressionTypes.EXISTENCE) return reject();
+    if (expression.expressionType === Algebra.expressionTypes.OPERATOR) expression.args.forEach(visitExpression);
+    return false;
+  };
+  Util.recurseOperation(operation, {
+    [Algebra.types.GROUP]: reject,
+    [Algebra.types.MINUS]: reject,
+    [Algebra.types.SLICE]: reject,
+    [Algebra.types.SERVICE]: reject,
+    [Algebra.types.EXPRESSION]: visitExpression
+  });
+  return monotonic;
+};
+
+// Rewrite a SELECT query (in quad form, without dataset clauses) so every triple pattern and path binds
+// a fresh ?__source_N variable to the graph it matched, to be run against getProvenanceSource. Default
+// graph patterns match the default graph aliases, GRAPH patterns the query's own named graphs.
+// Returns undefined for queries whose results no matched graphs fully account for.
+export const toProvenanceQuery = (algebra: Algebra.Project): ProvenanceQuery | undefined => {
+  if (!isMonotonic(algebra)) return undefined;
+
+  const factory = new Factory();
+  const sourceVariables: RDF.Variable[] = [];
+  const isAlias = (term: RDF.Term) => factory.createOperatorExpression('strstarts', [
+    factory.createOperatorExpression('str', [factory.createTermExpression(term)]),
+    factory.createTermExpression(DataFactory.literal(DEFAULT_GRAPH_ALIAS_PREFIX))
+  ]);
+
+  // Give a graph position its own variable, with the condition restricting it to the graphs the original
+  // query would have matched
+  const bindGraph = (graph: RDF.Term, bound: Array<{ variable: RDF.Variable; graph: RDF.Variable }>) => {
+    const variable = DataFactory.variable(`__source_${sourceVariables.length}`);
+    sourceVariables.push(variable);
+    if (graph.termType === 'Variable') {
+      bound.push({ variable, graph });
+      return { graph, condition: factory.createOperatorExpression('!', [isAlias(graph)]) };
+    }
+    if (graph.termType === 'DefaultGraph') {
+      return { graph: variable, condition: isAlias(variable) };
+    }
+    return {
+      graph: variable,
+      condition: factory.createOperatorExpression('sameterm', [factory.createTermExpression(variable), factory.createTermExpression(graph)])
+    };
+  };
+
+  const restrict = (
+    operation: Algebra.Operation,
+    conditions: Algebra.Expression[],
+    bound: Array<{ variable: RDF.Variable; graph: RDF.Variable }>
+  ): Algebra.Operation => {
+    const condition = conditions.reduce((left, right) => factory.createOperatorExpression('&&', [left, right]));
+    return bound.reduce<Algebra.Operation>(
+      (input, { variable, graph }) => factory.createExtend(input, variable, factory.createTermExpression(graph)),
+      factory.createFilter(operation, condition)
+    );
+  };
+
+  const rewriteBgp = (patterns: Algebra.Pattern[]): Algebra.Operation => {
+    const conditions: Algebra.Expression[] = [];
+    const bound: Array<{ variable: RDF.Variable; graph: RDF.Variable }> = [];
+    const rewritten = patterns.map(pattern => {
+      const { graph, condition } = bindGraph(pattern.graph, bound);
+      conditions.push(condition);
+      return factory.createPattern(pattern.subject, pattern.predicate, pattern.object, graph);
+    });
+    return restrict(factory.createBgp(rewritten), conditions, bound);
+  };
+
+  const rewritePath = ({ subject, predicate, object, graph }: Algebra.Path): Algebra.Operation => {
+    // The query engine loses the graph of alternative paths, so they become a union of their alternatives
+    if (predicate.type === Algebra.types.ALT) {
+      return factory.createUnion(predicate.input.map(alternative => rewritePath(factory.createPath(subject, alternative, object, graph))));
+    }
+    if (predicate.type === Algebra.types.LINK) {
+      return rewriteBgp([factory.createPattern(subject, predicate.iri, object, graph)]);
+    }
+    if (predicate.type === Algebra.types.INV && predicate.path.type === Algebra.types.LINK) {
+      return rewriteBgp([factory.createPattern(object, predicate.path.iri, subject, graph)]);
+    }
+    const bound: Array<{ variable: RDF.Variable; graph: RDF.Variable }> = [];
+    const { graph: sourceGraph, condition } = bindGraph(graph, bound);
+    return restrict(factory.createPath(subject, predicate, object, sourceGraph), [condition], bound);
+  };
+
+  const rewrite = (operation: Algebra.Operation): Algebra.Operation => Util.mapOperation(operation, {
+    [Algebra.types.BGP]: (bgp: Algebra.Bgp) =>
+      ({ result: bgp.patterns.length > 0 ? rewriteBgp(bgp.patterns) : bgp, recurse: false }),
+    [Algebra.types.PATH]: (path: Algebra.Path) => ({ result: rewritePath(path), recurse: false }),
+    // Subqueries pass the source variables of their patterns on to the enclosing query
+    [Algebra.types.PROJECT]: (project: Algebra.Project) => {
+      const start = sourceVariables.length;
+      const input = rewrite(project.input);
+      return { result: factory.createProject(input, [...project.variables, ...sourceVariables.slice(start)]), recurse: false };
+    }
+  }, factory);
+
+  return { operation: rewrite(algebra) as Algebra.Project, sourceVariables };
+};
+
+const rowKey = (binding: RDF.Bindings, variables: RDF.Variable[]): string =>
+  JSON.stringify(variables.map(variable => {
+    const term = binding.get(variable);
+    return term ? termToString(term) : null;
+  }));
+
+// Attribute each result binding to the credentials of the graphs its provenance rows matched. Results
+// without a provenance row (which should not happen) are attributed to all queried credentials.
+export const attributeBindings = (
+  results: RDF.Bindings[],
+  variables: RDF.Variable[],
+  provenanceRows: RDF.Bindings[],
+  sourceVariables: RDF.Variable[],
+  credentialIds: string[]
+) => {
+  const sourcesByRow = new Map<string, Set<string>>();
+  for (const row of provenanceRows) {
+    const key = rowKey(row, variables);
+    const sources = sourcesByRow.get(key) ?? new Set<string>();
+    for (const variable of sourceVariables) {
+      const graph = row.get(variable);
+      const credentialId = graph && findCredentialGraph(graph)?.credential.id;
+      if (credentialId) sources.add(credentialId);
+    }
+    sourcesByRow.set(key, sources);
+  }
+
+  for (const binding of results) {
+    const sources = sourcesByRow.get(rowKey(binding, variables));
+    recordBindingSources(binding, sources ? credentialIds.filter(id => sources.has(id)) : credentialIds);
+  }
+};
@@ -0,0 +1,286 @@
+import * as RDF from '@rdfjs/types';
+import { wrap } from 'asynciterator';
+import { DataFactory, Store } from 'n3';
+import { VerifiableCredential } from '@/types/credential';
+import { encodeBase64url, utf8Encode } from '@/utils/encodingUtils';
+
+const { namedNode, quad, defaultGraph } = DataFactory;
+
+// Converts a credential to quads; its claims are expected in the default graph
+export type CredentialQuadLoader = (credential: VerifiableCredential) => Promise<RDF.Quad[]>;
+
+// A query source over a selection of credentials in the shared store
+export interface CredentialGraphSource extends RDF.Source {
+  countQuads(subject?: RDF.Term | null, predicate?: RDF.Term | null, object?: RDF.Term | null, graph?: RDF.Term | null): number;
+  // Number of quads in the default and named graphs together
+  size: number;
+}
+
+interface CredentialGraphs {
+  credential: VerifiableCredential;
+  // Hash of the credential's content, since credentials are replaced by id and an unchanged id can
+  // still carry a changed credential
+  contentHash: string;
+  // Named graph holding the credential's claims, keyed by credential id
+  claims: RDF.NamedNode;
+  // The credential's proof graphs, the only other graphs its JSON-LD produces
+  others: RDF.NamedNode[];
+}
+
+// The wallet's quads, one named graph per credential, maintained incrementally as credentials change
+const store = new Store();
+const loadedGraphs = new Map<string, CredentialGraphs>();
+const pendingLoads = new Map<string, { contentHash: string; promise: Promise<void> }>();
+
+// Hashed once per credential object; queries only see credentials whose hash is known and matches
+// their loaded graphs
+const contentHashes = new WeakMap<VerifiableCredential, string>();
+
+const getContentHash = async (credential: VerifiableCredential): Promise<string> => {
+  let contentHash = contentHashes.get(credential);
+  if (!contentHash) {
+    contentHash = encodeBase64url(new Uint8Array(await crypto.subtle.digest('SHA-256', utf8Encode(JSON.stringify(credential)))));
+    contentHashes.set(credential, contentHash);
+  }
+  return contentHash;
+};
+
+// Number of quads in each graph, so sizing a selection does not walk the store's indexes
+const graphSizes = new Map<string, number>();
+
+const deleteGraphs = (graphs: CredentialGraphs) => {
+  for (const graph of [graphs.claims, ...graphs.others]) {
+    store.removeQuads(store.getQuads(null, null, null, graph));
+    graphSizes.delete(graph.value);
+  }
+};
+
+const countGraphQuads = (graph: RDF.NamedNode, subject?: RDF.Term | null, predicate?: RDF.Term | null, object?: RDF.Term | null) =>
+  subject || predicate || object
+    ? store.countQuads(subject ?? null, predicate ?? null, object ?? null, graph)
+    : graphSizes.get(graph.value) ?? 0;
+
+// Proof graphs are blank nodes in the credential's RDF; naming them keeps them addressable in queries,
+// since query engines relabel blank nodes in their results
+const proofGraphName = (credentialId: string, index: number): RDF.NamedNode =>
+  namedNode(`urn:wallet-proof:${index}:${credentialId}`);
+const PROOF_GRAPH_PATTERN = /^urn:wallet-proof:\d+:(.+)$/;
+
+const writeCredentialGraphs = (credential: VerifiableCredential, contentHash: string, quads: RDF.Quad[]) => {
+  const previous = loadedGraphs.get(credential.id);
+  if (previous) deleteGraphs(previous);
+
+  const claims = namedNode(credential.id);
+  const others = new Map<string, RDF.NamedNode>();
+  for (const { graph } of quads) {
+    if (graph.termType !== 'DefaultGraph' && !others.has(graph.value)) {
+      others.set(graph.value, graph.termType === 'NamedNode' ? graph : proofGraphName(credential.id, others.size));
+    }
+  }
+
+  // Rename the proof graph wherever it appears, so the claims still link to it (e.g. through sec:proof)
+  const rename = <T extends RDF.Term>(term: T): T | RDF.NamedNode =>
+    term.termType === 'BlankNode' ? others.get(term.value) ?? term : term;
+  for (const { subject, predicate, object, graph } of quads) {
+    store.addQuad(quad(
+      rename(subject) as RDF.Quad_Subject,
+      predicate,
+      rename(object) as RDF.Quad_Object,
+      graph.termType === 'DefaultGraph' ? claims : rename(graph) as RDF.Quad_Graph
+    ));
+  }
+  for (const graph of [claims, ...others.values()]) {
+    graphSizes.set(graph.value, store.countQuads(null, null, null, graph));
+  }
+  loadedGraphs.set(credential.id, { credential, contentHash, claims, others: [...others.values()] });
+};
+
+const loadCredentialGraph = async (credential: VerifiableCredential, loadQuads: CredentialQuadLoader): Promise<void> => {
+  const contentHash = await getContentHash(credential);
+  if (loadedGraphs.get(credential.id)?.contentHash === contentHash) return;
+
+  const pending = pendingLoads.get(credential.id);
+  if (pending?.contentHash === contentHash) return pending.promise;
+
+  const load = { contentHash } as { contentHash: string; promise: Promise<void> };
+  load.promise = (async () => {
+    try {
+      const quads = await loadQuads(credential);
+      // A newer version of the credential, or its removal, supersedes this load
+      if (pendingLoads.get(credential.id) === load) {
+        writeCredentialGraphs(credential, contentHash, quads);
+      }
+    } catch (error) {
+      // Left unloaded so the next query retries (e.g. once a missing context has been added)
+      console.warn(`Failed to convert credential ${credential.id} to RDF:`, error);
+    } finally {
+      if (pendingLoads.get(credential.id) === load) {
+        pendingLoads.delete(credential.id);
+      }
+    }
+  })();
+  pendingLoads.set(credential.id, load);
+  return load.promise;
+};
+
+// Make sure every credential has an up-to-date graph in the store; only new or changed ones are converted
+export const loadCredentialGraphs = async (
+  credentials: VerifiableCredential[],
+  loadQuads: CredentialQuadLoader
+): Promise<void> => {
+  await Promise.all(credentials.map(credential => loadCredentialGraph(credential, loadQuads)));
+};
+
+export const removeCredentialGraph = (id: string) => {
+  pendingLoads.delete(id);
+  const graphs = loadedGraphs.get(id);
+  if (graphs) {
+    deleteGraphs(graphs);
+    loadedGraphs.delete(id);
+  }
+};
+
+export const clearCredentialGraphs = () => {
+  pendingLoads.clear();
+  loadedGraphs.clear();
+  graphSizes.clear();
+  store.removeQuads(store.getQuads(null, null, null, null));
+};
+
+const getLoadedGraphs = (credentials: VerifiableCredential[]): CredentialGraphs[] =>
+  credentials.flatMap(credential => {
+    const graphs = loadedGraphs.get(credential.id);
+    return graphs && graphs.contentHash === contentHashes.get(credential) ? [graphs] : [];
+  });
+
+// The graphs a query sees: the default graph is the merge of defaultGraphs, and namedGraphs are
+// addressable with GRAPH
+interface QueryDataset {
+  defaultGraphs: RDF.NamedNode[];
+  namedGraphs: RDF.NamedNode[];
+}
+
+// A query's FROM and FROM NAMED clauses
+export interface DatasetClauses {
+  default: RDF.NamedNode[];
+  named: RDF.NamedNode[];
+}
+
+// Without dataset clauses, the default graph merges the credentials' claims (as if each credential had
+// been converted on its own) and every claims and proof graph is a named graph. With them, the query
+// only sees the listed graphs of the selected credentials, as SPARQL's FROM and FROM NAMED specify.
+const getQueryDataset = (selection: CredentialGraphs[], clauses?: DatasetClauses): QueryDataset => {
+  const available = selection.flatMap(({ claims, others }) => [claims, ...others]);
+  if (!clauses) {
+    return { defaultGraphs: selection.map(({ claims }) => claims), namedGraphs: available };
+  }
+  const restrict = (graphs: RDF.NamedNode[]) => available.filter(graph => graphs.some(listed => listed.equals(graph)));
+  return { defaultGraphs: restrict(clauses.default), namedGraphs: restrict(clauses.named) };
+};
+
+function* matchDatasetQuads(
+  { defaultGraphs, namedGraphs }: QueryDataset,
+  subject?: RDF.Term | null,
+  predicate?: RDF.Term | null,
+  object?: RDF.Term | null,
+  graph?: RDF.Term | null
+): Generator<RDF.Quad> {
+  if (!graph || graph.termType === 'DefaultGraph') {
+    for (const source of defaultGraphs) {
+      for (const match of store.readQuads(subject ?? null, predicate ?? null, object ?? null, source)) {
+        yield quad(match.subject, match.predicate, match.object, defaultGraph());
+      }
+    }
+  }
+  for (const named of namedGraphs) {
+    if (!graph || graph.equals(named)) {
+      yield* store.readQuads(subject ?? null, predicate ?? null, object ?? null, named);
+    }
+  }
+}
+
+export const getCredentialGraphSource = (
+  credentials: VerifiableCredential[],
+  clauses?: DatasetClauses
+): CredentialGraphSource => {
+  const dataset = getQueryDataset(getLoadedGraphs(credentials), clauses);
+
+  const countQuads = (subject?: RDF.Term | null, predicate?: RDF.Term | null, object?: RDF.Term | null, graph?: RDF.Term | null) => {
+    const count = (graphs: RDF.NamedNode[]) =>
+      graphs.reduce((total, source) => total + countGraphQuads(source, subject, predicate, object), 0);
+    return (!graph || graph.termType === 'DefaultGraph' ? count(dataset.defaultGraphs) : 0) +
+      count(dataset.namedGraphs.filter(named => !graph || graph.equals(named)));
+  };
+
+  return {
+    match: (subject, predicate, object, graph) =>
+      wrap(matchDatasetQuads(dataset, subject, predicate, object, graph)),
+    countQuads,
+    size: countQuads()
+  };
+};
+
+// Default graphs are also exposed as named graphs under this prefix in provenance sources, so a query
+// can bind the graph each default graph match came from
+export const DEFAULT_GRAPH_ALIAS_PREFIX = 'urn:wallet-default:';
+
+// Like getCredentialGraphSource, but with an empty default graph: its graphs are named graphs under an
+// alias instead, alongside the query's own named graphs
+export const getProvenanceSource = (
+  credentials: VerifiableCredential[],
+  clauses?: DatasetClauses
+): CredentialGraphSource => {
+  const { defaultGraphs, namedGraphs } = getQueryDataset(getLoadedGraphs(credentials), clauses);
+  const aliases = defaultGraphs.map(graph => ({ alias: namedNode(DEFAULT_GRAPH_ALIAS_PREFIX + graph.value), graph }));
+
+  function* matchProvenanceQuads(subject?: RDF.Term | null, predicate?: RDF.Term | null, object?: RDF.Term | null, graph?: RDF.Term | null) {
+    if (graph?.termType === 'DefaultGraph') return;
+    yield* matchDatasetQuads({ defaultGraphs: [], namedGraphs }, subject, predicate, object, graph);
+    for (const { alias, graph: source } of aliases) {
+      if (!graph || graph.equals(alias)) {
+        for (const match of store.readQuads(subject ?? null, predicate ?? null, object ?? null, source)) {
+          yield quad(match.subject, match.predicate, match.object, alias);
+        }
+      }
+    }
+  }
+
+  const countQuads = (subject?: RDF.Term | null, predicate?: RDF.Term | null, object?: RDF.Term | null, graph?: RDF.Term | null) => {
+    if (graph?.termType === 'DefaultGraph') return 0;
+    let total = 0;
+    for (const { alias, graph: source } of [...namedGraphs.map(named => ({ alias: named, graph: named })), ...aliases]) {
+      if (!graph || graph.equals(alias)) {
+        total += countGraphQuads(source, subject, predicate, object);
+      }
+    }
+    return total;
+  };
+
+  return {
+    match: (subject, predicate, object, graph) => wrap(matchProvenanceQuads(subject, predicate, object, graph)),
+    countQuads,
+    size: countQuads()
+  };
+};
+
+// Quads of the selected credentials in their named graphs: claims under the credential id, proofs in their own graphs
+export const getCredentialGraphQuads = (credentials: VerifiableCredential[]): RDF.Quad[] =>
+  getLoadedGraphs(credentials).flatMap(({ claims, others }) =>
+    [claims, ...others].flatMap(graph => store.getQuads(null, null, null, graph))
+  );
+
+// The credential a named graph belongs to, and whether it holds the credential's claims or its proof
+export const findCredentialGraph = (
+  graph: RDF.Term
+): { credential: VerifiableCredential; kind: 'claims' | 'proof' } | undefined => {
+  if (graph.termType !== 'NamedNode') return undefined;
+  if (graph.value.startsWith(DEFAULT_GRAPH_ALIAS_PREFIX)) return findCredentialGraph(namedNode(graph.value.slice(DEFAULT_GRAPH_ALIAS_PREFIX.length)));
+
+  const claimsOwner = loadedGraphs.get(graph.value);
+  if (claimsOwner) return { credential: claimsOwner.credential, kind: 'claims' };
+
+  const proofOwner = loadedGraphs.get(PROOF_GRAPH_PATTERN.exec(graph.value)?.[1] ?? '');
+  return proofOwner?.others.some(other => other.equals(graph))
+    ? { credential: proofOwner.credential, kind: 'proof' }
+    : undefined;
+};
@@ -0,0 +1,67 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { VerifiableCredential } from '@/types/credential';
+import { executeSPARQLQuery } from '@/utils/credentialUtils';
+import { compileDcqlCredentialQuery, compileInputDescriptor, getRequestQuerySources } from '@/utils/queryCompilerUtils';
+
+const employee = JSON.parse(readFileSync('public/sample-bbs-employee.json', 'utf8')) as VerifiableCredential;
+const librarian: VerifiableCredential = {
+  '@context': ['https://www.w3.org/2018/credentials/v1', { '@vocab': 'http://schema.org/' }],
+  id: 'urn:uuid:librarian',
+  type: ['VerifiableCredential', 'EmployeeCredential'],
+  issuer: 'did:example:library',
+  issuanceDate: '2024-01-01T00:00:00Z',
+  credentialSubject: { id: 'did:example:sam', jobTitle: 'Librarian' }
+};
+const wallet = [employee, librarian];
+
+// Compiled variables are named after the last key of the claim path
+const selectJobTitles = async (query: string) =>
+  (await executeSPARQLQuery(query, wallet)).map(binding => [binding.get('credential')?.value, binding.get('jobTitle')?.value]);
+
+describe('request query compiler', () => {
+  it('compiles a DCQL credential query with claim values into a SELECT the wallet can run', async () => {
+    const compiled = await compileDcqlCredentialQuery(
+      { id: 'employee', format: 'ldp_vc', claims: [{ path: ['credentialSubject', 'jobTitle'], values: ['Senior Engineer'] }] },
+      wallet,
+      'select'
+    );
+
+    expect(compiled.unmapped).toEqual([]);
+    expect(compiled.source).toMatchObject({ language: 'dcql', request: { id: 'employee' } });
+    expect(await selectJobTitles(compiled.query)).toEqual([[employee.id, 'Senior Engineer']]);
+  });
+
+  it('compiles an input descriptor filter, and reports paths it cannot map', async () => {
+    const compiled = await compileInputDescriptor(
+      {
+        id: 'librarian',
+        constraints: {
+          fields: [
+            { path: ['$.credentialSubject.jobTitle'], filter: { type: 'string', pattern: '^Lib' } },
+            { id: 'shoe size', path: ['$.credentialSubject.shoeSize[0].value[*]'] }
+          ]
+        }
+      },
+      wallet,
+      'select',
+      { definitionId: 'library-access' }
+    );
+
+    expect(compiled.unmapped).toEqual(['shoe size']);
+    expect(compiled.source).toMatchObject({ language: 'presentation-exchange', definitionId: 'library-access' });
+    expect(await selectJobTitles(compiled.query)).toEqual([[librarian.id, 'Librarian']]);
+  });
+
+  it('finds the requests in an OpenID4VP request object', () => {
+    const sources = getRequestQuerySources({
+      client_id: 'redirect_uri:https://verifier.example/response',
+      dcql_query: { credentials: [{ id: 'employee', format: 'ldp_vc' }, { id: 'pid', format: 'dc+sd-jwt' }] }
+    });
+
+    expect(sources.map(source => [source.language, source.request.id, source.clientId])).toEqual([
+      ['dcql', 'employee', 'redirect_uri:https://verifier.example/response'],
+      ['dcql', 'pid', 'redirect_uri:https://verifier.example/response']
+    ]);
+  });
+});
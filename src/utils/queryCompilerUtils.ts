@@ -0,0 +1,434 @@
+import * as jsonld from 'jsonld';
+import {
+  VerifiableCredential,
+  InputDescriptor,
+  PresentationDefinition,
+  DcqlCredentialQuery,
+  DcqlQuery,
+  RequestQuerySource,
+  RequestQueryForm,
+  CompiledRequestQuery
+} from '@/types/credential';
+import { documentLoader } from '@/utils/contextUtils';
+import { getClaimKeys, matchesFilter } from '@/utils/presentationExchangeUtils';
+
+// Compile what a verifier asks for (a Presentation Exchange input descriptor or a DCQL credential query)
+// into SPARQL over the JSON-LD-expanded credential graph. JSON keys become the predicates the
+// credential's own @context maps them to, so the query finds the same claims in any credential that
+// uses the same vocabulary
+
+const RDF_TYPE = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#type';
+const XSD_BOOLEAN = 'http://www.w3.org/2001/XMLSchema#boolean';
+
+// A constraint on one claim, whichever query language it came from
+interface ClaimRequirement {
+  label: string;
+  // From the credential's root, e.g. ['credentialSubject', 'worksFor']
+  keys?: string[];
+  optional: boolean;
+  // A JSON Schema (Presentation Exchange) or the values allowed (DCQL)
+  filter?: Record<string, unknown>;
+  values?: Array<string | number | boolean>;
+}
+
+interface ExpandedClaim {
+  predicates: string[];
+  value: unknown;
+  // The expanded IRIs of the types, when the claim is a type
+  types?: string[];
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isTypeKey = (key: string) => key === 'type' || key === '@type';
+
+const toArray = (value: unknown): unknown[] => Array.isArray(value) ? value : value === undefined ? [] : [value];
+
+// The values at the end of the keys, looking into every element of the arrays along the way
+const selectByKeys = (document: unknown, keys: string[]): unknown[] =>
+  keys.reduce<unknown[]>((values, key) => values.flatMap(value =>
+    toArray(value).flatMap(item => isObject(item) && key in item ? [item[key]] : [])), [document]);
+
+const acceptsValue = (requirement: ClaimRequirement, value: unknown): boolean => {
+  if (requirement.values) {
+    return toArray(value).some(item => requirement.values?.includes(item as string | number | boolean));
+  }
+  return !requirement.filter || matchesFilter(value, requirement.filter);
+};
+
+const hasClaim = (credential: VerifiableCredential, requirement: ClaimRequirement): boolean =>
+  !!requirement.keys && selectByKeys(credential, requirement.keys).some(value => acceptsValue(requirement, value));
+
+// The predicates along a claim path, found by expanding just that claim with the credential's context;
+// types along the way are kept so type-scoped terms expand as they do in the credential
+const expandClaim = async (credential: VerifiableCredential, keys: string[]): Promise<ExpandedClaim | undefined> => {
+  let value: unknown;
+  const prune = (node: unknown, rest: string[]): unknown => {
+    if (rest.length === 0) {
+      value = node;
+      return node;
+    }
+    const holder = Array.isArray(node) ? node.find(item => isObject(item) && rest[0] in item) : node;
+    if (!isObject(holder) || !(rest[0] in holder)) return undefined;
+    const child = prune(holder[rest[0]], rest.slice(1));
+    return child === undefined ? undefined : {
+      ...(holder.type !== undefined && { type: holder.type }),
+      ...(holder['@type'] !== undefined && { '@type': holder['@type'] }),
+      [rest[0]]: child
+    };
+  };
+
+  const pruned = prune(credential, keys);
+  if (!isObject(pruned)) return undefined;
+  const expanded = await jsonld.expand({ '@context': credential['@context'], ...pruned } as jsonld.JsonLdDocument, { documentLoader });
+
+  const predicates: string[] = [];
+  let node: unknown = expanded[0];
+  for (const key of keys) {
+    if (!isObject(node)) return undefined;
+    if (isTypeKey(key)) {
+      // Types are IRIs rather than nodes, so nothing can follow them
+      predicates.push(RDF_TYPE);
+      return { predicates, value, types: toArray(node['@type']) as string[] };
+    }
+    const predicate = Object.keys(node).find(candidate => !candidate.startsWith('@'));
+    if (!predicate) return undefined;
+    predicates.push(predicate);
+    node = toArray(node[predicate])[0];
+  }
+  return { predicates, value };
+};
+
+// Values that have a SPARQL literal form; objects, arrays, null and non-finite numbers do not
+type SparqlValue = string | number | boolean;
+
+const isSparqlValue = (value: unknown): value is SparqlValue =>
+  typeof value === 'string' || typeof value === 'boolean' || (typeof value === 'number' && Number.isFinite(value));
+
+// Absolute IRIs without the characters the IRIREF production excludes, so they can go between < and >
+const isSafeIri = (iri: string): boolean => /^[A-Za-z][A-Za-z0-9+.-]*:[^\s<>"{}|\\^`]*$/.test(iri);
+
+const toSparqlLiteral = (value: string): string => JSON.stringify(value);
+
+// One value's equality test; strings are compared by lexical form so typed literals (dates) match too
+const equalsValue = (variable: string, value: SparqlValue): string =>
+  typeof value === 'boolean' ? `${variable} = "${value}"^^<${XSD_BOOLEAN}>`
+    : typeof value === 'number' ? `${variable} = ${value}`
+      : `STR(${variable}) = ${toSparqlLiteral(value)}`;
+
+const COMPARISONS: Record<string, string> = {
+  minimum: '>=',
+  maximum: '<=',
+  exclusiveMinimum: '>',
+  exclusiveMaximum: '<'
+};
+
+const FORMAT_COMPARISONS: Record<string, string> = {
+  formatMinimum: '>=',
+  formatMaximum: '<=',
+  formatExclusiveMinimum: '>',
+  formatExclusiveMaximum: '<'
+};
+
+// Keywords that hold for any RDF value: arrays are multi-valued properties, and formats are not checked
+const IGNORED_KEYWORDS = ['items', 'minItems', 'maxItems', 'format', '$schema', 'title', 'description'];
+
+// The FILTER conditions a JSON Schema (the subset the matcher evaluates) comes down to for one
+// variable, and the keywords SPARQL cannot express here
+const compileFilter = (variable: string, schema: Record<string, unknown>): { conditions: string[]; unsupported: string[] } => {
+  const conditions: string[] = [];
+  const unsupported: string[] = [];
+  const compileAll = (schemas: unknown[]) => schemas.filter(isObject).map(child => compileFilter(variable, child));
+
+  for (const [keyword, bound] of Object.entries(schema)) {
+    if (keyword === 'type') {
+      const type = { string: `isLiteral(${variable})`, number: `isNumeric(${variable})`, integer: `isNumeric(${variable})`,
+        boolean: `DATATYPE(${variable}) = <${XSD_BOOLEAN}>`, object: `!isLiteral(${variable})` }[bound as string];
+      if (type) conditions.push(type);
+    } else if (keyword === 'const' && isSparqlValue(bound)) {
+      conditions.push(equalsValue(variable, bound));
+    } else if (keyword === 'enum' && Array.isArray(bound) && bound.length > 0 && bound.every(isSparqlValue)) {
+      conditions.push(`(${bound.map(value => equalsValue(variable, value)).join(' || ')})`);
+    } else if (keyword === 'pattern' && typeof bound === 'string') {
+      conditions.push(`REGEX(STR(${variable}), ${toSparqlLiteral(bound)})`);
+    } else if ((keyword === 'minLength' || keyword === 'maxLength') && Number.isInteger(bound) && (bound as number) >= 0) {
+      conditions.push(`STRLEN(STR(${variable})) ${keyword === 'minLength' ? '>=' : '<='} ${bound}`);
+    } else if (COMPARISONS[keyword] && typeof bound === 'number' && Number.isFinite(bound)) {
+      conditions.push(`${variable} ${COMPARISONS[keyword]} ${bound}`);
+    } else if (FORMAT_COMPARISONS[keyword] && (typeof bound === 'string' || typeof bound === 'number')) {
+      // ISO 8601 dates and times of the same form order lexically
+      conditions.push(`STR(${variable}) ${FORMAT_COMPARISONS[keyword]} ${toSparqlLiteral(String(bound))}`);
+    } else if (keyword === 'contains' && isObject(bound)) {
+      // Any of a property's values may satisfy it, as any element of the array would
+      const contained = compileFilter(variable, bound);
+      conditions.push(...contained.conditions);
+      unsupported.push(...contained.unsupported);
+    } else if (keyword === 'allOf' && Array.isArray(bound)) {
+      compileAll(bound).forEach(child => {
+        conditions.push(...child.conditions);
+        unsupported.push(...child.unsupported);
+      });
+    } else if ((keyword === 'anyOf' || keyword === 'not') && (Array.isArray(bound) || isObject(bound))) {
+      const children = compileAll(toArray(bound));
+      if (children.some(child => child.unsupported.length > 0 || child.conditions.length === 0)) {
+        unsupported.push(keyword);
+      } else {
+        const alternatives = children.map(child => `(${child.conditions.join(' && ')})`);
+        conditions.push(keyword === 'not' ? `!${alternatives[0]}` : `(${alternatives.join(' || ')})`);
+      }
+    } else if (!IGNORED_KEYWORDS.includes(keyword)) {
+      unsupported.push(keyword);
+    }
+  }
+  return { conditions, unsupported };
+};
+
+// Type constraints name types by term; they become rdf:type statements with the IRIs the credential's
+// context expands those terms to
+const getRequiredTypeTerms = (requirement: ClaimRequirement): string[] | undefined => {
+  if (requirement.values) return requirement.values.map(String);
+  const filter = requirement.filter;
+  if (!filter) return [];
+  const constant = filter.const ?? (isObject(filter.contains) ? filter.contains.const : undefined);
+  if (typeof constant === 'string') return [constant];
+  if (Array.isArray(constant) && constant.every(term => typeof term === 'string')) return constant;
+  return undefined;
+};
+
+// Variable names follow the JSON keys, so the results read like the request
+const createVariableNames = () => {
+  const byPath = new Map<string, string>([['', 'credential'], ['credentialSubject', 'subject']]);
+  const used = new Set(byPath.values());
+
+  return (keys: string[]): string => {
+    const path = keys.join('.');
+    const existing = byPath.get(path);
+    if (existing) return `?${existing}`;
+
+    const base = keys[keys.length - 1].replace(/[^A-Za-z0-9_]/g, '_').replace(/^(?=\d)/, '_') || 'value';
+    let name = base;
+    for (let suffix = 2; used.has(name); suffix++) name = `${base}${suffix}`;
+    byPath.set(path, name);
+    used.add(name);
+    return `?${name}`;
+  };
+};
+
+const indent = (lines: string[], depth = 1) => lines.map(line => `${'  '.repeat(depth)}${line}`);
+
+const compileRequirements = async (
+  requirements: ClaimRequirement[],
+  credentials: VerifiableCredential[],
+  form: RequestQueryForm,
+  source: RequestQuerySource,
+  comment: string,
+  typeValues?: string[]
+): Promise<CompiledRequestQuery> => {
+  const getVariable = createVariableNames();
+  const where: string[] = ['?credential cred:credentialSubject ?subject .'];
+  const template: string[] = [];
+  const optionalBlocks: string[][] = [];
+  const projected: string[] = ['?credential'];
+  const unmapped: string[] = [];
+
+  // Verifiers name DCQL types by IRI; they are matched to the credentials' own types by local name.
+  // A type that is not an IRI cannot be written into the query, so it is reported instead
+  if (typeValues) {
+    const localName = (iri: string) => iri.split(/[#/]/).pop();
+    const ownTypes = (await Promise.all(credentials.map(credential => expandClaim(credential, ['type']).catch(() => undefined))))
+      .flatMap(claim => claim?.types || []);
+    typeValues.forEach(type => {
+      const iri = typeof type === 'string'
+        ? ownTypes.find(own => own === type) ?? ownTypes.find(own => localName(own) === localName(type)) ?? type
+        : undefined;
+      if (iri && isSafeIri(iri)) {
+        where.push(`?credential a <${iri}> .`);
+      } else {
+        unmapped.push(`type ${String(type)}`);
+      }
+    });
+  }
+
+  for (const requirement of requirements) {
+    // Optional claims have no place in a CONSTRUCT template, whose unbound variables would stay in the output
+    if (requirement.optional && form === 'construct') continue;
+
+    const keys = requirement.keys;
+    const credential = keys && credentials.find(candidate => hasClaim(candidate, requirement));
+    const claim = keys && credential && await expandClaim(credential, keys).catch(error => {
+      console.warn(`Cannot map ${keys.join('.')} to a predicate with the context of ${credential.id}:`, error);
+      return undefined;
+    });
+    if (!keys || !claim || !claim.predicates.every(isSafeIri)) {
+      if (!requirement.optional) unmapped.push(requirement.label);
+      continue;
+    }
+
+    const patterns: string[] = [];
+    const conditions: string[] = [];
+    let node = '?credential';
+    claim.predicates.forEach((predicate, depth) => {
+      if (predicate === RDF_TYPE) return;
+      const object = getVariable(keys.slice(0, depth + 1));
+      // Every query starts from the credential's subject
+      if (object !== '?subject') patterns.push(`${node} <${predicate}> ${object} .`);
+      node = object;
+    });
+
+    if (claim.types) {
+      // Nothing to constrain if any type will do; otherwise each named type must be among the node's types
+      const terms = getRequiredTypeTerms(requirement);
+      const ownTypes = toArray(claim.value).map(String);
+      const iris = terms?.map(term => claim.types?.[ownTypes.indexOf(term)]);
+      if (!iris || iris.some(iri => !iri || !isSafeIri(iri))) {
+        unmapped.push(requirement.label);
+        continue;
+      }
+      patterns.push(...iris.map(iri => `${node} a <${iri}> .`));
+    } else if (isObject(claim.value)) {
+      // An object claim brings its own statements along
+      patterns.push(`${node} ${node}Property ${node}Value .`);
+      projected.push(node, `${node}Property`, `${node}Value`);
+    } else {
+      projected.push(node);
+      if (requirement.values) {
+        const values = requirement.values;
+        if (values.length === 0 || !values.every(isSparqlValue)) {
+          unmapped.push(requirement.label);
+          continue;
+        }
+        conditions.push(`(${values.map(value => equalsValue(node, value)).join(' || ')})`);
+      } else if (requirement.filter) {
+        const compiled = compileFilter(node, requirement.filter);
+        conditions.push(...compiled.conditions);
+        if (compiled.unsupported.length > 0) unmapped.push(`${requirement.label} (${compiled.unsupported.join(', ')})`);
+      }
+    }
+
+    const lines = [...patterns, ...conditions.map(condition => `FILTER(${condition})`)];
+    if (requirement.optional) {
+      optionalBlocks.push(lines);
+    } else {
+      lines.forEach(line => {
+        if (!where.includes(line)) where.push(line);
+      });
+      // The claims about the subject are what a derived credential carries
+      if (keys[0] === 'credentialSubject') {
+        patterns.filter(pattern => !template.includes(pattern)).forEach(pattern => template.push(pattern));
+      }
+    }
+  }
+
+  const body = [
+    ...indent(where),
+    ...optionalBlocks.flatMap(lines => indent(['OPTIONAL {', ...indent(lines), '}']))
+  ];
+  const head = form === 'construct'
+    ? ['CONSTRUCT {', ...indent(template), '}']
+    : [`SELECT ${[...new Set(projected)].join(' ')}`];
+  return {
+    query: [
+      `# ${comment}`,
+      'PREFIX cred: <https://www.w3.org/2018/credentials#>',
+      '',
+      ...head,
+      'WHERE {',
+      ...body,
+      '}'
+    ].join('\n'),
+    form,
+    source,
+    unmapped
+  };
+};
+
+// Compile an input descriptor's fields; each field uses its first path simple enough to map to predicates
+export const compileInputDescriptor = (
+  descriptor: InputDescriptor,
+  credentials: VerifiableCredential[],
+  form: RequestQueryForm,
+  source: Omit<RequestQuerySource, 'language' | 'request'> = {}
+): Promise<CompiledRequestQuery> => {
+  const requirements = (descriptor.constraints?.fields || []).map((field, index): ClaimRequirement => ({
+    label: field.id ?? field.path[0] ?? `field ${index + 1}`,
+    keys: field.path.map(getClaimKeys).find(keys => keys && keys.length > 0),
+    optional: !!field.optional,
+    filter: field.filter
+  }));
+  return compileRequirements(
+    requirements,
+    credentials,
+    form,
+    { ...source, language: 'presentation-exchange', request: descriptor },
+    `Compiled from input descriptor "${descriptor.id}"${source.definitionId ? ` of presentation definition "${source.definitionId}"` : ''}`
+  );
+};
+
+// Compile a DCQL credential query's claims (those of its preferred claim set, if it has claim sets)
+// and the first of its alternative type sets
+export const compileDcqlCredentialQuery = (
+  query: DcqlCredentialQuery,
+  credentials: VerifiableCredential[],
+  form: RequestQueryForm,
+  source: Omit<RequestQuerySource, 'language' | 'request'> = {}
+): Promise<CompiledRequestQuery> => {
+  const claims = query.claims || [];
+  const selected = query.claim_sets
+    ? query.claim_sets[0].flatMap(id => claims.filter(claim => claim.id === id))
+    : claims;
+  const requirements = selected.map((claim, index): ClaimRequirement => {
+    // Array positions have no counterpart in the graph, where array elements are a property's values
+    const keys = claim.path.filter((segment): segment is string => typeof segment === 'string');
+    return {
+      label: claim.id ?? (claim.path.join('.') || `claim ${index + 1}`),
+      keys: keys[0] === 'vc' ? keys.slice(1) : keys,
+      optional: false,
+      values: claim.values
+    };
+  });
+  return compileRequirements(
+    requirements,
+    credentials,
+    form,
+    { ...source, language: 'dcql', request: query },
+    `Compiled from DCQL credential query "${query.id}"`,
+    query.meta?.type_values?.[0]
+  );
+};
+
+export const compileRequestQuery = (
+  source: RequestQuerySource,
+  credentials: VerifiableCredential[],
+  form: RequestQueryForm
+): Promise<CompiledRequestQuery> => {
+  const { language, request, ...rest } = source;
+  return language === 'dcql'
+    ? compileDcqlCredentialQuery(request as DcqlCredentialQuery, credentials, form, rest)
+    : compileInputDescriptor(request as InputDescriptor, credentials, form, rest);
+};
+
+// The requests in pasted JSON: a presentation definition, input descriptor, DCQL query or DCQL
+// credential query, or an OpenID4VP request object carrying one of them
+export const getRequestQuerySources = (value: unknown): RequestQuerySource[] => {
+  if (!isObject(value)) return [];
+  if (isObject(value.presentation_definition) || isObject(value.dcql_query)) {
+    const clientId = typeof value.client_id === 'string' ? value.client_id : undefined;
+    return [...getRequestQuerySources(value.presentation_definition), ...getRequestQuerySources(value.dcql_query)]
+      .map(source => ({ ...source, ...(clientId && { clientId }) }));
+  }
+  if (Array.isArray(value.input_descriptors)) {
+    const definition = value as unknown as PresentationDefinition;
+    return definition.input_descriptors.map(descriptor => ({ language: 'presentation-exchange', definitionId: definition.id, request: descriptor }));
+  }
+  if (Array.isArray(value.credentials)) {
+    return (value as unknown as DcqlQuery).credentials.map(query => ({ language: 'dcql', request: query }));
+  }
+  if (isObject(value.constraints)) {
+    return [{ language: 'presentation-exchange', request: value as unknown as InputDescriptor }];
+  }
+  if (typeof value.format === 'string' && typeof value.id === 'string') {
+    return [{ language: 'dcql', request: value as unknown as DcqlCredentialQuery }];
+  }
+  return [];
+};
@@ -0,0 +1,158 @@
+import * as RDF from '@rdfjs/types';
+import { DataFactory, Parser, Store } from 'n3';
+import SHACLValidator from 'rdf-validate-shacl';
+import { termToString } from 'rdf-string-ttl';
+import { ShapeValidationReport, ShapeValidationResult } from '@/types/credential';
+
+const { namedNode } = DataFactory;
+
+const SH = 'http://www.w3.org/ns/shacl#';
+const RDF_NS = 'http://www.w3.org/1999/02/22-rdf-syntax-ns#';
+
+// Shapes shipped with the wallet, served from public/
+export const BUNDLED_SHAPES = ['/shapes/permanent-resident-card.ttl', '/shapes/derived-credentials.ttl'];
+
+export interface UserShapes {
+  name: string;
+  turtle: string;
+  addedAt: string;
+}
+
+const USER_SHAPES_STORAGE_KEY = 'wallet-user-shapes';
+
+export const parseShapes = (turtle: string): RDF.Quad[] => {
+  try {
+    return new Parser({ format: 'Turtle' }).parse(turtle);
+  } catch (error) {
+    throw new Error(`Shapes are not valid Turtle: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const loadUserShapes = (): UserShapes[] => {
+  if (typeof localStorage === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(USER_SHAPES_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as UserShapes[] : [];
+  } catch (error) {
+    console.error('Failed to load user shapes:', error);
+    return [];
+  }
+};
+
+const saveUserShapes = (shapes: UserShapes[]) => {
+  localStorage.setItem(USER_SHAPES_STORAGE_KEY, JSON.stringify(shapes));
+};
+
+// Store user-supplied shapes under a name, replacing any earlier shapes with that name
+export const addUserShapes = (name: string, turtle: string): UserShapes => {
+  if (!name.trim()) {
+    throw new Error('Shapes need a name');
+  }
+  if (!parseShapes(turtle).some(quad => quad.predicate.value.startsWith(SH) || quad.object.value.startsWith(SH))) {
+    throw new Error('No SHACL shapes found in the Turtle');
+  }
+
+  const shapes: UserShapes = { name: name.trim(), turtle, addedAt: new Date().toISOString() };
+  saveUserShapes([...loadUserShapes().filter(existing => existing.name !== shapes.name), shapes]);
+  return shapes;
+};
+
+export const removeUserShapes = (name: string) => {
+  saveUserShapes(loadUserShapes().filter(shapes => shapes.name !== name));
+};
+
+// Fetched once per session; a bundled file that fails to load is skipped rather than blocking imports
+let bundledShapes: Promise<RDF.Quad[]> | undefined;
+
+const loadBundledShapes = (): Promise<RDF.Quad[]> => {
+  bundledShapes ??= Promise.all(BUNDLED_SHAPES.map(async url => {
+    try {
+      const response = await fetch(url);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      return parseShapes(await response.text());
+    } catch (error) {
+      console.warn(`Failed to load bundled shapes ${url}:`, error);
+      return [];
+    }
+  })).then(shapes => shapes.flat());
+  return bundledShapes;
+};
+
+const loadShapesGraph = async (): Promise<Store> => {
+  const userShapes = loadUserShapes().flatMap(shapes => {
+    try {
+      return parseShapes(shapes.turtle);
+    } catch (error) {
+      console.warn(`Skipping user shapes ${shapes.name}:`, error);
+      return [];
+    }
+  });
+  return new Store([...await loadBundledShapes(), ...userShapes]);
+};
+
+const listItems = (list: RDF.Term, graph: Store): RDF.Term[] => {
+  const items: RDF.Term[] = [];
+  for (let node = list; !node.equals(namedNode(`${RDF_NS}nil`));) {
+    const [first] = graph.getObjects(node, namedNode(`${RDF_NS}first`), null);
+    const [rest] = graph.getObjects(node, namedNode(`${RDF_NS}rest`), null);
+    if (!first || !rest) return [];
+    items.push(first);
+    node = rest;
+  }
+  return items;
+};
+
+// Write a SHACL property path in SPARQL property path syntax
+const formatPath = (path: RDF.Term, graph: Store): string => {
+  if (path.termType === 'NamedNode') return termToString(path);
+
+  const [inverse] = graph.getObjects(path, namedNode(`${SH}inversePath`), null);
+  if (inverse) return `^${formatPath(inverse, graph)}`;
+  const [alternatives] = graph.getObjects(path, namedNode(`${SH}alternativePath`), null);
+  if (alternatives) return `(${listItems(alternatives, graph).map(item => formatPath(item, graph)).join('|')})`;
+  for (const [modifier, suffix] of [['zeroOrMorePath', '*'], ['oneOrMorePath', '+'], ['zeroOrOnePath', '?']]) {
+    const [inner] = graph.getObjects(path, namedNode(`${SH}${modifier}`), null);
+    if (inner) return `${formatPath(inner, graph)}${suffix}`;
+  }
+  const sequence = listItems(path, graph);
+  return sequence.length > 0 ? sequence.map(item => formatPath(item, graph)).join('/') : termToString(path);
+};
+
+const SEVERITIES: Record<string, ShapeValidationResult['severity']> = {
+  [`${SH}Violation`]: 'Violation',
+  [`${SH}Warning`]: 'Warning',
+  [`${SH}Info`]: 'Info'
+};
+
+// Only violations block an import or derivation; warnings and info are shown alongside
+export const hasShapeViolations = (report: ShapeValidationReport): boolean =>
+  report.results.some(result => result.severity === 'Violation');
+
+// Validate the default graph of some quads (a credential's claims, or CONSTRUCT output) against the
+// bundled and user shapes; shapes target what they apply to, e.g. with sh:targetClass
+export const validateQuadsAgainstShapes = async (quads: RDF.Quad[]): Promise<ShapeValidationReport> => {
+  const shapes = await loadShapesGraph();
+  if (shapes.size === 0) return { conforms: true, results: [] };
+
+  const data = new Store(quads.filter(quad => quad.graph.termType === 'DefaultGraph'));
+  const report = await new SHACLValidator(shapes).validate(data);
+  // Paths are copied into the report, or left in the shapes graph
+  const pathGraph = new Store([...shapes, ...report.dataset]);
+
+  return {
+    conforms: report.conforms,
+    results: report.results.map(result => {
+      const constraint = result.sourceConstraintComponent?.value;
+      return {
+        focusNode: termToString(result.focusNode),
+        ...(result.path && { path: formatPath(result.path, pathGraph) }),
+        ...(result.value && { value: termToString(result.value) }),
+        message: result.message.map(message => message.value).join('; ') ||
+          `Violates ${constraint ? constraint.replace(SH, 'sh:') : 'a SHACL constraint'}`,
+        severity: SEVERITIES[result.severity?.value] ?? 'Violation',
+        ...(result.sourceShape?.termType === 'NamedNode' && { sourceShape: termToString(result.sourceShape) })
+      };
+    })
+  };
+};
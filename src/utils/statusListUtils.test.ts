@@ -0,0 +1,190 @@
+import { afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { getPublishedStatusList, publishStatusList } from '@/app/api/status-lists/lists';
+import { VerifiableCredential } from '@/types/credential';
+import { initializeVault } from '@/utils/credentialRepository';
+import { ed25519PublicKeyToDidKey, getHolderKey } from '@/utils/holderKeyUtils';
+import { SigningKey, signWithDataIntegrity } from '@/utils/proofUtils';
+import {
+  checkCredentialStatus,
+  clearStatusListCache,
+  commitStatusEntry,
+  decodeStatusList,
+  encodeStatusList,
+  readStatusBits,
+  reserveStatusEntry,
+  setWalletCredentialRevoked
+} from '@/utils/statusListUtils';
+
+const STATUS_LIST_URL = 'https://issuer.example/status/1';
+const REVOKED_INDEX = 5;
+
+const createIssuerKey = async (): Promise<SigningKey & { did: string }> => {
+  const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  const did = await ed25519PublicKeyToDidKey(keyPair.publicKey);
+  return { did, verificationMethod: `${did}#${did.slice('did:key:'.length)}`, algorithm: 'Ed25519', privateKey: keyPair.privateKey };
+};
+
+// A 16KB list with a single entry set, as an issuer would publish it
+const createStatusListCredential = async (issuer: SigningKey & { did: string }): Promise<VerifiableCredential> => {
+  const bits = new Uint8Array(16384);
+  bits[REVOKED_INDEX >> 3] |= 1 << (7 - (REVOKED_INDEX & 7));
+  return signWithDataIntegrity({
+    '@context': ['https://www.w3.org/ns/credentials/v2'],
+    id: STATUS_LIST_URL,
+    type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+    issuer: issuer.did,
+    validFrom: '2024-01-01T00:00:00Z',
+    credentialSubject: {
+      id: `${STATUS_LIST_URL}#list`,
+      type: 'BitstringStatusList',
+      statusPurpose: 'revocation',
+      encodedList: await encodeStatusList(bits, 'BitstringStatusListEntry')
+    }
+  }, issuer) as Promise<VerifiableCredential>;
+};
+
+const createCredential = (issuer: string, index: number): VerifiableCredential => ({
+  '@context': ['https://www.w3.org/ns/credentials/v2'],
+  id: `urn:uuid:${crypto.randomUUID()}`,
+  type: ['VerifiableCredential'],
+  issuer,
+  validFrom: '2024-01-01T00:00:00Z',
+  credentialSubject: { id: 'did:example:subject' },
+  credentialStatus: {
+    id: `${STATUS_LIST_URL}#${index}`,
+    type: 'BitstringStatusListEntry',
+    statusPurpose: 'revocation',
+    statusListIndex: String(index),
+    statusListCredential: STATUS_LIST_URL
+  }
+});
+
+describe('status list encoding', () => {
+  it('round-trips a bitstring in both encodings', async () => {
+    const bits = new Uint8Array([0b10100000, 0, 0b00000001]);
+    for (const type of ['BitstringStatusListEntry', 'StatusList2021Entry'] as const) {
+      const encoded = await encodeStatusList(bits, type);
+      expect(encoded.startsWith('u')).toBe(type === 'BitstringStatusListEntry');
+      expect(await decodeStatusList(encoded)).toEqual(bits);
+    }
+  });
+
+  it('reads entries from the most significant bit, including multi-bit entries', () => {
+    const bits = new Uint8Array([0b10100000, 0b00000001]);
+    expect([0, 1, 2, 3].map(index => readStatusBits(bits, index))).toEqual([1, 0, 1, 0]);
+    expect(readStatusBits(bits, 15)).toBe(1);
+    expect(readStatusBits(bits, 0, 2)).toBe(0b10);
+    expect(readStatusBits(bits, 1, 2)).toBe(0b10);
+    expect(() => readStatusBits(bits, 16)).toThrow('out of range');
+  });
+});
+
+describe('checkCredentialStatus', () => {
+  let issuer: SigningKey & { did: string };
+  let statusList: VerifiableCredential;
+
+  beforeAll(async () => {
+    issuer = await createIssuerKey();
+    statusList = await createStatusListCredential(issuer);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    clearStatusListCache();
+  });
+
+  const serve = (credential: VerifiableCredential) => {
+    const fetchList = vi.fn(async () => Response.json(credential));
+    vi.stubGlobal('fetch', fetchList);
+    return fetchList;
+  };
+
+  it('reports credentials without a status entry', async () => {
+    const credential = createCredential(issuer.did, 0);
+    delete credential.credentialStatus;
+    expect((await checkCredentialStatus(credential)).state).toBe('none');
+  });
+
+  it('reads revoked and active entries from the issuer\'s signed list', async () => {
+    const fetchList = serve(statusList);
+
+    expect((await checkCredentialStatus(createCredential(issuer.did, REVOKED_INDEX))).state).toBe('revoked');
+    expect((await checkCredentialStatus(createCredential(issuer.did, REVOKED_INDEX + 1))).state).toBe('active');
+    expect(fetchList).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not trust a list signed by someone other than the credential issuer', async () => {
+    serve(statusList);
+    const result = await checkCredentialStatus(createCredential((await createIssuerKey()).did, REVOKED_INDEX));
+
+    expect(result.state).toBe('unknown');
+    expect(result.message).toContain('not issued by the credential issuer');
+  });
+
+  it('does not trust a list whose bits were changed after signing', async () => {
+    serve({
+      ...statusList,
+      credentialSubject: { ...statusList.credentialSubject, encodedList: await encodeStatusList(new Uint8Array(16384), 'BitstringStatusListEntry') }
+    });
+    const result = await checkCredentialStatus(createCredential(issuer.did, REVOKED_INDEX));
+
+    expect(result.state).toBe('unknown');
+    expect(result.message).toContain('could not be verified');
+  });
+});
+
+describe('wallet status lists', () => {
+  beforeAll(async () => {
+    await initializeVault('test passphrase');
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    clearStatusListCache();
+  });
+
+  // The wallet app's status list route, with a verifier fetching from the same place
+  const serveWalletApp = () => {
+    vi.stubGlobal('location', { origin: 'https://wallet.example' });
+    vi.stubGlobal('fetch', vi.fn(async (url: string, init?: RequestInit) => {
+      if (init?.method === 'PUT') {
+        await publishStatusList(url, JSON.parse(init.body as string));
+        return new Response(null, { status: 204 });
+      }
+      const published = getPublishedStatusList(url);
+      return published ? Response.json(published) : new Response(null, { status: 404 });
+    }));
+  };
+
+  it('allocates an index only once a credential is committed, and publishes the list where its entries point', async () => {
+    serveWalletApp();
+    const entry = reserveStatusEntry('2.0');
+    expect(entry.statusListCredential).toMatch(/^https:\/\/wallet\.example\/api\/status-lists\//);
+    expect(reserveStatusEntry('2.0').statusListIndex).toBe(entry.statusListIndex);
+
+    const holder = await getHolderKey();
+    const credential = await signWithDataIntegrity({ ...createCredential(holder.did, 0), credentialStatus: entry }, holder) as VerifiableCredential;
+    await commitStatusEntry(entry);
+    expect(reserveStatusEntry('2.0').statusListIndex).toBe('1');
+    await expect(commitStatusEntry(entry)).rejects.toThrow('was taken by another credential');
+    expect(getPublishedStatusList(entry.statusListCredential as string)).toBeDefined();
+
+    const beforeRevocation = getPublishedStatusList(entry.statusListCredential as string) as VerifiableCredential;
+    await setWalletCredentialRevoked(entry, true);
+    // Putting back the copy from before the revocation would reinstate the credential
+    await expect(publishStatusList(entry.statusListCredential as string, beforeRevocation)).rejects.toThrow('not newer than the published copy');
+
+    // A verifier has only the published list to go by
+    localStorage.removeItem('wallet-status-lists');
+    expect((await checkCredentialStatus(credential)).state).toBe('revoked');
+  });
+
+  it('keeps the index free when the list cannot be published', async () => {
+    vi.stubGlobal('location', { origin: 'https://wallet.example' });
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(null, { status: 503 })));
+    const entry = reserveStatusEntry('1.1');
+
+    await expect(commitStatusEntry(entry)).rejects.toThrow('Failed to publish status list');
+    expect(reserveStatusEntry('1.1')).toEqual(entry);
+  });
+});
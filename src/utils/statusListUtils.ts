@@ -0,0 +1,303 @@
+import { VerifiableCredential, CredentialStatus, CredentialVersion, StatusCheckResult } from '@/types/credential';
+import { CREDENTIALS_V1_CONTEXT, CREDENTIALS_V2_CONTEXT, STATUS_LIST_2021_CONTEXT } from '@/utils/contextUtils';
+import { decodeBase64url, encodeBase64url } from '@/utils/encodingUtils';
+import { verifyCredentialProof, signWithDataIntegrity } from '@/utils/proofUtils';
+import { getHolderKey } from '@/utils/holderKeyUtils';
+
+type StatusEntryType = 'BitstringStatusListEntry' | 'StatusList2021Entry';
+
+const STATUS_ENTRY_TYPES: StatusEntryType[] = ['BitstringStatusListEntry', 'StatusList2021Entry'];
+
+// The minimum list length in both specifications (16KB), so an index says little about who holds it
+const STATUS_LIST_BITS = 131072;
+
+// Status list credentials bundled for the sample credentials, keyed by the URL the samples refer to
+const STATUS_LIST_FIXTURES: Record<string, string> = {
+  'https://example.org/status-lists/revocation/1': '/status-lists/revocation-1.json'
+};
+
+const WALLET_STATUS_LISTS_STORAGE_KEY = 'wallet-status-lists';
+
+// A revocation list the wallet keeps for the credentials it derives, one per entry type so each
+// data model version gets a list credential it understands
+interface WalletStatusList {
+  id: string;
+  // base64url of the uncompressed bitstring
+  bits: string;
+  nextIndex: number;
+}
+
+type WalletStatusLists = Partial<Record<StatusEntryType, WalletStatusList>>;
+
+const transformBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+// Bitstring Status List values are multibase base64url ('u' prefix), StatusList2021 ones plain base64url;
+// GZIP output always starts "H4sI" in base64, so the prefix is unambiguous
+export const decodeStatusList = async (encodedList: string): Promise<Uint8Array> =>
+  transformBytes(decodeBase64url(encodedList.startsWith('u') ? encodedList.slice(1) : encodedList), new DecompressionStream('gzip'));
+
+export const encodeStatusList = async (bits: Uint8Array, type: StatusEntryType): Promise<string> => {
+  const encoded = encodeBase64url(await transformBytes(bits, new CompressionStream('gzip')));
+  return type === 'BitstringStatusListEntry' ? 'u' + encoded : encoded;
+};
+
+// Status of the entry at an index; the first index is the most significant bit of the first byte
+export const readStatusBits = (bits: Uint8Array, index: number, statusSize = 1): number => {
+  if (!Number.isInteger(index) || index < 0 || (index + 1) * statusSize > bits.length * 8) {
+    throw new Error(`Status list index ${index} is out of range`);
+  }
+  let value = 0;
+  for (let position = index * statusSize; position < (index + 1) * statusSize; position++) {
+    value = (value << 1) | ((bits[position >> 3] >> (7 - (position & 7))) & 1);
+  }
+  return value;
+};
+
+const writeStatusBit = (bits: Uint8Array, index: number, set: boolean) => {
+  const mask = 1 << (7 - (index & 7));
+  bits[index >> 3] = set ? bits[index >> 3] | mask : bits[index >> 3] & ~mask;
+};
+
+const loadWalletStatusLists = (): WalletStatusLists => {
+  if (typeof localStorage === 'undefined') return {};
+
+  try {
+    const stored = localStorage.getItem(WALLET_STATUS_LISTS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as WalletStatusLists : {};
+  } catch (error) {
+    console.error('Failed to load wallet status lists:', error);
+    return {};
+  }
+};
+
+const saveWalletStatusLists = (lists: WalletStatusLists) => {
+  localStorage.setItem(WALLET_STATUS_LISTS_STORAGE_KEY, JSON.stringify(lists));
+};
+
+const findWalletStatusList = (listId: unknown): [StatusEntryType, WalletStatusList] | undefined =>
+  (Object.entries(loadWalletStatusLists()) as Array<[StatusEntryType, WalletStatusList]>)
+    .find(([, list]) => list.id === listId);
+
+// Wallet lists are published by the wallet app's own server, where verifiers fetch them
+const WALLET_STATUS_LIST_PATH = '/api/status-lists/';
+
+const getEntryType = (version: CredentialVersion): StatusEntryType =>
+  version === '2.0' ? 'BitstringStatusListEntry' : 'StatusList2021Entry';
+
+const createWalletStatusListId = () => {
+  if (typeof location === 'undefined') {
+    throw new Error('Wallet status lists can only be created in the wallet app');
+  }
+  return `${location.origin}${WALLET_STATUS_LIST_PATH}${crypto.randomUUID()}`;
+};
+
+// The entry the next credential derived with a status would get; nothing is allocated until the
+// credential is signed and its entry committed, so a failed derivation does not use up an index
+export const reserveStatusEntry = (version: CredentialVersion): CredentialStatus => {
+  const type = getEntryType(version);
+  const list = loadWalletStatusLists()[type];
+  const index = list?.nextIndex ?? 0;
+  if (index >= STATUS_LIST_BITS) {
+    throw new Error('The wallet status list is full');
+  }
+  const listId = list?.id ?? createWalletStatusListId();
+  return {
+    id: `${listId}#${index}`,
+    type,
+    statusPurpose: 'revocation',
+    statusListIndex: String(index),
+    statusListCredential: listId
+  };
+};
+
+// Allocate a reserved entry to the credential that was signed with it. The list is published first
+// (again, in case the server lost it), and the index only taken once verifiers can fetch the list.
+export const commitStatusEntry = async (entry: CredentialStatus): Promise<void> => {
+  const type = entry.type as StatusEntryType;
+  const lists = loadWalletStatusLists();
+  const list = lists[type] ?? { id: entry.statusListCredential as string, bits: encodeBase64url(new Uint8Array(STATUS_LIST_BITS / 8)), nextIndex: 0 };
+  const index = Number(entry.statusListIndex);
+  if (list.id !== entry.statusListCredential || list.nextIndex !== index) {
+    throw new Error(`Status list index ${index} was taken by another credential`);
+  }
+  if (!lists[type]) {
+    saveWalletStatusLists({ ...lists, [type]: list });
+  }
+  await publishWalletStatusList(list.id);
+
+  const current = loadWalletStatusLists();
+  if (current[type]?.nextIndex !== index) {
+    throw new Error(`Status list index ${index} was taken by another credential`);
+  }
+  saveWalletStatusLists({ ...current, [type]: { ...current[type], nextIndex: index + 1 } });
+};
+
+const getStatusEntries = (credential: VerifiableCredential): CredentialStatus[] =>
+  credential.credentialStatus
+    ? Array.isArray(credential.credentialStatus) ? credential.credentialStatus : [credential.credentialStatus]
+    : [];
+
+// The wallet-managed status entry of a credential the wallet derived, if it has one
+export const getWalletStatusEntry = (credential: VerifiableCredential): CredentialStatus | undefined =>
+  getStatusEntries(credential).find(entry => findWalletStatusList(entry.statusListCredential));
+
+// Revoke (or reinstate) a credential the wallet derived with a status entry, and publish the changed list
+export const setWalletCredentialRevoked = async (entry: CredentialStatus, revoked: boolean): Promise<void> => {
+  const found = findWalletStatusList(entry.statusListCredential);
+  if (!found) {
+    throw new Error('Status entry is not on a wallet status list');
+  }
+  const [type, list] = found;
+  const bits = decodeBase64url(list.bits);
+  writeStatusBit(bits, Number(entry.statusListIndex), revoked);
+  saveWalletStatusLists({ ...loadWalletStatusLists(), [type]: { ...list, bits: encodeBase64url(bits) } });
+  await publishWalletStatusList(list.id);
+};
+
+// Each signed copy of a wallet list is dated later than the last, since the status list route only
+// replaces a published list with a newer one
+let lastListIssuedAt = 0;
+
+// The signed status list credential for a wallet list, to publish at its id so verifiers can check it
+export const getWalletStatusListCredential = async (listId: string): Promise<VerifiableCredential> => {
+  const found = findWalletStatusList(listId);
+  if (!found) {
+    throw new Error(`${listId} is not a wallet status list`);
+  }
+  const [type, list] = found;
+  const holderKey = await getHolderKey();
+  lastListIssuedAt = Math.max(Date.now(), lastListIssuedAt + 1);
+  const now = new Date(lastListIssuedAt).toISOString();
+  const encodedList = await encodeStatusList(decodeBase64url(list.bits), type);
+
+  const credential: VerifiableCredential = type === 'BitstringStatusListEntry'
+    ? {
+        '@context': [CREDENTIALS_V2_CONTEXT],
+        id: list.id,
+        type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+        issuer: holderKey.did,
+        validFrom: now,
+        credentialSubject: { id: `${list.id}#list`, type: 'BitstringStatusList', statusPurpose: 'revocation', encodedList }
+      }
+    : {
+        '@context': [CREDENTIALS_V1_CONTEXT, STATUS_LIST_2021_CONTEXT],
+        id: list.id,
+        type: ['VerifiableCredential', 'StatusList2021Credential'],
+        issuer: holderKey.did,
+        issuanceDate: now,
+        credentialSubject: { id: `${list.id}#list`, type: 'StatusList2021', statusPurpose: 'revocation', encodedList }
+      };
+  return signWithDataIntegrity(credential, holderKey, { created: now });
+};
+
+// Put the signed list where its id points. Lists made before the wallet published them have urn:uuid
+// ids that no verifier can fetch; they can still be downloaded and hosted by hand.
+export const publishWalletStatusList = async (listId: string): Promise<void> => {
+  if (!/^https?:\/\//.test(listId)) return;
+
+  const response = await fetch(listId, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(await getWalletStatusListCredential(listId))
+  });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({})) as { error_description?: string };
+    throw new Error(`Failed to publish status list: ${error.error_description ?? `HTTP ${response.status}`}`);
+  }
+};
+
+// Fetched status lists, kept for the session so the wallet does not ask the issuer on every render
+const statusListCache = new Map<string, Promise<VerifiableCredential>>();
+
+export const clearStatusListCache = () => statusListCache.clear();
+
+const fetchStatusListCredential = (url: string): Promise<VerifiableCredential> => {
+  let cached = statusListCache.get(url);
+  if (!cached) {
+    cached = (async () => {
+      const response = await fetch(STATUS_LIST_FIXTURES[url] ?? url, {
+        headers: { 'Accept': 'application/vc+ld+json, application/ld+json, application/json' }
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} fetching status list ${url}`);
+      }
+      return await response.json() as VerifiableCredential;
+    })();
+    // A failed fetch is retried on the next check
+    cached.catch(() => statusListCache.delete(url));
+    statusListCache.set(url, cached);
+  }
+  return cached;
+};
+
+const getIssuerId = (credential: VerifiableCredential) =>
+  typeof credential.issuer === 'string' ? credential.issuer : credential.issuer.id;
+
+// The bitstring an entry refers to, from the wallet's own lists or a status list credential that was
+// signed by the same issuer as the credential and is still valid
+const loadStatusBits = async (credential: VerifiableCredential, entry: CredentialStatus): Promise<Uint8Array> => {
+  const walletList = findWalletStatusList(entry.statusListCredential);
+  if (walletList) {
+    if (getIssuerId(credential) !== (await getHolderKey()).did) {
+      throw new Error('Credential refers to a wallet status list it was not issued with');
+    }
+    return decodeBase64url(walletList[1].bits);
+  }
+
+  if (typeof entry.statusListCredential !== 'string') {
+    throw new Error('Status entry has no statusListCredential');
+  }
+  const listCredential = await fetchStatusListCredential(entry.statusListCredential);
+  const proof = await verifyCredentialProof(listCredential);
+  if (proof.status !== 'verified') {
+    throw new Error(`Status list credential could not be verified: ${proof.message}`);
+  }
+  if (getIssuerId(listCredential) !== getIssuerId(credential)) {
+    throw new Error('Status list credential was not issued by the credential issuer');
+  }
+  const validUntil = listCredential.validUntil || listCredential.expirationDate;
+  if (validUntil && new Date(validUntil) < new Date()) {
+    throw new Error('Status list credential has expired');
+  }
+  const subject = listCredential.credentialSubject;
+  if (subject.statusPurpose !== entry.statusPurpose) {
+    throw new Error(`Status list is for ${subject.statusPurpose}, not ${entry.statusPurpose}`);
+  }
+  if (typeof subject.encodedList !== 'string') {
+    throw new Error('Status list credential has no encodedList');
+  }
+  return decodeStatusList(subject.encodedList);
+};
+
+// Check a credential's revocation and suspension entries; entries for other purposes (e.g. message)
+// and of other types are ignored
+export const checkCredentialStatus = async (credential: VerifiableCredential): Promise<StatusCheckResult> => {
+  const entries = getStatusEntries(credential)
+    .filter(entry => STATUS_ENTRY_TYPES.includes(entry.type as StatusEntryType))
+    .filter(entry => entry.statusPurpose === 'revocation' || entry.statusPurpose === 'suspension');
+  if (entries.length === 0) {
+    return getStatusEntries(credential).length > 0
+      ? { state: 'unknown', message: 'Credential has no supported revocation or suspension status entry' }
+      : { state: 'none', message: 'Credential has no status entry' };
+  }
+
+  try {
+    const setPurposes = new Set<string>();
+    for (const entry of entries) {
+      const bits = await loadStatusBits(credential, entry);
+      const statusSize = entry.statusSize ? Number(entry.statusSize) : 1;
+      if (readStatusBits(bits, Number(entry.statusListIndex), statusSize) !== 0) {
+        setPurposes.add(entry.statusPurpose as string);
+      }
+    }
+    if (setPurposes.has('revocation')) return { state: 'revoked', message: 'Credential has been revoked by its issuer' };
+    if (setPurposes.has('suspension')) return { state: 'suspended', message: 'Credential has been suspended by its issuer' };
+    return { state: 'active', message: 'Credential is neither revoked nor suspended' };
+  } catch (error) {
+    return {
+      state: 'unknown',
+      message: `Status check failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+    };
+  }
+};
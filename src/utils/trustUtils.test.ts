@@ -0,0 +1,64 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { TrustList, VerifiableCredential } from '@/types/credential';
+import { ed25519PublicKeyToDidKey } from '@/utils/holderKeyUtils';
+import { SigningKey, signWithDataIntegrity } from '@/utils/proofUtils';
+import { checkIssuerTrust, describeTrustPolicyChanges, filterTrustedCredentials, getTrustPolicy } from '@/utils/trustUtils';
+
+const createIssuerKey = async (): Promise<SigningKey & { did: string }> => {
+  const keyPair = await crypto.subtle.generateKey({ name: 'Ed25519' }, true, ['sign', 'verify']) as CryptoKeyPair;
+  const did = await ed25519PublicKeyToDidKey(keyPair.publicKey);
+  return { did, verificationMethod: `${did}#${did.slice('did:key:'.length)}`, algorithm: 'Ed25519', privateKey: keyPair.privateKey };
+};
+
+const issueCredential = (issuer: SigningKey & { did: string }, type: string): Promise<VerifiableCredential> =>
+  signWithDataIntegrity({
+    '@context': ['https://www.w3.org/ns/credentials/v2', { '@vocab': 'https://schema.org/' }],
+    id: `urn:uuid:${crypto.randomUUID()}`,
+    type: ['VerifiableCredential', type],
+    issuer: issuer.did,
+    validFrom: '2024-01-01T00:00:00Z',
+    credentialSubject: { id: 'did:example:alex', name: 'Alex' }
+  }, issuer) as Promise<VerifiableCredential>;
+
+const trustList = (name: string, did: string, credentialTypes: string[]): TrustList =>
+  ({ name, format: 'json', issuers: [{ did, credentialTypes }], addedAt: '2024-01-01T00:00:00Z' });
+
+describe('trust filtering', () => {
+  let employer: SigningKey & { did: string };
+  let employee: VerifiableCredential;
+  let diploma: VerifiableCredential;
+  let lists: TrustList[];
+
+  beforeAll(async () => {
+    employer = await createIssuerKey();
+    employee = await issueCredential(employer, 'EmployeeCredential');
+    diploma = await issueCredential(await createIssuerKey(), 'DiplomaCredential');
+    lists = [trustList('Employers', employer.did, ['EmployeeCredential'])];
+  });
+
+  it('keeps only credentials whose verified issuer is trusted for their type', async () => {
+    const forgedIssuer = { ...diploma, issuer: employer.did, type: ['VerifiableCredential', 'EmployeeCredential'] };
+    const otherType = await issueCredential(employer, 'DiplomaCredential');
+
+    expect(await filterTrustedCredentials([employee, diploma, forgedIssuer, otherType], lists)).toEqual([employee]);
+  });
+
+  it('only trusts a listed issuer once the proof is verified and the status checked', () => {
+    expect(checkIssuerTrust(employee, lists).status).toBe('unverified');
+    expect(checkIssuerTrust(employee, lists, { status: 'verified', message: '' }, { state: 'none', message: '' }).status).toBe('trusted');
+    expect(checkIssuerTrust(employee, lists, { status: 'verified', message: '' }, { state: 'revoked', message: '' }).status).toBe('untrusted');
+    expect(checkIssuerTrust(diploma, lists).message).toBe('Issuer is not on any trust list');
+  });
+
+  it('describes how the trust lists changed since a policy was recorded', async () => {
+    const policy = await getTrustPolicy([...lists, trustList('Universities', 'did:example:university', ['*'])]);
+    expect(await describeTrustPolicyChanges(policy, [...lists, trustList('Universities', 'did:example:university', ['*'])])).toEqual([]);
+
+    const current = [trustList('Employers', employer.did, ['*']), trustList('Registry', 'did:example:registry', ['*'])];
+    expect(await describeTrustPolicyChanges(policy, current)).toEqual([
+      'Universities has been removed',
+      'Employers has changed',
+      'Registry has been added'
+    ]);
+  });
+});
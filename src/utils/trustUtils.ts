@@ -0,0 +1,350 @@
+import {
+  VerifiableCredential,
+  ProofVerificationResult,
+  StatusCheckResult,
+  TrustedIssuer,
+  TrustList,
+  TrustListFormat,
+  TrustCheckResult,
+  TrustPolicy
+} from '@/types/credential';
+import { hashContext } from '@/utils/contextUtils';
+import { getIssuerId } from '@/utils/issuerUtils';
+import { decodeJwtClaims } from '@/utils/jwtUtils';
+import { verifyCredentialProof } from '@/utils/proofUtils';
+import { checkCredentialStatus } from '@/utils/statusListUtils';
+
+const TRUST_LISTS_STORAGE_KEY = 'wallet-trust-lists';
+
+// Issuers added by hand go into this list
+export const MY_TRUSTED_ISSUERS = 'My trusted issuers';
+
+export const ANY_CREDENTIAL_TYPE = '*';
+
+// Every credential and EBSI attestation has these types, so accrediting them says nothing
+const GENERIC_TYPES = ['VerifiableCredential', 'VerifiableAttestation'];
+
+interface ParsedTrustList {
+  format: TrustListFormat;
+  name?: string;
+  issuers: TrustedIssuer[];
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Trust list files converted from XML hold single children as values and repeated ones as arrays
+const asArray = (value: unknown): unknown[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+// The first text in a (possibly multilingual) name such as "Name" or { Name: [{ lang: "en", value: "Name" }] }
+const readText = (value: unknown): string | undefined => {
+  if (typeof value === 'string') return value.trim() || undefined;
+  const items = Array.isArray(value)
+    ? value
+    : isObject(value) ? Object.entries(value).filter(([key]) => !key.startsWith('@') && key !== 'lang').map(([, item]) => item) : [];
+  for (const item of items) {
+    const text = readText(item);
+    if (text) return text;
+  }
+  return undefined;
+};
+
+const isDid = (value: unknown): value is string => typeof value === 'string' && /^did:[a-z0-9]+:./.test(value);
+
+// The last segment of a type IRI, so https://example.org/vocab#EmployeeCredential matches EmployeeCredential
+const getLocalName = (type: string): string => type.split(/[/#:]/).pop() ?? type;
+
+const isIri = (type: string): boolean => /^[A-Za-z][A-Za-z0-9+.-]*:/.test(type);
+
+// Issuers listed more than once are trusted for all the types they are listed with
+const mergeIssuers = (issuers: TrustedIssuer[]): TrustedIssuer[] => {
+  const merged = new Map<string, TrustedIssuer>();
+  for (const issuer of issuers) {
+    const existing = merged.get(issuer.did);
+    const credentialTypes = [...new Set([...(existing?.credentialTypes ?? []), ...issuer.credentialTypes])];
+    merged.set(issuer.did, {
+      did: issuer.did,
+      ...((existing?.name ?? issuer.name) && { name: existing?.name ?? issuer.name }),
+      credentialTypes: credentialTypes.includes(ANY_CREDENTIAL_TYPE) ? [ANY_CREDENTIAL_TYPE] : credentialTypes
+    });
+  }
+  return [...merged.values()];
+};
+
+const toCredentialTypes = (types: unknown): string[] => {
+  const specific = asArray(types).filter((type): type is string => typeof type === 'string' && !GENERIC_TYPES.includes(type));
+  return specific.length > 0 ? specific : [ANY_CREDENTIAL_TYPE];
+};
+
+// The wallet's own format: a list of issuers, optionally under "issuers" with a list name, or a map
+// from credential type to the DIDs trusted to issue it
+const parseNativeTrustList = (json: unknown): ParsedTrustList => {
+  if (isObject(json) && !('issuers' in json) && Object.values(json).every(dids => Array.isArray(dids) && dids.every(isDid))) {
+    return {
+      format: 'json',
+      issuers: Object.entries(json).flatMap(([type, dids]) =>
+        (dids as string[]).map(did => ({ did, credentialTypes: [type] })))
+    };
+  }
+
+  const entries = Array.isArray(json) ? json : isObject(json) ? asArray(json.issuers) : [];
+  const issuers = entries.map((entry, index) => {
+    if (!isObject(entry) || !isDid(entry.did)) {
+      throw new Error(`Issuer ${index + 1} has no DID`);
+    }
+    return {
+      did: entry.did,
+      ...(typeof entry.name === 'string' && { name: entry.name }),
+      credentialTypes: toCredentialTypes(entry.credentialTypes ?? entry.types)
+    };
+  });
+  return { format: 'json', name: isObject(json) ? readText(json.name) : undefined, issuers };
+};
+
+// An EBSI accreditation, as a JWT or a decoded credential, names the types its holder may issue.
+// An accreditation that cannot be decoded or names no specific type accredits nothing
+const readAccreditedTypes = (body: unknown): string[] => {
+  let accreditation = body;
+  if (typeof body === 'string') {
+    try {
+      accreditation = decodeJwtClaims(body).payload.vc;
+    } catch {
+      return [];
+    }
+  }
+  const subject = isObject(accreditation) ? accreditation.credentialSubject : undefined;
+  const accreditedFor = isObject(subject) ? asArray(subject.accreditedFor) : [];
+  return accreditedFor
+    .flatMap(entry => isObject(entry) ? asArray(entry.types) : [])
+    .filter((type): type is string => typeof type === 'string' && !GENERIC_TYPES.includes(type));
+};
+
+// An EBSI Trusted Issuers Registry export: the registry's issuer list ({ items: [{ did }] }) or issuer
+// records ({ did, attributes }), whose accreditations limit the types each issuer is trusted for
+const parseEbsiTrustList = (json: JsonObject): ParsedTrustList => ({
+  format: 'ebsi',
+  issuers: (Array.isArray(json.items) ? json.items : [json]).flatMap(item => {
+    if (!isObject(item) || !isDid(item.did)) return [];
+    const attributes = asArray(item.attributes).filter(isObject);
+    if (attributes.length === 0) return [{ did: item.did, credentialTypes: [ANY_CREDENTIAL_TYPE] }];
+    // Revoked accreditations no longer make their holder a trusted issuer
+    const current = attributes.filter(attribute => attribute.issuerType !== 'Revoked');
+    return current.flatMap(attribute => {
+      const credentialTypes = readAccreditedTypes(attribute.body);
+      return credentialTypes.length > 0 ? [{ did: item.did as string, credentialTypes }] : [];
+    });
+  })
+});
+
+// A TRAIN trust list in the JSON form of an ETSI TS 119 612 trust status list: each service names the
+// credential type it issues in its ServiceTypeIdentifier and its DIDs in its ServiceDigitalIdentity
+const parseTrainTrustList = (json: JsonObject): ParsedTrustList => {
+  const list = json.TrustServiceStatusList as JsonObject;
+  const schemeInformation = isObject(list.SchemeInformation) ? list.SchemeInformation : {};
+  const providers = isObject(list.TrustServiceProviderList)
+    ? asArray(list.TrustServiceProviderList.TrustServiceProvider).filter(isObject)
+    : [];
+
+  const collectDids = (value: unknown): string[] =>
+    isDid(value) ? [value] : Array.isArray(value) || isObject(value) ? Object.values(value).flatMap(collectDids) : [];
+
+  return {
+    format: 'train',
+    name: readText(schemeInformation.SchemeName) ?? readText(schemeInformation.SchemeOperatorName),
+    issuers: providers.flatMap(provider => {
+      const name = isObject(provider.TSPInformation) ? readText(provider.TSPInformation.TSPName) : undefined;
+      const services = isObject(provider.TSPServices) ? asArray(provider.TSPServices.TSPService).filter(isObject) : [];
+      return services.flatMap(service => {
+        const information = isObject(service.ServiceInformation) ? service.ServiceInformation : service;
+        const serviceType = readText(information.ServiceTypeIdentifier);
+        return collectDids(information.ServiceDigitalIdentity).map(did => ({
+          did,
+          ...(name && { name }),
+          credentialTypes: toCredentialTypes(serviceType && getLocalName(serviceType))
+        }));
+      });
+    })
+  };
+};
+
+// Read a trust list file in any of the supported formats
+export const parseTrustList = (text: string): ParsedTrustList => {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('Trust list is not valid JSON (TRAIN lists must be in their JSON form)');
+  }
+
+  const parsed = isObject(json) && isObject(json.TrustServiceStatusList)
+    ? parseTrainTrustList(json)
+    : isObject(json) && (Array.isArray(json.items) || (isDid(json.did) && 'attributes' in json))
+      ? parseEbsiTrustList(json)
+      : parseNativeTrustList(json);
+
+  const issuers = mergeIssuers(parsed.issuers);
+  if (issuers.length === 0) {
+    throw new Error('No trusted issuer DIDs found in the trust list');
+  }
+  return { ...parsed, issuers };
+};
+
+export const loadTrustLists = (): TrustList[] => {
+  if (typeof localStorage === 'undefined') return [];
+
+  try {
+    const stored = localStorage.getItem(TRUST_LISTS_STORAGE_KEY);
+    return stored ? JSON.parse(stored) as TrustList[] : [];
+  } catch (error) {
+    console.error('Failed to load trust lists:', error);
+    return [];
+  }
+};
+
+const saveTrustLists = (lists: TrustList[]) => {
+  localStorage.setItem(TRUST_LISTS_STORAGE_KEY, JSON.stringify(lists));
+};
+
+// Store a trust list, replacing any earlier list with its name
+const storeTrustList = (list: TrustList): TrustList => {
+  saveTrustLists([...loadTrustLists().filter(existing => existing.name !== list.name), list]);
+  return list;
+};
+
+// Import a trust list file, under the given name or else the name the file gives itself
+export const importTrustList = (text: string, name?: string): TrustList => {
+  const parsed = parseTrustList(text);
+  const listName = name?.trim() || parsed.name;
+  if (!listName) {
+    throw new Error('Trust list needs a name');
+  }
+  return storeTrustList({ name: listName, format: parsed.format, issuers: parsed.issuers, addedAt: new Date().toISOString() });
+};
+
+export const removeTrustList = (name: string) => {
+  saveTrustLists(loadTrustLists().filter(list => list.name !== name));
+};
+
+// Trust an issuer by hand for some credential types (or any, if none are given)
+export const addTrustedIssuer = (did: string, credentialTypes: string[], name?: string): TrustList => {
+  if (!isDid(did.trim())) {
+    throw new Error(`${did} is not a DID`);
+  }
+  const existing = loadTrustLists().find(list => list.name === MY_TRUSTED_ISSUERS);
+  const issuer: TrustedIssuer = {
+    did: did.trim(),
+    ...(name?.trim() && { name: name.trim() }),
+    credentialTypes: toCredentialTypes(credentialTypes.map(type => type.trim()).filter(Boolean))
+  };
+  return storeTrustList({
+    name: MY_TRUSTED_ISSUERS,
+    format: 'json',
+    issuers: mergeIssuers([...(existing?.issuers ?? []), issuer]),
+    addedAt: existing?.addedAt ?? new Date().toISOString()
+  });
+};
+
+// Two IRIs must be the same IRI; a term matches an IRI by its local name
+const isSameType = (type: string, trusted: string): boolean =>
+  type === trusted || (!(isIri(type) && isIri(trusted)) && getLocalName(type) === getLocalName(trusted));
+
+const isTrustedFor = (issuer: TrustedIssuer, credentialTypes: string[]): boolean =>
+  issuer.credentialTypes.some(trusted => trusted === ANY_CREDENTIAL_TYPE ||
+    credentialTypes.some(type => isSameType(type, trusted)));
+
+// Whether the lists trust a credential's issuer for one of its types; an issuer is only trusted once the
+// credential's proof is verified, since anyone can write a listed DID into the issuer field, and while
+// the credential is known to be neither revoked nor suspended
+export const checkIssuerTrust = (
+  credential: VerifiableCredential,
+  lists: TrustList[],
+  verification?: ProofVerificationResult,
+  status?: StatusCheckResult
+): TrustCheckResult => {
+  const issuerId = getIssuerId(credential.issuer);
+  const listedFor = lists.filter(list => list.issuers.some(issuer => issuer.did === issuerId));
+  const trustedBy = listedFor.filter(list =>
+    list.issuers.some(issuer => issuer.did === issuerId && isTrustedFor(issuer, credential.type)));
+
+  if (trustedBy.length === 0) {
+    return {
+      status: 'untrusted',
+      message: listedFor.length > 0
+        ? `Issuer is trusted by ${listedFor.map(list => list.name).join(', ')}, but not for this credential type`
+        : 'Issuer is not on any trust list',
+      lists: []
+    };
+  }
+
+  const names = trustedBy.map(list => list.name);
+  if (verification?.status !== 'verified') {
+    return {
+      status: 'unverified',
+      message: `Issuer is trusted by ${names.join(', ')}, but the proof ${verification ? 'did not verify' : 'has not been verified yet'}`,
+      lists: names
+    };
+  }
+  if (status?.state === 'revoked' || status?.state === 'suspended') {
+    return {
+      status: 'untrusted',
+      message: `Issuer is trusted by ${names.join(', ')}, but the credential has been ${status.state}`,
+      lists: names
+    };
+  }
+  if (!status || status.state === 'unknown') {
+    return {
+      status: 'unverified',
+      message: `Issuer is trusted by ${names.join(', ')}, but the credential's status ${status ? 'could not be checked' : 'has not been checked yet'}`,
+      lists: names
+    };
+  }
+  return { status: 'trusted', message: `Issuer is trusted by ${names.join(', ')}`, lists: names };
+};
+
+// Proofs are verified once per credential object, however many queries are restricted with it
+const verifications = new WeakMap<VerifiableCredential, Promise<ProofVerificationResult>>();
+
+const getVerification = (credential: VerifiableCredential): Promise<ProofVerificationResult> => {
+  let verification = verifications.get(credential);
+  if (!verification) {
+    verification = verifyCredentialProof(credential);
+    verifications.set(credential, verification);
+  }
+  return verification;
+};
+
+// The credentials whose issuer the lists trust for their type, with their proof verified and their
+// status checked now, since a credential can be revoked at any time
+export const filterTrustedCredentials = async (
+  credentials: VerifiableCredential[],
+  lists: TrustList[]
+): Promise<VerifiableCredential[]> => {
+  const results = await Promise.all(credentials.map(async credential => {
+    const [verification, status] = await Promise.all([getVerification(credential), checkCredentialStatus(credential)]);
+    return checkIssuerTrust(credential, lists, verification, status).status === 'trusted';
+  }));
+  return credentials.filter((_, index) => results[index]);
+};
+
+// The policy to record in credentials derived under the lists: their names, and hashes of their
+// contents so a later change to a list can be told apart
+export const getTrustPolicy = async (lists: TrustList[]): Promise<TrustPolicy> => ({
+  type: 'TrustedIssuersPolicy',
+  trustLists: await Promise.all(lists.map(async list => ({ name: list.name, sha256: await hashContext(list.issuers) })))
+});
+
+// How the lists differ from those a credential was derived under, by name and content hash, one line
+// per list that was removed, changed or added since
+export const describeTrustPolicyChanges = async (policy: TrustPolicy, lists: TrustList[]): Promise<string[]> => {
+  const current = (await getTrustPolicy(lists)).trustLists;
+  const recorded = policy.trustLists;
+  return [
+    ...recorded.filter(list => !current.some(({ name }) => name === list.name)).map(list => `${list.name} has been removed`),
+    ...recorded.filter(list => current.some(({ name, sha256 }) => name === list.name && sha256 !== list.sha256))
+      .map(list => `${list.name} has changed`),
+    ...current.filter(list => !recorded.some(({ name }) => name === list.name)).map(list => `${list.name} has been added`)
+  ];
+};